@@ -0,0 +1,133 @@
+#!/usr/bin/env npx tsx
+/**
+ * Offline Dispatch Evaluation
+ *
+ * Runs DispatchService over a labelled JSONL corpus and prints accuracy,
+ * fallback rate and a confusion matrix per workflow. Run it before and after
+ * editing src/prompt/dispatch.prompt or a workflow manifest.
+ *
+ * Usage:
+ *   npx tsx scripts/dispatch-eval.ts <corpus.jsonl> [options]
+ *   npx tsx scripts/dispatch-eval.ts --overrides [options]
+ *   # or
+ *   npm run dispatch:eval -- <corpus.jsonl>
+ */
+
+const USAGE = `
+Dispatch Evaluation
+
+Usage:
+  npx tsx scripts/dispatch-eval.ts <corpus.jsonl> [options]
+  npx tsx scripts/dispatch-eval.ts --overrides [options]
+
+Corpus lines need an input ("input", "text" or "title" + "body") and a label
+("expected", "expected_workflow" or "workflow"), e.g.
+  {"id": "pr-1", "input": "https://github.com/org/repo/pull/456", "expected": "pr-review"}
+
+Options:
+  --overrides             Use data/dispatch-overrides.jsonl (label = workflow users switched to)
+  --backend <stub|claude> Classifier backend (default: stub)
+                          stub   deterministic keyword matcher, no network
+                          claude the production dispatch model (needs Claude credentials)
+  --min-accuracy <0-1>    Exit with code 1 when accuracy is below this value
+  --json                  Print the full report as JSON
+`;
+
+interface Options {
+  corpus?: string;
+  overrides: boolean;
+  backend: string;
+  minAccuracy?: number;
+  json: boolean;
+}
+
+function parseArgs(args: string[]): Options | undefined {
+  const options: Options = { overrides: false, backend: 'stub', json: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--overrides':
+        options.overrides = true;
+        break;
+      case '--backend':
+        options.backend = args[++i];
+        break;
+      case '--min-accuracy':
+        options.minAccuracy = parseFloat(args[++i]);
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--help':
+      case '-h':
+        return undefined;
+      default:
+        if (arg.startsWith('--') || options.corpus) return undefined;
+        options.corpus = arg;
+    }
+  }
+
+  const validBackend = options.backend === 'stub' || options.backend === 'claude';
+  const validAccuracy = options.minAccuracy === undefined || Number.isFinite(options.minAccuracy);
+  if (!validBackend || !validAccuracy || options.overrides === !!options.corpus) {
+    return undefined;
+  }
+  return options;
+}
+
+// Main entry point
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  // Keep classifier logs out of the report unless asked for
+  process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+  const { DispatchService } = await import('../src/dispatch-service');
+  const { dispatchOverrideLog } = await import('../src/dispatch-override-log');
+  const { KeywordDispatchClassifier, casesFromOverrides, formatEvalReport, loadEvalCorpus, runDispatchEval } =
+    await import('../src/dispatch-eval');
+
+  let cases;
+  if (options.overrides) {
+    cases = casesFromOverrides(dispatchOverrideLog.list());
+    console.error(`Loaded ${cases.length} cases from ${dispatchOverrideLog.getFilePath()}`);
+  } else {
+    const corpus = loadEvalCorpus(options.corpus!);
+    cases = corpus.cases;
+    console.error(`Loaded ${cases.length} cases from ${options.corpus} (${corpus.skipped} unlabelled lines skipped)`);
+  }
+
+  let classifier;
+  if (options.backend === 'claude') {
+    const { ClaudeHandler } = await import('../src/claude-handler');
+    const { McpManager } = await import('../src/mcp-manager');
+    classifier = new ClaudeHandler(new McpManager());
+  } else {
+    classifier = new KeywordDispatchClassifier();
+  }
+
+  const service = new DispatchService(classifier);
+  const report = await runDispatchEval(service, cases, (result) => {
+    if (!options.json) {
+      process.stderr.write(result.predicted === result.case.expected ? '.' : 'x');
+    }
+  });
+  if (!options.json) process.stderr.write('\n\n');
+
+  console.log(options.json ? JSON.stringify(report, null, 2) : formatEvalReport(report));
+
+  if (options.minAccuracy !== undefined && report.accuracy < options.minAccuracy) {
+    console.error(`\nAccuracy ${(report.accuracy * 100).toFixed(1)}% is below ${(options.minAccuracy * 100).toFixed(1)}%`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Error:', error.message);
+  process.exit(1);
+});
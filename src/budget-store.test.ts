@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BudgetStore } from './budget-store';
+
+describe('BudgetStore', () => {
+  let dataDir: string;
+  let store: BudgetStore;
+  const now = new Date('2026-03-15T12:00:00Z');
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-store-test-'));
+    store = new BudgetStore(dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should allow requests when no limits are set', () => {
+    store.recordSpend('U1', 'C1', 100, now);
+    expect(store.checkBudget('U1', 'C1', now)).toEqual({ allowed: true });
+  });
+
+  it('should block once a user limit is reached', () => {
+    store.setLimit('user', 'U1', 'daily', 5);
+    store.recordSpend('U1', 'C1', 3, now);
+    expect(store.checkBudget('U1', 'C1', now).allowed).toBe(true);
+
+    store.recordSpend('U1', 'C1', 2.5, now);
+    const result = store.checkBudget('U1', 'C1', now);
+    expect(result.allowed).toBe(false);
+    expect(result.exceeded).toMatchObject({ scope: 'user', id: 'U1', period: 'daily', spentUsd: 5.5 });
+  });
+
+  it('should block every user in a channel once the channel limit is reached', () => {
+    store.setLimit('channel', 'C1', 'monthly', 10);
+    store.recordSpend('U1', 'C1', 6, now);
+    store.recordSpend('U2', 'C1', 5, now);
+
+    expect(store.checkBudget('U3', 'C1', now).exceeded).toMatchObject({ scope: 'channel', period: 'monthly' });
+    expect(store.checkBudget('U3', 'C2', now).allowed).toBe(true);
+  });
+
+  it('should reset daily spend on a new day but keep monthly spend', () => {
+    store.setLimit('user', 'U1', 'daily', 5);
+    store.recordSpend('U1', 'C1', 6, now);
+
+    const tomorrow = new Date('2026-03-16T00:30:00Z');
+    expect(store.checkBudget('U1', 'C1', tomorrow).allowed).toBe(true);
+    expect(store.getSpend('user', 'U1', tomorrow)).toEqual({ dailyUsd: 0, monthlyUsd: 6 });
+  });
+
+  it('should announce each threshold once per period', () => {
+    store.setLimit('user', 'U1', 'daily', 10);
+    store.recordSpend('U1', 'C1', 5, now);
+    expect(store.collectWarnings('U1', 'C1', now)).toEqual([]);
+
+    store.recordSpend('U1', 'C1', 3.5, now);
+    const warnings = store.collectWarnings('U1', 'C1', now);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ scope: 'user', period: 'daily', threshold: 0.8 });
+
+    store.recordSpend('U1', 'C1', 0.5, now);
+    expect(store.collectWarnings('U1', 'C1', now)).toEqual([]);
+  });
+
+  it('should treat "off" as unlimited and persist limits across restarts', () => {
+    store.setLimit('user', 'U1', 'daily', 5);
+    store.setLimit('user', 'U1', 'monthly', 50);
+    store.setLimit('user', 'U1', 'daily', null);
+    store.recordSpend('U1', 'C1', 7, now);
+
+    const reloaded = new BudgetStore(dataDir);
+    expect(reloaded.getLimits('user', 'U1')).toEqual({ dailyUsd: undefined, monthlyUsd: 50 });
+    expect(reloaded.getSpend('user', 'U1', now)).toEqual({ dailyUsd: 7, monthlyUsd: 7 });
+  });
+});
@@ -0,0 +1,317 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger.js';
+import { config } from './config';
+
+const logger = new Logger('BudgetStore');
+
+export type BudgetScope = 'user' | 'channel';
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+
+/**
+ * Spend limits in USD (undefined = unlimited)
+ */
+export interface BudgetLimits {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+/**
+ * Persisted limits - null means explicitly unlimited (overrides configured defaults)
+ */
+interface StoredLimits {
+  dailyUsd?: number | null;
+  monthlyUsd?: number | null;
+}
+
+/**
+ * Spend accumulated in the current day/month (UTC)
+ */
+interface SpendRecord {
+  day: string; // YYYY-MM-DD
+  dailyUsd: number;
+  month: string; // YYYY-MM
+  monthlyUsd: number;
+  warned: string[]; // `${period}:${threshold}` already announced this period
+}
+
+interface BudgetData {
+  limits: {
+    users: Record<string, StoredLimits>;
+    channels: Record<string, StoredLimits>;
+  };
+  spend: {
+    users: Record<string, SpendRecord>;
+    channels: Record<string, SpendRecord>;
+  };
+}
+
+/**
+ * Budget state for one scope/period pair
+ */
+export interface BudgetStatus {
+  scope: BudgetScope;
+  id: string;
+  period: BudgetPeriod;
+  limitUsd: number;
+  spentUsd: number;
+  ratio: number;
+}
+
+/**
+ * Result of a pre-query budget check
+ */
+export interface BudgetCheckResult {
+  allowed: boolean;
+  exceeded?: BudgetStatus;
+}
+
+/**
+ * Budget warning that crossed a threshold for the first time this period
+ */
+export interface BudgetWarning extends BudgetStatus {
+  threshold: number;
+}
+
+/**
+ * Format a USD amount for display
+ */
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * File-based store for per-user and per-channel cost budgets
+ * Limits are set by admins; spend is accumulated from SDK usage results.
+ */
+export class BudgetStore {
+  private budgetFile: string;
+  private data: BudgetData = BudgetStore.emptyData();
+
+  constructor(dataDir?: string) {
+    const dir = dataDir || path.join(process.cwd(), 'data');
+
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.budgetFile = path.join(dir, 'budgets.json');
+    this.loadBudgets();
+  }
+
+  private static emptyData(): BudgetData {
+    return {
+      limits: { users: {}, channels: {} },
+      spend: { users: {}, channels: {} },
+    };
+  }
+
+  /**
+   * Load budgets from file
+   */
+  private loadBudgets(): void {
+    try {
+      if (fs.existsSync(this.budgetFile)) {
+        const data = JSON.parse(fs.readFileSync(this.budgetFile, 'utf8'));
+        const empty = BudgetStore.emptyData();
+        this.data = {
+          limits: { ...empty.limits, ...data.limits },
+          spend: { ...empty.spend, ...data.spend },
+        };
+        logger.info('Loaded budgets', {
+          userLimits: Object.keys(this.data.limits.users).length,
+          channelLimits: Object.keys(this.data.limits.channels).length,
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to load budgets', error);
+      this.data = BudgetStore.emptyData();
+    }
+  }
+
+  /**
+   * Save budgets to file
+   */
+  private saveBudgets(): void {
+    try {
+      fs.writeFileSync(this.budgetFile, JSON.stringify(this.data, null, 2), 'utf8');
+    } catch (error) {
+      logger.error('Failed to save budgets', error);
+    }
+  }
+
+  private limitsFor(scope: BudgetScope): Record<string, StoredLimits> {
+    return scope === 'user' ? this.data.limits.users : this.data.limits.channels;
+  }
+
+  private spendFor(scope: BudgetScope): Record<string, SpendRecord> {
+    return scope === 'user' ? this.data.spend.users : this.data.spend.channels;
+  }
+
+  /**
+   * Get effective limits (explicit limits override configured defaults)
+   */
+  getLimits(scope: BudgetScope, id: string): BudgetLimits {
+    const defaults = scope === 'user' ? config.budget.defaultUser : config.budget.defaultChannel;
+    const explicit = this.limitsFor(scope)[id] || {};
+    const pick = (value: number | null | undefined, fallback?: number) =>
+      value === undefined ? fallback : value ?? undefined;
+    return {
+      dailyUsd: pick(explicit.dailyUsd, defaults.dailyUsd),
+      monthlyUsd: pick(explicit.monthlyUsd, defaults.monthlyUsd),
+    };
+  }
+
+  /**
+   * Set a limit for a user or channel
+   * @param amountUsd - Limit in USD, or null to remove the limit (unlimited)
+   */
+  setLimit(scope: BudgetScope, id: string, period: BudgetPeriod, amountUsd: number | null): void {
+    const limits = this.limitsFor(scope);
+    const existing = limits[id] || {};
+    const key = period === 'daily' ? 'dailyUsd' : 'monthlyUsd';
+    limits[id] = { ...existing, [key]: amountUsd };
+
+    // Re-announce thresholds against the new limit
+    const spend = this.spendFor(scope)[id];
+    if (spend) {
+      spend.warned = spend.warned.filter((w) => !w.startsWith(`${period}:`));
+    }
+
+    this.saveBudgets();
+    logger.info('Set budget limit', { scope, id, period, amountUsd });
+  }
+
+  /**
+   * Get spend for the current period, rolling over stale day/month counters
+   */
+  getSpend(scope: BudgetScope, id: string, now: Date = new Date()): { dailyUsd: number; monthlyUsd: number } {
+    const record = this.currentRecord(scope, id, now);
+    return { dailyUsd: record?.dailyUsd ?? 0, monthlyUsd: record?.monthlyUsd ?? 0 };
+  }
+
+  /**
+   * Add request cost to both the user and channel counters
+   */
+  recordSpend(userId: string, channelId: string, costUsd: number, now: Date = new Date()): void {
+    if (!costUsd || costUsd <= 0) {
+      return;
+    }
+
+    for (const [scope, id] of [['user', userId], ['channel', channelId]] as const) {
+      const record = this.currentRecord(scope, id, now) || this.newRecord(now);
+      record.dailyUsd += costUsd;
+      record.monthlyUsd += costUsd;
+      this.spendFor(scope)[id] = record;
+    }
+
+    this.saveBudgets();
+  }
+
+  /**
+   * Get status for every limited period of a scope
+   */
+  getStatus(scope: BudgetScope, id: string, now: Date = new Date()): BudgetStatus[] {
+    const limits = this.getLimits(scope, id);
+    const spend = this.getSpend(scope, id, now);
+    const statuses: BudgetStatus[] = [];
+
+    for (const period of BUDGET_PERIODS) {
+      const limitUsd = period === 'daily' ? limits.dailyUsd : limits.monthlyUsd;
+      if (limitUsd === undefined) continue;
+      const spentUsd = period === 'daily' ? spend.dailyUsd : spend.monthlyUsd;
+      statuses.push({
+        scope,
+        id,
+        period,
+        limitUsd,
+        spentUsd,
+        ratio: limitUsd > 0 ? spentUsd / limitUsd : Infinity,
+      });
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Check whether a new query may start for this user in this channel
+   */
+  checkBudget(userId: string, channelId: string, now: Date = new Date()): BudgetCheckResult {
+    const statuses = [...this.getStatus('user', userId, now), ...this.getStatus('channel', channelId, now)];
+    const exceeded = statuses.find((s) => s.spentUsd >= s.limitUsd);
+    return exceeded ? { allowed: false, exceeded } : { allowed: true };
+  }
+
+  /**
+   * Get warnings for thresholds crossed since the last call, marking them as sent
+   * Only the highest newly crossed threshold per scope/period is returned.
+   */
+  collectWarnings(userId: string, channelId: string, now: Date = new Date()): BudgetWarning[] {
+    const warnings: BudgetWarning[] = [];
+    const thresholds = [...config.budget.warnThresholds].sort((a, b) => b - a);
+    let changed = false;
+
+    for (const [scope, id] of [['user', userId], ['channel', channelId]] as const) {
+      const record = this.currentRecord(scope, id, now);
+      if (!record) continue;
+
+      for (const status of this.getStatus(scope, id, now)) {
+        const threshold = thresholds.find((t) => status.ratio >= t);
+        if (threshold === undefined) continue;
+
+        const key = `${status.period}:${threshold}`;
+        if (record.warned.includes(key)) continue;
+
+        // Mark this and all lower thresholds so they are not announced later
+        for (const t of thresholds.filter((t) => t <= threshold)) {
+          const lowerKey = `${status.period}:${t}`;
+          if (!record.warned.includes(lowerKey)) {
+            record.warned.push(lowerKey);
+          }
+        }
+        warnings.push({ ...status, threshold });
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.saveBudgets();
+    }
+    return warnings;
+  }
+
+  private currentRecord(scope: BudgetScope, id: string, now: Date): SpendRecord | undefined {
+    const record = this.spendFor(scope)[id];
+    if (!record) {
+      return undefined;
+    }
+
+    const { day, month } = BudgetStore.periodKeys(now);
+    if (record.month !== month) {
+      record.month = month;
+      record.monthlyUsd = 0;
+      record.warned = record.warned.filter((w) => !w.startsWith('monthly:'));
+    }
+    if (record.day !== day) {
+      record.day = day;
+      record.dailyUsd = 0;
+      record.warned = record.warned.filter((w) => !w.startsWith('daily:'));
+    }
+    return record;
+  }
+
+  private newRecord(now: Date): SpendRecord {
+    const { day, month } = BudgetStore.periodKeys(now);
+    return { day, dailyUsd: 0, month, monthlyUsd: 0, warned: [] };
+  }
+
+  private static periodKeys(now: Date): { day: string; month: string } {
+    const iso = now.toISOString();
+    return { day: iso.slice(0, 10), month: iso.slice(0, 7) };
+  }
+}
+
+// Singleton instance
+export const budgetStore = new BudgetStore();
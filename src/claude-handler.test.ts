@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import { ClaudeHandler } from './claude-handler';
+import { McpManager } from './mcp-manager';
+import { DEFAULT_MODEL } from './user-settings-store';
+
+const REVIEW_MODEL = 'claude-opus-4-5-20251101';
+
+vi.mock('@anthropic-ai/claude-agent-sdk', () => ({
+  query: vi.fn(() => (async function* () {})()),
+}));
+
+vi.mock('./credentials-manager', () => ({
+  ensureValidCredentials: vi.fn().mockResolvedValue({ valid: true }),
+  getCredentialStatus: vi.fn(),
+}));
+
+vi.mock('./credential-alert', () => ({
+  sendCredentialAlert: vi.fn(),
+}));
+
+vi.mock('./mcp-config-builder', () => ({
+  McpConfigBuilder: class {
+    buildConfig = vi.fn().mockResolvedValue({
+      permissionMode: 'default',
+      allowedTools: ['mcp__permission-prompt__permission_prompt'],
+    });
+  },
+}));
+
+vi.mock('./prompt-builder', () => ({
+  PromptBuilder: class {
+    buildSystemPrompt = vi.fn(() => 'system prompt');
+  },
+  getAvailablePersonas: vi.fn(() => ['default']),
+}));
+
+vi.mock('./workflow-registry', () => {
+  const definitions: Record<string, { name: string; model?: string; allowedTools?: string[] }> = {
+    default: { name: 'default' },
+    'pr-review': { name: 'pr-review', model: 'claude-opus-4-5-20251101', allowedTools: ['Read', 'Grep', 'mcp__jira'] },
+  };
+  return {
+    DEFAULT_WORKFLOW: 'default',
+    workflowRegistry: {
+      get: (name: string) => definitions[name],
+      getDefaultModel: (name?: string) => (name ? definitions[name]?.model : undefined),
+    },
+  };
+});
+
+vi.mock('./session-store', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./session-store')>();
+  return {
+    ...actual,
+    createSessionStore: () => ({ loadAll: () => [], saveAll: vi.fn(), put: vi.fn(), delete: vi.fn(), close: vi.fn() }),
+  };
+});
+
+describe('ClaudeHandler workflow options', () => {
+  let handler: ClaudeHandler;
+
+  const runQueryOptions = async () => {
+    const session = handler.getSession('C1', '1.1');
+    for await (const _message of handler.streamQuery('hello', session, undefined, undefined, { user: 'U1' } as any)) {
+      // drain
+    }
+    return vi.mocked(query).mock.calls[0][0].options as Record<string, any>;
+  };
+  const runQuery = async () => (await runQueryOptions()).model;
+
+  beforeEach(() => {
+    vi.mocked(query).mockClear();
+    handler = new ClaudeHandler({} as McpManager);
+  });
+
+  it("should run a workflow on its manifest's model", async () => {
+    handler.createSession('U1', 'User', 'C1', '1.1');
+    handler.transitionToMain('C1', '1.1', 'pr-review');
+
+    expect(await runQuery()).toBe(REVIEW_MODEL);
+  });
+
+  it('should keep a model chosen for the session', async () => {
+    handler.createSession('U1', 'User', 'C1', '1.1', 'claude-haiku-4-5-20251001');
+    handler.transitionToMain('C1', '1.1', 'pr-review');
+
+    expect(await runQuery()).toBe('claude-haiku-4-5-20251001');
+  });
+
+  it("should go back to the user's default when switching to a workflow without a model", async () => {
+    handler.createSession('U1', 'User', 'C1', '1.1');
+    handler.transitionToMain('C1', '1.1', 'pr-review');
+    handler.changeWorkflow('C1', '1.1', 'default');
+
+    expect(await runQuery()).toBe(DEFAULT_MODEL);
+  });
+
+  it("should limit built-in tools to the manifest's list without pre-approving them", async () => {
+    handler.createSession('U1', 'User', 'C1', '1.1');
+    handler.transitionToMain('C1', '1.1', 'pr-review');
+
+    const options = await runQueryOptions();
+
+    expect(options.tools).toEqual(['Read', 'Grep']);
+    expect(options.allowedTools).toEqual(['mcp__permission-prompt__permission_prompt']);
+  });
+});
@@ -5,7 +5,7 @@
 
 import { query, type SDKMessage } from '@anthropic-ai/claude-agent-sdk';
 import * as path from 'path';
-import { ConversationSession, WorkflowType } from './types';
+import { ConversationSession, DispatchInfo, SessionLinks, TurnCheckpoint, WorkflowType } from './types';
 import { Logger } from './logger';
 import { McpManager } from './mcp-manager';
 
@@ -14,13 +14,26 @@ const LOCAL_PLUGINS_DIR = path.join(__dirname, 'local');
 import { userSettingsStore } from './user-settings-store';
 import { ensureValidCredentials, getCredentialStatus } from './credentials-manager';
 import { sendCredentialAlert } from './credential-alert';
-import { SessionRegistry, SessionExpiryCallbacks } from './session-registry';
+import { SessionRegistry, SessionExpiryCallbacks, SessionRemovalCallback } from './session-registry';
 import { PromptBuilder, getAvailablePersonas } from './prompt-builder';
 import { McpConfigBuilder, SlackContext } from './mcp-config-builder';
+import { QueryScheduler } from './query-scheduler';
+import { config } from './config';
+import { workflowRegistry, DEFAULT_WORKFLOW } from './workflow-registry';
 
 // Re-export for backward compatibility
 export { getAvailablePersonas, SessionExpiryCallbacks };
 
+/**
+ * Callbacks for queries that have to wait for a free slot
+ */
+export interface QuerySlotCallbacks {
+  /** Query is waiting; position is 1-based among all waiting queries */
+  onWaiting?: (position: number) => void;
+  /** Query got a slot after waiting */
+  onAcquired?: () => void;
+}
+
 export class ClaudeHandler {
   private logger = new Logger('ClaudeHandler');
   private mcpManager: McpManager;
@@ -29,12 +42,17 @@ export class ClaudeHandler {
   private sessionRegistry: SessionRegistry;
   private promptBuilder: PromptBuilder;
   private mcpConfigBuilder: McpConfigBuilder;
+  private queryScheduler: QueryScheduler;
 
   constructor(mcpManager: McpManager) {
     this.mcpManager = mcpManager;
     this.sessionRegistry = new SessionRegistry();
     this.promptBuilder = new PromptBuilder();
     this.mcpConfigBuilder = new McpConfigBuilder(mcpManager);
+    this.queryScheduler = new QueryScheduler({
+      maxConcurrent: config.concurrency.maxQueries,
+      maxPerUser: config.concurrency.maxQueriesPerUser,
+    });
   }
 
   // ===== Session Registry Delegation =====
@@ -43,6 +61,10 @@ export class ClaudeHandler {
     this.sessionRegistry.setExpiryCallbacks(callbacks);
   }
 
+  setRemovalCallback(callback: SessionRemovalCallback): void {
+    this.sessionRegistry.setRemovalCallback(callback);
+  }
+
   getSessionKey(channelId: string, threadTs?: string): string {
     return this.sessionRegistry.getSessionKey(channelId, threadTs);
   }
@@ -94,6 +116,23 @@ export class ClaudeHandler {
     this.sessionRegistry.updateInitiator(channelId, threadTs, initiatorId, initiatorName);
   }
 
+  addCheckpoint(
+    channelId: string,
+    threadTs: string | undefined,
+    checkpoint: TurnCheckpoint,
+    limit: number
+  ): TurnCheckpoint[] {
+    return this.sessionRegistry.addCheckpoint(channelId, threadTs, checkpoint, limit);
+  }
+
+  completeCheckpoint(channelId: string, threadTs: string | undefined, tree: string, endTree: string): void {
+    this.sessionRegistry.completeCheckpoint(channelId, threadTs, tree, endTree);
+  }
+
+  truncateCheckpoints(channelId: string, threadTs: string | undefined, count: number): TurnCheckpoint[] {
+    return this.sessionRegistry.truncateCheckpoints(channelId, threadTs, count);
+  }
+
   canInterrupt(channelId: string, threadTs: string | undefined, userId: string): boolean {
     return this.sessionRegistry.canInterrupt(channelId, threadTs, userId);
   }
@@ -116,9 +155,15 @@ export class ClaudeHandler {
     channelId: string,
     threadTs: string | undefined,
     workflow: WorkflowType,
-    title?: string
+    title?: string,
+    dispatch?: DispatchInfo,
+    links?: SessionLinks
   ): void {
-    this.sessionRegistry.transitionToMain(channelId, threadTs, workflow, title);
+    this.sessionRegistry.transitionToMain(channelId, threadTs, workflow, title, dispatch, links);
+  }
+
+  changeWorkflow(channelId: string, threadTs: string | undefined, workflow: WorkflowType): WorkflowType | undefined {
+    return this.sessionRegistry.changeWorkflow(channelId, threadTs, workflow);
   }
 
   needsDispatch(channelId: string, threadTs?: string): boolean {
@@ -133,6 +178,10 @@ export class ClaudeHandler {
     return this.sessionRegistry.cleanupInactiveSessions(maxAge);
   }
 
+  saveSession(channelId: string, threadTs: string | undefined): void {
+    this.sessionRegistry.saveSession(channelId, threadTs);
+  }
+
   saveSessions(): void {
     this.sessionRegistry.saveSessions();
   }
@@ -268,7 +317,8 @@ export class ClaudeHandler {
     session?: ConversationSession,
     abortController?: AbortController,
     workingDirectory?: string,
-    slackContext?: SlackContext
+    slackContext?: SlackContext,
+    slotCallbacks?: QuerySlotCallbacks
   ): AsyncGenerator<SDKMessage, void, unknown> {
     // Validate credentials before making the query
     const credentialResult = await ensureValidCredentials();
@@ -297,10 +347,12 @@ export class ClaudeHandler {
       settingSources: ['project'],
       // Load local plugins (skills, etc.) from src/local directory
       plugins: [{ type: 'local', path: LOCAL_PLUGINS_DIR }],
+      // Text deltas for the live-updating response message
+      includePartialMessages: config.streaming.liveUpdates,
     };
 
     // Get MCP configuration
-    const mcpConfig = await this.mcpConfigBuilder.buildConfig(slackContext);
+    const mcpConfig = await this.mcpConfigBuilder.buildConfig(slackContext, workingDirectory);
     options.permissionMode = mcpConfig.permissionMode;
 
     if (mcpConfig.mcpServers) {
@@ -313,10 +365,21 @@ export class ClaudeHandler {
       options.permissionPromptToolName = mcpConfig.permissionPromptToolName;
     }
 
-    // Set model from session or user's default model
+    // Workflow manifests may narrow the built-in tools and pick a default model
+    // The tool list only limits what is available; it must never skip the permission prompt.
+    const workflowDefinition = workflowRegistry.get(session?.workflow || DEFAULT_WORKFLOW);
+    const workflowTools = workflowDefinition?.allowedTools?.filter((tool) => !tool.startsWith('mcp__'));
+    if (workflowTools?.length) {
+      options.tools = workflowTools;
+    }
+
+    // Set model from session, the workflow's default or user's default model
     if (session?.model) {
       options.model = session.model;
       this.logger.debug('Using session model', { model: session.model });
+    } else if (workflowDefinition?.model) {
+      options.model = workflowDefinition.model;
+      this.logger.debug('Using workflow default model', { model: workflowDefinition.model, workflow: session?.workflow });
     } else if (slackContext?.user) {
       const userModel = userSettingsStore.getUserDefaultModel(slackContext.user);
       options.model = userModel;
@@ -325,7 +388,11 @@ export class ClaudeHandler {
 
     // Build system prompt with persona and workflow
     const workflow = session?.workflow || 'default';
-    const builtSystemPrompt = this.promptBuilder.buildSystemPrompt(slackContext?.user, workflow);
+    const builtSystemPrompt = this.promptBuilder.buildSystemPrompt(
+      slackContext?.user,
+      workflow,
+      session?.links
+    );
     if (builtSystemPrompt) {
       options.systemPrompt = builtSystemPrompt;
       this.logger.info(`🚀 STARTING QUERY with workflow: [${workflow}]`, {
@@ -358,12 +425,28 @@ export class ClaudeHandler {
 
     this.logger.debug('Claude query options', options);
 
+    // Wait for a free slot (global and per-user limits)
+    let waited = false;
+    const releaseSlot = await this.queryScheduler.acquire({
+      userId: slackContext?.user || session?.ownerId || 'unknown',
+      sessionKey: session ? this.getSessionKey(session.channelId, session.threadTs) : 'direct',
+      signal: abortController?.signal,
+      onWaiting: (position) => {
+        waited = true;
+        slotCallbacks?.onWaiting?.(position);
+      },
+    });
+    if (waited) {
+      slotCallbacks?.onAcquired?.();
+    }
+
     try {
       for await (const message of query({ prompt, options })) {
         // Update session ID on init
         if (message.type === 'system' && message.subtype === 'init') {
           if (session) {
             session.sessionId = message.session_id;
+            this.sessionRegistry.saveSession(session.channelId, session.threadTs);
             this.logger.info('Session initialized', {
               sessionId: message.session_id,
               model: (message as any).model,
@@ -376,6 +459,8 @@ export class ClaudeHandler {
     } catch (error) {
       this.logger.error('Error in Claude query', error);
       throw error;
+    } finally {
+      releaseSlot();
     }
   }
 }
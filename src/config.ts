@@ -10,6 +10,21 @@ export interface PreflightResult {
   warnings: string[];
 }
 
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseNumberList(value: string | undefined, fallback: number[]): number[] {
+  if (!value) return fallback;
+  const parsed = value
+    .split(',')
+    .map((v) => parseFloat(v.trim()))
+    .filter((v) => Number.isFinite(v) && v > 0);
+  return parsed.length > 0 ? parsed : fallback;
+}
+
 export const config = {
   slack: {
     botToken: process.env.SLACK_BOT_TOKEN!,
@@ -29,6 +44,79 @@ export const config = {
     alertChannel: process.env.CREDENTIAL_ALERT_CHANNEL || '#backend-general',
   },
   baseDirectory: process.env.BASE_DIRECTORY || '',
+  sessionStore: {
+    backend: (process.env.SESSION_STORE === 'sqlite' ? 'sqlite' : 'file') as 'file' | 'sqlite',
+    path: process.env.SESSION_STORE_PATH || '', // Data directory (file) or database file (sqlite)
+  },
+  admin: {
+    // Comma-separated Slack user IDs allowed to run admin commands (e.g., budget limits)
+    userIds: (process.env.ADMIN_USERS || process.env.ADMIN_USER_ID || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+  },
+  budget: {
+    // Fractions of a limit that trigger an in-thread warning (e.g., "0.8,0.9")
+    warnThresholds: parseNumberList(process.env.BUDGET_WARN_THRESHOLDS, [0.8]),
+    defaultUser: {
+      dailyUsd: parseOptionalNumber(process.env.BUDGET_USER_DAILY_USD),
+      monthlyUsd: parseOptionalNumber(process.env.BUDGET_USER_MONTHLY_USD),
+    },
+    defaultChannel: {
+      dailyUsd: parseOptionalNumber(process.env.BUDGET_CHANNEL_DAILY_USD),
+      monthlyUsd: parseOptionalNumber(process.env.BUDGET_CHANNEL_MONTHLY_USD),
+    },
+  },
+  permission: {
+    // Minutes before an unanswered permission prompt is denied
+    timeoutMinutes: parseOptionalNumber(process.env.PERMISSION_TIMEOUT_MINUTES) ?? 5,
+    // Minutes before an unanswered prompt is escalated (0 = never)
+    escalateAfterMinutes: parseOptionalNumber(process.env.PERMISSION_ESCALATE_AFTER_MINUTES) ?? 0,
+    // Who is pinged on escalation: the session owner or the admins (ADMIN_USERS)
+    escalateTo: (process.env.PERMISSION_ESCALATE_TO === 'admins' ? 'admins' : 'owner') as 'owner' | 'admins',
+    // Comma-separated Slack user IDs who may answer any permission prompt,
+    // in addition to the session owner and the current initiator
+    approvers: (process.env.PERMISSION_APPROVERS || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+  },
+  concurrency: {
+    // Claude queries running at once across all sessions / per user (0 = unlimited)
+    maxQueries: parseOptionalNumber(process.env.MAX_CONCURRENT_QUERIES) ?? 5,
+    maxQueriesPerUser: parseOptionalNumber(process.env.MAX_CONCURRENT_QUERIES_PER_USER) ?? 2,
+  },
+  streaming: {
+    // Edit one Slack message as tokens arrive instead of posting each text block
+    liveUpdates: process.env.STREAM_LIVE_UPDATES !== 'false',
+    // Minimum time between edits of the live message (chat.update is rate limited)
+    updateIntervalMs: parseOptionalNumber(process.env.STREAM_UPDATE_INTERVAL_MS) ?? 1000,
+  },
+  turnSummary: {
+    // Post a card with the files a turn changed (git working directories only)
+    enabled: process.env.TURN_SUMMARY_ENABLED !== 'false',
+  },
+  checkpoints: {
+    // Snapshot git working directories before each turn so `rollback` can restore them
+    enabled: process.env.CHECKPOINTS_ENABLED !== 'false',
+    // Oldest checkpoints of a session are dropped past this count
+    maxPerSession: parseOptionalNumber(process.env.CHECKPOINTS_MAX_PER_SESSION) ?? 20,
+  },
+  scheduler: {
+    // Time zone for `schedule add` without tz= (defaults to the server's zone)
+    defaultTimezone: process.env.SCHEDULER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    // Set to false to keep jobs stored but never run them (e.g., on a staging bot)
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+  },
+  ingress: {
+    // HTTP port for /health and /webhooks/<source>
+    port: parseOptionalNumber(process.env.PORT) ?? 3000,
+    // HMAC-SHA256 secret for X-Hub-Signature-256 (GitHub and generic senders)
+    webhookSecret: process.env.WEBHOOK_SECRET || '',
+    // Bearer token accepted from generic senders that cannot sign requests
+    webhookToken: process.env.WEBHOOK_TOKEN || '',
+    rulesFile: process.env.WEBHOOK_RULES_FILE || '', // Default: data/webhook-rules.json
+  },
   github: {
     appId: process.env.GITHUB_APP_ID || '',
     privateKey: process.env.GITHUB_PRIVATE_KEY || '',
@@ -38,6 +126,25 @@ export const config = {
   debug: process.env.DEBUG === 'true' || process.env.NODE_ENV === 'development',
 };
 
+/**
+ * Check whether a Slack user is a configured admin
+ */
+export function isAdminUser(userId: string): boolean {
+  return config.admin.userIds.includes(userId);
+}
+
+/**
+ * Whether this runtime ships node:sqlite (Node.js 22.5+)
+ */
+function hasNodeSqlite(): boolean {
+  try {
+    require('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export function validateConfig() {
   const required = [
     'SLACK_BOT_TOKEN',
@@ -52,6 +159,12 @@ export function validateConfig() {
     throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
   }
 
+  if (config.sessionStore.backend === 'sqlite' && !hasNodeSqlite()) {
+    throw new Error(
+      `SESSION_STORE=sqlite requires Node.js 22.5+ with node:sqlite (running ${process.version}); use SESSION_STORE=file or upgrade Node.js`
+    );
+  }
+
   // Log if using Claude subscription vs API key
   if (!process.env.ANTHROPIC_API_KEY) {
     console.log('[Config] Using Claude subscription (no API key provided)');
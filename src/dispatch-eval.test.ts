@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DispatchService } from './dispatch-service';
+import {
+  KeywordDispatchClassifier,
+  casesFromOverrides,
+  formatEvalReport,
+  loadEvalCorpus,
+  runDispatchEval,
+} from './dispatch-eval';
+
+describe('dispatch eval', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dispatch-eval-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should load labelled lines and skip unlabelled ones', () => {
+    const corpusPath = path.join(tmpDir, 'corpus.jsonl');
+    fs.writeFileSync(
+      corpusPath,
+      [
+        JSON.stringify({ id: 'a', input: 'https://github.com/org/repo/pull/1', expected: 'pr-review' }),
+        JSON.stringify({ request_id: 'user-001', title: 'Cache', body: 'How do I add Redis?', expected_workflow: 'default' }),
+        JSON.stringify({ request_id: 'user-002', title: 'No label', body: 'Skipped' }),
+        '',
+      ].join('\n')
+    );
+
+    const { cases, skipped } = loadEvalCorpus(corpusPath);
+
+    expect(cases).toEqual([
+      { id: 'a', input: 'https://github.com/org/repo/pull/1', expected: 'pr-review' },
+      { id: 'user-001', input: 'Cache\n\nHow do I add Redis?', expected: 'default' },
+    ]);
+    expect(skipped).toBe(1);
+  });
+
+  it('should report the line number of invalid JSON', () => {
+    const corpusPath = path.join(tmpDir, 'corpus.jsonl');
+    fs.writeFileSync(corpusPath, '{"input": "x", "expected": "default"}\n{oops\n');
+
+    expect(() => loadEvalCorpus(corpusPath)).toThrow(/corpus\.jsonl:2: invalid JSON/);
+  });
+
+  it('should label override cases with the last workflow chosen per thread', () => {
+    const base = { channelId: 'C1', userId: 'U1', source: 'button' as const, from: 'default' };
+
+    const cases = casesFromOverrides([
+      { ...base, timestamp: '1', threadTs: '100.1', to: 'pr-review', input: 'PR 456' },
+      { ...base, timestamp: '2', threadTs: '200.1', to: 'jira-planning' },
+      { ...base, timestamp: '3', threadTs: '100.1', to: 'pr-fix-and-update', input: 'PR 456' },
+    ]);
+
+    expect(cases).toEqual([{ id: 'C1-100.1', input: 'PR 456', expected: 'pr-fix-and-update' }]);
+  });
+
+  it('should compute accuracy, fallback rate and the confusion matrix', async () => {
+    const responses: Record<string, string> = {
+      'pr 1': '{"workflow": "pr-review", "title": "PR 1", "confidence": 0.9}',
+      'pr 2': '{"workflow": "pr-fix-and-update", "title": "PR 2", "confidence": 0.6}',
+      'redis': 'not json at all',
+      'deploy': '{"workflow": "deploy", "title": "Deploy"}',
+    };
+    const service = new DispatchService({
+      dispatchOneShot: vi.fn(async (input: string) => responses[input]),
+    });
+
+    const report = await runDispatchEval(service, [
+      { id: '1', input: 'pr 1', expected: 'pr-review' },
+      { id: '2', input: 'pr 2', expected: 'pr-review' },
+      { id: '3', input: 'redis', expected: 'default' },
+      { id: '4', input: 'deploy', expected: 'deploy' },
+    ]);
+
+    expect(report.correct).toBe(2);
+    expect(report.accuracy).toBe(0.5);
+    expect(report.fallbacks).toBe(2);
+    expect(report.fallbackRate).toBe(0.5);
+    expect(report.labels[report.labels.length - 1]).toBe('deploy');
+    expect(report.confusion['pr-review']).toMatchObject({ 'pr-review': 1, 'pr-fix-and-update': 1 });
+    expect(report.confusion['deploy']).toMatchObject({ default: 1, deploy: 0 });
+    expect(report.perWorkflow.find((s) => s.workflow === 'pr-review')).toMatchObject({
+      support: 2,
+      correct: 1,
+      precision: 1,
+      recall: 0.5,
+    });
+
+    const text = formatEvalReport(report);
+    expect(text).toContain('Dispatch eval: 2/4 correct (50.0%), 2 fallbacks (50.0%), 0 by rule');
+    expect(text).toContain('- [2] expected `pr-review`, got `pr-fix-and-update` 60%: pr 2');
+    expect(text).toContain('- [4] expected `deploy`, got `default` (fallback): deploy');
+  });
+
+  it('should classify deterministically with the keyword stub', async () => {
+    const service = new DispatchService(new KeywordDispatchClassifier());
+
+    const first = await service.dispatch('https://xxx.atlassian.net/browse/ABC-789 planning');
+    const second = await service.dispatch('https://xxx.atlassian.net/browse/ABC-789 planning');
+    const general = await service.dispatch('Redis 캐시 구현 방법 알려줘');
+
+    expect(second).toEqual(first);
+    expect(first.workflow).toMatch(/^jira-/);
+    expect(general).toMatchObject({ workflow: 'default', title: 'Redis 캐시 구현 방법 알려줘' });
+  });
+});
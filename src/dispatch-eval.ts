@@ -0,0 +1,295 @@
+/**
+ * Dispatch evaluation - Runs DispatchService against a labelled corpus
+ * Used to check whether a dispatch.prompt or manifest change made routing worse.
+ */
+
+import * as fs from 'fs';
+import { WorkflowType } from './types';
+import { DispatchClassifier, DispatchService } from './dispatch-service';
+import { DispatchOverrideEntry } from './dispatch-override-log';
+import { DEFAULT_WORKFLOW, workflowRegistry } from './workflow-registry';
+
+// Tokens too common in URLs to say anything about the workflow
+const STOP_TOKENS = new Set(['http', 'https', 'www', 'com', 'net', 'org', 'io']);
+
+/**
+ * One labelled input
+ */
+export interface DispatchEvalCase {
+  id: string;
+  input: string;
+  expected: WorkflowType;
+}
+
+/**
+ * Outcome of classifying one case
+ */
+export interface DispatchEvalResult {
+  case: DispatchEvalCase;
+  predicted: WorkflowType;
+  confidence?: number;
+  rule?: string; // Fast-path rule that decided without the classifier
+  fallback: boolean; // Dispatch fell back to default (error, unparsable or unknown workflow)
+}
+
+export interface DispatchEvalWorkflowStats {
+  workflow: WorkflowType;
+  support: number; // Cases labelled with this workflow
+  predicted: number; // Cases routed to this workflow
+  correct: number;
+  precision: number;
+  recall: number;
+}
+
+export interface DispatchEvalReport {
+  total: number;
+  correct: number;
+  accuracy: number;
+  fallbacks: number;
+  fallbackRate: number;
+  fastPaths: number; // Cases decided by a dispatch rule
+  labels: WorkflowType[]; // Row/column order of the confusion matrix
+  confusion: Record<WorkflowType, Record<WorkflowType, number>>; // expected -> predicted -> count
+  perWorkflow: DispatchEvalWorkflowStats[];
+  results: DispatchEvalResult[];
+}
+
+/**
+ * Load a labelled JSONL corpus
+ * Each line needs an input (`input`, `text` or `title` + `body`) and a label
+ * (`expected`, `expected_workflow` or `workflow`). Unlabelled lines are skipped.
+ */
+export function loadEvalCorpus(filePath: string): { cases: DispatchEvalCase[]; skipped: number } {
+  const cases: DispatchEvalCase[] = [];
+  let skipped = 0;
+
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${filePath}:${index + 1}: invalid JSON (${(error as Error).message})`);
+    }
+
+    const input =
+      typeof record.input === 'string'
+        ? record.input
+        : typeof record.text === 'string'
+          ? record.text
+          : [record.title, record.body].filter((part) => typeof part === 'string' && part).join('\n\n');
+    const expected = [record.expected, record.expected_workflow, record.workflow].find(
+      (label) => typeof label === 'string' && label
+    );
+
+    if (!input.trim() || !expected) {
+      skipped++;
+      return;
+    }
+
+    cases.push({
+      id: String(record.id ?? record.request_id ?? index + 1),
+      input,
+      expected,
+    });
+  });
+
+  return { cases, skipped };
+}
+
+/**
+ * Build cases from the override log: the workflow a user switched to is the label
+ * Only the last override per thread counts, and entries without the original input are skipped.
+ */
+export function casesFromOverrides(entries: DispatchOverrideEntry[]): DispatchEvalCase[] {
+  const byThread = new Map<string, DispatchEvalCase>();
+
+  for (const entry of entries) {
+    if (!entry.input) continue;
+    const key = `${entry.channelId}-${entry.threadTs ?? entry.timestamp}`;
+    byThread.delete(key); // Keep insertion order by the latest change
+    byThread.set(key, { id: key, input: entry.input, expected: entry.to });
+  }
+
+  return [...byThread.values()];
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length > 1 && !STOP_TOKENS.has(token))
+  );
+}
+
+/**
+ * Deterministic local classifier for offline runs and tests
+ * Scores each workflow by the words its dispatch hints share with the input and
+ * answers in the same JSON format as the dispatch prompt. Ties go to registry order.
+ */
+export class KeywordDispatchClassifier implements DispatchClassifier {
+  async dispatchOneShot(userMessage: string): Promise<string> {
+    const tokens = tokenize(userMessage);
+    const scores = workflowRegistry
+      .list()
+      .filter((workflow) => workflow.name !== DEFAULT_WORKFLOW)
+      .map((workflow) => {
+        const hintTokens = tokenize([workflow.name, ...(workflow.dispatchHints ?? [workflow.description])].join(' '));
+        return { workflow: workflow.name, score: [...hintTokens].filter((token) => tokens.has(token)).length };
+      })
+      .filter((entry) => entry.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const title = userMessage.replace(/\s+/g, ' ').trim().substring(0, 50);
+    if (scores.length === 0) {
+      return JSON.stringify({ workflow: DEFAULT_WORKFLOW, title, confidence: 0.5 });
+    }
+
+    const total = scores.reduce((sum, entry) => sum + entry.score, 0);
+    const [best, runnerUp] = scores;
+    return JSON.stringify({
+      workflow: best.workflow,
+      title,
+      confidence: best.score / total,
+      ...(runnerUp ? { runner_up: runnerUp.workflow, runner_up_confidence: runnerUp.score / total } : {}),
+    });
+  }
+}
+
+/**
+ * Classify every case in order and build the report
+ */
+export async function runDispatchEval(
+  service: DispatchService,
+  cases: DispatchEvalCase[],
+  onResult?: (result: DispatchEvalResult) => void
+): Promise<DispatchEvalReport> {
+  const results: DispatchEvalResult[] = [];
+
+  for (const evalCase of cases) {
+    const fallbacksBefore = DispatchService.getFallbackCount();
+    const dispatched = await service.dispatch(evalCase.input);
+    const result: DispatchEvalResult = {
+      case: evalCase,
+      predicted: dispatched.workflow,
+      confidence: dispatched.confidence,
+      rule: dispatched.rule,
+      fallback: DispatchService.getFallbackCount() > fallbacksBefore,
+    };
+    results.push(result);
+    onResult?.(result);
+  }
+
+  return buildEvalReport(results);
+}
+
+/**
+ * Aggregate results into accuracy, fallback rate and a confusion matrix
+ */
+export function buildEvalReport(results: DispatchEvalResult[]): DispatchEvalReport {
+  // Registered workflows first, then labels the registry does not know (typos, removed workflows)
+  const labels = workflowRegistry.names();
+  for (const result of results) {
+    for (const label of [result.case.expected, result.predicted]) {
+      if (!labels.includes(label)) labels.push(label);
+    }
+  }
+
+  const confusion: Record<WorkflowType, Record<WorkflowType, number>> = {};
+  for (const expected of labels) {
+    confusion[expected] = Object.fromEntries(labels.map((predicted) => [predicted, 0]));
+  }
+  for (const result of results) {
+    confusion[result.case.expected][result.predicted]++;
+  }
+
+  const ratio = (count: number, total: number) => (total > 0 ? count / total : 0);
+  const perWorkflow = labels.map((workflow) => {
+    const support = results.filter((r) => r.case.expected === workflow).length;
+    const predicted = results.filter((r) => r.predicted === workflow).length;
+    const correct = confusion[workflow][workflow];
+    return {
+      workflow,
+      support,
+      predicted,
+      correct,
+      precision: ratio(correct, predicted),
+      recall: ratio(correct, support),
+    };
+  });
+
+  const correct = results.filter((r) => r.predicted === r.case.expected).length;
+  const fallbacks = results.filter((r) => r.fallback).length;
+  const fastPaths = results.filter((r) => r.rule).length;
+
+  return {
+    total: results.length,
+    correct,
+    accuracy: ratio(correct, results.length),
+    fallbacks,
+    fallbackRate: ratio(fallbacks, results.length),
+    fastPaths,
+    labels,
+    confusion,
+    perWorkflow,
+    results,
+  };
+}
+
+/**
+ * Plain-text report for the terminal
+ * Matrix columns are numbered to keep the table narrow; the row labels double as the legend.
+ */
+export function formatEvalReport(report: DispatchEvalReport, maxMisses: number = 20): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const lines = [
+    `Dispatch eval: ${report.correct}/${report.total} correct (${percent(report.accuracy)}), ` +
+      `${report.fallbacks} fallbacks (${percent(report.fallbackRate)}), ${report.fastPaths} by rule`,
+    '',
+    'Confusion matrix (rows = expected, columns = predicted)',
+  ];
+
+  const rowLabels = report.labels.map((label, i) => `${i + 1}. ${label}`);
+  const labelWidth = Math.max(...rowLabels.map((label) => label.length));
+  const cellWidth = Math.max(
+    String(report.labels.length).length,
+    ...report.labels.flatMap((expected) => report.labels.map((p) => String(report.confusion[expected][p]).length))
+  );
+  const cell = (value: string | number) => String(value).padStart(cellWidth);
+
+  lines.push(`${''.padEnd(labelWidth)} | ${report.labels.map((_, i) => cell(i + 1)).join(' ')}`);
+  report.labels.forEach((expected, i) => {
+    const row = report.labels.map((predicted) => cell(report.confusion[expected][predicted] || '.'));
+    lines.push(`${rowLabels[i].padEnd(labelWidth)} | ${row.join(' ')}`);
+  });
+
+  lines.push('', 'Per workflow', `${'workflow'.padEnd(labelWidth)}  support  precision  recall`);
+  for (const stats of report.perWorkflow) {
+    if (stats.support === 0 && stats.predicted === 0) continue;
+    lines.push(
+      `${stats.workflow.padEnd(labelWidth)}  ${String(stats.support).padStart(7)}  ` +
+        `${percent(stats.precision).padStart(9)}  ${percent(stats.recall).padStart(6)}`
+    );
+  }
+
+  const misses = report.results.filter((r) => r.predicted !== r.case.expected);
+  if (misses.length > 0) {
+    lines.push('', `Misses (${misses.length})`);
+    for (const miss of misses.slice(0, maxMisses)) {
+      const confidence = miss.confidence !== undefined ? ` ${Math.round(miss.confidence * 100)}%` : '';
+      const input = miss.case.input.replace(/\s+/g, ' ').substring(0, 80);
+      lines.push(
+        `- [${miss.case.id}] expected \`${miss.case.expected}\`, got \`${miss.predicted}\`${confidence}` +
+          `${miss.rule ? ` (rule ${miss.rule})` : ''}${miss.fallback ? ' (fallback)' : ''}: ${input}`
+      );
+    }
+    if (misses.length > maxMisses) {
+      lines.push(`- ... ${misses.length - maxMisses} more`);
+    }
+  }
+
+  return lines.join('\n');
+}
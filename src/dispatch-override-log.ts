@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { WorkflowType } from './types';
+import { Logger } from './logger';
+
+const logger = new Logger('DispatchOverrideLog');
+
+/**
+ * One manual workflow change as recorded in the override log
+ */
+export interface DispatchOverrideEntry {
+  timestamp: string; // ISO date string
+  channelId: string;
+  threadTs?: string;
+  userId: string;
+  source: 'button' | 'command';
+  from: WorkflowType; // Workflow before the change
+  to: WorkflowType;
+  // Original classification, so the dispatch prompt can be tuned against it
+  dispatched?: WorkflowType;
+  confidence?: number;
+  runnerUp?: WorkflowType;
+  rule?: string; // Fast-path rule that made the original pick
+  input?: string;
+}
+
+/**
+ * Append-only JSONL log of dispatch overrides
+ * Each line is a case the classifier got wrong (or a user changed their mind).
+ */
+export class DispatchOverrideLog {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || path.join(process.cwd(), 'data', 'dispatch-overrides.jsonl');
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append a single entry
+   */
+  append(entry: DispatchOverrideEntry): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    } catch (error) {
+      logger.error('Failed to append dispatch override', error);
+    }
+  }
+
+  /**
+   * Read all entries (oldest first), skipping corrupt lines
+   */
+  list(): DispatchOverrideEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const entries: DispatchOverrideEntry[] = [];
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        logger.warn('Skipping corrupt dispatch override line', { preview: line.substring(0, 100) });
+      }
+    }
+    return entries;
+  }
+}
+
+// Singleton instance
+export const dispatchOverrideLog = new DispatchOverrideLog();
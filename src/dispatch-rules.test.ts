@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractSessionLinks, matchDispatchRule } from './dispatch-rules';
+import { workflowRegistry } from './workflow-registry';
+
+const PR = 'https://github.com/org/repo/pull/456';
+const ISSUE = 'https://xxx.atlassian.net/browse/ABC-789';
+
+describe('dispatch rules', () => {
+  it.each([
+    [PR, 'pr-review', 'github-pr'],
+    [`<${PR}|PR 456> 리뷰 부탁드려요`, 'pr-review', 'github-pr'],
+    [`fix ${PR}`, 'pr-fix-and-update', 'github-pr-fix'],
+    [`https://xxx.atlassian.net/wiki/spaces/TEAM/pages/123/ChangeLogs ${PR}`, 'pr-docs-confluence', 'confluence-and-github-pr'],
+    [`fix ${ISSUE}`, 'jira-create-pr', 'jira-issue-fix'],
+    ['plan ABC-789', 'jira-planning', 'jira-issue-plan'],
+    [ISSUE, 'jira-brainstorming', 'jira-issue'],
+    ['https://xxx.atlassian.net/jira/software/projects/ABC/boards/123', 'jira-executive-summary', 'jira-board'],
+  ])('should route %s to %s', (text, workflow, rule) => {
+    expect(matchDispatchRule(text)).toMatchObject({ workflow, rule });
+  });
+
+  it.each([
+    'Redis 캐시 구현 방법 알려줘',
+    `${PR} 에서 CI가 왜 깨지는지 찾아줘`,
+    `${PR} https://github.com/org/repo/pull/457`,
+    `${PR} ABC-789`,
+    'UTF-8 인코딩 문제',
+  ])('should leave %s to the classifier', (text) => {
+    expect(matchDispatchRule(text)).toBeUndefined();
+  });
+
+  it('should apply manifest regex rules before the built-in rules', () => {
+    const incident = { name: 'incident', description: 'Triage', dispatchRules: ['pagerduty\\.com/incidents/'] };
+    const list = vi.spyOn(workflowRegistry, 'list').mockReturnValue([...workflowRegistry.list(), incident]);
+
+    try {
+      expect(matchDispatchRule('https://acme.pagerduty.com/incidents/Q1 ABC-1')).toEqual({
+        rule: '/pagerduty\\.com/incidents//',
+        workflow: 'incident',
+        links: { issueKey: 'ABC-1' },
+      });
+    } finally {
+      list.mockRestore();
+    }
+  });
+
+  it('should extract links from board links with a selected issue and Confluence pages', () => {
+    const links = extractSessionLinks(
+      'https://xxx.atlassian.net/jira/software/projects/ABC/boards/123?selectedIssue=ABC-42 ' +
+        '<https://xxx.atlassian.net/wiki/spaces/TEAM/pages/98765/Spec|Spec> 이거 어떻게 할까?'
+    );
+
+    expect(links).toEqual({
+      issueKey: 'ABC-42',
+      issueUrl: 'https://xxx.atlassian.net/jira/software/projects/ABC/boards/123?selectedIssue=ABC-42',
+      confluenceUrl: 'https://xxx.atlassian.net/wiki/spaces/TEAM/pages/98765/Spec',
+      confluencePageId: '98765',
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Dispatch rules - Deterministic pre-classification before the LLM dispatch call
+ * Recognizes GitHub PR, Jira and Confluence links (plus manifest regex rules) and
+ * extracts them as the session's links.
+ */
+
+import { SessionLinks, WorkflowType } from './types';
+import { workflowRegistry } from './workflow-registry';
+
+const URL_PATTERN = /https?:\/\/[^\s<>|]+/g;
+// Slack wraps links as <url> or <url|label>
+const SLACK_LINK_PATTERN = /<(https?:\/\/[^>|]+)(?:\|[^>]*)?>/g;
+const GITHUB_PR_PATTERN = /^https?:\/\/(?:www\.)?github\.com\/([\w.-]+\/[\w.-]+)\/pull\/(\d+)/i;
+const JIRA_ISSUE_URL_PATTERN = /^https?:\/\/[\w.-]+\.atlassian\.net\/browse\/([A-Z][A-Z0-9]+-\d+)/;
+const JIRA_BOARD_PATTERN = /^https?:\/\/[\w.-]+\.atlassian\.net\/jira\/software\/(?:c\/)?projects\/[^/]+\/boards\/\d+/;
+const JIRA_SELECTED_ISSUE_PATTERN = /[?&]selectedIssue=([A-Z][A-Z0-9]+-\d+)/;
+const CONFLUENCE_PATTERN = /^https?:\/\/[\w.-]+\.atlassian\.net\/wiki\//;
+const CONFLUENCE_PAGE_ID_PATTERN = /\/pages\/(\d+)/;
+const ISSUE_KEY_PATTERN = /\b([A-Z][A-Z0-9]{1,9})-(\d+)\b/g;
+
+// Uppercase prefixes that look like issue keys but are not (UTF-8, SHA-256, ...)
+const NON_ISSUE_PREFIXES = new Set(['UTF', 'ISO', 'SHA', 'RFC', 'CVE', 'HTTP', 'TLS', 'MD', 'PEP', 'ES', 'GPT']);
+
+// Words allowed next to a link for a fast-path match; anything else goes to the LLM
+const REVIEW_WORDS = /^(?:(?:please )?review|리뷰(?: ?(?:해 ?줘|해 ?주세요|부탁(?:해요|합니다|드려요)?))?)$/;
+const FIX_WORDS = /^(?:fix|work(?: on)?)$/;
+const PLAN_WORDS = /^plan$/;
+
+/**
+ * Links and keys found in a message, with counts so ambiguous messages can be skipped
+ */
+interface MessageScan {
+  links: SessionLinks;
+  prCount: number;
+  issueCount: number;
+  boardCount: number;
+  confluenceCount: number;
+  otherUrlCount: number;
+  remainder: string; // Lowercased text left after removing links and keys
+}
+
+interface BuiltinRule {
+  name: string;
+  workflow: WorkflowType;
+  matches: (scan: MessageScan) => boolean;
+}
+
+/**
+ * Result of a fast-path match
+ */
+export interface DispatchRuleMatch {
+  rule: string;
+  workflow: WorkflowType;
+  links: SessionLinks;
+}
+
+const onlyLinks = (scan: MessageScan, kind: 'pr' | 'issue' | 'board'): boolean => {
+  const counts = { pr: scan.prCount, issue: scan.issueCount, board: scan.boardCount };
+  return (
+    counts[kind] === 1 &&
+    Object.entries(counts).every(([other, count]) => other === kind || count === 0) &&
+    scan.confluenceCount === 0 &&
+    scan.otherUrlCount === 0
+  );
+};
+
+// Evaluated in order; the first match wins
+const BUILTIN_RULES: BuiltinRule[] = [
+  {
+    name: 'confluence-and-github-pr',
+    workflow: 'pr-docs-confluence',
+    matches: (s) =>
+      s.prCount === 1 && s.confluenceCount >= 1 && s.issueCount === 0 && s.boardCount === 0 && s.remainder === '',
+  },
+  { name: 'github-pr-fix', workflow: 'pr-fix-and-update', matches: (s) => onlyLinks(s, 'pr') && FIX_WORDS.test(s.remainder) },
+  {
+    name: 'github-pr',
+    workflow: 'pr-review',
+    matches: (s) => onlyLinks(s, 'pr') && (s.remainder === '' || REVIEW_WORDS.test(s.remainder)),
+  },
+  { name: 'jira-issue-fix', workflow: 'jira-create-pr', matches: (s) => onlyLinks(s, 'issue') && FIX_WORDS.test(s.remainder) },
+  { name: 'jira-issue-plan', workflow: 'jira-planning', matches: (s) => onlyLinks(s, 'issue') && PLAN_WORDS.test(s.remainder) },
+  { name: 'jira-issue', workflow: 'jira-brainstorming', matches: (s) => onlyLinks(s, 'issue') && s.remainder === '' },
+  { name: 'jira-board', workflow: 'jira-executive-summary', matches: (s) => onlyLinks(s, 'board') && s.remainder === '' },
+];
+
+function scanMessage(text: string): MessageScan {
+  const links: SessionLinks = {};
+  const prs = new Set<string>();
+  const issues = new Set<string>();
+  let boardCount = 0;
+  let confluenceCount = 0;
+  let otherUrlCount = 0;
+
+  const unwrapped = text.replace(SLACK_LINK_PATTERN, ' $1 ');
+  for (const url of unwrapped.match(URL_PATTERN) ?? []) {
+    const pr = url.match(GITHUB_PR_PATTERN);
+    const issueUrl = url.match(JIRA_ISSUE_URL_PATTERN);
+    const selectedIssue = JIRA_BOARD_PATTERN.test(url) ? url.match(JIRA_SELECTED_ISSUE_PATTERN) : null;
+
+    if (pr) {
+      prs.add(`${pr[1].toLowerCase()}#${pr[2]}`);
+      links.prUrl ??= pr[0];
+      links.repo ??= pr[1];
+      links.prNumber ??= parseInt(pr[2], 10);
+    } else if (issueUrl || selectedIssue) {
+      const key = (issueUrl ?? selectedIssue)![1];
+      issues.add(key);
+      links.issueKey ??= key;
+      links.issueUrl ??= url;
+    } else if (JIRA_BOARD_PATTERN.test(url)) {
+      boardCount++;
+      links.boardUrl ??= url;
+    } else if (CONFLUENCE_PATTERN.test(url)) {
+      confluenceCount++;
+      if (!links.confluenceUrl) {
+        links.confluenceUrl = url;
+        const pageId = url.match(CONFLUENCE_PAGE_ID_PATTERN);
+        if (pageId) links.confluencePageId = pageId[1];
+      }
+    } else {
+      otherUrlCount++;
+    }
+  }
+
+  let remainder = unwrapped.replace(URL_PATTERN, ' ');
+  remainder = remainder.replace(ISSUE_KEY_PATTERN, (match, prefix: string) => {
+    if (NON_ISSUE_PREFIXES.has(prefix)) return match;
+    issues.add(match);
+    links.issueKey ??= match;
+    return ' ';
+  });
+
+  return {
+    links,
+    prCount: prs.size,
+    issueCount: issues.size,
+    boardCount,
+    confluenceCount,
+    otherUrlCount,
+    remainder: remainder
+      .toLowerCase()
+      .replace(/[.!?,:;~]+/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim(),
+  };
+}
+
+/**
+ * Extract PR, Jira and Confluence links from a message
+ */
+export function extractSessionLinks(text: string): SessionLinks {
+  return scanMessage(text).links;
+}
+
+/**
+ * Match a message against manifest regex rules, then the built-in link rules
+ * Returns undefined when no rule is certain, leaving the message to the LLM.
+ */
+export function matchDispatchRule(text: string): DispatchRuleMatch | undefined {
+  const scan = scanMessage(text);
+
+  for (const workflow of workflowRegistry.list()) {
+    for (const pattern of workflow.dispatchRules ?? []) {
+      if (new RegExp(pattern, 'i').test(text)) {
+        return { rule: `/${pattern}/`, workflow: workflow.name, links: scan.links };
+      }
+    }
+  }
+
+  const rule = BUILTIN_RULES.find((r) => workflowRegistry.has(r.workflow) && r.matches(scan));
+  return rule ? { rule: rule.name, workflow: rule.workflow, links: scan.links } : undefined;
+}
+
+/**
+ * Session title for a fast-path match (undefined when no link names the thread)
+ */
+export function buildRuleTitle(links: SessionLinks): string | undefined {
+  if (links.prNumber !== undefined && links.repo) {
+    return `${links.repo}#${links.prNumber}`;
+  }
+  return links.issueKey;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DispatchService } from './dispatch-service';
+import { ClaudeHandler } from './claude-handler';
+
+const serviceRespondingWith = (response: string): DispatchService =>
+  new DispatchService({ dispatchOneShot: vi.fn().mockResolvedValue(response) } as unknown as ClaudeHandler);
+
+describe('DispatchService', () => {
+  it('should return confidence and runner-up from the classifier', async () => {
+    const service = serviceRespondingWith(
+      '{"workflow": "pr-review", "title": "PR #456 리뷰", "confidence": 0.82, "runner_up": "pr-fix-and-update", "runner_up_confidence": 15}'
+    );
+
+    expect(await service.dispatch('https://github.com/org/repo/pull/456 이거 어떻게 생각해?')).toEqual({
+      workflow: 'pr-review',
+      title: 'PR #456 리뷰',
+      confidence: 0.82,
+      runnerUp: 'pr-fix-and-update',
+      runnerUpConfidence: 0.15,
+      links: { prUrl: 'https://github.com/org/repo/pull/456', repo: 'org/repo', prNumber: 456 },
+    });
+  });
+
+  it('should drop unknown or duplicate runner-ups', async () => {
+    const unknown = await serviceRespondingWith(
+      '{"workflow": "default", "title": "Redis", "confidence": "high", "runner_up": "deploy"}'
+    ).dispatch('Redis 캐시 구현 방법 알려줘');
+    const duplicate = await serviceRespondingWith(
+      '{"workflow": "pr-review", "title": "PR", "runner_up": "pr-review"}'
+    ).dispatch('https://github.com/org/repo/pull/1 테스트가 왜 깨지는지 봐줘');
+
+    expect(unknown).toEqual({ workflow: 'default', title: 'Redis', confidence: undefined });
+    expect(duplicate.runnerUp).toBeUndefined();
+  });
+
+  it('should route obvious links by rule without calling the classifier', async () => {
+    const dispatchOneShot = vi.fn();
+    const service = new DispatchService({ dispatchOneShot } as unknown as ClaudeHandler);
+
+    const result = await service.dispatch('review <https://github.com/org/repo/pull/456>');
+
+    expect(dispatchOneShot).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      workflow: 'pr-review',
+      title: 'org/repo#456',
+      confidence: 1,
+      rule: 'github-pr',
+      links: { prUrl: 'https://github.com/org/repo/pull/456', repo: 'org/repo', prNumber: 456 },
+    });
+  });
+});
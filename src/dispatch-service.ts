@@ -3,9 +3,11 @@
  * Uses ClaudeHandler.dispatchOneShot for classification (unified auth path)
  */
 
-import { WorkflowType } from './types';
+import { SessionLinks, WorkflowType } from './types';
 import { Logger } from './logger';
 import { ClaudeHandler } from './claude-handler';
+import { workflowRegistry } from './workflow-registry';
+import { buildRuleTitle, extractSessionLinks, matchDispatchRule } from './dispatch-rules';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -16,6 +18,9 @@ const FALLBACK_DISPATCH_MODEL = 'claude-haiku-4-5-20251001';
 // Dispatch prompt file path
 const DISPATCH_PROMPT_PATH = path.join(__dirname, 'prompt', 'dispatch.prompt');
 
+// Replaced with the routing table generated from the workflow manifests
+const WORKFLOW_TABLE_PLACEHOLDER = '{{workflows}}';
+
 // Fallback counter for monitoring
 let dispatchFallbackCount = 0;
 
@@ -25,8 +30,19 @@ let dispatchFallbackCount = 0;
 export interface DispatchResult {
   workflow: WorkflowType;
   title: string;
+  confidence?: number; // 0-1 as reported by the classifier; absent on fallback
+  runnerUp?: WorkflowType; // Second most likely workflow
+  runnerUpConfidence?: number;
+  rule?: string; // Set when a fast-path rule decided without the classifier
+  links?: SessionLinks; // PR / Jira / Confluence links found in the message
 }
 
+/**
+ * Backend that answers the dispatch prompt with the classifier's raw response
+ * ClaudeHandler in production; the eval harness can plug in a local stub.
+ */
+export type DispatchClassifier = Pick<ClaudeHandler, 'dispatchOneShot'>;
+
 /**
  * DispatchService classifies user messages and routes to appropriate workflows
  * Now uses ClaudeHandler for unified auth (Claude subscription / Agent SDK)
@@ -36,11 +52,14 @@ export class DispatchService {
   private model: string;
   private dispatchPrompt: string | undefined;
   private isConfigured: boolean = false;
-  private claudeHandler: ClaudeHandler | undefined;
+  private claudeHandler: DispatchClassifier | undefined;
+  private fastPathEnabled: boolean;
 
-  constructor(claudeHandler?: ClaudeHandler) {
+  constructor(claudeHandler?: DispatchClassifier) {
     this.claudeHandler = claudeHandler;
     this.model = process.env.DEFAULT_DISPATCH_MODEL || FALLBACK_DISPATCH_MODEL;
+    // Rule-based fast path can be turned off with DISPATCH_FAST_PATH=false
+    this.fastPathEnabled = process.env.DISPATCH_FAST_PATH !== 'false';
     this.loadDispatchPrompt();
     this.validateConfiguration();
   }
@@ -48,7 +67,7 @@ export class DispatchService {
   /**
    * Set ClaudeHandler instance (for lazy initialization)
    */
-  setClaudeHandler(claudeHandler: ClaudeHandler): void {
+  setClaudeHandler(claudeHandler: DispatchClassifier): void {
     this.claudeHandler = claudeHandler;
     this.validateConfiguration();
   }
@@ -56,8 +75,13 @@ export class DispatchService {
   private loadDispatchPrompt(): void {
     try {
       if (fs.existsSync(DISPATCH_PROMPT_PATH)) {
-        this.dispatchPrompt = fs.readFileSync(DISPATCH_PROMPT_PATH, 'utf-8');
-        this.logger.debug('Loaded dispatch prompt', { path: DISPATCH_PROMPT_PATH });
+        this.dispatchPrompt = fs
+          .readFileSync(DISPATCH_PROMPT_PATH, 'utf-8')
+          .replace(WORKFLOW_TABLE_PLACEHOLDER, () => workflowRegistry.buildDispatchTable());
+        this.logger.debug('Loaded dispatch prompt', {
+          path: DISPATCH_PROMPT_PATH,
+          workflows: workflowRegistry.names().length,
+        });
       } else {
         this.logger.warn('Dispatch prompt not found, using default', { path: DISPATCH_PROMPT_PATH });
       }
@@ -109,6 +133,44 @@ export class DispatchService {
    * @param abortSignal - Optional AbortSignal for cancellation
    */
   async dispatch(userMessage: string, abortSignal?: AbortSignal): Promise<DispatchResult> {
+    // Obvious links (a lone PR URL, a Jira key) skip the classifier entirely
+    const ruleResult = this.dispatchByRule(userMessage);
+    if (ruleResult) {
+      return ruleResult;
+    }
+
+    const result = await this.classify(userMessage, abortSignal);
+    const links = extractSessionLinks(userMessage);
+    return Object.keys(links).length > 0 ? { ...result, links } : result;
+  }
+
+  /**
+   * Deterministic pre-classification (see dispatch-rules.ts)
+   */
+  private dispatchByRule(userMessage: string): DispatchResult | undefined {
+    if (!this.fastPathEnabled) return undefined;
+
+    const match = matchDispatchRule(userMessage);
+    if (!match) return undefined;
+
+    const result: DispatchResult = {
+      workflow: match.workflow,
+      title: buildRuleTitle(match.links) ?? this.generateFallbackTitle(userMessage),
+      confidence: 1,
+      rule: match.rule,
+      links: match.links,
+    };
+    this.logger.info(`📍 DISPATCH → [${result.workflow}] "${result.title}" (rule: ${match.rule})`, {
+      workflow: result.workflow,
+      links: match.links,
+    });
+    return result;
+  }
+
+  /**
+   * Ask the dispatch model; falls back to the default workflow on any failure
+   */
+  private async classify(userMessage: string, abortSignal?: AbortSignal): Promise<DispatchResult> {
     // Check if service is properly configured (prompt + ClaudeHandler)
     if (!this.isConfigured || !this.dispatchPrompt) {
       this.logger.warn(`📍 DISPATCH → [default] (unconfigured - no dispatch prompt)`);
@@ -165,6 +227,8 @@ export class DispatchService {
       this.logger.info(`📍 DISPATCH → [${result.workflow}] "${result.title}" (${elapsed}ms)`, {
         workflow: result.workflow,
         title: result.title,
+        confidence: result.confidence,
+        runnerUp: result.runnerUp,
         rawResponse: responseText.substring(0, 200),
       });
 
@@ -244,10 +308,18 @@ export class DispatchService {
         if (typeof parsed.workflow !== 'string') {
           throw new Error('Invalid workflow field in response');
         }
-        return {
-          workflow: this.validateWorkflow(parsed.workflow),
+        const workflow = this.validateWorkflow(parsed.workflow);
+        const result: DispatchResult = {
+          workflow,
           title: typeof parsed.title === 'string' ? this.sanitizeTitle(parsed.title) : this.generateFallbackTitle(userMessage),
+          confidence: this.parseConfidence(parsed.confidence),
         };
+        // Runner-up is optional; ignore it when unknown or the same as the pick
+        if (typeof parsed.runner_up === 'string' && workflowRegistry.has(parsed.runner_up) && parsed.runner_up !== workflow) {
+          result.runnerUp = parsed.runner_up;
+          result.runnerUpConfidence = this.parseConfidence(parsed.runner_up_confidence);
+        }
+        return result;
       } catch (jsonError) {
         this.logger.debug('JSON parse failed, trying XML fallback', { jsonError });
       }
@@ -272,6 +344,7 @@ export class DispatchService {
     this.logger.warn('Failed to parse dispatch response', {
       textPreview: text.substring(0, 100),
     });
+    dispatchFallbackCount++;
     return {
       workflow: 'default',
       title: this.generateFallbackTitle(userMessage),
@@ -282,25 +355,26 @@ export class DispatchService {
    * Validate workflow type
    */
   private validateWorkflow(workflow: string): WorkflowType {
-    const validWorkflows: WorkflowType[] = [
-      'jira-executive-summary',
-      'jira-brainstorming',
-      'jira-planning',
-      'jira-create-pr',
-      'pr-review',
-      'pr-fix-and-update',
-      'pr-docs-confluence',
-      'default',
-    ];
-
-    if (validWorkflows.includes(workflow as WorkflowType)) {
-      return workflow as WorkflowType;
+    if (workflowRegistry.has(workflow)) {
+      return workflow;
     }
 
     this.logger.warn('Invalid workflow, defaulting', { workflow });
+    dispatchFallbackCount++;
     return 'default';
   }
 
+  /**
+   * Normalize a confidence value to 0-1 (accepts percentages)
+   */
+  private parseConfidence(value: unknown): number | undefined {
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+    if (typeof num !== 'number' || !Number.isFinite(num) || num < 0) {
+      return undefined;
+    }
+    return Math.min(num > 1 ? num / 100 : num, 1);
+  }
+
   /**
    * Sanitize title to remove Slack special formatting
    * Prevents mention injection (<!channel>, <@U123>) and link formatting
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkpointRefPrefix,
+  parseNameStatus,
+  pinCheckpoint,
+  restoreWorkingTree,
+  parseNumstat,
+  snapshotWorkingTree,
+  summarizeChanges,
+  unifiedDiff,
+  unpinCheckpoints,
+} from './git-changes';
+
+describe('parseNameStatus', () => {
+  it('should parse added, modified, deleted and renamed files', () => {
+    const output = ['A', 'new.ts', 'M', 'src/a.ts', 'D', 'old.ts', 'R087', 'src/b.ts', 'src/c.ts', ''].join('\0');
+    expect([...parseNameStatus(output)]).toEqual([
+      ['new.ts', { status: 'added' }],
+      ['src/a.ts', { status: 'modified' }],
+      ['old.ts', { status: 'deleted' }],
+      ['src/c.ts', { status: 'renamed', oldPath: 'src/b.ts' }],
+    ]);
+  });
+});
+
+describe('parseNumstat', () => {
+  it('should parse line counts, renames and binary files', () => {
+    const output = ['3\t1\tsrc/a.ts', '0\t0\t', 'src/b.ts', 'src/c.ts', '-\t-\tlogo.png', ''].join('\0');
+    expect([...parseNumstat(output)]).toEqual([
+      ['src/a.ts', { additions: 3, deletions: 1 }],
+      ['src/c.ts', { additions: 0, deletions: 0 }],
+      ['logo.png', { additions: null, deletions: null }],
+    ]);
+  });
+});
+
+describe('working tree snapshots', () => {
+  let repoDir: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      encoding: 'utf8',
+    });
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, file), content);
+  };
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-changes-test-'));
+    git('init', '-q');
+    write('keep.txt', 'one\ntwo\nthree\n');
+    write('remove.txt', 'bye\n');
+    write('move-me.txt', 'a\nb\nc\nd\ne\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should return undefined outside a git repository', async () => {
+    const plainDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-changes-plain-'));
+    try {
+      expect(await snapshotWorkingTree(plainDir)).toBeUndefined();
+    } finally {
+      fs.rmSync(plainDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should summarize changes between snapshots without touching the index', async () => {
+    write('dirty-before.txt', 'already here\n');
+    const before = await snapshotWorkingTree(repoDir);
+    expect(before).toMatch(/^[0-9a-f]{40}$/);
+
+    write('keep.txt', 'one\n2\nthree\nfour\n');
+    fs.rmSync(path.join(repoDir, 'remove.txt'));
+    fs.renameSync(path.join(repoDir, 'move-me.txt'), path.join(repoDir, 'moved.txt'));
+    write('src/new.ts', 'export {};\n');
+    const after = await snapshotWorkingTree(repoDir);
+
+    const summary = await summarizeChanges(repoDir, before!, after!);
+    expect(summary.files).toEqual([
+      { path: 'keep.txt', status: 'modified', additions: 2, deletions: 1 },
+      { path: 'moved.txt', oldPath: 'move-me.txt', status: 'renamed', additions: 0, deletions: 0 },
+      { path: 'remove.txt', status: 'deleted', additions: 0, deletions: 1 },
+      { path: 'src/new.ts', status: 'added', additions: 1, deletions: 0 },
+    ]);
+    expect(summary.additions).toBe(3);
+    expect(summary.deletions).toBe(2);
+
+    const diff = await unifiedDiff(repoDir, before!, after!);
+    expect(diff).toContain('+four');
+    expect(diff).toContain('rename to moved.txt');
+
+    // The user's staging area is left alone
+    expect(git('diff', '--cached', '--name-only')).toBe('');
+  });
+
+  it('should report no changes for identical snapshots', async () => {
+    const before = await snapshotWorkingTree(repoDir);
+    const after = await snapshotWorkingTree(repoDir);
+    expect(after).toBe(before);
+    expect((await summarizeChanges(repoDir, before!, after!)).files).toEqual([]);
+  });
+
+  it('should restore a snapshot and remove files created since', async () => {
+    write('untracked.txt', 'kept across the restore\n');
+    const checkpoint = await snapshotWorkingTree(repoDir);
+    git('add', 'untracked.txt');
+
+    write('keep.txt', 'rewritten\n');
+    fs.rmSync(path.join(repoDir, 'remove.txt'));
+    write('src/deep/new.ts', 'export {};\n');
+
+    const result = await restoreWorkingTree(repoDir, checkpoint!);
+
+    expect(result.reverted.files.map((file) => `${file.status} ${file.path}`)).toEqual([
+      'modified keep.txt',
+      'deleted remove.txt',
+      'added src/deep/new.ts',
+    ]);
+    expect(fs.readFileSync(path.join(repoDir, 'keep.txt'), 'utf8')).toBe('one\ntwo\nthree\n');
+    expect(fs.readFileSync(path.join(repoDir, 'remove.txt'), 'utf8')).toBe('bye\n');
+    expect(fs.existsSync(path.join(repoDir, 'src'))).toBe(false);
+    expect(await snapshotWorkingTree(repoDir)).toBe(checkpoint);
+
+    // The backup snapshot brings the undone changes back
+    await restoreWorkingTree(repoDir, result.backupTree);
+    expect(fs.readFileSync(path.join(repoDir, 'src/deep/new.ts'), 'utf8')).toBe('export {};\n');
+
+    // Staged files stay staged
+    expect(git('diff', '--cached', '--name-only')).toBe('untracked.txt\n');
+  });
+
+  it('should pin each checkpoint under its own ref and release them', async () => {
+    const refPrefix = checkpointRefPrefix('C123-111.222');
+    expect(refPrefix).toBe('refs/slack-bot/checkpoints/C123-111_222');
+
+    const first = await snapshotWorkingTree(repoDir);
+    const firstCommit = await pinCheckpoint(repoDir, first!, refPrefix, 'first');
+    write('keep.txt', 'changed\n');
+    const second = await snapshotWorkingTree(repoDir);
+    const secondCommit = await pinCheckpoint(repoDir, second!, refPrefix, 'second');
+
+    const refs = () => git('for-each-ref', '--format=%(refname)', `${refPrefix}/`).trim().split('\n').filter(Boolean);
+    expect(refs().sort()).toEqual([`${refPrefix}/${firstCommit}`, `${refPrefix}/${secondCommit}`].sort());
+    expect(git('rev-parse', `${refPrefix}/${secondCommit}^{tree}`).trim()).toBe(second);
+    // Branches are not moved
+    expect(git('log', '--format=%s').trim()).toBe('initial');
+
+    await unpinCheckpoints(repoDir, refPrefix, [firstCommit!]);
+    expect(refs()).toEqual([`${refPrefix}/${secondCommit}`]);
+
+    await unpinCheckpoints(repoDir, refPrefix);
+    expect(refs()).toEqual([]);
+  });
+
+  it('should leave large files out of snapshots', async () => {
+    const before = await snapshotWorkingTree(repoDir);
+    write('small.txt', 'hello\n');
+    write('dump.bin', 'x'.repeat(2 * 1024 * 1024));
+    const after = await snapshotWorkingTree(repoDir);
+
+    const summary = await summarizeChanges(repoDir, before!, after!);
+    expect(summary.files.map((file) => file.path)).toEqual(['small.txt']);
+  });
+
+  it('should snapshot the whole repository from a subdirectory', async () => {
+    write('src/a.ts', 'a\n');
+    const fromRoot = await snapshotWorkingTree(repoDir);
+    expect(await snapshotWorkingTree(path.join(repoDir, 'src'))).toBe(fromRoot);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Working tree snapshots, diffs and checkpoints for per-turn summaries and rollback
+ *
+ * A snapshot is a git tree object built from a temporary index, so it covers
+ * tracked and untracked (non-ignored) files without touching the user's index,
+ * stash or branches.
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Logger } from './logger';
+
+const logger = new Logger('GitChanges');
+
+// Snapshots of very large trees must not hold up the turn
+const GIT_TIMEOUT_MS = 30000;
+
+// Refs outside refs/heads and refs/tags are not listed as branches and not pushed by default
+const CHECKPOINT_REF_PREFIX = 'refs/slack-bot/checkpoints/';
+
+// Larger new or modified files are left out of snapshots (build outputs, dumps)
+const MAX_SNAPSHOT_FILE_BYTES = 1024 * 1024;
+
+// commit-tree needs an identity; checkpoint commits never land on a branch
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'Slack Bot Checkpoint',
+  GIT_AUTHOR_EMAIL: 'checkpoint@localhost',
+  GIT_COMMITTER_NAME: 'Slack Bot Checkpoint',
+  GIT_COMMITTER_EMAIL: 'checkpoint@localhost',
+};
+
+export type FileChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface FileChange {
+  path: string;
+  /** Previous path of a renamed file */
+  oldPath?: string;
+  status: FileChangeStatus;
+  /** null for binary files */
+  additions: number | null;
+  deletions: number | null;
+}
+
+export interface ChangeSummary {
+  files: FileChange[];
+  additions: number;
+  deletions: number;
+}
+
+export interface RestoreResult {
+  /** Changes since the snapshot that were undone */
+  reverted: ChangeSummary;
+  /** Snapshot of the working tree right before it was restored */
+  backupTree: string;
+}
+
+interface GitResult {
+  stdout: string;
+  stderr: string;
+  code: number | null;
+}
+
+interface GitOptions {
+  env?: NodeJS.ProcessEnv;
+  input?: string;
+}
+
+function runGit(args: string[], cwd: string, options: GitOptions = {}): Promise<GitResult> {
+  return new Promise((resolve, reject) => {
+    const git = spawn('git', args, { cwd, env: { ...process.env, ...options.env } });
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      git.kill();
+      reject(new Error(`git ${args[0]} timed out after ${GIT_TIMEOUT_MS}ms`));
+    }, GIT_TIMEOUT_MS);
+
+    git.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    git.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    git.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ stdout, stderr, code });
+    });
+
+    git.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    git.stdin.end(options.input);
+  });
+}
+
+async function runGitOrThrow(args: string[], cwd: string, options?: GitOptions): Promise<string> {
+  const result = await runGit(args, cwd, options);
+  if (result.code !== 0) {
+    throw new Error(`git ${args[0]} failed with code ${result.code}: ${result.stderr.trim()}`);
+  }
+  return result.stdout;
+}
+
+/**
+ * Absolute .git directory of the repository containing cwd, or undefined outside a repository
+ */
+export async function findGitDir(cwd: string): Promise<string | undefined> {
+  try {
+    const result = await runGit(['rev-parse', '--absolute-git-dir'], cwd);
+    return result.code === 0 ? result.stdout.trim() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function tempIndexFile(): string {
+  return path.join(os.tmpdir(), `turn-index-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+}
+
+/**
+ * Record the current working tree as a git tree object
+ * New or modified files over MAX_SNAPSHOT_FILE_BYTES keep their indexed version
+ * (or stay out, if untracked), so they are never restored or reported.
+ * Returns the tree hash, or undefined when cwd is not in a git repository or git fails.
+ */
+export async function snapshotWorkingTree(cwd: string): Promise<string | undefined> {
+  const gitDir = await findGitDir(cwd);
+  if (!gitDir) return undefined;
+
+  const indexFile = tempIndexFile();
+  try {
+    // Starting from the real index lets git reuse its stat cache
+    await fs.copyFile(path.join(gitDir, 'index'), indexFile).catch(() => undefined);
+    const env = { GIT_INDEX_FILE: indexFile };
+    const root = (await runGitOrThrow(['rev-parse', '--show-toplevel'], cwd)).trim();
+
+    const output = await runGitOrThrow(['ls-files', '--others', '--modified', '--exclude-standard', '-z'], root, { env });
+    const changed = [...new Set(output.split('\0').filter(Boolean))];
+    const included: string[] = [];
+    for (const filePath of changed) {
+      const stat = await fs.lstat(path.join(root, filePath)).catch(() => undefined);
+      // Deleted files (no stat) are included so the deletion is recorded
+      if (!stat || stat.size <= MAX_SNAPSHOT_FILE_BYTES) {
+        included.push(filePath);
+      }
+    }
+    if (included.length < changed.length) {
+      logger.debug('Left large files out of snapshot', { cwd, skipped: changed.length - included.length });
+    }
+
+    if (included.length > 0) {
+      await runGitOrThrow(
+        ['--literal-pathspecs', 'add', '--all', '--pathspec-from-file=-', '--pathspec-file-nul'],
+        root,
+        { env, input: included.join('\0') }
+      );
+    }
+    return (await runGitOrThrow(['write-tree'], root, { env })).trim();
+  } catch (error) {
+    logger.warn('Failed to snapshot working tree', { cwd, error });
+    return undefined;
+  } finally {
+    await fs.rm(indexFile, { force: true });
+  }
+}
+
+/**
+ * Parse `git diff --name-status -z -M` output
+ */
+export function parseNameStatus(output: string): Map<string, { status: FileChangeStatus; oldPath?: string }> {
+  const entries = new Map<string, { status: FileChangeStatus; oldPath?: string }>();
+  const fields = output.split('\0');
+
+  for (let i = 0; i < fields.length && fields[i]; ) {
+    const code = fields[i++][0];
+    if (code === 'R' || code === 'C') {
+      const oldPath = fields[i++];
+      const newPath = fields[i++];
+      entries.set(newPath, code === 'R' ? { status: 'renamed', oldPath } : { status: 'added' });
+    } else {
+      const filePath = fields[i++];
+      const status: FileChangeStatus = code === 'A' ? 'added' : code === 'D' ? 'deleted' : 'modified';
+      entries.set(filePath, { status });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Parse `git diff --numstat -z -M` output into line counts by (new) path
+ */
+export function parseNumstat(output: string): Map<string, { additions: number | null; deletions: number | null }> {
+  const counts = new Map<string, { additions: number | null; deletions: number | null }>();
+  const fields = output.split('\0');
+
+  for (let i = 0; i < fields.length && fields[i]; ) {
+    const [added, deleted, filePath] = fields[i++].split('\t');
+    let key = filePath;
+    if (!key) {
+      // Renames leave the path empty and follow with the old and new paths
+      i++;
+      key = fields[i++];
+    }
+    counts.set(key, {
+      additions: added === '-' ? null : parseInt(added, 10),
+      deletions: deleted === '-' ? null : parseInt(deleted, 10),
+    });
+  }
+  return counts;
+}
+
+/**
+ * Files changed between two snapshots, sorted by path
+ */
+export async function summarizeChanges(cwd: string, fromTree: string, toTree: string): Promise<ChangeSummary> {
+  if (fromTree === toTree) {
+    return { files: [], additions: 0, deletions: 0 };
+  }
+
+  const [nameStatus, numstat] = await Promise.all([
+    runGitOrThrow(['diff', '--name-status', '-z', '-M', fromTree, toTree], cwd),
+    runGitOrThrow(['diff', '--numstat', '-z', '-M', fromTree, toTree], cwd),
+  ]);
+  const counts = parseNumstat(numstat);
+
+  const files: FileChange[] = [];
+  for (const [filePath, entry] of parseNameStatus(nameStatus)) {
+    const count = counts.get(filePath) ?? { additions: null, deletions: null };
+    files.push({ path: filePath, ...entry, ...count });
+  }
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    files,
+    additions: files.reduce((sum, file) => sum + (file.additions ?? 0), 0),
+    deletions: files.reduce((sum, file) => sum + (file.deletions ?? 0), 0),
+  };
+}
+
+/**
+ * Unified diff between two snapshots
+ */
+export async function unifiedDiff(cwd: string, fromTree: string, toTree: string): Promise<string> {
+  return runGitOrThrow(['diff', '--no-color', '--no-ext-diff', '-M', fromTree, toTree], cwd);
+}
+
+/**
+ * Hidden ref namespace holding the checkpoints of one session
+ */
+export function checkpointRefPrefix(sessionKey: string): string {
+  return CHECKPOINT_REF_PREFIX + sessionKey.replace(/[^A-Za-z0-9_-]+/g, '_');
+}
+
+/**
+ * Keep a snapshot reachable from a hidden ref so `git gc` does not prune it
+ * Each checkpoint gets its own ref, `<refPrefix>/<commit>`, so it can be released alone.
+ * Returns the commit hash, or undefined when git fails.
+ */
+export async function pinCheckpoint(
+  cwd: string,
+  tree: string,
+  refPrefix: string,
+  message: string
+): Promise<string | undefined> {
+  try {
+    const commit = (await runGitOrThrow(['commit-tree', tree, '-m', message], cwd, { env: CHECKPOINT_IDENTITY })).trim();
+    await runGitOrThrow(['update-ref', `${refPrefix}/${commit}`, commit], cwd);
+    return commit;
+  } catch (error) {
+    logger.warn('Failed to pin checkpoint', { cwd, refPrefix, error });
+    return undefined;
+  }
+}
+
+/**
+ * Delete checkpoint refs so `git gc` can reclaim their snapshots
+ * Without `commits`, every ref under the prefix is deleted.
+ */
+export async function unpinCheckpoints(cwd: string, refPrefix: string, commits?: string[]): Promise<void> {
+  try {
+    const refs = commits
+      ? commits.map((commit) => `${refPrefix}/${commit}`)
+      : (await runGitOrThrow(['for-each-ref', '--format=%(refname)', `${refPrefix}/`], cwd)).split('\n').filter(Boolean);
+    if (refs.length === 0) return;
+
+    await runGitOrThrow(['update-ref', '--stdin'], cwd, {
+      input: refs.map((ref) => `delete ${ref}\n`).join(''),
+    });
+  } catch (error) {
+    logger.warn('Failed to unpin checkpoints', { cwd, refPrefix, error });
+  }
+}
+
+// Remove directories left empty by deleted files, up to (not including) the repository root
+async function removeEmptyParents(root: string, filePath: string): Promise<void> {
+  let dir = path.dirname(filePath);
+  while (dir.startsWith(root + path.sep)) {
+    try {
+      await fs.rmdir(dir);
+    } catch {
+      return; // Not empty
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+/**
+ * Make the working tree match a snapshot
+ * Files created since the snapshot are deleted; ignored files are left alone, and
+ * the index, HEAD and branches are not touched.
+ */
+export async function restoreWorkingTree(cwd: string, tree: string): Promise<RestoreResult> {
+  const backupTree = await snapshotWorkingTree(cwd);
+  if (!backupTree) {
+    throw new Error(`Cannot snapshot ${cwd}; is it a git working directory?`);
+  }
+
+  const reverted = await summarizeChanges(cwd, tree, backupTree);
+  if (reverted.files.length === 0) {
+    return { reverted, backupTree };
+  }
+
+  const root = (await runGitOrThrow(['rev-parse', '--show-toplevel'], cwd)).trim();
+  const changes = parseNameStatus(
+    await runGitOrThrow(['diff', '--name-status', '-z', '--no-renames', tree, backupTree], root)
+  );
+
+  const toCheckout: string[] = [];
+  for (const [filePath, { status }] of changes) {
+    if (status === 'added') {
+      const absolutePath = path.join(root, filePath);
+      await fs.rm(absolutePath, { force: true });
+      await removeEmptyParents(root, absolutePath);
+    } else {
+      toCheckout.push(filePath);
+    }
+  }
+
+  if (toCheckout.length > 0) {
+    const indexFile = tempIndexFile();
+    try {
+      const env = { GIT_INDEX_FILE: indexFile };
+      await runGitOrThrow(['read-tree', tree], root, { env });
+      await runGitOrThrow(['checkout-index', '--force', '-z', '--stdin'], root, {
+        env,
+        input: toCheckout.join('\0'),
+      });
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  logger.info('Restored working tree', { cwd, tree, files: reverted.files.length });
+  return { reverted, backupTree };
+}
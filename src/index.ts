@@ -6,6 +6,10 @@ import { McpManager } from './mcp-manager';
 import { Logger } from './logger';
 import { discoverInstallations, isGitHubAppConfigured, getGitHubAppAuth } from './github-auth.js';
 import { initializeDispatchService } from './dispatch-service';
+import { PermissionBroker } from './permission-broker';
+import { sharedStore } from './shared-store';
+import { Scheduler, scheduleStore } from './scheduler';
+import { IngressServer, WebhookRuleStore } from './ingress';
 
 const logger = new Logger('Main');
 
@@ -21,6 +25,20 @@ async function start() {
     validateConfig();
     timing('Config validated');
 
+    // Serve /health right away; webhooks are accepted once Slack is connected
+    const ingressServer = new IngressServer({
+      port: config.ingress.port,
+      rules: new WebhookRuleStore(config.ingress.rulesFile || undefined),
+      webhookSecret: config.ingress.webhookSecret,
+      webhookToken: config.ingress.webhookToken,
+    });
+    try {
+      await ingressServer.start();
+      timing('Ingress server started');
+    } catch (error) {
+      logger.error('Failed to start ingress server', error);
+    }
+
     // Run preflight checks
     const preflight = await runPreflightChecks();
     timing('Preflight checks completed');
@@ -85,6 +103,16 @@ async function start() {
       }
     }
 
+    // Start the permission broker; permission prompts fall back to the file store without it
+    const permissionBroker = new PermissionBroker();
+    try {
+      await permissionBroker.start();
+      sharedStore.useBroker(permissionBroker);
+      timing('Permission broker started');
+    } catch (error) {
+      logger.error('Failed to start permission broker, using file store', error);
+    }
+
     // Initialize handlers
     const claudeHandler = new ClaudeHandler(mcpManager);
     timing('ClaudeHandler initialized');
@@ -112,6 +140,17 @@ async function start() {
     timing('Slack socket connected');
     logger.info('⚡️ Claude Code Slack bot is running!');
 
+    // Start scheduled prompts once Slack is connected
+    const scheduler = new Scheduler({
+      store: scheduleStore,
+      runJob: (job) => slackHandler.runScheduledJob(job),
+    });
+    if (config.scheduler.enabled) {
+      scheduler.start();
+      timing('Scheduler started');
+    }
+    ingressServer.setThreadStarter((request) => slackHandler.startWebhookThread(request));
+
     // Send startup notification to admin
     const ADMIN_USER_ID = process.env.ADMIN_USER_ID || 'U09F1M5MML1';
     try {
@@ -137,6 +176,9 @@ async function start() {
 
       logger.info('Shutting down gracefully...');
 
+      scheduler.stop();
+      await ingressServer.stop();
+
       try {
         // Notify all active sessions about shutdown
         await slackHandler.notifyShutdown();
@@ -154,6 +196,9 @@ async function start() {
         logger.info('GitHub App auto-refresh stopped');
       }
 
+      sharedStore.detachBroker();
+      await permissionBroker.stop();
+
       process.exit(0);
     };
 
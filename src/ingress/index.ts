@@ -0,0 +1,21 @@
+/**
+ * HTTP ingress - health checks and webhooks that start Slack threads
+ */
+
+export {
+  IngressServer,
+  IngressServerDeps,
+  WebhookThreadRequest,
+  WebhookThreadStarter,
+  verifyWebhookSignature,
+} from './ingress-server';
+export {
+  WebhookRule,
+  WebhookRulesFile,
+  WebhookEvent,
+  WebhookRuleStore,
+  buildWebhookPrompt,
+  getDefaultRulesPath,
+  matchWebhookRule,
+  renderTemplate,
+} from './webhook-rules';
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IngressServer, verifyWebhookSignature } from './ingress-server';
+import { WebhookRuleStore } from './webhook-rules';
+
+const SECRET = 'test-secret';
+
+function sign(body: string): string {
+  return `sha256=${crypto.createHmac('sha256', SECRET).update(body).digest('hex')}`;
+}
+
+describe('IngressServer', () => {
+  let dir: string;
+  let server: IngressServer;
+  let baseUrl: string;
+
+  const post = (pathname: string, body: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${pathname}`, { method: 'POST', body, headers: { 'Content-Type': 'application/json', ...headers } });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingress-test-'));
+    const rulesPath = path.join(dir, 'webhook-rules.json');
+    fs.writeFileSync(
+      rulesPath,
+      JSON.stringify({
+        rules: [
+          { name: 'pr-review', source: 'github', event: 'pull_request.opened', channel: 'C1', user: 'U1', workflow: 'pr-review' },
+          { name: 'alerts', source: 'generic', match: { severity: 'high' }, channel: 'C2', user: 'U2', prompt: 'Investigate {{title}}' },
+        ],
+      })
+    );
+
+    server = new IngressServer({ port: 0, rules: new WebhookRuleStore(rulesPath), webhookSecret: SECRET, webhookToken: 'tok' });
+    baseUrl = `http://127.0.0.1:${await server.start()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should answer health checks', async () => {
+    const res = await fetch(`${baseUrl}/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: 'ok' });
+  });
+
+  it('should start a thread for a signed GitHub event', async () => {
+    const startThread = vi.fn(async () => ({ threadTs: '1700000000.000100' }));
+    server.setThreadStarter(startThread);
+    const body = JSON.stringify({ action: 'opened', pull_request: { html_url: 'https://github.com/org/api/pull/42' } });
+    const headers = { 'X-GitHub-Event': 'pull_request', 'X-GitHub-Delivery': 'd-1', 'X-Hub-Signature-256': sign(body) };
+
+    const res = await post('/webhooks/github', body, headers);
+
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ status: 'started', rule: 'pr-review', channel: 'C1', threadTs: '1700000000.000100' });
+    expect(startThread).toHaveBeenCalledWith(
+      expect.objectContaining({ prompt: 'https://github.com/org/api/pull/42', event: expect.objectContaining({ event: 'pull_request' }) })
+    );
+
+    // Redelivery of the same event
+    expect(await (await post('/webhooks/github', body, headers)).json()).toEqual({ status: 'duplicate' });
+    expect(startThread).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject bad signatures and missing credentials', async () => {
+    const body = JSON.stringify({ severity: 'high', title: 'Disk full' });
+
+    expect((await post('/webhooks/generic', body, { 'X-Hub-Signature-256': sign('other') })).status).toBe(401);
+    expect((await post('/webhooks/generic', body)).status).toBe(401);
+    expect((await post('/webhooks/generic', body, { Authorization: 'Bearer wrong' })).status).toBe(401);
+  });
+
+  it('should accept bearer tokens for generic events and ignore unmatched ones', async () => {
+    const startThread = vi.fn(async () => ({ threadTs: '1.2' }));
+    server.setThreadStarter(startThread);
+    const auth = { Authorization: 'Bearer tok' };
+
+    const matched = await post('/webhooks/generic', JSON.stringify({ severity: 'high', title: 'Disk full' }), auth);
+    const ignored = await post('/webhooks/generic', JSON.stringify({ severity: 'low' }), auth);
+
+    expect(matched.status).toBe(202);
+    expect(startThread).toHaveBeenCalledWith(expect.objectContaining({ prompt: 'Investigate Disk full' }));
+    expect(await ignored.json()).toEqual({ status: 'ignored' });
+  });
+
+  it('should report 503 before Slack is connected', async () => {
+    const body = JSON.stringify({ severity: 'high', title: 'x' });
+    expect((await post('/webhooks/generic', body, { Authorization: 'Bearer tok' })).status).toBe(503);
+  });
+
+  it('should forget the delivery when starting the thread fails so a redelivery is retried', async () => {
+    const startThread = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Slack is down'))
+      .mockResolvedValueOnce({ threadTs: '1.3' });
+    server.setThreadStarter(startThread);
+    const body = JSON.stringify({ severity: 'high', title: 'Disk full' });
+    const headers = { Authorization: 'Bearer tok', 'X-GitHub-Delivery': 'd-2' };
+
+    expect((await post('/webhooks/generic', body, headers)).status).toBe(500);
+    expect((await post('/webhooks/generic', body, headers)).status).toBe(202);
+    expect(startThread).toHaveBeenCalledTimes(2);
+  });
+
+  it('should answer oversized bodies with 413', async () => {
+    const body = JSON.stringify({ severity: 'high', title: 'x'.repeat(2 * 1024 * 1024) });
+
+    const res = await post('/webhooks/generic', body, { Authorization: 'Bearer tok' });
+
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({ error: 'Payload too large' });
+  });
+
+  it('should verify signatures in constant time only for matching lengths', () => {
+    const body = Buffer.from('{}');
+    expect(verifyWebhookSignature(SECRET, body, sign('{}'))).toBe(true);
+    expect(verifyWebhookSignature(SECRET, body, 'sha256=abc')).toBe(false);
+    expect(verifyWebhookSignature('', body, sign('{}'))).toBe(false);
+  });
+});
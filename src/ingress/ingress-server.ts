@@ -0,0 +1,233 @@
+import http from 'http';
+import crypto from 'crypto';
+import { Logger } from '../logger';
+import { WebhookEvent, WebhookRule, WebhookRuleStore, buildWebhookPrompt, matchWebhookRule } from './webhook-rules';
+
+// Largest accepted request body (GitHub caps payloads at 25 MB, but PR events are far smaller)
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Delivery IDs remembered to drop redeliveries
+const MAX_RECENT_DELIVERIES = 500;
+
+/**
+ * Thread to start for a matched webhook (see SlackHandler.startThread)
+ */
+export interface WebhookThreadRequest {
+  rule: WebhookRule;
+  event: WebhookEvent;
+  prompt: string;
+}
+
+export type WebhookThreadStarter = (request: WebhookThreadRequest) => Promise<{ threadTs: string }>;
+
+export interface IngressServerDeps {
+  port: number;
+  rules: WebhookRuleStore;
+  webhookSecret?: string;
+  webhookToken?: string;
+}
+
+interface IngressResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Verify an `X-Hub-Signature-256: sha256=<hex>` header against the raw body
+ */
+export function verifyWebhookSignature(secret: string, body: Buffer, header: string | undefined): boolean {
+  if (!secret || !header?.startsWith('sha256=')) {
+    return false;
+  }
+  const expected = Buffer.from(`sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function verifyBearerToken(token: string, header: string | undefined): boolean {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!token || !match) {
+    return false;
+  }
+  const expected = crypto.createHash('sha256').update(token).digest();
+  const actual = crypto.createHash('sha256').update(match[1].trim()).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * HTTP server for health checks and webhook ingress
+ * - GET /health: liveness
+ * - POST /webhooks/<source>: authenticated event, mapped by webhook rules to a new Slack thread
+ */
+export class IngressServer {
+  private logger = new Logger('IngressServer');
+  private server?: http.Server;
+  private startThread?: WebhookThreadStarter;
+  private recentDeliveries: Set<string> = new Set();
+
+  constructor(private deps: IngressServerDeps) {}
+
+  /**
+   * Webhooks are answered with 503 until a thread starter is attached (Slack not connected yet)
+   */
+  setThreadStarter(starter: WebhookThreadStarter): void {
+    this.startThread = starter;
+  }
+
+  isWebhookEnabled(): boolean {
+    return !!(this.deps.webhookSecret || this.deps.webhookToken);
+  }
+
+  async start(): Promise<number> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req)
+        .catch((error): IngressResponse => {
+          this.logger.error('Ingress request failed', error);
+          return { status: 500, body: { error: 'Internal error' } };
+        })
+        .then(({ status, body }) => {
+          // An oversized body is still arriving; close the connection once the 413 is out
+          res.writeHead(status, { 'Content-Type': 'application/json', ...(status === 413 ? { Connection: 'close' } : {}) });
+          res.end(JSON.stringify(body));
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.deps.port, () => resolve());
+    });
+    this.server = server;
+
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : this.deps.port;
+    this.logger.info('Ingress server listening', { port, webhooks: this.isWebhookEnabled() });
+    return port;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handleRequest(req: http.IncomingMessage): Promise<IngressResponse> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method === 'GET' && (url.pathname === '/health' || url.pathname === '/')) {
+      return { status: 200, body: { status: 'ok', timestamp: new Date().toISOString() } };
+    }
+
+    const webhookMatch = url.pathname.match(/^\/webhooks\/([\w-]+)\/?$/);
+    if (!webhookMatch || !this.isWebhookEnabled()) {
+      return { status: 404, body: { error: 'Not found' } };
+    }
+    if (req.method !== 'POST') {
+      return { status: 405, body: { error: 'Method not allowed' } };
+    }
+
+    const body = await this.readBody(req);
+    if (!body) {
+      return { status: 413, body: { error: 'Payload too large' } };
+    }
+
+    const signature = req.headers['x-hub-signature-256'] as string | undefined;
+    const authorized =
+      verifyWebhookSignature(this.deps.webhookSecret || '', body, signature) ||
+      verifyBearerToken(this.deps.webhookToken || '', req.headers.authorization);
+    if (!authorized) {
+      this.logger.warn('Rejected unauthenticated webhook', { source: webhookMatch[1], ip: req.socket.remoteAddress });
+      return { status: 401, body: { error: 'Unauthorized' } };
+    }
+
+    let payload: any;
+    try {
+      payload = this.parsePayload(body, req.headers['content-type']);
+    } catch {
+      return { status: 400, body: { error: 'Invalid JSON' } };
+    }
+
+    const source = webhookMatch[1].toLowerCase();
+    const eventName = (req.headers['x-github-event'] || req.headers['x-webhook-event'] || payload?.event) as
+      | string
+      | undefined;
+    return this.handleEvent({ source, event: eventName, payload }, req.headers['x-github-delivery'] as string);
+  }
+
+  private async handleEvent(event: WebhookEvent, deliveryId?: string): Promise<IngressResponse> {
+    if (event.source === 'github' && event.event === 'ping') {
+      return { status: 200, body: { status: 'pong' } };
+    }
+
+    if (deliveryId) {
+      if (this.recentDeliveries.has(deliveryId)) {
+        return { status: 200, body: { status: 'duplicate' } };
+      }
+      this.recentDeliveries.add(deliveryId);
+      if (this.recentDeliveries.size > MAX_RECENT_DELIVERIES) {
+        this.recentDeliveries.delete(this.recentDeliveries.values().next().value!);
+      }
+    }
+
+    const rule = matchWebhookRule(this.deps.rules.getRules(), event);
+    if (!rule) {
+      this.logger.debug('No webhook rule matched', { source: event.source, event: event.event });
+      return { status: 200, body: { status: 'ignored' } };
+    }
+
+    const prompt = buildWebhookPrompt(rule, event);
+    if (!prompt) {
+      this.logger.warn('Webhook rule produced an empty prompt', { rule: rule.name, event: event.event });
+      return { status: 422, body: { error: 'Rule produced an empty prompt', rule: rule.name } };
+    }
+
+    if (!this.startThread) {
+      if (deliveryId) this.recentDeliveries.delete(deliveryId); // Let the sender retry
+      return { status: 503, body: { error: 'Not ready' } };
+    }
+
+    let threadTs: string;
+    try {
+      ({ threadTs } = await this.startThread({ rule, event, prompt }));
+    } catch (error) {
+      if (deliveryId) this.recentDeliveries.delete(deliveryId); // Let the sender retry
+      throw error;
+    }
+    this.logger.info('Started thread from webhook', { rule: rule.name, source: event.source, event: event.event, threadTs });
+    return { status: 202, body: { status: 'started', rule: rule.name, channel: rule.channel, threadTs } };
+  }
+
+  /**
+   * Read the body, or undefined if it exceeds MAX_BODY_BYTES
+   * The rest of an oversized body is read and dropped so the 413 reaches the sender.
+   */
+  private readBody(req: http.IncomingMessage): Promise<Buffer | undefined> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        if (size > MAX_BODY_BYTES) return;
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          chunks.length = 0;
+          resolve(undefined);
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+
+  /**
+   * JSON body, or GitHub's form encoding (payload=<json>)
+   */
+  private parsePayload(body: Buffer, contentType: string | undefined): any {
+    const text = body.toString('utf8');
+    if (contentType?.startsWith('application/x-www-form-urlencoded')) {
+      return JSON.parse(new URLSearchParams(text).get('payload') || '');
+    }
+    return text.trim() ? JSON.parse(text) : {};
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WebhookRule, WebhookRuleStore, buildWebhookPrompt, matchWebhookRule, renderTemplate } from './webhook-rules';
+
+const prOpened = {
+  source: 'github',
+  event: 'pull_request',
+  payload: {
+    action: 'opened',
+    pull_request: { html_url: 'https://github.com/org/api/pull/42', draft: false, base: { ref: 'main' } },
+    repository: { full_name: 'org/api' },
+  },
+};
+
+const base = { channel: 'C1', user: 'U1' };
+
+describe('webhook rules', () => {
+  it('should match source, event with action and payload paths in order', () => {
+    const rules: WebhookRule[] = [
+      { ...base, name: 'drafts', source: 'github', event: 'pull_request.opened', match: { 'pull_request.draft': true } },
+      { ...base, name: 'api-prs', source: 'github', event: 'pull_request.opened', match: { 'repository.full_name': ['org/api', 'org/web'] } },
+      { ...base, name: 'any-pr', source: 'github', event: 'pull_request' },
+    ];
+
+    expect(matchWebhookRule(rules, prOpened)?.name).toBe('api-prs');
+    expect(matchWebhookRule(rules, { ...prOpened, payload: { ...prOpened.payload, action: 'closed' } })?.name).toBe('any-pr');
+    expect(matchWebhookRule(rules, { ...prOpened, source: 'generic' })).toBeUndefined();
+    expect(matchWebhookRule(rules, { ...prOpened, event: 'push' })).toBeUndefined();
+  });
+
+  it('should match the source regardless of case', () => {
+    const rules: WebhookRule[] = [{ ...base, name: 'any-pr', source: 'GitHub', event: 'pull_request' }];
+
+    expect(matchWebhookRule(rules, prOpened)?.name).toBe('any-pr');
+  });
+
+  it('should render templates and fall back to the default prompt for the event', () => {
+    expect(renderTemplate('Review {{ pull_request.html_url }} on {{pull_request.base.ref}}{{missing.path}}', prOpened.payload)).toBe(
+      'Review https://github.com/org/api/pull/42 on main'
+    );
+    expect(buildWebhookPrompt({ ...base, name: 'r', source: 'github' }, prOpened)).toBe('https://github.com/org/api/pull/42');
+    expect(buildWebhookPrompt({ ...base, name: 'r', source: 'generic' }, { source: 'generic', payload: {} })).toBe('');
+  });
+
+  describe('WebhookRuleStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhook-rules-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load rules and drop invalid ones', () => {
+      const filePath = path.join(dir, 'webhook-rules.json');
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({
+          rules: [
+            { ...base, name: 'ok', source: 'github' },
+            { name: 'no-channel', source: 'github', user: 'U1' },
+            { ...base, name: 'bad-workflow', source: 'github', workflow: 'does-not-exist' },
+          ],
+        })
+      );
+
+      expect(new WebhookRuleStore(filePath).getRules().map((r) => r.name)).toEqual(['ok']);
+      expect(new WebhookRuleStore(path.join(dir, 'missing.json')).getRules()).toEqual([]);
+    });
+  });
+});
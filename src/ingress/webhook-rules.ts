@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from '../logger';
+import { WorkflowType } from '../types';
+import { workflowRegistry } from '../workflow-registry';
+
+const logger = new Logger('WebhookRules');
+
+type MatchValue = string | number | boolean | null;
+
+/**
+ * Maps an incoming event to a Slack thread
+ * `match` keys are dotted payload paths (e.g., `pull_request.base.ref`); an array
+ * value accepts any of its items.
+ */
+export interface WebhookRule {
+  name: string;
+  source: string; // URL segment of /webhooks/<source> (e.g., github)
+  event?: string | string[]; // X-GitHub-Event / X-Webhook-Event, optionally with `.action` (pull_request.opened)
+  match?: Record<string, MatchValue | MatchValue[]>;
+  channel: string; // Slack channel ID the thread is started in
+  user: string; // Slack user ID the prompt runs as
+  workflow?: WorkflowType; // Skip dispatch
+  workingDirectory?: string;
+  prompt?: string; // Template with {{payload.path}} placeholders
+}
+
+export interface WebhookRulesFile {
+  rules: WebhookRule[];
+}
+
+/**
+ * Incoming event, normalized across sources
+ */
+export interface WebhookEvent {
+  source: string;
+  event?: string;
+  payload: any;
+}
+
+// Prompts used when a rule has none, keyed by `<source>:<event>`
+// Only links: free text from a payload is written by whoever triggered the event.
+const DEFAULT_PROMPTS: Record<string, string> = {
+  'github:pull_request': '{{pull_request.html_url}}',
+  'github:issues': '{{issue.html_url}}',
+};
+
+/**
+ * Default location of the rules file
+ */
+export function getDefaultRulesPath(): string {
+  return path.join(process.cwd(), 'data', 'webhook-rules.json');
+}
+
+/**
+ * Read a dotted path from a payload (undefined if any segment is missing)
+ */
+export function getPath(payload: any, dottedPath: string): unknown {
+  return dottedPath.split('.').reduce((value, key) => (value == null ? undefined : value[key]), payload);
+}
+
+/**
+ * Fill {{path}} placeholders from the payload; missing values become empty strings
+ */
+export function renderTemplate(template: string, payload: any): string {
+  return template
+    .replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, dottedPath: string) => {
+      const value = getPath(payload, dottedPath);
+      if (value == null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    })
+    .trim();
+}
+
+function eventMatches(rule: WebhookRule, event: WebhookEvent): boolean {
+  if (rule.event === undefined) return true;
+  if (!event.event) return false;
+
+  // `pull_request.opened` also checks the payload's action
+  const action = typeof event.payload?.action === 'string' ? event.payload.action : undefined;
+  const names = [event.event, ...(action ? [`${event.event}.${action}`] : [])];
+  const wanted = Array.isArray(rule.event) ? rule.event : [rule.event];
+  return wanted.some((name) => names.includes(name));
+}
+
+function payloadMatches(rule: WebhookRule, payload: any): boolean {
+  return Object.entries(rule.match ?? {}).every(([dottedPath, expected]) => {
+    const actual = getPath(payload, dottedPath);
+    const accepted = Array.isArray(expected) ? expected : [expected];
+    return accepted.some((value) => value === actual || (value === null && actual === undefined));
+  });
+}
+
+/**
+ * Prompt for a matched rule: its template, or the source's default for the event
+ */
+export function buildWebhookPrompt(rule: WebhookRule, event: WebhookEvent): string {
+  const template = rule.prompt ?? DEFAULT_PROMPTS[`${event.source}:${event.event}`] ?? '';
+  return renderTemplate(template, event.payload);
+}
+
+/**
+ * First rule that matches the event, in file order
+ * Sources compare case-insensitively: the server lowercases the URL segment.
+ */
+export function matchWebhookRule(rules: WebhookRule[], event: WebhookEvent): WebhookRule | undefined {
+  const source = event.source.toLowerCase();
+  return rules.find(
+    (rule) => rule.source.toLowerCase() === source && eventMatches(rule, event) && payloadMatches(rule, event.payload)
+  );
+}
+
+/**
+ * Rules file store, reloaded when the file changes
+ */
+export class WebhookRuleStore {
+  private rules: WebhookRule[] = [];
+  private loadedMtimeMs = -1;
+
+  constructor(private filePath: string = getDefaultRulesPath()) {}
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Current rules (invalid entries are dropped with an error log)
+   */
+  getRules(): WebhookRule[] {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        this.rules = [];
+        this.loadedMtimeMs = -1;
+        return this.rules;
+      }
+
+      const mtimeMs = fs.statSync(this.filePath).mtimeMs;
+      if (mtimeMs !== this.loadedMtimeMs) {
+        const data: Partial<WebhookRulesFile> = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        this.rules = (Array.isArray(data.rules) ? data.rules : []).filter((rule, index) => this.isValid(rule, index));
+        this.loadedMtimeMs = mtimeMs;
+        logger.info('Loaded webhook rules', { filePath: this.filePath, rules: this.rules.length });
+      }
+    } catch (error) {
+      logger.error('Failed to load webhook rules', error);
+    }
+    return this.rules;
+  }
+
+  private isValid(rule: WebhookRule, index: number): boolean {
+    const missing = (['name', 'source', 'channel', 'user'] as const).filter(
+      (field) => typeof rule?.[field] !== 'string' || !rule[field]
+    );
+    if (missing.length > 0) {
+      logger.error('Skipping webhook rule with missing fields', { index, name: rule?.name, missing });
+      return false;
+    }
+    if (rule.workflow && !workflowRegistry.has(rule.workflow)) {
+      logger.error('Skipping webhook rule with unknown workflow', { index, name: rule.name, workflow: rule.workflow });
+      return false;
+    }
+    return true;
+  }
+}
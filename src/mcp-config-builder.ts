@@ -4,8 +4,12 @@
  */
 
 import { Logger } from './logger';
+import { config } from './config';
 import { McpManager } from './mcp-manager';
 import { userSettingsStore } from './user-settings-store';
+import { permissionPolicyStore } from './permission/policy';
+import { permissionAuditLog } from './permission/audit-log';
+import { sharedStore } from './shared-store';
 import * as path from 'path';
 
 /**
@@ -15,6 +19,8 @@ export interface SlackContext {
   channel: string;
   threadTs?: string;
   user: string;
+  /** Session owner, used for permission escalation */
+  ownerId?: string;
 }
 
 /**
@@ -44,7 +50,7 @@ export class McpConfigBuilder {
   /**
    * Build MCP configuration for a query
    */
-  async buildConfig(slackContext?: SlackContext): Promise<McpConfig> {
+  async buildConfig(slackContext?: SlackContext, workingDirectory?: string): Promise<McpConfig> {
     // Check if user has bypass permission enabled
     const userBypass = slackContext?.user
       ? userSettingsStore.getUserBypassPermission(slackContext.user)
@@ -59,7 +65,7 @@ export class McpConfigBuilder {
 
     // Add permission prompt server if needed
     if (slackContext && !userBypass) {
-      const permissionServer = this.buildPermissionServer(slackContext);
+      const permissionServer = this.buildPermissionServer(slackContext, workingDirectory);
 
       if (mcpServers) {
         config.mcpServers = { ...mcpServers, ...permissionServer };
@@ -104,8 +110,12 @@ export class McpConfigBuilder {
 
   /**
    * Build the permission prompt MCP server configuration
+   * The working directory and policy path let the server apply the permission policy;
+   * the user's always-allow rules are passed as JSON so it can skip prompts for them.
+   * Without a broker socket the server falls back to the file store.
+   * Timeout and escalation targets are resolved here, where config and the session are known.
    */
-  private buildPermissionServer(slackContext: SlackContext): Record<string, any> {
+  private buildPermissionServer(slackContext: SlackContext, workingDirectory?: string): Record<string, any> {
     return {
       'permission-prompt': {
         command: 'npx',
@@ -113,11 +123,32 @@ export class McpConfigBuilder {
         env: {
           SLACK_BOT_TOKEN: process.env.SLACK_BOT_TOKEN,
           SLACK_CONTEXT: JSON.stringify(slackContext),
+          WORKING_DIRECTORY: workingDirectory || '',
+          PERMISSION_POLICY_FILE: permissionPolicyStore.getFilePath(),
+          PERMISSION_ALLOW_RULES: JSON.stringify(userSettingsStore.getUserAllowRules(slackContext.user)),
+          PERMISSION_BROKER_SOCKET: sharedStore.getBrokerSocketPath() || '',
+          PERMISSION_AUDIT_LOG: permissionAuditLog.getFilePath(),
+          PERMISSION_TIMEOUT_MS: String(config.permission.timeoutMinutes * 60 * 1000),
+          PERMISSION_ESCALATE_AFTER_MS: String(config.permission.escalateAfterMinutes * 60 * 1000),
+          PERMISSION_ESCALATE_TO: this.getEscalationTargets(slackContext).join(','),
         },
       },
     };
   }
 
+  /**
+   * Users to ping when a prompt goes unanswered (never the requester, who was already asked)
+   */
+  private getEscalationTargets(slackContext: SlackContext): string[] {
+    const targets =
+      config.permission.escalateTo === 'admins'
+        ? config.admin.userIds
+        : slackContext.ownerId
+          ? [slackContext.ownerId]
+          : [];
+    return targets.filter((id) => id !== slackContext.user);
+  }
+
   /**
    * Build the list of allowed tools
    */
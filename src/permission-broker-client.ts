@@ -0,0 +1,218 @@
+import net from 'net';
+import { StderrLogger } from './stderr-logger.js';
+import type {
+  PermissionStore,
+  PendingApproval,
+  PermissionResponse,
+  SessionApproval,
+} from './shared-store.js';
+
+// Used inside the permission MCP server, so log to stderr (stdout is the MCP channel)
+const logger = new StderrLogger('PermissionBrokerClient');
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 10 * 1000;
+// Extra time for the broker to answer a wait with its own timeout response
+const WAIT_GRACE_MS = 5 * 1000;
+const DEFAULT_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type BrokerMethod = keyof PermissionStore;
+
+/**
+ * One request per line on the broker socket
+ */
+export interface BrokerRequest {
+  id: number;
+  method: BrokerMethod;
+  params: unknown[];
+}
+
+/**
+ * Reply to a BrokerRequest, matched by id
+ */
+export interface BrokerReply {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * The broker socket could not be reached (or the connection dropped)
+ */
+export class BrokerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrokerUnavailableError';
+  }
+}
+
+interface InflightRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * PermissionStore backed by the Slack process's PermissionBroker
+ * Speaks newline-delimited JSON over a single Unix socket connection;
+ * replies are correlated to requests by id.
+ */
+export class PermissionBrokerClient implements PermissionStore {
+  private socket?: net.Socket;
+  private connecting?: Promise<net.Socket>;
+  private inflight = new Map<number, InflightRequest>();
+  private nextId = 1;
+  private buffer = '';
+
+  constructor(
+    private socketPath: string,
+    private requestTimeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+  ) {}
+
+  async storePendingApproval(approvalId: string, approval: PendingApproval): Promise<void> {
+    await this.request('storePendingApproval', [approvalId, approval]);
+  }
+
+  async getPendingApproval(approvalId: string): Promise<PendingApproval | null> {
+    return (await this.request<PendingApproval | null>('getPendingApproval', [approvalId])) ?? null;
+  }
+
+  async deletePendingApproval(approvalId: string): Promise<void> {
+    await this.request('deletePendingApproval', [approvalId]);
+  }
+
+  async storePermissionResponse(approvalId: string, response: PermissionResponse): Promise<void> {
+    await this.request('storePermissionResponse', [approvalId, response]);
+  }
+
+  async waitForPermissionResponse(
+    approvalId: string,
+    timeoutMs: number = DEFAULT_WAIT_TIMEOUT_MS
+  ): Promise<PermissionResponse> {
+    return this.request('waitForPermissionResponse', [approvalId, timeoutMs], timeoutMs + WAIT_GRACE_MS);
+  }
+
+  async cleanup(approvalId: string): Promise<void> {
+    await this.request('cleanup', [approvalId]);
+  }
+
+  async cleanupExpired(): Promise<number> {
+    return this.request('cleanupExpired', []);
+  }
+
+  async getPendingCount(): Promise<number> {
+    return this.request('getPendingCount', []);
+  }
+
+  async listPendingApprovalIds(): Promise<string[]> {
+    return this.request('listPendingApprovalIds', []);
+  }
+
+  async storeSessionApproval(channel: string, threadTs: string | undefined, approval: SessionApproval): Promise<void> {
+    await this.request('storeSessionApproval', [channel, threadTs, approval]);
+  }
+
+  async getSessionApprovals(channel: string, threadTs?: string): Promise<SessionApproval[]> {
+    return this.request('getSessionApprovals', [channel, threadTs]);
+  }
+
+  async removeSessionApprovals(channel: string, threadTs: string | undefined, rule?: string): Promise<number> {
+    return this.request('removeSessionApprovals', [channel, threadTs, rule]);
+  }
+
+  /**
+   * Close the connection; in-flight requests fail with BrokerUnavailableError
+   */
+  close(): void {
+    this.socket?.destroy();
+  }
+
+  private async request<T>(method: BrokerMethod, params: unknown[], timeoutMs = this.requestTimeoutMs): Promise<T> {
+    const socket = await this.connect();
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.inflight.delete(id);
+        reject(new Error(`Permission broker request timed out: ${method}`));
+      }, timeoutMs);
+
+      this.inflight.set(id, { resolve, reject, timer });
+      const request: BrokerRequest = { id, method, params };
+      socket.write(JSON.stringify(request) + '\n');
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) {
+      return this.connecting;
+    }
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      socket.setEncoding('utf8');
+
+      socket.once('connect', () => {
+        logger.debug('Connected to permission broker', { socketPath: this.socketPath });
+        this.socket = socket;
+        this.connecting = undefined;
+        resolve(socket);
+      });
+
+      socket.on('error', (error) => {
+        if (this.connecting) {
+          this.connecting = undefined;
+          reject(new BrokerUnavailableError(`Cannot connect to permission broker: ${error.message}`));
+        } else {
+          logger.error('Permission broker connection error', error);
+        }
+      });
+
+      socket.on('data', (chunk: string) => this.handleData(chunk));
+
+      socket.on('close', () => {
+        this.socket = undefined;
+        this.buffer = '';
+        for (const [id, inflight] of this.inflight) {
+          clearTimeout(inflight.timer);
+          inflight.reject(new BrokerUnavailableError('Permission broker connection closed'));
+          this.inflight.delete(id);
+        }
+      });
+    });
+
+    return this.connecting;
+  }
+
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+      if (!line.trim()) continue;
+
+      let reply: BrokerReply;
+      try {
+        reply = JSON.parse(line);
+      } catch (error) {
+        logger.error('Invalid reply from permission broker', error);
+        continue;
+      }
+
+      const inflight = this.inflight.get(reply.id);
+      if (!inflight) continue; // Timed out already
+
+      this.inflight.delete(reply.id);
+      clearTimeout(inflight.timer);
+      if (reply.error) {
+        inflight.reject(new Error(reply.error));
+      } else {
+        inflight.resolve(reply.result);
+      }
+    }
+  }
+}
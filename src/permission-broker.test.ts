@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PermissionBroker } from './permission-broker';
+import { PermissionBrokerClient } from './permission-broker-client';
+import { SharedStore, PendingApproval } from './shared-store';
+
+const pendingApproval = (): PendingApproval => ({
+  tool_name: 'Bash',
+  input: { command: 'ls' },
+  created_at: Date.now(),
+  expires_at: Date.now() + 60_000,
+});
+
+describe('PermissionBroker', () => {
+  let tmpDir: string;
+  let broker: PermissionBroker;
+  let client: PermissionBrokerClient;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'permission-broker-test-'));
+    broker = new PermissionBroker(path.join(tmpDir, 'broker.sock'));
+    await broker.start();
+    client = new PermissionBrokerClient(broker.getSocketPath());
+  });
+
+  afterEach(async () => {
+    client.close();
+    await broker.stop();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should resolve a waiting client as soon as the response is stored', async () => {
+    await client.storePendingApproval('a1', pendingApproval());
+    expect(await broker.getPendingCount()).toBe(1);
+
+    const waiting = client.waitForPermissionResponse('a1', 5_000);
+    // Slack process answers in-process, like the button handlers do
+    setTimeout(() => broker.storePermissionResponse('a1', { behavior: 'allow', message: 'ok' }), 20);
+
+    expect(await waiting).toEqual({ behavior: 'allow', message: 'ok' });
+    expect(await client.getPendingApproval('a1')).toBeNull();
+    expect(await broker.getPendingCount()).toBe(0);
+  });
+
+  it('should correlate concurrent requests on one connection', async () => {
+    await Promise.all([
+      client.storePendingApproval('a1', pendingApproval()),
+      client.storePendingApproval('a2', pendingApproval()),
+    ]);
+
+    const first = client.waitForPermissionResponse('a1', 5_000);
+    const second = client.waitForPermissionResponse('a2', 5_000);
+    await broker.storePermissionResponse('a2', { behavior: 'deny' });
+    await broker.storePermissionResponse('a1', { behavior: 'allow' });
+
+    expect((await first).behavior).toBe('allow');
+    expect((await second).behavior).toBe('deny');
+  });
+
+  it('should deny and clean up when nobody answers in time', async () => {
+    await client.storePendingApproval('a1', pendingApproval());
+
+    expect(await client.waitForPermissionResponse('a1', 30)).toEqual({
+      behavior: 'deny',
+      message: 'Permission request timed out',
+      timedOut: true,
+    });
+    expect(broker.hasPendingApproval('a1')).toBe(false);
+  });
+
+  it('should share session approvals with clients', async () => {
+    await broker.storeSessionApproval('C1', '1.1', { rule: 'Read', granted_at: Date.now() });
+
+    expect((await client.getSessionApprovals('C1', '1.1')).map((a) => a.rule)).toEqual(['Read']);
+    expect(await client.removeSessionApprovals('C1', '1.1')).toBe(1);
+    expect(await broker.getSessionApprovals('C1', '1.1')).toEqual([]);
+  });
+});
+
+describe('SharedStore fallback', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shared-store-fallback-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should fall back to the file store when the broker socket is unreachable', async () => {
+    const store = new SharedStore(path.join(tmpDir, 'store'), path.join(tmpDir, 'missing.sock'));
+
+    await store.storePendingApproval('a1', pendingApproval());
+
+    expect(fs.existsSync(path.join(tmpDir, 'store', 'pending', 'a1.json'))).toBe(true);
+    expect(await store.getPendingCount()).toBe(1);
+  });
+
+  it('should answer file-based requests the broker does not know about', async () => {
+    const broker = new PermissionBroker(path.join(tmpDir, 'broker.sock'));
+    await broker.start();
+    try {
+      const store = new SharedStore(path.join(tmpDir, 'store'), undefined);
+      store.useBroker(broker);
+      expect(store.getBrokerSocketPath()).toBe(broker.getSocketPath());
+
+      await store.storePermissionResponse('file-only', { behavior: 'allow' });
+      expect(fs.existsSync(path.join(tmpDir, 'store', 'responses', 'file-only.json'))).toBe(true);
+    } finally {
+      await broker.stop();
+    }
+  });
+
+  it('should find pending requests a fallen-back server stored in files', async () => {
+    const broker = new PermissionBroker(path.join(tmpDir, 'broker.sock'));
+    await broker.start();
+    try {
+      // The MCP server could not reach the broker and wrote to the file store
+      const serverStore = new SharedStore(path.join(tmpDir, 'store'), path.join(tmpDir, 'missing.sock'));
+      await serverStore.storePendingApproval('file-only', { ...pendingApproval(), user: 'U1' });
+
+      const store = new SharedStore(path.join(tmpDir, 'store'), undefined);
+      store.useBroker(broker);
+      expect((await store.getPendingApproval('file-only'))?.user).toBe('U1');
+
+      await store.storePendingApproval('in-broker', pendingApproval());
+      expect(await store.getPendingApproval('in-broker')).not.toBeNull();
+    } finally {
+      await broker.stop();
+    }
+  });
+});
@@ -0,0 +1,316 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { Logger } from './logger';
+import {
+  PermissionStore,
+  PendingApproval,
+  PermissionResponse,
+  SessionApproval,
+  isSessionApprovalActive,
+  getSessionApprovalKey,
+} from './shared-store';
+import { BrokerMethod, BrokerReply, BrokerRequest } from './permission-broker-client';
+
+const DEFAULT_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+// Responses nobody waited for (e.g., clicked after a timeout) are dropped after this
+const UNCLAIMED_RESPONSE_TTL_MS = 5 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Methods a client may call; everything else on the broker stays private to the Slack process
+const BROKER_METHODS: ReadonlySet<BrokerMethod> = new Set<BrokerMethod>([
+  'storePendingApproval',
+  'getPendingApproval',
+  'deletePendingApproval',
+  'storePermissionResponse',
+  'waitForPermissionResponse',
+  'cleanup',
+  'cleanupExpired',
+  'getPendingCount',
+  'listPendingApprovalIds',
+  'storeSessionApproval',
+  'getSessionApprovals',
+  'removeSessionApprovals',
+]);
+
+/**
+ * Default socket path, unique per bot process so several instances can share a host
+ */
+export function getDefaultBrokerSocketPath(): string {
+  const name = `claude-code-slack-bot-${process.pid}`;
+  return process.platform === 'win32' ? `\\\\.\\pipe\\${name}` : path.join(os.tmpdir(), `${name}.sock`);
+}
+
+/**
+ * In-memory permission store owned by the Slack process
+ * Permission MCP servers reach it over a Unix socket (PermissionBrokerClient);
+ * the Slack process uses it directly through sharedStore.useBroker().
+ * A waiting server is answered as soon as the response is stored - no polling.
+ */
+export class PermissionBroker implements PermissionStore {
+  private logger = new Logger('PermissionBroker');
+  private server?: net.Server;
+  private sockets = new Set<net.Socket>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  private pending = new Map<string, PendingApproval>();
+  private responses = new Map<string, { response: PermissionResponse; storedAt: number }>();
+  private waiters = new Map<string, (response: PermissionResponse) => void>();
+  private sessionApprovals = new Map<string, SessionApproval[]>();
+
+  constructor(private socketPath: string = getDefaultBrokerSocketPath()) {}
+
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  isListening(): boolean {
+    return this.server?.listening ?? false;
+  }
+
+  /**
+   * Start listening on the socket
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    // A socket file left by a crashed process with the same pid would block listen()
+    if (process.platform !== 'win32' && fs.existsSync(this.socketPath)) {
+      fs.unlinkSync(this.socketPath);
+    }
+
+    const server = net.createServer((socket) => this.handleConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    server.on('error', (error) => this.logger.error('Permission broker server error', error));
+
+    if (process.platform !== 'win32') {
+      // Only this user may answer permission prompts
+      fs.chmodSync(this.socketPath, 0o600);
+    }
+
+    this.server = server;
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+    this.logger.info('Permission broker listening', { socketPath: this.socketPath });
+  }
+
+  /**
+   * Stop listening and deny everything still waiting
+   */
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+
+    for (const [approvalId, resolve] of this.waiters) {
+      resolve({ behavior: 'deny', message: 'Permission broker stopped' });
+      this.waiters.delete(approvalId);
+    }
+
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return;
+    }
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    this.logger.info('Permission broker stopped');
+  }
+
+  /**
+   * Whether an approval request was registered with this broker
+   */
+  hasPendingApproval(approvalId: string): boolean {
+    return this.pending.has(approvalId) || this.waiters.has(approvalId);
+  }
+
+  async storePendingApproval(approvalId: string, approval: PendingApproval): Promise<void> {
+    this.pending.set(approvalId, approval);
+    this.logger.debug('Stored pending approval', { approvalId, tool: approval.tool_name });
+  }
+
+  async getPendingApproval(approvalId: string): Promise<PendingApproval | null> {
+    const approval = this.pending.get(approvalId);
+    if (!approval) {
+      return null;
+    }
+    if (Date.now() > approval.expires_at) {
+      this.pending.delete(approvalId);
+      return null;
+    }
+    return approval;
+  }
+
+  async deletePendingApproval(approvalId: string): Promise<void> {
+    this.pending.delete(approvalId);
+  }
+
+  async storePermissionResponse(approvalId: string, response: PermissionResponse): Promise<void> {
+    const waiter = this.waiters.get(approvalId);
+    if (waiter) {
+      waiter(response);
+    } else {
+      this.responses.set(approvalId, { response, storedAt: Date.now() });
+    }
+    this.logger.debug('Stored permission response', { approvalId, behavior: response.behavior, waiting: !!waiter });
+  }
+
+  async waitForPermissionResponse(
+    approvalId: string,
+    timeoutMs: number = DEFAULT_WAIT_TIMEOUT_MS
+  ): Promise<PermissionResponse> {
+    const stored = this.responses.get(approvalId);
+    if (stored) {
+      await this.cleanup(approvalId);
+      return stored.response;
+    }
+
+    return new Promise<PermissionResponse>((resolve) => {
+      const finish = (response: PermissionResponse) => {
+        clearTimeout(timer);
+        this.waiters.delete(approvalId);
+        this.pending.delete(approvalId);
+        this.responses.delete(approvalId);
+        resolve(response);
+      };
+      const timer = setTimeout(
+        () => finish({ behavior: 'deny', message: 'Permission request timed out', timedOut: true }),
+        timeoutMs
+      );
+      this.waiters.set(approvalId, finish);
+    });
+  }
+
+  async cleanup(approvalId: string): Promise<void> {
+    this.pending.delete(approvalId);
+    this.responses.delete(approvalId);
+  }
+
+  async cleanupExpired(): Promise<number> {
+    return this.sweep();
+  }
+
+  async getPendingCount(): Promise<number> {
+    return this.pending.size;
+  }
+
+  async listPendingApprovalIds(): Promise<string[]> {
+    return [...this.pending.keys()];
+  }
+
+  async storeSessionApproval(channel: string, threadTs: string | undefined, approval: SessionApproval): Promise<void> {
+    const key = getSessionApprovalKey(channel, threadTs);
+    const approvals = (await this.getSessionApprovals(channel, threadTs)).filter((a) => a.rule !== approval.rule);
+    this.sessionApprovals.set(key, [...approvals, approval]);
+  }
+
+  async getSessionApprovals(channel: string, threadTs?: string): Promise<SessionApproval[]> {
+    return (this.sessionApprovals.get(getSessionApprovalKey(channel, threadTs)) || []).filter(isSessionApprovalActive);
+  }
+
+  async removeSessionApprovals(channel: string, threadTs: string | undefined, rule?: string): Promise<number> {
+    const key = getSessionApprovalKey(channel, threadTs);
+    const approvals = await this.getSessionApprovals(channel, threadTs);
+    const remaining = rule === undefined ? [] : approvals.filter((a) => a.rule !== rule);
+
+    if (remaining.length > 0) {
+      this.sessionApprovals.set(key, remaining);
+    } else {
+      this.sessionApprovals.delete(key);
+    }
+    return approvals.length - remaining.length;
+  }
+
+  /**
+   * Drop expired pending approvals, unclaimed responses and session approvals
+   * Returns the number of expired pending approvals removed.
+   */
+  private sweep(): number {
+    const now = Date.now();
+    let expired = 0;
+
+    for (const [approvalId, approval] of this.pending) {
+      if (now > approval.expires_at && !this.waiters.has(approvalId)) {
+        this.pending.delete(approvalId);
+        expired++;
+      }
+    }
+    for (const [approvalId, { storedAt }] of this.responses) {
+      if (now - storedAt > UNCLAIMED_RESPONSE_TTL_MS) {
+        this.responses.delete(approvalId);
+      }
+    }
+    for (const [key, approvals] of this.sessionApprovals) {
+      const active = approvals.filter(isSessionApprovalActive);
+      if (active.length === 0) {
+        this.sessionApprovals.delete(key);
+      } else if (active.length !== approvals.length) {
+        this.sessionApprovals.set(key, active);
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.debug('Swept expired approvals', { expired });
+    }
+    return expired;
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.setEncoding('utf8');
+
+    let buffer = '';
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        if (line.trim()) {
+          this.handleLine(socket, line);
+        }
+      }
+    });
+
+    socket.on('error', (error) => this.logger.warn('Permission broker client error', { error: error.message }));
+    socket.on('close', () => this.sockets.delete(socket));
+  }
+
+  private async handleLine(socket: net.Socket, line: string): Promise<void> {
+    let reply: BrokerReply;
+    let request: BrokerRequest | undefined;
+
+    try {
+      request = JSON.parse(line) as BrokerRequest;
+      if (!BROKER_METHODS.has(request.method)) {
+        throw new Error(`Unknown broker method: ${request.method}`);
+      }
+      const method = this[request.method] as (...args: unknown[]) => Promise<unknown>;
+      // JSON turns omitted (undefined) arguments into null
+      const params = Array.isArray(request.params) ? request.params.map((p) => (p === null ? undefined : p)) : [];
+      const result = await method.apply(this, params);
+      reply = { id: request.id, result };
+    } catch (error) {
+      this.logger.warn('Permission broker request failed', { method: request?.method, error: (error as Error).message });
+      reply = { id: request?.id ?? -1, error: (error as Error).message };
+    }
+
+    if (!socket.destroyed) {
+      socket.write(JSON.stringify(reply) + '\n');
+    }
+  }
+}
@@ -9,10 +9,34 @@ import {
 import { WebClient } from '@slack/web-api';
 import { StderrLogger } from './stderr-logger.js';
 import { sharedStore, PendingApproval, PermissionResponse } from './shared-store.js';
-import { SlackPermissionMessenger } from './permission/index.js';
+import {
+  SlackPermissionMessenger,
+  PermissionRequestStatus,
+  permissionPolicyStore,
+  PolicyDecision,
+  matchesRule,
+  getRuleSubject,
+  permissionAuditLog,
+  PermissionAuditEntry,
+  PermissionDecider,
+  hashToolInput,
+} from './permission/index.js';
 
 const logger = new StderrLogger('PermissionMCP');
 
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const COUNTDOWN_REFRESH_MS = 60 * 1000;
+
+function formatMinutes(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
+
+function parseEnvNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
 interface PermissionRequest {
   tool_name: string;
   input: any;
@@ -21,10 +45,19 @@ interface PermissionRequest {
   user?: string;
 }
 
+interface RememberedApproval {
+  rule: string;
+  scope: 'session' | 'always';
+}
+
 class PermissionMCPServer {
   private server: Server;
   private slack: WebClient;
   private messenger: SlackPermissionMessenger;
+  // Timeout and escalation are resolved by McpConfigBuilder
+  private timeoutMs = parseEnvNumber(process.env.PERMISSION_TIMEOUT_MS, DEFAULT_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+  private escalateAfterMs = parseEnvNumber(process.env.PERMISSION_ESCALATE_AFTER_MS, 0);
+  private escalationTargets = (process.env.PERMISSION_ESCALATE_TO || '').split(',').filter(Boolean);
 
   constructor() {
     this.server = new Server(
@@ -95,6 +128,7 @@ class PermissionMCPServer {
 
   private async handlePermissionPrompt(params: PermissionRequest) {
     const { tool_name, input } = params;
+    const startedAt = Date.now();
 
     logger.debug('Received permission prompt request', { tool_name, input });
 
@@ -103,42 +137,150 @@ class PermissionMCPServer {
     const slackContext = slackContextStr ? JSON.parse(slackContextStr) : {};
     const { channel, threadTs: thread_ts, user } = slackContext;
 
+    const audit = (
+      response: PermissionResponse,
+      decidedBy: PermissionDecider,
+      extra: Partial<PermissionAuditEntry> = {}
+    ) => {
+      permissionAuditLog.append({
+        timestamp: new Date().toISOString(),
+        toolName: tool_name,
+        inputHash: hashToolInput(input),
+        behavior: response.behavior,
+        decidedBy,
+        requester: user,
+        channel,
+        threadTs: thread_ts,
+        latencyMs: Date.now() - startedAt,
+        ...extra,
+      });
+    };
+
+    // Settle the request from the policy file when a rule matches
+    const decision = permissionPolicyStore.evaluate(tool_name, input, {
+      user,
+      channel,
+      workingDirectory: process.env.WORKING_DIRECTORY || undefined,
+    });
+    if (decision.behavior !== 'ask') {
+      logger.debug('Permission decided by policy', {
+        tool_name,
+        behavior: decision.behavior,
+        rule: decision.rule?.rule,
+        source: decision.rule?.source,
+      });
+
+      const response: PermissionResponse =
+        decision.behavior === 'allow'
+          ? { behavior: 'allow', updatedInput: input, message: `Allowed by policy rule ${decision.rule?.rule}` }
+          : {
+              behavior: 'deny',
+              message: `Denied by permission policy rule \`${decision.rule?.rule}\` (${decision.rule?.source})`,
+            };
+      audit(response, 'policy', { rule: decision.rule?.rule });
+      return this.toToolResult(response, input);
+    }
+
+    // Skip the prompt when the user already approved this kind of call
+    const remembered = await this.findRememberedApproval(tool_name, input, decision, channel, thread_ts);
+    if (remembered) {
+      logger.debug('Permission allowed by remembered approval', { tool_name, ...remembered });
+
+      const response: PermissionResponse = {
+        behavior: 'allow',
+        updatedInput: input,
+        message:
+          remembered.scope === 'session'
+            ? `Allowed for this session by rule ${remembered.rule}`
+            : `Always allowed by rule ${remembered.rule}`,
+      };
+      audit(response, 'remembered', { rule: remembered.rule });
+      return this.toToolResult(response, input);
+    }
+
     // Generate unique approval ID
     const approvalId = `approval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const messageContext = { channel, threadTs: thread_ts, user };
+    const expiresAt = Date.now() + this.timeoutMs;
+    const status: PermissionRequestStatus = { expiresAt };
 
     // Build request blocks using messenger
-    const blocks = this.messenger.buildRequestBlocks(tool_name, input, approvalId, user);
+    const blocks = this.messenger.buildRequestBlocks(tool_name, input, approvalId, user, status);
+    const timers: NodeJS.Timeout[] = [];
 
     try {
-      // Send approval request to Slack
-      const result = await this.messenger.sendPermissionRequest(
-        { channel, threadTs: thread_ts, user },
-        blocks,
-        tool_name
-      );
-
-      // Store pending approval in shared store
+      // Store pending approval first, so a click right after the prompt appears finds it
       const pendingApproval: PendingApproval = {
         tool_name,
         input,
         channel,
         thread_ts,
         user,
-        created_at: Date.now(),
-        expires_at: Date.now() + 5 * 60 * 1000, // 5 minutes
+        created_at: startedAt,
+        expires_at: expiresAt,
       };
 
       await sharedStore.storePendingApproval(approvalId, pendingApproval);
 
+      // Send approval request to Slack
+      const result = await this.messenger.sendPermissionRequest(messageContext, blocks, tool_name);
+
+      if (result.ts && result.channel) {
+        const refresh = () =>
+          this.messenger.updateRequest(
+            result.channel!,
+            result.ts!,
+            this.messenger.buildRequestBlocks(tool_name, input, approvalId, user, status),
+            tool_name
+          );
+
+        // Keep the countdown current
+        timers.push(setInterval(refresh, COUNTDOWN_REFRESH_MS));
+
+        if (this.escalateAfterMs > 0 && this.escalateAfterMs < this.timeoutMs && this.escalationTargets.length > 0) {
+          timers.push(
+            setTimeout(async () => {
+              status.escalatedTo = this.escalationTargets;
+              await sharedStore.storePendingApproval(approvalId, {
+                ...pendingApproval,
+                escalated_to: this.escalationTargets,
+              });
+              await this.messenger.postThreadNote(
+                messageContext,
+                `📣 ${this.escalationTargets.map((id) => `<@${id}>`).join(' ')} A permission request for ` +
+                  `\`${tool_name}\` from <@${user}> has been waiting ${formatMinutes(this.escalateAfterMs)}. ` +
+                  `It will be denied automatically in ${formatMinutes(this.timeoutMs - this.escalateAfterMs)}.`
+              );
+              await refresh();
+            }, this.escalateAfterMs)
+          );
+        }
+      }
+
       // Wait for user response
       const response = await this.waitForApproval(approvalId);
+      timers.forEach((timer) => clearTimeout(timer));
+
+      if (response.timedOut) {
+        await this.messenger.postThreadNote(
+          messageContext,
+          `⌛ The permission request for \`${tool_name}\` got no answer within ${formatMinutes(this.timeoutMs)} ` +
+            'and was denied automatically.'
+        );
+      }
+      audit(response, response.timedOut ? 'timeout' : 'user', {
+        approvalId,
+        approver: response.approver,
+        escalatedTo: status.escalatedTo,
+      });
 
       // Update the message to show the result
       if (result.ts && result.channel) {
         const resultBlocks = this.messenger.buildResultBlocks(
           tool_name,
           input,
-          response.behavior === 'allow'
+          response.behavior === 'allow',
+          response.approver ? `${response.message} (<@${response.approver}>)` : response.message
         );
         await this.messenger.updateWithResult(
           result.channel,
@@ -149,31 +291,80 @@ class PermissionMCPServer {
         );
       }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(response),
-          },
-        ],
-      };
+      return this.toToolResult(response, input);
     } catch (error) {
+      timers.forEach((timer) => clearTimeout(timer));
       logger.error('Error handling permission prompt:', error);
+      await sharedStore.cleanup(approvalId).catch(() => undefined);
 
       // Default to deny if there's an error
       const response: PermissionResponse = {
         behavior: 'deny',
         message: 'Error occurred while requesting permission',
       };
+      audit(response, 'error', { approvalId });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(response),
-          },
-        ],
-      };
+      return this.toToolResult(response, input);
+    }
+  }
+
+  /**
+   * MCP tool result carrying only the fields the SDK expects
+   */
+  private toToolResult(response: PermissionResponse, input: any) {
+    const result =
+      response.behavior === 'allow'
+        ? { behavior: 'allow', updatedInput: response.updatedInput ?? input, message: response.message }
+        : { behavior: 'deny', message: response.message };
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Find a rule the user approved for this session or always that covers the call
+   * An explicit `ask` policy rule means "always prompt", so it is never skipped.
+   */
+  private async findRememberedApproval(
+    toolName: string,
+    input: any,
+    decision: PolicyDecision,
+    channel?: string,
+    threadTs?: string
+  ): Promise<RememberedApproval | undefined> {
+    if (decision.rule) {
+      return undefined;
+    }
+
+    const subject = getRuleSubject(toolName, input);
+    const alwaysRule = this.getAlwaysAllowRules().find((rule) => matchesRule(rule, toolName, subject));
+    if (alwaysRule) {
+      return { rule: alwaysRule, scope: 'always' };
+    }
+
+    if (!channel) {
+      return undefined;
+    }
+    const approvals = await sharedStore.getSessionApprovals(channel, threadTs);
+    const sessionApproval = approvals.find((a) => matchesRule(a.rule, toolName, subject));
+    return sessionApproval ? { rule: sessionApproval.rule, scope: 'session' } : undefined;
+  }
+
+  /**
+   * The user's always-allow rules, passed in by McpConfigBuilder
+   */
+  private getAlwaysAllowRules(): string[] {
+    try {
+      const rules = JSON.parse(process.env.PERMISSION_ALLOW_RULES || '[]');
+      return Array.isArray(rules) ? rules : [];
+    } catch (error) {
+      logger.error('Invalid PERMISSION_ALLOW_RULES', error);
+      return [];
     }
   }
 
@@ -181,7 +372,7 @@ class PermissionMCPServer {
     logger.debug('Waiting for approval using shared store', { approvalId });
 
     // Use shared store to wait for response
-    return await sharedStore.waitForPermissionResponse(approvalId, 5 * 60 * 1000);
+    return await sharedStore.waitForPermissionResponse(approvalId, this.timeoutMs);
   }
 
   // Method to be called by Slack handler when button is clicked
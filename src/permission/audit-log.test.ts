@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PermissionAuditLog, PermissionAuditEntry, hashToolInput } from './audit-log';
+
+const entry = (overrides: Partial<PermissionAuditEntry>): PermissionAuditEntry => ({
+  timestamp: '2026-03-15T12:00:00.000Z',
+  toolName: 'Bash',
+  inputHash: hashToolInput({ command: 'ls' }),
+  behavior: 'allow',
+  decidedBy: 'user',
+  requester: 'U1',
+  latencyMs: 1200,
+  ...overrides,
+});
+
+describe('PermissionAuditLog', () => {
+  let tmpDir: string;
+  let log: PermissionAuditLog;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'permission-audit-test-'));
+    log = new PermissionAuditLog(path.join(tmpDir, 'nested', 'permission-audit.jsonl'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should hash inputs stably without storing them', () => {
+    expect(hashToolInput({ command: 'rm -rf build' })).toBe(hashToolInput({ command: 'rm -rf build' }));
+    expect(hashToolInput({ command: 'rm -rf build' })).not.toBe(hashToolInput({ command: 'rm -rf dist' }));
+    expect(hashToolInput({ command: 'ls' })).toMatch(/^[0-9a-f]{12}$/);
+  });
+
+  it('should filter by range, user, tool and behavior', () => {
+    log.append(entry({ approver: 'U2' }));
+    log.append(entry({ toolName: 'Edit', behavior: 'deny', decidedBy: 'policy', rule: 'Edit(/etc/*)' }));
+    log.append(entry({ requester: 'U3', decidedBy: 'timeout', behavior: 'deny' }));
+    log.append(entry({ timestamp: '2026-01-01T00:00:00.000Z' }));
+    fs.appendFileSync(log.getFilePath(), 'not json\n');
+
+    const range = { from: new Date('2026-03-01T00:00:00Z'), to: new Date('2026-04-01T00:00:00Z') };
+
+    expect(log.query(range)).toHaveLength(3);
+    expect(log.query({ ...range, userId: 'U2' }).map((e) => e.approver)).toEqual(['U2']);
+    expect(log.query({ ...range, userId: 'U3' }).map((e) => e.decidedBy)).toEqual(['timeout']);
+    expect(log.query({ ...range, toolName: 'Edit' }).map((e) => e.rule)).toEqual(['Edit(/etc/*)']);
+    expect(log.query({ ...range, behavior: 'deny' })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { StderrLogger } from '../stderr-logger';
+
+// Written from the permission MCP server, so log to stderr (stdout is the MCP channel)
+const logger = new StderrLogger('PermissionAuditLog');
+
+/**
+ * What settled a permission request
+ * - user: a button click; policy: a policy file rule; remembered: a session or always-allow approval
+ * - timeout: nobody answered in time; error: the prompt could not be sent or awaited
+ */
+export type PermissionDecider = 'user' | 'policy' | 'remembered' | 'timeout' | 'error';
+
+/**
+ * One permission decision as recorded in the audit log
+ */
+export interface PermissionAuditEntry {
+  timestamp: string; // ISO date string (decision time)
+  approvalId?: string; // Only for requests that were posted to Slack
+  toolName: string;
+  inputHash: string; // See hashToolInput; the input itself is not stored
+  behavior: 'allow' | 'deny';
+  decidedBy: PermissionDecider;
+  approver?: string; // Slack user who clicked (decidedBy: user)
+  rule?: string; // Matching rule (decidedBy: policy | remembered)
+  requester?: string; // Slack user whose query asked for the tool
+  channel?: string;
+  threadTs?: string;
+  latencyMs: number;
+  escalatedTo?: string[];
+}
+
+export interface PermissionAuditQuery {
+  from: Date; // inclusive
+  to: Date; // exclusive
+  /** Only entries this user requested or approved */
+  userId?: string;
+  toolName?: string;
+  behavior?: 'allow' | 'deny';
+}
+
+/**
+ * Default location of the audit log
+ */
+export function getDefaultAuditLogPath(): string {
+  return process.env.PERMISSION_AUDIT_LOG || path.join(process.cwd(), 'data', 'permission-audit.jsonl');
+}
+
+/**
+ * Short stable hash of a tool input, so identical calls can be correlated without storing them
+ */
+export function hashToolInput(input: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(input ?? null))
+    .digest('hex')
+    .substring(0, 12);
+}
+
+/**
+ * Append-only JSONL log of permission decisions
+ * Appended by every permission MCP server process and read by the `audit` command.
+ */
+export class PermissionAuditLog {
+  private filePath: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || getDefaultAuditLogPath();
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append a single entry
+   */
+  append(entry: PermissionAuditEntry): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    } catch (error) {
+      logger.error('Failed to append permission audit entry', error);
+    }
+  }
+
+  /**
+   * Read entries within a time range (oldest first), skipping corrupt lines
+   */
+  query(query: PermissionAuditQuery): PermissionAuditEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const fromMs = query.from.getTime();
+    const toMs = query.to.getTime();
+    const entries: PermissionAuditEntry[] = [];
+
+    for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: PermissionAuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        logger.warn('Skipping corrupt permission audit line', { preview: line.substring(0, 100) });
+        continue;
+      }
+
+      const time = new Date(entry.timestamp).getTime();
+      if (time < fromMs || time >= toMs) continue;
+      if (query.userId && entry.requester !== query.userId && entry.approver !== query.userId) continue;
+      if (query.toolName && entry.toolName !== query.toolName) continue;
+      if (query.behavior && entry.behavior !== query.behavior) continue;
+      entries.push(entry);
+    }
+
+    return entries;
+  }
+}
+
+// Singleton instance
+export const permissionAuditLog = new PermissionAuditLog();
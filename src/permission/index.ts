@@ -6,6 +6,33 @@ export {
   SlackPermissionMessenger,
   PermissionMessageContext,
   PermissionMessageResult,
+  PermissionRequestStatus,
+  RememberApprovalValue,
 } from './slack-messenger';
 
 export { PermissionService, PermissionCheckResult } from './service';
+
+export {
+  PermissionPolicyStore,
+  PermissionPolicyFile,
+  PolicyRules,
+  PolicyBehavior,
+  PolicyContext,
+  PolicyDecision,
+  EffectiveRule,
+  permissionPolicyStore,
+  matchesRule,
+  parseRule,
+  getRuleSubject,
+  splitShellCommand,
+  suggestRule,
+} from './policy';
+
+export {
+  PermissionAuditLog,
+  PermissionAuditEntry,
+  PermissionAuditQuery,
+  PermissionDecider,
+  permissionAuditLog,
+  hashToolInput,
+} from './audit-log';
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  PermissionPolicyStore,
+  PermissionPolicyFile,
+  matchesRule,
+  getRuleSubject,
+  splitShellCommand,
+  suggestRule,
+} from './policy';
+
+describe('matchesRule', () => {
+  it('should match tool names and input patterns with globs', () => {
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git status --short')).toBe(true);
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git push')).toBe(false);
+    expect(matchesRule('Bash', 'Bash', 'anything')).toBe(true);
+    expect(matchesRule('mcp__github__*', 'mcp__github__create_issue', '{}')).toBe(true);
+    expect(matchesRule('mcp__github__*', 'mcp__jira__search', '{}')).toBe(false);
+    expect(matchesRule('Read(/etc/*)', 'Read', '/etc/passwd')).toBe(true);
+  });
+
+  it('should treat regex characters in patterns literally', () => {
+    expect(matchesRule('Bash(ls (a|b))', 'Bash', 'ls (a|b)')).toBe(true);
+    expect(matchesRule('Bash(ls .)', 'Bash', 'ls x')).toBe(false);
+  });
+
+  it('should extract the subject from tool input', () => {
+    expect(getRuleSubject('Bash', { command: 'rm -rf /' })).toBe('rm -rf /');
+    expect(getRuleSubject('Edit', { file_path: '/repo/a.ts' })).toBe('/repo/a.ts');
+    expect(getRuleSubject('mcp__x__y', { a: 1 })).toBe('{"a":1}');
+  });
+
+  it('should require every part of a compound command to match an allow rule', () => {
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git status && rm -rf ~')).toBe(false);
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git status; rm -rf ~')).toBe(false);
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git status | sh')).toBe(false);
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git status\nrm -rf ~')).toBe(false);
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git status $(rm -rf ~)')).toBe(false);
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git status `rm -rf ~`')).toBe(false);
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git status > ~/.bashrc')).toBe(false);
+    expect(matchesRule('Bash(git *)', 'Bash', 'git add . && git commit -m "a; b"')).toBe(true);
+    expect(matchesRule('Bash(git status*)', 'Bash', 'git status "unterminated')).toBe(false);
+  });
+
+  it('should resolve file paths before matching', () => {
+    expect(matchesRule('Read(/home/u/*)', 'Read', getRuleSubject('Read', { file_path: '/home/u/../../etc/shadow' }))).toBe(
+      false
+    );
+    expect(matchesRule('Read(/home/u/*)', 'Read', getRuleSubject('Read', { file_path: '/home/u/./notes.md' }))).toBe(
+      true
+    );
+  });
+});
+
+describe('splitShellCommand', () => {
+  it('should split on operators outside quotes and pull out substitutions', () => {
+    expect(splitShellCommand('cd / && rm -rf * || echo "a && b"; ls | wc -l & sleep 1')).toEqual([
+      'cd /',
+      'rm -rf *',
+      'echo "a && b"',
+      'ls',
+      'wc -l',
+      'sleep 1',
+    ]);
+    expect(splitShellCommand('echo "$(rm -rf /)" `id`')).toEqual(['rm -rf /', 'id', 'echo "$(rm -rf /)" `id`']);
+    expect(splitShellCommand('npm test 2>&1')).toEqual(['npm test 2>&1']);
+    expect(splitShellCommand('if true; then FOO=1 rm -rf /; fi')).toEqual(['true', 'rm -rf /']);
+  });
+
+  it('should return null for unbalanced quotes and parentheses', () => {
+    expect(splitShellCommand("echo 'oops")).toBeNull();
+    expect(splitShellCommand('echo $(ls')).toBeNull();
+    expect(splitShellCommand('echo )')).toBeNull();
+  });
+});
+
+describe('suggestRule', () => {
+  it('should suggest a narrow pattern for remembered approvals', () => {
+    expect(suggestRule('Bash', { command: 'git status --short' })).toBe('Bash(git status *)');
+    expect(suggestRule('Bash', { command: 'git status' })).toBe('Bash(git status)');
+    expect(suggestRule('Bash', { command: 'ls -la src' })).toBe('Bash(ls *)');
+    expect(suggestRule('Edit', { file_path: '/repo/src/a.ts' })).toBe('Edit(/repo/src/*)');
+    expect(suggestRule('WebFetch', { url: 'https://docs.example.com/a?b=1' })).toBe(
+      'WebFetch(https://docs.example.com/*)'
+    );
+    expect(suggestRule('mcp__github__create_issue', { title: 'x' })).toBe('mcp__github__create_issue');
+  });
+
+  it('should not suggest a bare trailing wildcard for Bash', () => {
+    for (const command of ['git status --short', 'npm test', 'ls -la', 'make']) {
+      expect(suggestRule('Bash', { command })).not.toMatch(/[^ ]\*\)$/);
+    }
+    expect(matchesRule(suggestRule('Bash', { command: 'git status --short' }), 'Bash', 'git statusx')).toBe(false);
+  });
+
+  it('should only remember compound shell commands verbatim', () => {
+    const rule = suggestRule('Bash', { command: 'git status && rm -rf ~' });
+    expect(rule).toBe('Bash(git status && rm -rf ~)');
+    expect(matchesRule(rule, 'Bash', 'git status && rm -rf ~')).toBe(true);
+    expect(matchesRule(rule, 'Bash', 'git status && rm -rf /')).toBe(false);
+  });
+});
+
+describe('PermissionPolicyStore', () => {
+  let tmpDir: string;
+  let policyFile: string;
+  let store: PermissionPolicyStore;
+  let writes = 0;
+
+  const writePolicy = (policy: PermissionPolicyFile) => {
+    fs.writeFileSync(policyFile, JSON.stringify(policy));
+    // Ensure a fresh mtime so the store reloads
+    const future = new Date(Date.now() + ++writes * 1000);
+    fs.utimesSync(policyFile, future, future);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'permission-policy-test-'));
+    policyFile = path.join(tmpDir, 'permission-policy.json');
+    store = new PermissionPolicyStore(policyFile);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should ask when there is no policy file', () => {
+    expect(store.evaluate('Bash', { command: 'ls' }, { user: 'U1' })).toEqual({ behavior: 'ask' });
+  });
+
+  it('should let deny beat ask beat allow across scopes', () => {
+    writePolicy({
+      default: { allow: ['Bash(git *)'], deny: ['Bash(rm -rf*)'] },
+      users: { U1: { allow: ['Bash(rm -rf build*)'], ask: ['Bash(git push*)'] } },
+    });
+
+    const ctx = { user: 'U1', channel: 'C1' };
+    expect(store.evaluate('Bash', { command: 'git status' }, ctx).behavior).toBe('allow');
+    expect(store.evaluate('Bash', { command: 'git push origin' }, ctx)).toMatchObject({
+      behavior: 'ask',
+      rule: { rule: 'Bash(git push*)', source: 'user U1' },
+    });
+    expect(store.evaluate('Bash', { command: 'rm -rf build' }, ctx)).toMatchObject({
+      behavior: 'deny',
+      rule: { source: 'default' },
+    });
+  });
+
+  it('should apply deny rules to any part of a compound command', () => {
+    writePolicy({ default: { allow: ['Bash'], deny: ['Bash(rm -rf*)'] } });
+
+    expect(store.evaluate('Bash', { command: 'cd / && rm -rf *' }, {}).behavior).toBe('deny');
+    expect(store.evaluate('Bash', { command: 'echo $(rm -rf /)' }, {}).behavior).toBe('deny');
+    expect(store.evaluate('Bash', { command: 'true; then rm -rf /' }, {}).behavior).toBe('deny');
+    expect(store.evaluate('Bash', { command: 'ls && git status' }, {}).behavior).toBe('allow');
+  });
+
+  it('should ask instead of allowing commands it cannot parse', () => {
+    writePolicy({ default: { allow: ['Bash'], deny: ['Bash(rm -rf*)'] } });
+
+    expect(store.evaluate('Bash', { command: 'cd / && rm -rf * "' }, {}).behavior).toBe('ask');
+  });
+
+  it('should apply channel and directory scopes only where they match', () => {
+    writePolicy({
+      channels: { C1: { allow: ['Edit'] } },
+      directories: { '/repos/app': { deny: ['Write'] } },
+    });
+
+    expect(store.evaluate('Edit', {}, { channel: 'C1' }).behavior).toBe('allow');
+    expect(store.evaluate('Edit', {}, { channel: 'C2' }).behavior).toBe('ask');
+    expect(store.evaluate('Write', {}, { workingDirectory: '/repos/app/src' }).behavior).toBe('deny');
+    expect(store.evaluate('Write', {}, { workingDirectory: '/repos/application' }).behavior).toBe('ask');
+  });
+
+  it('should pick up edits to the policy file', () => {
+    writePolicy({ default: { allow: ['Read'] } });
+    expect(store.evaluate('Read', {}, {}).behavior).toBe('allow');
+
+    writePolicy({ default: { deny: ['Read'] } });
+    expect(store.evaluate('Read', {}, {}).behavior).toBe('deny');
+  });
+
+  it('should list effective rules with their source', () => {
+    writePolicy({ default: { allow: ['Read'] }, users: { U1: { deny: ['WebFetch'] } } });
+
+    expect(store.getEffectiveRules({ user: 'U1' })).toEqual([
+      { behavior: 'allow', rule: 'Read', source: 'default' },
+      { behavior: 'deny', rule: 'WebFetch', source: 'user U1' },
+    ]);
+  });
+});
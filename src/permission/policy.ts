@@ -0,0 +1,392 @@
+import fs from 'fs';
+import path from 'path';
+import { StderrLogger } from '../stderr-logger';
+
+// Runs inside the permission MCP server too, so log to stderr (stdout is the MCP channel)
+const logger = new StderrLogger('PermissionPolicy');
+
+export type PolicyBehavior = 'allow' | 'deny' | 'ask';
+
+/**
+ * Rule lists for one scope, e.g. { allow: ['Bash(git status*)'], deny: ['Bash(rm -rf*)'] }
+ */
+export interface PolicyRules {
+  allow?: string[];
+  deny?: string[];
+  ask?: string[];
+}
+
+/**
+ * Contents of the policy file
+ * `directories` keys match the working directory and everything below it.
+ */
+export interface PermissionPolicyFile {
+  default?: PolicyRules;
+  users?: Record<string, PolicyRules>;
+  channels?: Record<string, PolicyRules>;
+  directories?: Record<string, PolicyRules>;
+}
+
+export interface PolicyContext {
+  user?: string;
+  channel?: string;
+  workingDirectory?: string;
+}
+
+/**
+ * A rule with the scope it came from, e.g. { behavior: 'deny', rule: 'Bash(rm -rf*)', source: 'default' }
+ */
+export interface EffectiveRule {
+  behavior: PolicyBehavior;
+  rule: string;
+  source: string;
+}
+
+export interface PolicyDecision {
+  behavior: PolicyBehavior;
+  /** Matching rule; undefined when nothing matched and the default (ask) applies */
+  rule?: EffectiveRule;
+}
+
+// Most restrictive behavior wins when rules from several scopes match
+const BEHAVIOR_PRECEDENCE: PolicyBehavior[] = ['deny', 'ask', 'allow'];
+
+/**
+ * Default location of the policy file
+ */
+export function getDefaultPolicyPath(): string {
+  return process.env.PERMISSION_POLICY_FILE || path.join(process.cwd(), 'data', 'permission-policy.json');
+}
+
+/**
+ * Parse `Tool` or `Tool(pattern)` into its parts
+ */
+export function parseRule(rule: string): { tool: string; pattern?: string } | null {
+  const match = rule.trim().match(/^([^()\s]+)(?:\((.*)\))?$/s);
+  if (!match) {
+    return null;
+  }
+  return { tool: match[1], pattern: match[2] };
+}
+
+/**
+ * The part of a tool's input that rule patterns are matched against
+ */
+export function getRuleSubject(toolName: string, input: any): string {
+  if (!input || typeof input !== 'object') {
+    return String(input ?? '');
+  }
+  switch (toolName) {
+    case 'Bash':
+      return String(input.command ?? '');
+    case 'Read':
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+    case 'NotebookEdit': {
+      // Resolved so `..` segments cannot step out of a directory rule
+      const filePath = String(input.file_path ?? input.notebook_path ?? '');
+      return filePath ? path.resolve(filePath) : '';
+    }
+    case 'WebFetch':
+      return String(input.url ?? '');
+    case 'WebSearch':
+      return String(input.query ?? '');
+    case 'Glob':
+    case 'Grep':
+      return String(input.pattern ?? '');
+    default:
+      return JSON.stringify(input);
+  }
+}
+
+/**
+ * Match a glob where `*` matches any run of characters (including `/` and spaces)
+ * `wildcard` overrides what `*` may match.
+ */
+export function matchGlob(pattern: string, value: string, wildcard = '[\\s\\S]*'): boolean {
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join(wildcard);
+  return new RegExp(`^${regex}$`).test(value);
+}
+
+// Words that only introduce the command after them, e.g. `then rm -rf /` or `{ rm -rf /`
+const SHELL_KEYWORDS = new Set(['{', '}', '!', 'if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', 'time']);
+
+// Drop leading keywords and variable assignments (`FOO=1 rm …`) so rules see the program
+function stripCommandPrefix(segment: string): string {
+  let command = segment.trim();
+  for (;;) {
+    const match = command.match(/^(?:[A-Za-z_]\w*=\S*|\S+)(?:\s+|$)/);
+    if (!match) return command;
+    const word = match[0].trim();
+    if (!SHELL_KEYWORDS.has(word) && !/^[A-Za-z_]\w*=/.test(word)) return command;
+    command = command.slice(match[0].length);
+  }
+}
+
+// Scan `command` from `start` up to `close` (or the end), adding each simple command to `parts`
+// Returns the index after `close`, or -1 when quotes or substitutions are unbalanced.
+function scanShell(command: string, start: number, close: ')' | '`' | undefined, parts: string[]): number {
+  let segment = '';
+  const flush = () => {
+    const part = stripCommandPrefix(segment);
+    if (part) parts.push(part);
+    segment = '';
+  };
+
+  let i = start;
+  while (i < command.length) {
+    const ch = command[i];
+    let next = i + 1;
+
+    if (ch === close) {
+      flush();
+      return i + 1;
+    } else if (ch === '\\') {
+      next = i + 2;
+    } else if (ch === "'") {
+      next = command.indexOf("'", i + 1) + 1;
+      if (next === 0) return -1;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < command.length && command[j] !== '"') {
+        if (command[j] === '\\') {
+          j += 2;
+        } else if (command.startsWith('$(', j)) {
+          j = scanShell(command, j + 2, ')', parts);
+        } else if (command[j] === '`') {
+          j = scanShell(command, j + 1, '`', parts);
+        } else {
+          j++;
+        }
+        if (j === -1) return -1;
+      }
+      if (j >= command.length) return -1;
+      next = j + 1;
+    } else if (command.startsWith('$(', i) || ch === '(' || ch === '`') {
+      // Command substitution, subshell or process substitution: its commands are checked too
+      next = scanShell(command, i + (ch === '$' ? 2 : 1), ch === '`' ? '`' : ')', parts);
+      if (next === -1) return -1;
+    } else if (ch === ')') {
+      return -1;
+    } else if (ch === ';' || ch === '\n' || ch === '|') {
+      flush();
+      i = next;
+      continue;
+    } else if (ch === '&') {
+      // `2>&1` and `&>` are redirections, `&&` and a lone `&` end a command
+      const redirect = command[i - 1] === '>' || command[i - 1] === '<' || command[i + 1] === '>';
+      if (!redirect) {
+        flush();
+        i = next;
+        continue;
+      }
+    }
+
+    segment += command.slice(i, next);
+    i = next;
+  }
+
+  if (close) return -1;
+  flush();
+  return command.length;
+}
+
+/**
+ * Split a shell command into its simple commands
+ * Separators are `&&`, `||`, `;`, `|`, `&` and newlines; the contents of `$(…)`,
+ * backticks and subshells are returned as commands of their own (the outer command
+ * keeps them verbatim). Returns null when quotes or parentheses do not balance.
+ */
+export function splitShellCommand(command: string): string[] | null {
+  const parts: string[] = [];
+  return scanShell(command, 0, undefined, parts) === -1 ? null : parts;
+}
+
+/**
+ * How a rule is matched against a Bash command made of several simple commands
+ * - every: each simple command must match (allow rules, remembered approvals)
+ * - some: any simple command, or the whole command, may match (deny and ask rules)
+ */
+export type RuleMatchMode = 'every' | 'some';
+
+/**
+ * Check whether a rule applies to a tool call, given the call's rule subject
+ * In `every` mode a Bash command that cannot be split never matches, and `*` does
+ * not match redirections, so `Bash(git status*)` does not approve `git status > ~/.bashrc`.
+ */
+export function matchesRule(rule: string, toolName: string, subject: string, mode: RuleMatchMode = 'every'): boolean {
+  const parsed = parseRule(rule);
+  if (!parsed || !matchGlob(parsed.tool, toolName)) {
+    return false;
+  }
+  const pattern = parsed.pattern;
+  if (pattern === undefined) {
+    return true;
+  }
+  if (toolName !== 'Bash') {
+    return matchGlob(pattern, subject);
+  }
+
+  const parts = splitShellCommand(subject);
+  if (mode === 'some') {
+    return matchGlob(pattern, subject) || (parts ?? []).some((part) => matchGlob(pattern, part));
+  }
+  // A rule without wildcards approves exactly that command, compound or not
+  if (!pattern.includes('*') && pattern === subject.trim()) {
+    return true;
+  }
+  return !!parts && parts.length > 0 && parts.every((part) => matchGlob(pattern, part, '[^<>]*'));
+}
+
+/**
+ * Rule offered when a user chooses to remember an approval
+ * Kept narrow: a Bash command's program and subcommand followed by its arguments,
+ * a file's directory, a URL's origin. Compound commands, substitutions and
+ * redirections are only remembered verbatim.
+ */
+export function suggestRule(toolName: string, input: any): string {
+  const subject = getRuleSubject(toolName, input);
+
+  switch (toolName) {
+    case 'Bash': {
+      const command = subject.trim();
+      if (!command || /[;&|`$<>()\n\\'"]/.test(command)) {
+        return `${toolName}(${command})`;
+      }
+      const words = command.split(/\s+/);
+      const prefixLength = words[1] && /^[a-z][\w:-]*$/.test(words[1]) ? 2 : 1;
+      const prefix = words.slice(0, prefixLength).join(' ');
+      // `git status *` rather than `git status*`, which would also cover `git statusx`
+      return words.length > prefixLength ? `${toolName}(${prefix} *)` : `${toolName}(${prefix})`;
+    }
+    case 'Read':
+    case 'Write':
+    case 'Edit':
+    case 'MultiEdit':
+    case 'NotebookEdit':
+      return subject ? `${toolName}(${path.dirname(subject)}/*)` : toolName;
+    case 'WebFetch': {
+      try {
+        return `${toolName}(${new URL(subject).origin}/*)`;
+      } catch {
+        return toolName;
+      }
+    }
+    default:
+      return toolName;
+  }
+}
+
+/**
+ * File-based permission policy
+ * The file is re-read when it changes, so edits apply without a restart.
+ */
+export class PermissionPolicyStore {
+  private filePath: string;
+  private policy: PermissionPolicyFile = {};
+  private loadedMtimeMs = -1;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || getDefaultPolicyPath();
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Current policy (reloaded if the file changed)
+   */
+  getPolicy(): PermissionPolicyFile {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        this.policy = {};
+        this.loadedMtimeMs = -1;
+        return this.policy;
+      }
+
+      const mtimeMs = fs.statSync(this.filePath).mtimeMs;
+      if (mtimeMs !== this.loadedMtimeMs) {
+        this.policy = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        this.loadedMtimeMs = mtimeMs;
+        logger.info('Loaded permission policy', { filePath: this.filePath });
+      }
+    } catch (error) {
+      logger.error('Failed to load permission policy', error);
+    }
+    return this.policy;
+  }
+
+  /**
+   * Rules that apply in a context, in scope order: default, directory, channel, user
+   */
+  getEffectiveRules(context: PolicyContext): EffectiveRule[] {
+    const policy = this.getPolicy();
+    const scopes: Array<{ source: string; rules?: PolicyRules }> = [{ source: 'default', rules: policy.default }];
+
+    if (context.workingDirectory) {
+      const cwd = path.resolve(context.workingDirectory);
+      for (const [dir, rules] of Object.entries(policy.directories || {})) {
+        const resolved = path.resolve(dir);
+        if (cwd === resolved || cwd.startsWith(resolved + path.sep)) {
+          scopes.push({ source: `directory ${dir}`, rules });
+        }
+      }
+    }
+    if (context.channel) {
+      scopes.push({ source: `channel ${context.channel}`, rules: policy.channels?.[context.channel] });
+    }
+    if (context.user) {
+      scopes.push({ source: `user ${context.user}`, rules: policy.users?.[context.user] });
+    }
+
+    const effective: EffectiveRule[] = [];
+    for (const { source, rules } of scopes) {
+      if (!rules) continue;
+      for (const behavior of BEHAVIOR_PRECEDENCE) {
+        for (const rule of rules[behavior] || []) {
+          effective.push({ behavior, rule, source });
+        }
+      }
+    }
+    return effective;
+  }
+
+  /**
+   * Decide whether a tool call is allowed, denied or needs a Slack prompt
+   * deny beats ask beats allow; no matching rule means ask. A deny or ask rule
+   * applies when it matches any part of a compound Bash command, an allow rule
+   * only when it matches every part.
+   */
+  evaluate(toolName: string, input: any, context: PolicyContext): PolicyDecision {
+    return this.evaluateSubject(toolName, getRuleSubject(toolName, input), context);
+  }
+
+  /**
+   * Same as evaluate, for an already extracted subject (e.g., `policy check Bash(git push)`)
+   */
+  evaluateSubject(toolName: string, subject: string, context: PolicyContext): PolicyDecision {
+    // A Bash command that cannot be split is never allowed by a rule, only denied or asked
+    const unparseable = toolName === 'Bash' && splitShellCommand(subject) === null;
+    const matching = this.getEffectiveRules(context).filter((r) =>
+      r.behavior === 'allow'
+        ? !unparseable && matchesRule(r.rule, toolName, subject)
+        : matchesRule(r.rule, toolName, subject, 'some')
+    );
+
+    for (const behavior of BEHAVIOR_PRECEDENCE) {
+      const rule = matching.find((r) => r.behavior === behavior);
+      if (rule) {
+        logger.debug('Permission policy matched', { toolName, behavior, rule: rule.rule, source: rule.source });
+        return { behavior, rule };
+      }
+    }
+    return { behavior: 'ask' };
+  }
+}
+
+export const permissionPolicyStore = new PermissionPolicyStore();
@@ -1,14 +1,36 @@
 import { WebClient } from '@slack/web-api';
 import { StderrLogger } from '../stderr-logger';
+import { suggestRule } from './policy';
 
 const logger = new StderrLogger('SlackPermissionMessenger');
 
+// Slack rejects button values longer than this
+const MAX_BUTTON_VALUE_LENGTH = 2000;
+
+/**
+ * Value of the "Allow for this session" / "Always allow" buttons
+ */
+export interface RememberApprovalValue {
+  approvalId: string;
+  rule: string;
+}
+
 export interface PermissionMessageContext {
   channel: string;
   threadTs?: string;
   user?: string;
 }
 
+/**
+ * Live state shown on a pending request (countdown, escalation)
+ */
+export interface PermissionRequestStatus {
+  /** Epoch ms when the request is denied automatically */
+  expiresAt?: number;
+  /** Users who were pinged because nobody answered */
+  escalatedTo?: string[];
+}
+
 export interface PermissionMessageResult {
   ts?: string;
   channel?: string;
@@ -27,8 +49,87 @@ export class SlackPermissionMessenger {
     toolName: string,
     input: any,
     approvalId: string,
-    user?: string
+    user?: string,
+    status: PermissionRequestStatus = {}
   ): any[] {
+    const rule = suggestRule(toolName, input);
+    const rememberValue = JSON.stringify({ approvalId, rule } as RememberApprovalValue);
+    // Very long verbatim commands can't be carried in a button; offer one-off choices only
+    const canRemember = rememberValue.length <= MAX_BUTTON_VALUE_LENGTH;
+
+    const buttons: any[] = [
+      {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: '✅ Approve',
+        },
+        style: 'primary',
+        action_id: 'approve_tool',
+        value: approvalId,
+      },
+    ];
+    if (canRemember) {
+      buttons.push(
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: '🔓 Allow for this session',
+          },
+          action_id: 'allow_tool_session',
+          value: rememberValue,
+        },
+        {
+          type: 'button',
+          text: {
+            type: 'plain_text',
+            text: '📌 Always allow pattern',
+          },
+          action_id: 'allow_tool_always',
+          value: rememberValue,
+        }
+      );
+    }
+    buttons.push(
+      {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: '❌ Deny',
+        },
+        style: 'danger',
+        action_id: 'deny_tool',
+        value: approvalId,
+      },
+      {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: '💬 Deny and explain',
+        },
+        action_id: 'deny_tool_explain',
+        value: approvalId,
+      }
+    );
+
+    const contextParts = [`Requested by: <@${user}>`, `Tool: ${toolName}`];
+    if (canRemember) {
+      contextParts.push(`Pattern: \`${rule}\``);
+    }
+    const contextElements: any[] = [{ type: 'mrkdwn', text: contextParts.join(' | ') }];
+
+    const statusParts: string[] = [];
+    if (status.expiresAt) {
+      statusParts.push(this.formatCountdown(status.expiresAt));
+    }
+    if (status.escalatedTo && status.escalatedTo.length > 0) {
+      statusParts.push(`📣 Escalated to ${status.escalatedTo.map((id) => `<@${id}>`).join(', ')}`);
+    }
+    if (statusParts.length > 0) {
+      contextElements.push({ type: 'mrkdwn', text: statusParts.join(' | ') });
+    }
+
     return [
       {
         type: 'section',
@@ -39,48 +140,34 @@ export class SlackPermissionMessenger {
       },
       {
         type: 'actions',
-        elements: [
-          {
-            type: 'button',
-            text: {
-              type: 'plain_text',
-              text: '✅ Approve',
-            },
-            style: 'primary',
-            action_id: 'approve_tool',
-            value: approvalId,
-          },
-          {
-            type: 'button',
-            text: {
-              type: 'plain_text',
-              text: '❌ Deny',
-            },
-            style: 'danger',
-            action_id: 'deny_tool',
-            value: approvalId,
-          },
-        ],
+        elements: buttons,
       },
       {
         type: 'context',
-        elements: [
-          {
-            type: 'mrkdwn',
-            text: `Requested by: <@${user}> | Tool: ${toolName}`,
-          },
-        ],
+        elements: contextElements,
       },
     ];
   }
 
+  /**
+   * Remaining time until auto-deny, rounded up to whole minutes
+   * The absolute time uses Slack date formatting so it shows in the reader's timezone.
+   */
+  formatCountdown(expiresAt: number, now: number = Date.now()): string {
+    const minutesLeft = Math.max(0, Math.ceil((expiresAt - now) / 60000));
+    const remaining = minutesLeft <= 1 ? 'less than a minute' : `${minutesLeft} min`;
+    const epoch = Math.floor(expiresAt / 1000);
+    return `⏳ Auto-deny in ${remaining} (<!date^${epoch}^{time}|${new Date(expiresAt).toISOString()}>)`;
+  }
+
   /**
    * Build result blocks for completed permission request
    */
   buildResultBlocks(
     toolName: string,
     input: any,
-    approved: boolean
+    approved: boolean,
+    detail?: string
   ): any[] {
     return [
       {
@@ -95,7 +182,7 @@ export class SlackPermissionMessenger {
         elements: [
           {
             type: 'mrkdwn',
-            text: `${approved ? 'Approved' : 'Denied'} by user | Tool: ${toolName}`,
+            text: `${detail || (approved ? 'Approved by user' : 'Denied by user')} | Tool: ${toolName}`,
           },
         ],
       },
@@ -128,6 +215,38 @@ export class SlackPermissionMessenger {
     }
   }
 
+  /**
+   * Refresh a pending request (countdown, escalation) without touching its buttons' values
+   */
+  async updateRequest(channel: string, ts: string, blocks: any[], toolName: string): Promise<void> {
+    try {
+      await this.slack.chat.update({
+        channel,
+        ts,
+        blocks,
+        text: `Permission request for ${toolName}`,
+      });
+    } catch (error) {
+      // Only cosmetic; the request itself is still pending
+      logger.warn('Failed to refresh permission request message', error);
+    }
+  }
+
+  /**
+   * Post a note in the request's thread (escalation, auto-deny)
+   */
+  async postThreadNote(context: PermissionMessageContext, text: string): Promise<void> {
+    try {
+      await this.slack.chat.postMessage({
+        channel: context.channel || context.user || 'general',
+        thread_ts: context.threadTs,
+        text,
+      });
+    } catch (error) {
+      logger.error('Failed to post permission note:', error);
+    }
+  }
+
   /**
    * Update permission message with result
    */
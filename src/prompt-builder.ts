@@ -6,14 +6,14 @@
 
 import { Logger } from './logger';
 import { userSettingsStore } from './user-settings-store';
-import { WorkflowType } from './types';
+import { SessionLinks, WorkflowType } from './types';
+import { workflowRegistry, DEFAULT_WORKFLOW } from './workflow-registry';
 import * as path from 'path';
 import * as fs from 'fs';
 
 // Prompt file paths
 const PROMPT_DIR = path.join(__dirname, 'prompt');
 const SYSTEM_PROMPT_PATH = path.join(PROMPT_DIR, 'system.prompt');
-const WORKFLOWS_DIR = path.join(PROMPT_DIR, 'workflows');
 const LOCAL_SYSTEM_PROMPT_PATH = path.join(process.cwd(), '.system.prompt');
 const PERSONA_DIR = path.join(__dirname, 'persona');
 
@@ -147,14 +147,14 @@ export class PromptBuilder {
     }
 
     // For 'default' workflow, use the default system prompt
-    if (workflow === 'default') {
+    if (workflow === DEFAULT_WORKFLOW) {
       return this.defaultSystemPrompt;
     }
 
-    // Try to load workflow-specific prompt
-    const workflowPath = path.join(WORKFLOWS_DIR, `${workflow}.prompt`);
+    // Try to load the prompt file of a registered workflow
+    const workflowPath = workflowRegistry.get(workflow)?.promptPath;
     try {
-      if (fs.existsSync(workflowPath)) {
+      if (workflowPath && fs.existsSync(workflowPath)) {
         let content = fs.readFileSync(workflowPath, 'utf-8');
         // Process include directives
         content = this.processIncludes(content);
@@ -221,14 +221,20 @@ export class PromptBuilder {
 
   /**
    * Build the complete system prompt for a user
-   * Includes base prompt (or workflow prompt) and user's persona
+   * Includes base prompt (or workflow prompt), session links and user's persona
    */
-  buildSystemPrompt(userId?: string, workflow?: WorkflowType): string | undefined {
+  buildSystemPrompt(userId?: string, workflow?: WorkflowType, links?: SessionLinks): string | undefined {
     // Load workflow-specific prompt or default
     let systemPrompt = workflow
       ? this.loadWorkflowPrompt(workflow) || this.defaultSystemPrompt || ''
       : this.defaultSystemPrompt || '';
 
+    // Links found at dispatch, so the workflow does not have to re-parse the first message
+    const linksBlock = this.buildLinksBlock(links);
+    if (linksBlock) {
+      systemPrompt = systemPrompt ? `${systemPrompt}\n\n${linksBlock}` : linksBlock;
+    }
+
     // Load and append user's persona
     if (userId) {
       const personaName = userSettingsStore.getUserPersona(userId);
@@ -246,6 +252,26 @@ export class PromptBuilder {
     return systemPrompt || undefined;
   }
 
+  /**
+   * Render session links as a <session-links> block
+   */
+  private buildLinksBlock(links: SessionLinks | undefined): string | undefined {
+    if (!links) return undefined;
+
+    const fields: Array<[string, string | number | undefined]> = [
+      ['repo', links.repo],
+      ['pr_number', links.prNumber],
+      ['pr_url', links.prUrl],
+      ['issue_key', links.issueKey],
+      ['issue_url', links.issueUrl],
+      ['board_url', links.boardUrl],
+      ['confluence_page_id', links.confluencePageId],
+      ['confluence_url', links.confluenceUrl],
+    ];
+    const lines = fields.filter(([, value]) => value !== undefined).map(([key, value]) => `${key}: ${value}`);
+    return lines.length > 0 ? `<session-links>\n${lines.join('\n')}\n</session-links>` : undefined;
+  }
+
   /**
    * Get the default system prompt without persona
    */
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { QueryScheduler, ReleaseSlot } from './query-scheduler';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('QueryScheduler', () => {
+  it('should grant slots immediately while under the limits', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrent: 2, maxPerUser: 0 });
+    const onWaiting = vi.fn();
+
+    await scheduler.acquire({ userId: 'U1', sessionKey: 'a', onWaiting });
+    await scheduler.acquire({ userId: 'U2', sessionKey: 'b', onWaiting });
+
+    expect(scheduler.getRunningCount()).toBe(2);
+    expect(onWaiting).not.toHaveBeenCalled();
+  });
+
+  it('should make requests wait for a free slot and report their position', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrent: 1, maxPerUser: 0 });
+    const release = await scheduler.acquire({ userId: 'U1', sessionKey: 'a' });
+
+    const onWaiting = vi.fn();
+    let granted = false;
+    const pending = scheduler.acquire({ userId: 'U2', sessionKey: 'b', onWaiting }).then((r) => {
+      granted = true;
+      return r;
+    });
+
+    await flush();
+    expect(onWaiting).toHaveBeenCalledWith(1);
+    expect(granted).toBe(false);
+
+    release();
+    release(); // idempotent
+    await pending;
+    expect(granted).toBe(true);
+    expect(scheduler.getRunningCount()).toBe(1);
+  });
+
+  it('should enforce the per-user cap without blocking other users', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrent: 3, maxPerUser: 1 });
+    await scheduler.acquire({ userId: 'U1', sessionKey: 'a' });
+
+    const onWaiting = vi.fn();
+    void scheduler.acquire({ userId: 'U1', sessionKey: 'b', onWaiting });
+    await scheduler.acquire({ userId: 'U2', sessionKey: 'c' });
+
+    expect(onWaiting).toHaveBeenCalledWith(1);
+    expect(scheduler.getRunningCount()).toBe(2);
+    expect(scheduler.getWaitingCount()).toBe(1);
+  });
+
+  it('should serve waiting users round-robin', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrent: 1, maxPerUser: 0 });
+    let release = await scheduler.acquire({ userId: 'U0', sessionKey: 'x' });
+
+    const order: string[] = [];
+    const grants = new Map<string, Promise<ReleaseSlot>>();
+    for (const [userId, sessionKey] of [
+      ['U1', 'a1'],
+      ['U1', 'a2'],
+      ['U1', 'a3'],
+      ['U2', 'b1'],
+      ['U3', 'c1'],
+    ]) {
+      grants.set(
+        sessionKey,
+        scheduler.acquire({ userId, sessionKey }).then((r) => {
+          order.push(sessionKey);
+          return r;
+        })
+      );
+    }
+
+    for (let i = 0; i < grants.size; i++) {
+      release();
+      await flush();
+      release = await grants.get(order[order.length - 1])!;
+    }
+
+    expect(order).toEqual(['a1', 'b1', 'c1', 'a2', 'a3']);
+  });
+
+  it('should drop aborted waiters', async () => {
+    const scheduler = new QueryScheduler({ maxConcurrent: 1, maxPerUser: 0 });
+    const release = await scheduler.acquire({ userId: 'U1', sessionKey: 'a' });
+
+    const controller = new AbortController();
+    const pending = scheduler.acquire({ userId: 'U2', sessionKey: 'b', signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(scheduler.getWaitingCount()).toBe(0);
+
+    release();
+    expect(scheduler.getRunningCount()).toBe(0);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * QueryScheduler - Limits concurrent Claude SDK queries
+ * - Global max concurrency across all sessions
+ * - Per-user cap so one user cannot take every slot
+ * - Fair round-robin between waiting users
+ */
+
+import { Logger } from './logger';
+
+export interface QuerySchedulerOptions {
+  /** Maximum queries running at once (0 = unlimited) */
+  maxConcurrent: number;
+  /** Maximum queries per user running at once (0 = unlimited) */
+  maxPerUser: number;
+}
+
+export interface SlotRequest {
+  userId: string;
+  sessionKey: string;
+  signal?: AbortSignal;
+  /** Called when the request has to wait; position is 1-based among all waiters */
+  onWaiting?: (position: number) => void;
+}
+
+/**
+ * Releases an acquired slot (idempotent)
+ */
+export type ReleaseSlot = () => void;
+
+interface Waiter {
+  request: SlotRequest;
+  grant: (release: ReleaseSlot) => void;
+  reject: (error: Error) => void;
+  onAbort?: () => void;
+}
+
+export class QueryScheduler {
+  private logger = new Logger('QueryScheduler');
+  private running = 0;
+  private runningByUser: Map<string, number> = new Map();
+  // Waiters per user, plus the order in which users take turns
+  private waitersByUser: Map<string, Waiter[]> = new Map();
+  private userRotation: string[] = [];
+
+  constructor(private options: QuerySchedulerOptions) {}
+
+  /**
+   * Wait for a slot, resolving with a release function
+   * Rejects with an AbortError if the signal aborts while waiting.
+   */
+  acquire(request: SlotRequest): Promise<ReleaseSlot> {
+    if (request.signal?.aborted) {
+      return Promise.reject(this.abortError());
+    }
+
+    if (!this.hasWaiters() && this.canRun(request.userId)) {
+      return Promise.resolve(this.start(request.userId));
+    }
+
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      const waiter: Waiter = { request, grant: resolve, reject };
+
+      if (request.signal) {
+        waiter.onAbort = () => {
+          this.removeWaiter(waiter);
+          reject(this.abortError());
+        };
+        request.signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.addWaiter(waiter);
+
+      // A slot may be usable right away if only the per-user cap blocked others
+      this.schedule();
+      if (!this.isWaiting(waiter)) {
+        return;
+      }
+
+      const position = this.getWaitingCount();
+      this.logger.info('Query waiting for a slot', {
+        userId: request.userId,
+        sessionKey: request.sessionKey,
+        position,
+        running: this.running,
+      });
+      request.onWaiting?.(position);
+    });
+  }
+
+  getRunningCount(): number {
+    return this.running;
+  }
+
+  getWaitingCount(): number {
+    let count = 0;
+    for (const waiters of this.waitersByUser.values()) {
+      count += waiters.length;
+    }
+    return count;
+  }
+
+  private canRun(userId: string): boolean {
+    const { maxConcurrent, maxPerUser } = this.options;
+    if (maxConcurrent > 0 && this.running >= maxConcurrent) {
+      return false;
+    }
+    if (maxPerUser > 0 && (this.runningByUser.get(userId) || 0) >= maxPerUser) {
+      return false;
+    }
+    return true;
+  }
+
+  private start(userId: string): ReleaseSlot {
+    this.running++;
+    this.runningByUser.set(userId, (this.runningByUser.get(userId) || 0) + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      this.running--;
+      const userCount = (this.runningByUser.get(userId) || 1) - 1;
+      if (userCount > 0) {
+        this.runningByUser.set(userId, userCount);
+      } else {
+        this.runningByUser.delete(userId);
+      }
+      this.schedule();
+    };
+  }
+
+  /**
+   * Grant free slots to waiting users in round-robin order
+   */
+  private schedule(): void {
+    let granted = true;
+    while (granted && this.hasWaiters()) {
+      granted = false;
+
+      for (let i = 0; i < this.userRotation.length; i++) {
+        const userId = this.userRotation[i];
+        if (!this.canRun(userId)) continue;
+
+        const waiter = this.takeWaiter(userId);
+        if (!waiter) continue;
+
+        // Served user goes to the back of the rotation
+        this.userRotation.splice(this.userRotation.indexOf(userId), 1);
+        if (this.waitersByUser.has(userId)) {
+          this.userRotation.push(userId);
+        }
+
+        if (waiter.onAbort) {
+          waiter.request.signal?.removeEventListener('abort', waiter.onAbort);
+        }
+        this.logger.debug('Granted slot to waiting query', {
+          userId,
+          sessionKey: waiter.request.sessionKey,
+        });
+        waiter.grant(this.start(userId));
+        granted = true;
+        break;
+      }
+    }
+  }
+
+  private hasWaiters(): boolean {
+    return this.waitersByUser.size > 0;
+  }
+
+  private isWaiting(waiter: Waiter): boolean {
+    return this.waitersByUser.get(waiter.request.userId)?.includes(waiter) ?? false;
+  }
+
+  private addWaiter(waiter: Waiter): void {
+    const { userId } = waiter.request;
+    const waiters = this.waitersByUser.get(userId);
+    if (waiters) {
+      waiters.push(waiter);
+    } else {
+      this.waitersByUser.set(userId, [waiter]);
+      this.userRotation.push(userId);
+    }
+  }
+
+  private takeWaiter(userId: string): Waiter | undefined {
+    const waiters = this.waitersByUser.get(userId);
+    const waiter = waiters?.shift();
+    if (waiters && waiters.length === 0) {
+      this.waitersByUser.delete(userId);
+    }
+    return waiter;
+  }
+
+  private removeWaiter(waiter: Waiter): void {
+    const { userId } = waiter.request;
+    const waiters = this.waitersByUser.get(userId);
+    if (!waiters) return;
+
+    const index = waiters.indexOf(waiter);
+    if (index !== -1) {
+      waiters.splice(index, 1);
+    }
+    if (waiters.length === 0) {
+      this.waitersByUser.delete(userId);
+      this.userRotation = this.userRotation.filter((id) => id !== userId);
+    }
+  }
+
+  private abortError(): Error {
+    const error = new Error('Request was aborted while waiting for a slot');
+    error.name = 'AbortError';
+    return error;
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { CronParseError, isValidTimeZone, nextCronRun, parseCron } from './cron';
+
+const next = (cron: string, after: string, timeZone = 'UTC') =>
+  nextCronRun(parseCron(cron), new Date(after), timeZone)?.toISOString();
+
+describe('cron', () => {
+  it('should parse steps, ranges, lists and names', () => {
+    const schedule = parseCron('*/20 9-17/4 1,15 jan-mar mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 20, 40]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('0 9 * *')).toThrow(CronParseError);
+    expect(() => parseCron('60 * * * *')).toThrow(/Invalid value `60`/);
+    expect(() => parseCron('0 17-9 * * *')).toThrow(/Invalid range/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(/Invalid step/);
+    expect(() => parseCron('@yearly')).toThrow(CronParseError);
+  });
+
+  it('should find the next weekday run in a time zone', () => {
+    // Friday 2026-03-13 10:00 KST -> Monday 09:00 KST
+    expect(next('0 9 * * 1-5', '2026-03-13T01:00:00Z', 'Asia/Seoul')).toBe('2026-03-16T00:00:00.000Z');
+    // Before 09:00 KST on a weekday -> same day
+    expect(next('0 9 * * 1-5', '2026-03-12T23:00:00Z', 'Asia/Seoul')).toBe('2026-03-13T00:00:00.000Z');
+  });
+
+  it('should run strictly after the given time', () => {
+    expect(next('@hourly', '2026-03-13T05:00:00Z')).toBe('2026-03-13T06:00:00.000Z');
+    expect(next('*/15 * * * *', '2026-03-13T05:14:59Z')).toBe('2026-03-13T05:15:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 15th or any Monday, whichever comes first
+    expect(next('0 0 15 * mon', '2026-03-10T00:00:00Z')).toBe('2026-03-15T00:00:00.000Z');
+    expect(next('0 0 15 * mon', '2026-03-15T00:00:00Z')).toBe('2026-03-16T00:00:00.000Z');
+    // Sunday as 7
+    expect(next('0 0 * * 7', '2026-03-10T00:00:00Z')).toBe('2026-03-15T00:00:00.000Z');
+  });
+
+  it('should skip wall-clock times removed by DST', () => {
+    // 2026-03-08 02:30 does not exist in New York
+    expect(next('30 2 * * *', '2026-03-07T12:00:00Z', 'America/New_York')).toBe('2026-03-09T06:30:00.000Z');
+    expect(next('0 9 * * *', '2026-03-08T00:00:00Z', 'America/New_York')).toBe('2026-03-08T13:00:00.000Z');
+  });
+
+  it('should return undefined for dates that never occur', () => {
+    expect(next('0 0 31 2 *', '2026-01-01T00:00:00Z')).toBeUndefined();
+  });
+
+  it('should validate time zones', () => {
+    expect(isValidTimeZone('Asia/Seoul')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Minimal 5-field cron expressions with time zone support
+ * `minute hour day-of-month month day-of-week`, plus @hourly/@daily/@weekly/@monthly/@weekdays.
+ */
+
+interface FieldSpec {
+  min: number;
+  max: number;
+  names?: string[]; // Names matching min..max in order
+}
+
+const FIELDS: FieldSpec[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  // 7 is accepted as Sunday and folded to 0
+  { min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@weekdays': '0 9 * * 1-5',
+};
+
+// Longest search window for the next run (covers Feb 29 schedules)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, either may match
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const lower = text.toLowerCase();
+  const nameIndex = spec.names?.indexOf(lower) ?? -1;
+  const value = nameIndex >= 0 ? spec.min + nameIndex : /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new CronParseError(`Invalid value \`${text}\` (expected ${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [rangeText, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!Number.isInteger(step) || step < 1 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw new CronParseError(`Invalid step \`${part}\``);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangeText === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangeText.includes('-')) {
+      const [from, to] = rangeText.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new CronParseError(`Invalid range \`${rangeText}\``);
+      }
+    } else {
+      start = parseValue(rangeText, spec);
+      end = stepText === undefined ? start : spec.max; // `5/15` means from 5 every 15
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws CronParseError if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = expression.trim().replace(/\s+/g, ' ');
+  const fields = (MACROS[normalized.toLowerCase()] ?? normalized).split(' ');
+  if (fields.length !== 5) {
+    throw new CronParseError(`Expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: normalized,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  };
+}
+
+/**
+ * Check whether a time zone name is known to the runtime (e.g., Asia/Seoul)
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function wallClock(date: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)!.value, 10);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+/**
+ * Convert a wall-clock time in a time zone to a Date
+ * Returns undefined for times skipped by a DST transition.
+ */
+function fromWallClock(clock: WallClock, timeZone: string): Date | undefined {
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute);
+  const offsetAt = (ms: number) => {
+    const local = wallClock(new Date(ms), timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - ms;
+  };
+
+  let result = asUtc - offsetAt(asUtc);
+  result = asUtc - offsetAt(result); // Second pass settles offsets near DST changes
+
+  const check = wallClock(new Date(result), timeZone);
+  return check.hour === clock.hour && check.minute === clock.minute ? new Date(result) : undefined;
+}
+
+function dayMatches(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  if (!schedule.months.has(month)) return false;
+
+  const dow = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const domMatch = schedule.daysOfMonth.has(day);
+  const dowMatch = schedule.daysOfWeek.has(dow);
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time the schedule fires strictly after `after`, in the given time zone
+ * Returns undefined if it never fires (e.g., `0 0 31 2 *`).
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date, timeZone: string): Date | undefined {
+  const start = wallClock(after, timeZone);
+  const hours = [...schedule.hours].sort((a, b) => a - b);
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!dayMatches(schedule, year, month, day)) continue;
+
+    for (const hour of hours) {
+      if (offset === 0 && hour < start.hour) continue;
+      for (const minute of minutes) {
+        if (offset === 0 && hour === start.hour && minute <= start.minute) continue;
+
+        const candidate = fromWallClock({ year, month, day, hour, minute }, timeZone);
+        if (candidate && candidate.getTime() > after.getTime()) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
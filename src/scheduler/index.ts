@@ -0,0 +1,7 @@
+/**
+ * Scheduled and recurring prompts
+ */
+
+export { CronSchedule, CronParseError, parseCron, nextCronRun, isValidTimeZone } from './cron';
+export { ScheduledJob, NewScheduledJob, ScheduleStore, scheduleStore } from './schedule-store';
+export { Scheduler, SchedulerDeps, computeNextRun } from './scheduler';
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Logger } from '../logger';
+import { WorkflowType } from '../types';
+
+const logger = new Logger('ScheduleStore');
+
+/**
+ * A prompt that runs on a cron schedule in a new thread
+ */
+export interface ScheduledJob {
+  id: string;
+  cron: string; // 5-field expression or macro (e.g., @daily)
+  timezone: string; // IANA zone the cron fields are read in
+  prompt: string;
+  channelId: string; // Channel the run threads are posted in
+  ownerId: string; // Runs use the owner's identity, working directory and budget
+  ownerName?: string;
+  workflow?: WorkflowType; // Skip dispatch and start runs in this workflow
+  paused: boolean;
+  createdAt: string; // ISO 8601
+  nextRunAt?: string; // ISO 8601, undefined when paused or the cron never fires again
+  lastRunAt?: string;
+  lastThreadTs?: string; // Thread of the most recent run
+  lastError?: string;
+}
+
+export type NewScheduledJob = Omit<ScheduledJob, 'id' | 'paused' | 'createdAt'>;
+
+interface ScheduleData {
+  jobs: ScheduledJob[];
+}
+
+/**
+ * File-based store for scheduled prompts (data/schedules.json)
+ */
+export class ScheduleStore {
+  private scheduleFile: string;
+  private data: ScheduleData = { jobs: [] };
+
+  constructor(dataDir?: string) {
+    const dir = dataDir || path.join(process.cwd(), 'data');
+
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.scheduleFile = path.join(dir, 'schedules.json');
+    this.loadSchedules();
+  }
+
+  /**
+   * Load schedules from file
+   */
+  private loadSchedules(): void {
+    try {
+      if (fs.existsSync(this.scheduleFile)) {
+        const data = JSON.parse(fs.readFileSync(this.scheduleFile, 'utf8'));
+        this.data = { jobs: Array.isArray(data.jobs) ? data.jobs : [] };
+        logger.info('Loaded schedules', { jobs: this.data.jobs.length });
+      }
+    } catch (error) {
+      logger.error('Failed to load schedules', error);
+      this.data = { jobs: [] };
+    }
+  }
+
+  /**
+   * Save schedules to file
+   */
+  private saveSchedules(): void {
+    try {
+      fs.writeFileSync(this.scheduleFile, JSON.stringify(this.data, null, 2), 'utf8');
+    } catch (error) {
+      logger.error('Failed to save schedules', error);
+    }
+  }
+
+  /**
+   * Add a job and return it with its generated ID
+   */
+  add(job: NewScheduledJob, now: Date = new Date()): ScheduledJob {
+    let id: string;
+    do {
+      id = crypto.randomBytes(3).toString('hex');
+    } while (this.get(id));
+
+    const created: ScheduledJob = { ...job, id, paused: false, createdAt: now.toISOString() };
+    this.data.jobs.push(created);
+    this.saveSchedules();
+    logger.info('Added scheduled job', { id, cron: job.cron, timezone: job.timezone, channelId: job.channelId });
+    return created;
+  }
+
+  get(id: string): ScheduledJob | undefined {
+    return this.data.jobs.find((job) => job.id === id.toLowerCase());
+  }
+
+  list(): ScheduledJob[] {
+    return [...this.data.jobs];
+  }
+
+  /**
+   * Update fields of a job (returns undefined if it was deleted meanwhile)
+   */
+  update(id: string, changes: Partial<Omit<ScheduledJob, 'id'>>): ScheduledJob | undefined {
+    const job = this.get(id);
+    if (!job) return undefined;
+
+    Object.assign(job, changes);
+    this.saveSchedules();
+    return job;
+  }
+
+  remove(id: string): boolean {
+    const job = this.get(id);
+    if (!job) return false;
+
+    this.data.jobs = this.data.jobs.filter((j) => j !== job);
+    this.saveSchedules();
+    logger.info('Removed scheduled job', { id: job.id });
+    return true;
+  }
+}
+
+export const scheduleStore = new ScheduleStore();
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScheduleStore } from './schedule-store';
+import { Scheduler } from './scheduler';
+
+describe('Scheduler', () => {
+  let dataDir: string;
+  let store: ScheduleStore;
+  let now: Date;
+
+  const job = {
+    cron: '0 9 * * *',
+    timezone: 'UTC',
+    prompt: 'Summarize PROJ',
+    channelId: 'C1',
+    ownerId: 'U1',
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-test-'));
+    store = new ScheduleStore(dataDir);
+    now = new Date('2026-03-13T09:00:10Z');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should run due jobs and advance to the next slot', async () => {
+    const added = store.add({ ...job, nextRunAt: '2026-03-13T09:00:00.000Z' });
+    const runJob = vi.fn(async () => '1700000000.000100');
+    const scheduler = new Scheduler({ store, runJob, now: () => now });
+
+    await scheduler.tick();
+
+    expect(runJob).toHaveBeenCalledTimes(1);
+    expect(runJob.mock.calls[0]).toEqual([expect.objectContaining({ id: added.id, prompt: 'Summarize PROJ' })]);
+    expect(store.get(added.id)).toMatchObject({
+      nextRunAt: '2026-03-14T09:00:00.000Z',
+      lastRunAt: now.toISOString(),
+      lastThreadTs: '1700000000.000100',
+    });
+
+    // Not due again until tomorrow
+    await scheduler.tick();
+    expect(runJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('should persist jobs across store instances', () => {
+    const added = store.add({ ...job, workflow: 'jira-executive-summary' });
+
+    expect(new ScheduleStore(dataDir).get(added.id)).toEqual(added);
+  });
+
+  it('should skip paused jobs and runs missed beyond the grace period', async () => {
+    const paused = store.add({ ...job, nextRunAt: '2026-03-13T09:00:00.000Z' });
+    store.update(paused.id, { paused: true });
+    const missed = store.add({ ...job, nextRunAt: '2026-03-13T06:00:00.000Z' });
+    const runJob = vi.fn(async () => undefined);
+
+    await new Scheduler({ store, runJob, now: () => now }).tick();
+
+    expect(runJob).not.toHaveBeenCalled();
+    expect(store.get(missed.id)?.nextRunAt).toBe('2026-03-14T09:00:00.000Z');
+  });
+
+  it('should record failures and not overlap runs of the same job', async () => {
+    const added = store.add({ ...job, cron: '* * * * *', nextRunAt: '2026-03-13T09:00:00.000Z' });
+    let finish!: () => void;
+    const runJob = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise<undefined>((resolve) => (finish = () => resolve(undefined))))
+      .mockRejectedValueOnce(new Error('channel_not_found'));
+    const scheduler = new Scheduler({ store, runJob, now: () => now });
+
+    const first = scheduler.tick();
+    now = new Date('2026-03-13T09:01:10Z');
+    await scheduler.tick(); // First run still in progress
+    expect(runJob).toHaveBeenCalledTimes(1);
+
+    finish();
+    await first;
+    now = new Date('2026-03-13T09:02:10Z');
+    await scheduler.tick();
+
+    expect(runJob).toHaveBeenCalledTimes(2);
+    expect(store.get(added.id)).toMatchObject({ lastError: 'channel_not_found', nextRunAt: '2026-03-13T09:03:00.000Z' });
+  });
+});
@@ -0,0 +1,121 @@
+import { Logger } from '../logger';
+import { nextCronRun, parseCron } from './cron';
+import { ScheduledJob, ScheduleStore } from './schedule-store';
+
+// How often due jobs are checked
+const TICK_INTERVAL_MS = 30 * 1000;
+
+// Runs missed by more than this (e.g., the bot was down) are skipped, not caught up
+const MISFIRE_GRACE_MS = 15 * 60 * 1000;
+
+/**
+ * Next run time for a job as an ISO string (undefined if the cron never fires again)
+ */
+export function computeNextRun(cron: string, timezone: string, after: Date): string | undefined {
+  return nextCronRun(parseCron(cron), after, timezone)?.toISOString();
+}
+
+export interface SchedulerDeps {
+  store: ScheduleStore;
+  /** Start the job in a new thread and resolve with its ts once the run finishes */
+  runJob: (job: ScheduledJob) => Promise<string | undefined>;
+  now?: () => Date;
+}
+
+/**
+ * Fires scheduled prompts when they are due
+ * Jobs live in the store, so `schedule` commands take effect on the next tick.
+ */
+export class Scheduler {
+  private logger = new Logger('Scheduler');
+  private timer?: NodeJS.Timeout;
+  private running: Set<string> = new Set();
+
+  constructor(private deps: SchedulerDeps) {}
+
+  private now(): Date {
+    return this.deps.now ? this.deps.now() : new Date();
+  }
+
+  start(intervalMs: number = TICK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    // Active jobs without a next run (e.g., edited by hand in schedules.json) get one
+    const now = this.now();
+    for (const job of this.deps.store.list()) {
+      if (!job.paused && !job.nextRunAt) {
+        this.deps.store.update(job.id, { nextRunAt: this.safeNextRun(job, now) });
+      }
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => this.logger.error('Scheduler tick failed', error));
+    }, intervalMs);
+    this.timer.unref();
+    this.logger.info('Scheduler started', { jobs: this.deps.store.list().length, intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      this.logger.info('Scheduler stopped');
+    }
+  }
+
+  /**
+   * Start every due job; resolves when the started runs finish
+   */
+  async tick(): Promise<void> {
+    const now = this.now();
+    const runs: Promise<void>[] = [];
+
+    for (const job of this.deps.store.list()) {
+      if (job.paused || !job.nextRunAt) continue;
+
+      const dueIso = job.nextRunAt;
+      const dueAt = Date.parse(dueIso);
+      if (dueAt > now.getTime()) continue;
+
+      // Advance first so a slow run or a crash never fires the same slot twice
+      this.deps.store.update(job.id, { nextRunAt: this.safeNextRun(job, now) });
+
+      if (now.getTime() - dueAt > MISFIRE_GRACE_MS) {
+        this.logger.warn('Skipping missed scheduled run', { id: job.id, dueAt: dueIso });
+        continue;
+      }
+      if (this.running.has(job.id)) {
+        this.logger.warn('Previous run still in progress, skipping', { id: job.id });
+        continue;
+      }
+
+      runs.push(this.run(job, now));
+    }
+
+    await Promise.all(runs);
+  }
+
+  private async run(job: ScheduledJob, now: Date): Promise<void> {
+    this.running.add(job.id);
+    this.logger.info('Running scheduled job', { id: job.id, cron: job.cron, channelId: job.channelId });
+
+    try {
+      const threadTs = await this.deps.runJob(job);
+      this.deps.store.update(job.id, { lastRunAt: now.toISOString(), lastThreadTs: threadTs, lastError: undefined });
+    } catch (error) {
+      this.logger.error('Scheduled job failed', { id: job.id, error });
+      this.deps.store.update(job.id, { lastRunAt: now.toISOString(), lastError: (error as Error).message });
+    } finally {
+      this.running.delete(job.id);
+    }
+  }
+
+  private safeNextRun(job: ScheduledJob, after: Date): string | undefined {
+    try {
+      return computeNextRun(job.cron, job.timezone, after);
+    } catch (error) {
+      this.logger.error('Invalid stored schedule', { id: job.id, cron: job.cron, error });
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionRegistry } from './session-registry';
+import { FileSessionStore } from './session-store';
+import { sharedStore } from './shared-store';
+
+vi.mock('./shared-store', () => ({
+  sharedStore: {
+    removeSessionApprovals: vi.fn().mockResolvedValue(0),
+  },
+}));
+
+describe('SessionRegistry session approvals', () => {
+  let tmpDir: string;
+  let registry: SessionRegistry;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-registry-test-'));
+    registry = new SessionRegistry(new FileSessionStore(tmpDir));
+    registry.createSession('U1', 'User', 'C1', '1.1').sessionId = 'sdk-session';
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should clear "Allow for this session" approvals when the context is reset', () => {
+    expect(registry.resetSessionContext('C1', '1.1')).toBe(true);
+    expect(sharedStore.removeSessionApprovals).toHaveBeenCalledWith('C1', '1.1');
+  });
+
+  it('should clear them when the session is terminated', () => {
+    expect(registry.terminateSession(registry.getSessionKey('C1', '1.1'))).toBe(true);
+    expect(sharedStore.removeSessionApprovals).toHaveBeenCalledWith('C1', '1.1');
+  });
+
+  it('should clear them when the session expires', async () => {
+    await registry.cleanupInactiveSessions(-1);
+    expect(registry.getSession('C1', '1.1')).toBeUndefined();
+    expect(sharedStore.removeSessionApprovals).toHaveBeenCalledWith('C1', '1.1');
+  });
+});
+
+describe('SessionRegistry persistence', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-registry-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should keep records with a newer schema version when rewriting the file store', () => {
+    const newer = { schemaVersion: 99, key: 'C9-9.9', channelId: 'C9', futureField: { nested: true } };
+    fs.writeFileSync(path.join(tmpDir, 'sessions.json'), JSON.stringify([newer]));
+
+    const registry = new SessionRegistry(new FileSessionStore(tmpDir));
+    expect(registry.loadSessions()).toBe(0);
+    registry.createSession('U1', 'User', 'C1', '1.1').sessionId = 'sdk-session';
+    registry.saveSessions();
+
+    const saved = JSON.parse(fs.readFileSync(path.join(tmpDir, 'sessions.json'), 'utf-8'));
+    expect(saved.map((s: { key: string }) => s.key)).toEqual(['C1-1.1', 'C9-9.9']);
+    expect(saved[1]).toEqual(newer);
+  });
+});
@@ -3,15 +3,19 @@
  * Extracted from claude-handler.ts (Phase 5.1)
  */
 
-import { ConversationSession, SessionState, WorkflowType } from './types';
+import { ConversationSession, DispatchInfo, SessionLinks, SessionState, TurnCheckpoint, WorkflowType } from './types';
 import { Logger } from './logger';
 import { userSettingsStore } from './user-settings-store';
-import * as path from 'path';
-import * as fs from 'fs';
-
-// Session persistence file path
-const DATA_DIR = path.join(process.cwd(), 'data');
-const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json');
+import { workflowRegistry } from './workflow-registry';
+import { sharedStore } from './shared-store';
+import {
+  SessionStore,
+  SerializedSession,
+  SESSION_SCHEMA_VERSION,
+  createSessionStore,
+  migrateSerializedSession,
+  needsMigration,
+} from './session-store';
 
 // Default session timeout: 24 hours
 const DEFAULT_SESSION_TIMEOUT = 24 * 60 * 60 * 1000;
@@ -21,27 +25,6 @@ const WARNING_INTERVALS = [
   10 * 60 * 1000, // 10 minutes
 ];
 
-/**
- * Serialized session for file persistence
- */
-interface SerializedSession {
-  key: string;
-  ownerId: string;
-  ownerName?: string;
-  userId: string; // Legacy field
-  channelId: string;
-  threadTs?: string;
-  sessionId?: string;
-  isActive: boolean;
-  lastActivity: string; // ISO date string
-  workingDirectory?: string;
-  title?: string;
-  model?: string;
-  // Session state machine fields
-  state?: SessionState;
-  workflow?: WorkflowType;
-}
-
 /**
  * Callbacks for session expiry events
  */
@@ -54,6 +37,11 @@ export interface SessionExpiryCallbacks {
   onExpiry: (session: ConversationSession) => Promise<void>;
 }
 
+/**
+ * Called after a session is removed, e.g. to release resources it held
+ */
+export type SessionRemovalCallback = (sessionKey: string, session: ConversationSession) => void;
+
 /**
  * SessionRegistry manages all conversation sessions
  * - Session CRUD operations
@@ -64,6 +52,14 @@ export class SessionRegistry {
   private sessions: Map<string, ConversationSession> = new Map();
   private logger = new Logger('SessionRegistry');
   private expiryCallbacks?: SessionExpiryCallbacks;
+  private removalCallback?: SessionRemovalCallback;
+  private store: SessionStore;
+  // Persisted records this version can't read (e.g., newer schema), written back untouched
+  private unreadableRecords: Map<string, SerializedSession> = new Map();
+
+  constructor(store?: SessionStore) {
+    this.store = store || createSessionStore();
+  }
 
   /**
    * Set callbacks for session expiry events
@@ -72,6 +68,13 @@ export class SessionRegistry {
     this.expiryCallbacks = callbacks;
   }
 
+  /**
+   * Set a callback for sessions that are terminated or expire
+   */
+  setRemovalCallback(callback: SessionRemovalCallback): void {
+    this.removalCallback = callback;
+  }
+
   /**
    * Get session key - based on channel and thread only (shared session)
    */
@@ -140,6 +143,7 @@ export class SessionRegistry {
       isActive: true,
       lastActivity: new Date(),
       model: sessionModel,
+      explicitModel: model ? true : undefined,
       state: 'INITIALIZING', // Start in INITIALIZING state
     };
 
@@ -156,7 +160,9 @@ export class SessionRegistry {
     channelId: string,
     threadTs: string | undefined,
     workflow: WorkflowType,
-    title?: string
+    title?: string,
+    dispatch?: DispatchInfo,
+    links?: SessionLinks
   ): boolean {
     const session = this.getSession(channelId, threadTs);
     if (!session) {
@@ -179,6 +185,13 @@ export class SessionRegistry {
 
     session.state = 'MAIN';
     session.workflow = workflow;
+    this.applyWorkflowModel(session);
+    if (dispatch) {
+      session.dispatch = dispatch;
+    }
+    if (links) {
+      session.links = links;
+    }
     if (title && !session.title) {
       session.title = title;
     }
@@ -187,10 +200,40 @@ export class SessionRegistry {
       threadTs,
       workflow,
     });
-    this.saveSessions();
+    this.persistSession(this.getSessionKey(channelId, threadTs));
     return true;
   }
 
+  /**
+   * Re-route a MAIN session to another workflow (manual override)
+   * The new workflow's system prompt applies from the next query; history is kept.
+   * @returns The previous workflow, or undefined if the session is missing or not in MAIN
+   */
+  changeWorkflow(channelId: string, threadTs: string | undefined, workflow: WorkflowType): WorkflowType | undefined {
+    const session = this.getSession(channelId, threadTs);
+    if (!session || session.state !== 'MAIN') {
+      this.logger.debug('changeWorkflow: no MAIN session', { channelId, threadTs, state: session?.state });
+      return undefined;
+    }
+
+    const previous = session.workflow || 'default';
+    session.workflow = workflow;
+    this.applyWorkflowModel(session);
+    this.logger.info('Session workflow changed', { channelId, threadTs, from: previous, to: workflow });
+    this.persistSession(this.getSessionKey(channelId, threadTs));
+    return previous;
+  }
+
+  /**
+   * Switch the session to its workflow's default model, or back to the owner's default
+   * Models picked explicitly for the session are kept.
+   */
+  private applyWorkflowModel(session: ConversationSession): void {
+    if (session.explicitModel) return;
+    session.model =
+      workflowRegistry.getDefaultModel(session.workflow) || userSettingsStore.getUserDefaultModel(session.ownerId);
+  }
+
   /**
    * Get session state
    */
@@ -222,8 +265,58 @@ export class SessionRegistry {
     const session = this.getSession(channelId, threadTs);
     if (session && !session.title) {
       session.title = title;
-      this.saveSessions();
+      this.persistSession(this.getSessionKey(channelId, threadTs));
+    }
+  }
+
+  /**
+   * Record a checkpoint taken before a turn, dropping the oldest past the limit
+   * @returns the checkpoints that were dropped
+   */
+  addCheckpoint(
+    channelId: string,
+    threadTs: string | undefined,
+    checkpoint: TurnCheckpoint,
+    limit: number
+  ): TurnCheckpoint[] {
+    const session = this.getSession(channelId, threadTs);
+    if (!session) {
+      return [checkpoint];
+    }
+
+    const checkpoints = [...(session.checkpoints ?? []), checkpoint];
+    const dropped = checkpoints.splice(0, Math.max(0, checkpoints.length - limit));
+    session.checkpoints = checkpoints;
+    this.persistSession(this.getSessionKey(channelId, threadTs));
+    return dropped;
+  }
+
+  /**
+   * Record the working tree a turn ended with on the checkpoint taken before it
+   */
+  completeCheckpoint(channelId: string, threadTs: string | undefined, tree: string, endTree: string): void {
+    const checkpoints = this.getSession(channelId, threadTs)?.checkpoints;
+    const latest = checkpoints?.[checkpoints.length - 1];
+    if (latest?.tree === tree) {
+      latest.endTree = endTree;
+      this.persistSession(this.getSessionKey(channelId, threadTs));
+    }
+  }
+
+  /**
+   * Keep only the oldest `count` checkpoints (the newer turns were rolled back)
+   * @returns the checkpoints that were removed
+   */
+  truncateCheckpoints(channelId: string, threadTs: string | undefined, count: number): TurnCheckpoint[] {
+    const session = this.getSession(channelId, threadTs);
+    if (!session?.checkpoints) {
+      return [];
     }
+
+    const removed = session.checkpoints.slice(count);
+    session.checkpoints = session.checkpoints.slice(0, count);
+    this.persistSession(this.getSessionKey(channelId, threadTs));
+    return removed;
   }
 
   /**
@@ -240,6 +333,7 @@ export class SessionRegistry {
       session.currentInitiatorId = initiatorId;
       session.currentInitiatorName = initiatorName;
       session.lastActivity = new Date();
+      this.persistSession(this.getSessionKey(channelId, threadTs));
     }
   }
 
@@ -296,6 +390,9 @@ export class SessionRegistry {
    */
   resetSessionContext(channelId: string, threadTs: string | undefined): boolean {
     const session = this.getSession(channelId, threadTs);
+    if (session) {
+      this.clearSessionApprovals(channelId, threadTs);
+    }
     // Only return true if there was actually something to reset (had an active conversation)
     if (!session || !session.sessionId) {
       return false;
@@ -322,7 +419,7 @@ export class SessionRegistry {
     session.warningMessageTs = undefined;
     session.lastWarningSentAt = undefined;
 
-    this.saveSessions();
+    this.persistSession(this.getSessionKey(channelId, threadTs));
     return true;
   }
 
@@ -338,10 +435,21 @@ export class SessionRegistry {
     this.sessions.delete(sessionKey);
     this.logger.info('Session terminated', { sessionKey, ownerId: session.ownerId });
 
-    this.saveSessions();
+    this.removePersistedSession(sessionKey);
+    this.clearSessionApprovals(session.channelId, session.threadTs);
+    this.removalCallback?.(sessionKey, session);
     return true;
   }
 
+  /**
+   * Drop "Allow for this session" approvals so they don't carry over to the next session in the thread
+   */
+  private clearSessionApprovals(channelId: string, threadTs: string | undefined): void {
+    sharedStore.removeSessionApprovals(channelId, threadTs).catch((error) => {
+      this.logger.warn('Failed to clear session approvals', { channelId, threadTs, error });
+    });
+  }
+
   /**
    * Clean up inactive sessions based on max age
    */
@@ -364,6 +472,9 @@ export class SessionRegistry {
           }
         }
         this.sessions.delete(key);
+        this.removePersistedSession(key);
+        this.clearSessionApprovals(session.channelId, session.threadTs);
+        this.removalCallback?.(key, session);
         cleaned++;
         continue;
       }
@@ -405,6 +516,7 @@ export class SessionRegistry {
             if (newMessageTs) {
               session.warningMessageTs = newMessageTs;
             }
+            this.persistSession(sessionKey);
 
             this.logger.debug('Sent session expiry warning', {
               sessionKey,
@@ -421,92 +533,187 @@ export class SessionRegistry {
   }
 
   /**
-   * Save all sessions to file for persistence across restarts
+   * Convert a session to its persisted form
    */
-  saveSessions(): void {
+  private serializeSession(key: string, session: ConversationSession): SerializedSession {
+    return {
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      key,
+      ownerId: session.ownerId,
+      ownerName: session.ownerName,
+      currentInitiatorId: session.currentInitiatorId,
+      currentInitiatorName: session.currentInitiatorName,
+      userId: session.userId, // Legacy field
+      channelId: session.channelId,
+      threadTs: session.threadTs,
+      sessionId: session.sessionId,
+      isActive: session.isActive,
+      lastActivity: session.lastActivity.toISOString(),
+      workingDirectory: session.workingDirectory,
+      title: session.title,
+      model: session.model,
+      explicitModel: session.explicitModel,
+      warningMessageTs: session.warningMessageTs,
+      lastWarningSentAt: session.lastWarningSentAt,
+      state: session.state,
+      workflow: session.workflow,
+      dispatch: session.dispatch,
+      links: session.links,
+      checkpoints: session.checkpoints,
+      usage: session.usage,
+      renewState: session.renewState,
+      savedWorkflow: session.savedWorkflow,
+    };
+  }
+
+  /**
+   * Restore a session from its persisted form (already migrated to the current schema)
+   */
+  private deserializeSession(serialized: SerializedSession): ConversationSession {
+    return {
+      ownerId: serialized.ownerId,
+      ownerName: serialized.ownerName,
+      currentInitiatorId: serialized.currentInitiatorId,
+      currentInitiatorName: serialized.currentInitiatorName,
+      userId: serialized.userId, // Legacy field
+      channelId: serialized.channelId,
+      threadTs: serialized.threadTs,
+      sessionId: serialized.sessionId,
+      isActive: serialized.isActive,
+      lastActivity: new Date(serialized.lastActivity),
+      workingDirectory: serialized.workingDirectory,
+      title: serialized.title,
+      model: serialized.model,
+      explicitModel: serialized.explicitModel,
+      warningMessageTs: serialized.warningMessageTs,
+      lastWarningSentAt: serialized.lastWarningSentAt,
+      state: serialized.state,
+      workflow: serialized.workflow,
+      dispatch: serialized.dispatch,
+      links: serialized.links,
+      checkpoints: serialized.checkpoints,
+      usage: serialized.usage,
+      renewState: serialized.renewState,
+      savedWorkflow: serialized.savedWorkflow,
+    };
+  }
+
+  /**
+   * Persist a single session after a state change
+   * Sessions without a sessionId have no conversation history and are not kept.
+   */
+  private persistSession(sessionKey: string): void {
+    const session = this.sessions.get(sessionKey);
     try {
-      // Ensure data directory exists
-      if (!fs.existsSync(DATA_DIR)) {
-        fs.mkdirSync(DATA_DIR, { recursive: true });
+      if (session?.sessionId) {
+        this.store.put(this.serializeSession(sessionKey, session));
+      } else {
+        this.store.delete(sessionKey);
       }
+    } catch (error) {
+      this.logger.error('Failed to persist session', { sessionKey, error });
+    }
+  }
 
+  /**
+   * Remove a single session from the store
+   */
+  private removePersistedSession(sessionKey: string): void {
+    try {
+      this.store.delete(sessionKey);
+    } catch (error) {
+      this.logger.error('Failed to remove persisted session', { sessionKey, error });
+    }
+  }
+
+  /**
+   * Persist a single session (e.g., after the Claude session ID is assigned)
+   */
+  saveSession(channelId: string, threadTs: string | undefined): void {
+    this.persistSession(this.getSessionKey(channelId, threadTs));
+  }
+
+  /**
+   * Save all sessions to the store for persistence across restarts
+   */
+  saveSessions(): void {
+    try {
       const sessionsArray: SerializedSession[] = [];
       for (const [key, session] of this.sessions.entries()) {
         // Only save sessions with sessionId (meaning they have conversation history)
         if (session.sessionId) {
-          sessionsArray.push({
-            key,
-            ownerId: session.ownerId,
-            ownerName: session.ownerName,
-            userId: session.userId, // Legacy field
-            channelId: session.channelId,
-            threadTs: session.threadTs,
-            sessionId: session.sessionId,
-            isActive: session.isActive,
-            lastActivity: session.lastActivity.toISOString(),
-            workingDirectory: session.workingDirectory,
-            title: session.title,
-            model: session.model,
-            state: session.state,
-            workflow: session.workflow,
-          });
+          sessionsArray.push(this.serializeSession(key, session));
+        }
+      }
+      // A full snapshot replaces the file store, so keep records a newer version wrote
+      for (const [key, record] of this.unreadableRecords) {
+        if (!this.sessions.has(key)) {
+          sessionsArray.push(record);
         }
       }
 
-      fs.writeFileSync(SESSIONS_FILE, JSON.stringify(sessionsArray, null, 2));
-      this.logger.info(`Saved ${sessionsArray.length} sessions to file`);
+      this.store.saveAll(sessionsArray);
+      this.logger.info(`Saved ${sessionsArray.length} sessions (${this.store.backend} store)`);
     } catch (error) {
       this.logger.error('Failed to save sessions', error);
     }
   }
 
   /**
-   * Load sessions from file after restart
+   * Load sessions from the store after restart
    */
   loadSessions(): number {
     try {
-      if (!fs.existsSync(SESSIONS_FILE)) {
-        this.logger.debug('No sessions file found');
+      const sessionsArray = this.store.loadAll();
+      if (sessionsArray.length === 0) {
+        this.logger.debug('No persisted sessions found');
         return 0;
       }
 
-      const data = fs.readFileSync(SESSIONS_FILE, 'utf-8');
-      const sessionsArray: SerializedSession[] = JSON.parse(data);
-
       let loaded = 0;
+      let migrated = 0;
       const now = Date.now();
       const maxAge = DEFAULT_SESSION_TIMEOUT;
 
-      for (const serialized of sessionsArray) {
+      for (const raw of sessionsArray) {
+        const serialized = migrateSerializedSession(raw);
+        if (!serialized) {
+          const record: unknown = raw;
+          const key = typeof record === 'object' && record !== null && 'key' in record ? record.key : undefined;
+          const schemaVersion =
+            typeof record === 'object' && record !== null && 'schemaVersion' in record
+              ? record.schemaVersion
+              : undefined;
+          this.logger.warn('Skipping unreadable persisted session', { key, schemaVersion });
+          if (typeof key === 'string') {
+            this.unreadableRecords.set(key, raw);
+          }
+          continue;
+        }
+        if (needsMigration(raw)) {
+          migrated++;
+        }
+
         const lastActivity = new Date(serialized.lastActivity);
         const sessionAge = now - lastActivity.getTime();
 
         // Only restore sessions that haven't expired
         if (sessionAge < maxAge) {
-          const session: ConversationSession = {
-            ownerId: serialized.ownerId || serialized.userId, // Fallback for legacy sessions
-            ownerName: serialized.ownerName,
-            userId: serialized.userId, // Legacy field
-            channelId: serialized.channelId,
-            threadTs: serialized.threadTs,
-            sessionId: serialized.sessionId,
-            isActive: serialized.isActive,
-            lastActivity,
-            workingDirectory: serialized.workingDirectory,
-            title: serialized.title,
-            model: serialized.model,
-            state: serialized.state || 'MAIN', // Default to MAIN for legacy sessions
-            workflow: serialized.workflow || 'default', // Default to 'default' for legacy sessions
-          };
-          this.sessions.set(serialized.key, session);
+          this.sessions.set(serialized.key, this.deserializeSession(serialized));
           loaded++;
         }
       }
 
       this.logger.info(
-        `Loaded ${loaded} sessions from file (${sessionsArray.length - loaded} expired)`
+        `Loaded ${loaded} sessions from ${this.store.backend} store (${sessionsArray.length - loaded} expired or skipped)`
       );
 
+      // Rewrite upgraded records so the store only holds the current schema
+      if (migrated > 0) {
+        this.logger.info(`Migrated ${migrated} sessions to schema v${SESSION_SCHEMA_VERSION}`);
+        this.saveSessions();
+      }
+
       return loaded;
     } catch (error) {
       this.logger.error('Failed to load sessions', error);
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSessionStore } from './file-store';
+import { SqliteSessionStore } from './sqlite-store';
+import { SerializedSession } from './types';
+
+const createSerializedSession = (overrides: Partial<SerializedSession> = {}): SerializedSession => ({
+  key: 'C123-111.222',
+  ownerId: 'U123',
+  ownerName: 'Test User',
+  userId: 'U123',
+  channelId: 'C123',
+  threadTs: '111.222',
+  sessionId: 'session-123',
+  isActive: true,
+  lastActivity: new Date().toISOString(),
+  state: 'MAIN',
+  workflow: 'default',
+  ...overrides,
+});
+
+const hasNodeSqlite = (() => {
+  try {
+    require('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe('FileSessionStore', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should return empty list when nothing is persisted', () => {
+    const store = new FileSessionStore(dataDir);
+    expect(store.loadAll()).toEqual([]);
+  });
+
+  it('should round-trip a full snapshot', () => {
+    const store = new FileSessionStore(dataDir);
+    const sessions = [
+      createSerializedSession({ key: 'a' }),
+      createSerializedSession({ key: 'b', title: 'Second' }),
+    ];
+
+    store.saveAll(sessions);
+
+    expect(new FileSessionStore(dataDir).loadAll()).toEqual(sessions);
+  });
+
+  it('should not leave temp files behind after saving', () => {
+    const store = new FileSessionStore(dataDir);
+    store.saveAll([createSerializedSession()]);
+
+    expect(fs.readdirSync(dataDir)).toEqual(['sessions.json']);
+  });
+
+  it('should replay journaled puts and deletes on top of the snapshot', () => {
+    const store = new FileSessionStore(dataDir);
+    store.saveAll([createSerializedSession({ key: 'a' }), createSerializedSession({ key: 'b' })]);
+
+    store.put(createSerializedSession({ key: 'a', title: 'Updated' }));
+    store.put(createSerializedSession({ key: 'c' }));
+    store.delete('b');
+
+    const loaded = new FileSessionStore(dataDir).loadAll();
+    expect(loaded.map((s) => s.key).sort()).toEqual(['a', 'c']);
+    expect(loaded.find((s) => s.key === 'a')?.title).toBe('Updated');
+  });
+
+  it('should skip a torn trailing journal line', () => {
+    const store = new FileSessionStore(dataDir);
+    store.put(createSerializedSession({ key: 'a' }));
+    fs.appendFileSync(path.join(dataDir, 'sessions.journal'), '{"op":"put","key":"b","sess');
+
+    const loaded = new FileSessionStore(dataDir).loadAll();
+    expect(loaded.map((s) => s.key)).toEqual(['a']);
+  });
+
+  it('should truncate the journal when a snapshot is saved', () => {
+    const store = new FileSessionStore(dataDir);
+    store.put(createSerializedSession({ key: 'a' }));
+
+    store.saveAll([createSerializedSession({ key: 'b' })]);
+
+    expect(fs.existsSync(path.join(dataDir, 'sessions.journal'))).toBe(false);
+    expect(new FileSessionStore(dataDir).loadAll().map((s) => s.key)).toEqual(['b']);
+  });
+
+  it('should compact the journal once it reaches the threshold', () => {
+    const store = new FileSessionStore(dataDir, { compactThreshold: 3 });
+
+    store.put(createSerializedSession({ key: 'a' }));
+    store.put(createSerializedSession({ key: 'b' }));
+    expect(fs.existsSync(path.join(dataDir, 'sessions.journal'))).toBe(true);
+
+    store.put(createSerializedSession({ key: 'c' }));
+
+    expect(fs.existsSync(path.join(dataDir, 'sessions.journal'))).toBe(false);
+    expect(new FileSessionStore(dataDir).loadAll().map((s) => s.key).sort()).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe.skipIf(!hasNodeSqlite)('SqliteSessionStore', () => {
+  let dataDir: string;
+  let store: SqliteSessionStore;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-test-'));
+    store = new SqliteSessionStore(path.join(dataDir, 'sessions.db'));
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should upsert and delete individual sessions', () => {
+    store.put(createSerializedSession({ key: 'a' }));
+    store.put(createSerializedSession({ key: 'a', title: 'Updated' }));
+    store.put(createSerializedSession({ key: 'b' }));
+    store.delete('b');
+
+    const loaded = store.loadAll();
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0].title).toBe('Updated');
+  });
+
+  it('should upsert on saveAll and only drop sessions it deleted', () => {
+    store.put(createSerializedSession({ key: 'a' }));
+    store.put(createSerializedSession({ key: 'gone' }));
+    store.delete('gone');
+
+    // Another instance sharing the database wrote a session this one never saw
+    const active = new SqliteSessionStore(path.join(dataDir, 'sessions.db'));
+    try {
+      active.put(createSerializedSession({ key: 'active' }));
+    } finally {
+      active.close();
+    }
+
+    store.saveAll([createSerializedSession({ key: 'a', title: 'Updated' }), createSerializedSession({ key: 'b' })]);
+
+    const loaded = store.loadAll();
+    expect(loaded.map((s) => s.key).sort()).toEqual(['a', 'active', 'b']);
+    expect(loaded.find((s) => s.key === 'a')?.title).toBe('Updated');
+  });
+
+  it('should be readable from a second connection', () => {
+    store.put(createSerializedSession({ key: 'a' }));
+
+    const standby = new SqliteSessionStore(path.join(dataDir, 'sessions.db'));
+    try {
+      expect(standby.loadAll().map((s) => s.key)).toEqual(['a']);
+    } finally {
+      standby.close();
+    }
+  });
+});
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../logger';
+import { SerializedSession, SessionStore } from './types';
+
+// Compact the journal into the snapshot after this many entries
+const DEFAULT_COMPACT_THRESHOLD = 200;
+
+/**
+ * Journal entry appended for every per-session change
+ */
+type JournalEntry =
+  | { op: 'put'; key: string; session: SerializedSession }
+  | { op: 'delete'; key: string };
+
+export interface FileSessionStoreOptions {
+  compactThreshold?: number;
+}
+
+/**
+ * File-based session store
+ * - Full snapshots are written to a temp file and renamed into place (atomic)
+ * - Per-session changes are appended to a journal and replayed on load
+ * - The journal is folded into the snapshot once it grows past a threshold
+ */
+export class FileSessionStore implements SessionStore {
+  readonly backend = 'file' as const;
+
+  private logger = new Logger('FileSessionStore');
+  private snapshotFile: string;
+  private journalFile: string;
+  private compactThreshold: number;
+  private journalEntries = 0;
+
+  constructor(private dataDir: string, options: FileSessionStoreOptions = {}) {
+    this.snapshotFile = path.join(dataDir, 'sessions.json');
+    this.journalFile = path.join(dataDir, 'sessions.journal');
+    this.compactThreshold = options.compactThreshold ?? DEFAULT_COMPACT_THRESHOLD;
+  }
+
+  loadAll(): SerializedSession[] {
+    const sessions = new Map<string, SerializedSession>();
+
+    if (fs.existsSync(this.snapshotFile)) {
+      const data = fs.readFileSync(this.snapshotFile, 'utf-8');
+      const snapshot: SerializedSession[] = JSON.parse(data);
+      for (const session of snapshot) {
+        sessions.set(session.key, session);
+      }
+    }
+
+    this.journalEntries = 0;
+    for (const entry of this.readJournal()) {
+      if (entry.op === 'put') {
+        sessions.set(entry.key, entry.session);
+      } else {
+        sessions.delete(entry.key);
+      }
+      this.journalEntries++;
+    }
+
+    return Array.from(sessions.values());
+  }
+
+  saveAll(sessions: SerializedSession[]): void {
+    this.ensureDataDir();
+    this.writeAtomic(this.snapshotFile, JSON.stringify(sessions, null, 2));
+
+    // Snapshot now contains everything the journal recorded
+    if (fs.existsSync(this.journalFile)) {
+      fs.unlinkSync(this.journalFile);
+    }
+    this.journalEntries = 0;
+  }
+
+  put(session: SerializedSession): void {
+    this.appendJournal({ op: 'put', key: session.key, session });
+  }
+
+  delete(key: string): void {
+    this.appendJournal({ op: 'delete', key });
+  }
+
+  close(): void {
+    // Nothing to release - every write is flushed synchronously
+  }
+
+  /**
+   * Read journal entries, skipping a torn trailing line from a crash mid-append
+   */
+  private readJournal(): JournalEntry[] {
+    if (!fs.existsSync(this.journalFile)) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    const lines = fs.readFileSync(this.journalFile, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch {
+        this.logger.warn('Skipping corrupt session journal entry', {
+          preview: line.substring(0, 100),
+        });
+      }
+    }
+    return entries;
+  }
+
+  private appendJournal(entry: JournalEntry): void {
+    this.ensureDataDir();
+
+    const fd = fs.openSync(this.journalFile, 'a');
+    try {
+      fs.writeSync(fd, JSON.stringify(entry) + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    this.journalEntries++;
+    if (this.journalEntries >= this.compactThreshold) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Fold the journal into a fresh snapshot
+   */
+  private compact(): void {
+    const sessions = this.loadAll();
+    this.saveAll(sessions);
+    this.logger.debug('Compacted session journal', { sessionCount: sessions.length });
+  }
+
+  /**
+   * Write to a temp file, fsync, then rename over the target
+   */
+  private writeAtomic(filePath: string, content: string): void {
+    const tmpFile = `${filePath}.${process.pid}.tmp`;
+    const fd = fs.openSync(tmpFile, 'w');
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpFile, filePath);
+  }
+
+  private ensureDataDir(): void {
+    if (!fs.existsSync(this.dataDir)) {
+      fs.mkdirSync(this.dataDir, { recursive: true });
+    }
+  }
+}
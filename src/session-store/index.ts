@@ -0,0 +1,39 @@
+/**
+ * Session persistence backends
+ */
+
+import * as path from 'path';
+import { config } from '../config';
+import { Logger } from '../logger';
+import { FileSessionStore } from './file-store';
+import { SqliteSessionStore } from './sqlite-store';
+import { SessionStore } from './types';
+
+export { SerializedSession, SessionStore, SessionStoreBackend } from './types';
+export { FileSessionStore, FileSessionStoreOptions } from './file-store';
+export { SqliteSessionStore } from './sqlite-store';
+export { SESSION_SCHEMA_VERSION, migrateSerializedSession, needsMigration } from './migrations';
+
+const logger = new Logger('SessionStore');
+
+// Default data directory (shared with other persisted state)
+const DEFAULT_DATA_DIR = path.join(process.cwd(), 'data');
+
+/**
+ * Create the session store selected by configuration
+ * Falls back to the file store if the SQLite backend cannot be opened.
+ */
+export function createSessionStore(): SessionStore {
+  const { backend, path: storePath } = config.sessionStore;
+
+  if (backend === 'sqlite') {
+    const dbPath = storePath || path.join(DEFAULT_DATA_DIR, 'sessions.db');
+    try {
+      return new SqliteSessionStore(dbPath);
+    } catch (error) {
+      logger.error('Failed to open SQLite session store, falling back to file store', error);
+    }
+  }
+
+  return new FileSessionStore(backend === 'file' && storePath ? storePath : DEFAULT_DATA_DIR);
+}
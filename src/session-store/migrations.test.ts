@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileSessionStore } from './file-store';
+import { SESSION_SCHEMA_VERSION, migrateSerializedSession, needsMigration } from './migrations';
+import { SessionRegistry } from '../session-registry';
+
+const legacySession = {
+  key: 'C123-111.222',
+  userId: 'U123',
+  channelId: 'C123',
+  threadTs: '111.222',
+  sessionId: 'session-123',
+  isActive: true,
+  lastActivity: new Date().toISOString(),
+};
+
+describe('migrateSerializedSession', () => {
+  it('should upgrade unversioned records with legacy defaults', () => {
+    const migrated = migrateSerializedSession(legacySession);
+
+    expect(migrated).toMatchObject({
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      ownerId: 'U123',
+      state: 'MAIN',
+      workflow: 'default',
+      renewState: null,
+    });
+    expect(needsMigration(legacySession)).toBe(true);
+    expect(needsMigration(migrated)).toBe(false);
+  });
+
+  it('should keep records already on the current schema unchanged', () => {
+    const current = { ...legacySession, schemaVersion: SESSION_SCHEMA_VERSION, ownerId: 'U999', state: 'INITIALIZING' };
+    expect(migrateSerializedSession(current)).toEqual(current);
+  });
+
+  it('should reject records from a newer schema or without a key', () => {
+    expect(migrateSerializedSession({ ...legacySession, schemaVersion: SESSION_SCHEMA_VERSION + 1 })).toBeNull();
+    expect(migrateSerializedSession({ userId: 'U123' })).toBeNull();
+    expect(migrateSerializedSession(null)).toBeNull();
+  });
+});
+
+describe('SessionRegistry persistence', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-migration-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should restore usage, renew and initiator state after a restart', () => {
+    const registry = new SessionRegistry(new FileSessionStore(dataDir));
+    const session = registry.createSession('U123', 'Owner', 'C123', '111.222', 'claude-sonnet');
+    session.sessionId = 'session-123';
+    session.usage = {
+      currentInputTokens: 100,
+      currentOutputTokens: 50,
+      currentCacheReadTokens: 10,
+      currentCacheCreateTokens: 5,
+      contextWindow: 200000,
+      totalInputTokens: 1000,
+      totalOutputTokens: 500,
+      totalCostUsd: 0.42,
+      lastUpdated: 1700000000000,
+    };
+    session.renewState = 'pending_save';
+    session.savedWorkflow = 'jira-create-pr';
+    session.lastWarningSentAt = 600000;
+    session.warningMessageTs = '333.444';
+    registry.transitionToMain('C123', '111.222', 'jira-create-pr', undefined, undefined, { issueKey: 'ABC-789' });
+    registry.updateInitiator('C123', '111.222', 'U456', 'Helper');
+
+    const restarted = new SessionRegistry(new FileSessionStore(dataDir));
+    expect(restarted.loadSessions()).toBe(1);
+
+    const restored = restarted.getSession('C123', '111.222')!;
+    expect(restored.usage).toEqual(session.usage);
+    expect(restored.renewState).toBe('pending_save');
+    expect(restored.savedWorkflow).toBe('jira-create-pr');
+    expect(restored.links).toEqual({ issueKey: 'ABC-789' });
+    expect(restored.currentInitiatorId).toBe('U456');
+    expect(restored.currentInitiatorName).toBe('Helper');
+    expect(restored.warningMessageTs).toBe('333.444');
+    expect(restored.lastWarningSentAt).toBe(600000);
+    expect(restored.lastActivity).toBeInstanceOf(Date);
+  });
+
+  it('should keep the newest checkpoints across a restart', () => {
+    const registry = new SessionRegistry(new FileSessionStore(dataDir));
+    registry.createSession('U123', 'Owner', 'C123', '111.222', 'claude-sonnet').sessionId = 'session-123';
+    for (let i = 1; i <= 4; i++) {
+      registry.addCheckpoint('C123', '111.222', { tree: `tree-${i}`, workingDirectory: '/repo', createdAt: i }, 3);
+    }
+    registry.truncateCheckpoints('C123', '111.222', 2);
+
+    const restarted = new SessionRegistry(new FileSessionStore(dataDir));
+    restarted.loadSessions();
+
+    expect(restarted.getSession('C123', '111.222')!.checkpoints!.map((c) => c.tree)).toEqual(['tree-2', 'tree-3']);
+  });
+
+  it('should upgrade a legacy sessions.json in place on load', () => {
+    fs.writeFileSync(path.join(dataDir, 'sessions.json'), JSON.stringify([legacySession]));
+
+    const registry = new SessionRegistry(new FileSessionStore(dataDir));
+    expect(registry.loadSessions()).toBe(1);
+    expect(registry.getSession('C123', '111.222')).toMatchObject({
+      ownerId: 'U123',
+      state: 'MAIN',
+      workflow: 'default',
+    });
+
+    const rewritten = JSON.parse(fs.readFileSync(path.join(dataDir, 'sessions.json'), 'utf-8'));
+    expect(rewritten[0].schemaVersion).toBe(SESSION_SCHEMA_VERSION);
+  });
+});
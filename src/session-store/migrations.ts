@@ -0,0 +1,57 @@
+import { SerializedSession } from './types';
+
+/**
+ * Current schema version for persisted sessions
+ *
+ * History:
+ * - v1: Unversioned records (ownerId/state/workflow may be missing)
+ * - v2: Adds usage, renew state, initiator and expiry warning fields
+ */
+export const SESSION_SCHEMA_VERSION = 2;
+
+type Migration = (session: any) => any;
+
+/**
+ * Migrations keyed by the version they upgrade FROM
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: (session) => ({
+    ...session,
+    ownerId: session.ownerId || session.userId, // Fallback for legacy sessions
+    state: session.state || 'MAIN', // Legacy sessions were already past dispatch
+    workflow: session.workflow || 'default',
+    renewState: session.renewState ?? null,
+    schemaVersion: 2,
+  }),
+};
+
+/**
+ * Upgrade a persisted session record to the current schema version
+ * @returns The migrated record, or null if it cannot be used (missing key or newer schema)
+ */
+export function migrateSerializedSession(raw: any): SerializedSession | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.key !== 'string') {
+    return null;
+  }
+
+  let session = raw;
+  let version: number = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1;
+
+  if (version > SESSION_SCHEMA_VERSION) {
+    return null;
+  }
+
+  while (version < SESSION_SCHEMA_VERSION) {
+    session = MIGRATIONS[version](session);
+    version++;
+  }
+
+  return session as SerializedSession;
+}
+
+/**
+ * Check whether a persisted record needs to be rewritten
+ */
+export function needsMigration(raw: any): boolean {
+  return raw?.schemaVersion !== SESSION_SCHEMA_VERSION;
+}
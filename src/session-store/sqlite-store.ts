@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DatabaseSync } from 'node:sqlite';
+import { Logger } from '../logger';
+import { SerializedSession, SessionStore } from './types';
+
+/**
+ * Load the built-in SQLite module (Node.js 22.5+)
+ * Loaded lazily so the file backend keeps working on older runtimes.
+ */
+function loadSqlite(): typeof import('node:sqlite') {
+  try {
+    return require('node:sqlite');
+  } catch (error) {
+    throw new Error(
+      `SQLite session store requires Node.js 22.5+ with node:sqlite (running ${process.version}): ${(error as Error).message}`
+    );
+  }
+}
+
+const UPSERT_SQL = `INSERT INTO sessions (key, data, updated_at) VALUES (?, ?, ?)
+  ON CONFLICT(key) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`;
+
+/**
+ * SQLite-based session store
+ * Uses WAL mode so a warm standby replica can read the same database
+ * while the active instance writes to it.
+ */
+export class SqliteSessionStore implements SessionStore {
+  readonly backend = 'sqlite' as const;
+
+  private logger = new Logger('SqliteSessionStore');
+  private db: DatabaseSync;
+  // Keys this process removed since the last saveAll
+  private removedKeys = new Set<string>();
+
+  constructor(dbPath: string) {
+    const dir = path.dirname(dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const { DatabaseSync } = loadSqlite();
+    this.db = new DatabaseSync(dbPath);
+    this.db.exec(`
+      PRAGMA journal_mode = WAL;
+      PRAGMA busy_timeout = 5000;
+      CREATE TABLE IF NOT EXISTS sessions (
+        key TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+    this.logger.debug('Opened SQLite session store', { dbPath });
+  }
+
+  loadAll(): SerializedSession[] {
+    const rows = this.db.prepare('SELECT data FROM sessions').all() as Array<{ data: string }>;
+    const sessions: SerializedSession[] = [];
+    for (const row of rows) {
+      try {
+        sessions.push(JSON.parse(row.data));
+      } catch {
+        this.logger.warn('Skipping corrupt session row', { preview: row.data.substring(0, 100) });
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Upsert this process's sessions
+   * The database may be shared with another instance, so rows this process did not
+   * remove are kept even when they are missing from the snapshot.
+   */
+  saveAll(sessions: SerializedSession[]): void {
+    this.transaction(() => {
+      const upsert = this.db.prepare(UPSERT_SQL);
+      const now = Date.now();
+      const keys = new Set<string>();
+      for (const session of sessions) {
+        upsert.run(session.key, JSON.stringify(session), now);
+        keys.add(session.key);
+      }
+
+      const remove = this.db.prepare('DELETE FROM sessions WHERE key = ?');
+      for (const key of this.removedKeys) {
+        if (!keys.has(key)) {
+          remove.run(key);
+        }
+      }
+    });
+    this.removedKeys.clear();
+  }
+
+  put(session: SerializedSession): void {
+    this.removedKeys.delete(session.key);
+    this.db.prepare(UPSERT_SQL).run(session.key, JSON.stringify(session), Date.now());
+  }
+
+  delete(key: string): void {
+    // Remembered so the next saveAll retries it if this write fails
+    this.removedKeys.add(key);
+    this.db.prepare('DELETE FROM sessions WHERE key = ?').run(key);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      fn();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { DispatchInfo, RenewState, SessionLinks, SessionState, SessionUsage, TurnCheckpoint, WorkflowType } from '../types';
+
+/**
+ * Serialized session for persistence
+ * Every ConversationSession field round-trips; Dates are stored as ISO strings.
+ */
+export interface SerializedSession {
+  schemaVersion?: number; // Missing on files written before versioning (v1)
+  key: string;
+  ownerId: string;
+  ownerName?: string;
+  currentInitiatorId?: string;
+  currentInitiatorName?: string;
+  userId: string; // Legacy field
+  channelId: string;
+  threadTs?: string;
+  sessionId?: string;
+  isActive: boolean;
+  lastActivity: string; // ISO date string
+  workingDirectory?: string;
+  title?: string;
+  model?: string;
+  explicitModel?: boolean;
+  // Session expiry warning tracking
+  warningMessageTs?: string;
+  lastWarningSentAt?: number;
+  // Session state machine fields
+  state?: SessionState;
+  workflow?: WorkflowType;
+  dispatch?: DispatchInfo;
+  links?: SessionLinks;
+  checkpoints?: TurnCheckpoint[];
+  // Token usage tracking
+  usage?: SessionUsage;
+  // Renew command state
+  renewState?: RenewState;
+  savedWorkflow?: WorkflowType;
+}
+
+/**
+ * Available session store backends
+ */
+export type SessionStoreBackend = 'file' | 'sqlite';
+
+/**
+ * Storage backend for SessionRegistry persistence
+ *
+ * All operations are synchronous so sessions can still be flushed
+ * from signal handlers during shutdown.
+ */
+export interface SessionStore {
+  readonly backend: SessionStoreBackend;
+
+  /**
+   * Load every persisted session
+   */
+  loadAll(): SerializedSession[];
+
+  /**
+   * Persist a full snapshot of this process's sessions
+   * The file store replaces its contents; the SQLite store, which may be shared
+   * with a standby, upserts and only drops sessions this process deleted.
+   */
+  saveAll(sessions: SerializedSession[]): void;
+
+  /**
+   * Insert or update a single session
+   */
+  put(session: SerializedSession): void;
+
+  /**
+   * Remove a single session
+   */
+  delete(key: string): void;
+
+  /**
+   * Release any underlying resources
+   */
+  close(): void;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSharedStore } from './shared-store';
+
+describe('FileSharedStore session approvals', () => {
+  let tmpDir: string;
+  let store: FileSharedStore;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shared-store-test-'));
+    store = new FileSharedStore(tmpDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should keep approvals per channel and thread without duplicates', async () => {
+    await store.storeSessionApproval('C1', '111.1', { rule: 'Bash(git status*)', granted_at: Date.now() });
+    await store.storeSessionApproval('C1', '111.1', { rule: 'Bash(git status*)', granted_at: Date.now() });
+    await store.storeSessionApproval('C1', '111.1', { rule: 'Read', granted_at: Date.now() });
+
+    expect((await store.getSessionApprovals('C1', '111.1')).map((a) => a.rule)).toEqual([
+      'Bash(git status*)',
+      'Read',
+    ]);
+    expect(await store.getSessionApprovals('C1', '222.2')).toEqual([]);
+  });
+
+  it('should forget one rule or all of them', async () => {
+    await store.storeSessionApproval('C1', undefined, { rule: 'Read', granted_at: Date.now() });
+    await store.storeSessionApproval('C1', undefined, { rule: 'Edit', granted_at: Date.now() });
+
+    expect(await store.removeSessionApprovals('C1', undefined, 'Read')).toBe(1);
+    expect((await store.getSessionApprovals('C1')).map((a) => a.rule)).toEqual(['Edit']);
+    expect(await store.removeSessionApprovals('C1', undefined)).toBe(1);
+    expect(await store.getSessionApprovals('C1')).toEqual([]);
+  });
+
+  it('should drop approvals older than a day', async () => {
+    await store.storeSessionApproval('C1', '111.1', {
+      rule: 'Read',
+      granted_at: Date.now() - 25 * 60 * 60 * 1000,
+    });
+
+    expect(await store.getSessionApprovals('C1', '111.1')).toEqual([]);
+  });
+});
@@ -2,6 +2,8 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { StderrLogger } from './stderr-logger.js';
+import { PermissionBrokerClient, BrokerUnavailableError } from './permission-broker-client.js';
+import type { PermissionBroker } from './permission-broker.js';
 
 const logger = new StderrLogger('SharedStore');
 
@@ -9,6 +11,10 @@ export interface PermissionResponse {
   behavior: 'allow' | 'deny';
   updatedInput?: any;
   message?: string;
+  /** Slack user who answered the prompt */
+  approver?: string;
+  /** Set when nobody answered before the timeout */
+  timedOut?: boolean;
 }
 
 export interface PendingApproval {
@@ -17,25 +23,73 @@ export interface PendingApproval {
   channel?: string;
   thread_ts?: string;
   user?: string;
+  escalated_to?: string[]; // Users pinged on escalation; they may answer from then on
   created_at: number;
   expires_at: number;
 }
 
 /**
- * File-based shared store for inter-process communication
- * between the permission MCP server and Slack handler
+ * A rule the user approved for the rest of a session ("Allow for this session")
  */
-export class SharedStore {
+export interface SessionApproval {
+  rule: string;
+  granted_by?: string;
+  granted_at: number;
+}
+
+// Session approvals outlive the session they belong to; drop them after a day
+const SESSION_APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a session approval is still in effect
+ */
+export function isSessionApprovalActive(approval: SessionApproval): boolean {
+  return Date.now() - approval.granted_at < SESSION_APPROVAL_TTL_MS;
+}
+
+/**
+ * Key for a session's approvals (same shape as SessionRegistry keys)
+ */
+export function getSessionApprovalKey(channel: string, threadTs?: string): string {
+  return `${channel}-${threadTs || 'direct'}`;
+}
+
+/**
+ * Storage shared by the permission MCP server and the Slack process
+ * Implemented by the file store, the in-process broker and the broker client.
+ */
+export interface PermissionStore {
+  storePendingApproval(approvalId: string, approval: PendingApproval): Promise<void>;
+  getPendingApproval(approvalId: string): Promise<PendingApproval | null>;
+  deletePendingApproval(approvalId: string): Promise<void>;
+  storePermissionResponse(approvalId: string, response: PermissionResponse): Promise<void>;
+  waitForPermissionResponse(approvalId: string, timeoutMs?: number): Promise<PermissionResponse>;
+  cleanup(approvalId: string): Promise<void>;
+  cleanupExpired(): Promise<number>;
+  getPendingCount(): Promise<number>;
+  listPendingApprovalIds(): Promise<string[]>;
+  storeSessionApproval(channel: string, threadTs: string | undefined, approval: SessionApproval): Promise<void>;
+  getSessionApprovals(channel: string, threadTs?: string): Promise<SessionApproval[]>;
+  removeSessionApprovals(channel: string, threadTs: string | undefined, rule?: string): Promise<number>;
+}
+
+/**
+ * File-based store polling JSON files in the OS temp directory
+ * Fallback for when the permission broker is not running or not reachable.
+ */
+export class FileSharedStore implements PermissionStore {
   private storeDir: string;
   private pendingDir: string;
   private responseDir: string;
+  private sessionApprovalDir: string;
 
-  constructor() {
+  constructor(storeDir?: string) {
     // Use OS temp directory for cross-process communication
-    this.storeDir = path.join(os.tmpdir(), 'claude-code-slack-bot-store');
+    this.storeDir = storeDir || path.join(os.tmpdir(), 'claude-code-slack-bot-store');
     this.pendingDir = path.join(this.storeDir, 'pending');
     this.responseDir = path.join(this.storeDir, 'responses');
-    
+    this.sessionApprovalDir = path.join(this.storeDir, 'session-approvals');
+
     this.ensureDirectories();
   }
 
@@ -50,6 +104,9 @@ export class SharedStore {
       if (!fs.existsSync(this.responseDir)) {
         fs.mkdirSync(this.responseDir, { recursive: true });
       }
+      if (!fs.existsSync(this.sessionApprovalDir)) {
+        fs.mkdirSync(this.sessionApprovalDir, { recursive: true });
+      }
     } catch (error) {
       logger.error('Failed to create store directories:', error);
       throw error;
@@ -126,7 +183,8 @@ export class SharedStore {
             await this.cleanup(approvalId);
             resolve({
               behavior: 'deny',
-              message: 'Permission request timed out'
+              message: 'Permission request timed out',
+              timedOut: true,
             });
             return;
           }
@@ -196,6 +254,71 @@ export class SharedStore {
     }
   }
 
+  /**
+   * Remember a rule approved for the rest of a session
+   */
+  async storeSessionApproval(channel: string, threadTs: string | undefined, approval: SessionApproval): Promise<void> {
+    const approvals = (await this.getSessionApprovals(channel, threadTs)).filter((a) => a.rule !== approval.rule);
+    approvals.push(approval);
+    await this.writeSessionApprovals(channel, threadTs, approvals);
+    logger.debug('Stored session approval', { channel, threadTs, rule: approval.rule });
+  }
+
+  /**
+   * Rules approved for a session (expired ones are dropped)
+   */
+  async getSessionApprovals(channel: string, threadTs?: string): Promise<SessionApproval[]> {
+    const filePath = this.getSessionApprovalPath(channel, threadTs);
+    try {
+      if (!fs.existsSync(filePath)) {
+        return [];
+      }
+
+      const data = await fs.promises.readFile(filePath, 'utf8');
+      const approvals = JSON.parse(data) as SessionApproval[];
+      return approvals.filter(isSessionApprovalActive);
+    } catch (error) {
+      logger.error('Failed to get session approvals:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Forget one session rule, or all of them when no rule is given
+   * Returns the number of rules removed.
+   */
+  async removeSessionApprovals(channel: string, threadTs: string | undefined, rule?: string): Promise<number> {
+    const approvals = await this.getSessionApprovals(channel, threadTs);
+    const remaining = rule === undefined ? [] : approvals.filter((a) => a.rule !== rule);
+    await this.writeSessionApprovals(channel, threadTs, remaining);
+    return approvals.length - remaining.length;
+  }
+
+  private async writeSessionApprovals(
+    channel: string,
+    threadTs: string | undefined,
+    approvals: SessionApproval[]
+  ): Promise<void> {
+    const filePath = this.getSessionApprovalPath(channel, threadTs);
+    try {
+      if (approvals.length === 0) {
+        if (fs.existsSync(filePath)) {
+          await fs.promises.unlink(filePath);
+        }
+        return;
+      }
+      await fs.promises.writeFile(filePath, JSON.stringify(approvals, null, 2));
+    } catch (error) {
+      logger.error('Failed to write session approvals:', error);
+      throw error;
+    }
+  }
+
+  private getSessionApprovalPath(channel: string, threadTs?: string): string {
+    const sessionKey = getSessionApprovalKey(channel, threadTs);
+    return path.join(this.sessionApprovalDir, `${sessionKey.replace(/[^\w.-]/g, '_')}.json`);
+  }
+
   /**
    * Clean up expired approvals
    */
@@ -251,5 +374,118 @@ export class SharedStore {
   }
 }
 
+/**
+ * Shared store used by both processes
+ * - Slack process: the in-process PermissionBroker once it is listening (see useBroker)
+ * - Permission MCP server: a client of that broker (PERMISSION_BROKER_SOCKET)
+ * - Either side falls back to FileSharedStore when no broker is available
+ */
+export class SharedStore implements PermissionStore {
+  private fileStore: FileSharedStore;
+  private backend: PermissionStore;
+  private broker?: PermissionBroker;
+
+  constructor(storeDir?: string, brokerSocketPath: string | undefined = process.env.PERMISSION_BROKER_SOCKET) {
+    this.fileStore = new FileSharedStore(storeDir);
+    this.backend = brokerSocketPath ? new PermissionBrokerClient(brokerSocketPath) : this.fileStore;
+  }
+
+  /**
+   * Serve requests from a listening broker (Slack process only)
+   */
+  useBroker(broker: PermissionBroker): void {
+    this.broker = broker;
+    this.backend = broker;
+    logger.info('Using permission broker', { socketPath: broker.getSocketPath() });
+  }
+
+  /**
+   * Stop using the broker, e.g. on shutdown
+   */
+  detachBroker(): void {
+    this.broker = undefined;
+    this.backend = this.fileStore;
+  }
+
+  /**
+   * Socket path the permission MCP server should connect to; undefined means file store
+   */
+  getBrokerSocketPath(): string | undefined {
+    return this.broker?.isListening() ? this.broker.getSocketPath() : undefined;
+  }
+
+  async storePendingApproval(approvalId: string, approval: PendingApproval): Promise<void> {
+    return this.call((store) => store.storePendingApproval(approvalId, approval));
+  }
+
+  async getPendingApproval(approvalId: string): Promise<PendingApproval | null> {
+    // A server that could not reach the broker stored its request in files
+    if (this.broker && !this.broker.hasPendingApproval(approvalId)) {
+      return this.fileStore.getPendingApproval(approvalId);
+    }
+    return this.call((store) => store.getPendingApproval(approvalId));
+  }
+
+  async deletePendingApproval(approvalId: string): Promise<void> {
+    return this.call((store) => store.deletePendingApproval(approvalId));
+  }
+
+  async storePermissionResponse(approvalId: string, response: PermissionResponse): Promise<void> {
+    // A server that could not reach the broker waits on files; answer it there
+    if (this.broker && !this.broker.hasPendingApproval(approvalId)) {
+      return this.fileStore.storePermissionResponse(approvalId, response);
+    }
+    return this.call((store) => store.storePermissionResponse(approvalId, response));
+  }
+
+  async waitForPermissionResponse(approvalId: string, timeoutMs?: number): Promise<PermissionResponse> {
+    return this.call((store) => store.waitForPermissionResponse(approvalId, timeoutMs));
+  }
+
+  async cleanup(approvalId: string): Promise<void> {
+    return this.call((store) => store.cleanup(approvalId));
+  }
+
+  async cleanupExpired(): Promise<number> {
+    return this.call((store) => store.cleanupExpired());
+  }
+
+  async getPendingCount(): Promise<number> {
+    return this.call((store) => store.getPendingCount());
+  }
+
+  async listPendingApprovalIds(): Promise<string[]> {
+    return this.call((store) => store.listPendingApprovalIds());
+  }
+
+  async storeSessionApproval(channel: string, threadTs: string | undefined, approval: SessionApproval): Promise<void> {
+    return this.call((store) => store.storeSessionApproval(channel, threadTs, approval));
+  }
+
+  async getSessionApprovals(channel: string, threadTs?: string): Promise<SessionApproval[]> {
+    return this.call((store) => store.getSessionApprovals(channel, threadTs));
+  }
+
+  async removeSessionApprovals(channel: string, threadTs: string | undefined, rule?: string): Promise<number> {
+    return this.call((store) => store.removeSessionApprovals(channel, threadTs, rule));
+  }
+
+  /**
+   * Run an operation on the current backend, switching to the file store if the broker is unreachable
+   */
+  private async call<T>(operation: (store: PermissionStore) => Promise<T>): Promise<T> {
+    try {
+      return await operation(this.backend);
+    } catch (error) {
+      if (!(error instanceof BrokerUnavailableError) || this.backend === this.fileStore) {
+        throw error;
+      }
+      logger.warn('Permission broker unavailable, falling back to file store', { error: error.message });
+      this.backend = this.fileStore;
+      return operation(this.fileStore);
+    }
+  }
+}
+
 // Singleton instance
 export const sharedStore = new SharedStore();
\ No newline at end of file
@@ -19,6 +19,7 @@ import {
   ToolTracker,
   CommandRouter,
   CommandDependencies,
+  SlashCommandAdapter,
   StreamProcessor,
   ToolEventProcessor,
   MessageValidator,
@@ -30,7 +31,29 @@ import {
   SessionInitializer,
   StreamExecutor,
   MessageEvent,
+  SayFn,
 } from './slack/pipeline';
+import { MessageQueue, QueuedMessage, EnqueueOptions, MAX_QUEUE_SIZE } from './slack/message-queue';
+import { ProcessedFile } from './file-handler';
+import { ScheduledJob } from './scheduler';
+import { WebhookThreadRequest } from './ingress';
+import { extractSessionLinks } from './dispatch-rules';
+import { MessageFormatter } from './slack/message-formatter';
+import { TurnRollback } from './slack/turn-rollback';
+import { WorkflowType } from './types';
+
+/**
+ * A thread started by the bot on behalf of a user (scheduled prompts, webhooks)
+ */
+export interface ThreadStartRequest {
+  channelId: string;
+  ownerId: string; // The prompt runs as this user (working directory, permissions, budget)
+  ownerName?: string;
+  header: string; // Root message text; the prompt is quoted below it
+  prompt: string;
+  workflow?: WorkflowType; // Skip dispatch
+  workingDirectory?: string; // Set as the thread's working directory
+}
 
 export class SlackHandler {
   private app: App;
@@ -51,10 +74,12 @@ export class SlackHandler {
 
   // Concurrency and tracking
   private requestCoordinator: RequestCoordinator;
+  private messageQueue: MessageQueue;
   private toolTracker: ToolTracker;
 
   // Command routing
   private commandRouter: CommandRouter;
+  private slashCommandAdapter: SlashCommandAdapter;
 
   // Stream and tool processing
   private toolEventProcessor: ToolEventProcessor;
@@ -80,11 +105,18 @@ export class SlackHandler {
     // Initialize modular helpers
     this.slackApi = new SlackApiHelper(app);
     this.requestCoordinator = new RequestCoordinator();
+    this.messageQueue = new MessageQueue(this.slackApi);
     this.toolTracker = new ToolTracker();
     this.reactionManager = new ReactionManager(this.slackApi);
     this.mcpStatusDisplay = new McpStatusDisplay(this.slackApi, mcpCallTracker);
     this.sessionUiManager = new SessionUiManager(claudeHandler, this.slackApi);
 
+    // Release a session's git checkpoints once it is terminated or expires
+    const turnRollback = new TurnRollback({ claudeHandler, requestCoordinator: this.requestCoordinator });
+    claudeHandler.setRemovalCallback((sessionKey, session) => {
+      void turnRollback.discardCheckpoints(sessionKey, session);
+    });
+
     // Command routing
     const commandDeps: CommandDependencies = {
       workingDirManager: this.workingDirManager,
@@ -92,8 +124,11 @@ export class SlackHandler {
       claudeHandler: this.claudeHandler,
       sessionUiManager: this.sessionUiManager,
       requestCoordinator: this.requestCoordinator,
+      slackApi: this.slackApi,
+      messageQueue: this.messageQueue,
     };
     this.commandRouter = new CommandRouter(commandDeps);
+    this.slashCommandAdapter = new SlashCommandAdapter(this.commandRouter);
 
     // Message validation, status reporting, and todo display
     this.messageValidator = new MessageValidator(this.workingDirManager, this.claudeHandler);
@@ -115,6 +150,7 @@ export class SlackHandler {
       claudeHandler: this.claudeHandler,
       sessionManager: this.sessionUiManager,
       messageHandler: this.handleMessage.bind(this),
+      requestCoordinator: this.requestCoordinator,
     };
     this.actionHandlers = new ActionHandlers(actionContext);
 
@@ -142,6 +178,7 @@ export class SlackHandler {
       todoDisplayManager: this.todoDisplayManager,
       actionHandlers: this.actionHandlers,
       requestCoordinator: this.requestCoordinator,
+      slackApi: this.slackApi,
       handleMessage: this.handleMessage.bind(this),
     });
 
@@ -158,7 +195,7 @@ export class SlackHandler {
   /**
    * Main message handler - orchestrates the pipeline
    */
-  async handleMessage(event: MessageEvent, say: any): Promise<void> {
+  async handleMessage(event: MessageEvent, say: any, options: EnqueueOptions = {}): Promise<void> {
     const { channel, thread_ts, ts } = event;
     const threadTs = thread_ts || ts;
 
@@ -197,30 +234,213 @@ export class SlackHandler {
     const cwdResult = await this.sessionInitializer.validateWorkingDirectory(event, wrappedSay);
     if (!cwdResult.valid) return;
 
-    // Step 4: Initialize session
-    const sessionResult = await this.sessionInitializer.initialize(event, cwdResult.workingDirectory!);
-
-    // Step 5: Execute stream
-    await this.streamExecutor.execute({
-      session: sessionResult.session,
-      sessionKey: sessionResult.sessionKey,
-      userName: sessionResult.userName,
-      workingDirectory: sessionResult.workingDirectory,
-      abortController: sessionResult.abortController,
-      processedFiles,
-      text: effectiveText,
-      channel,
-      threadTs,
+    // Step 4: Queue behind the running request for this session, if any
+    const sessionKey = this.claudeHandler.getSessionKey(channel, threadTs);
+    if (!this.requestCoordinator.tryStartRequest(sessionKey)) {
+      await this.enqueueMessage(sessionKey, event, wrappedSay, effectiveText, processedFiles, options);
+      return;
+    }
+
+    await this.runRequest(sessionKey, event, wrappedSay, effectiveText, processedFiles, cwdResult.workingDirectory!);
+  }
+
+  /**
+   * Initialize the session and execute the stream
+   * The caller must hold the session reservation; it is released here and the
+   * next queued message (if any) is started.
+   */
+  private async runRequest(
+    sessionKey: string,
+    event: MessageEvent,
+    say: SayFn,
+    text: string | undefined,
+    processedFiles: ProcessedFile[],
+    workingDirectory: string
+  ): Promise<void> {
+    const { channel, thread_ts, ts } = event;
+    const threadTs = thread_ts || ts;
+
+    try {
+      // Step 5: Initialize session
+      const sessionResult = await this.sessionInitializer.initialize(event, workingDirectory);
+
+      // Step 6: Execute stream
+      await this.streamExecutor.execute({
+        session: sessionResult.session,
+        sessionKey: sessionResult.sessionKey,
+        userName: sessionResult.userName,
+        workingDirectory: sessionResult.workingDirectory,
+        abortController: sessionResult.abortController,
+        processedFiles,
+        text,
+        channel,
+        threadTs,
+        user: event.user,
+        say,
+      });
+    } finally {
+      this.requestCoordinator.finishRequest(sessionKey);
+      this.startNextQueued(sessionKey);
+    }
+  }
+
+  /**
+   * Queue a message while another request for the session is running
+   */
+  private async enqueueMessage(
+    sessionKey: string,
+    event: MessageEvent,
+    say: SayFn,
+    text: string | undefined,
+    processedFiles: ProcessedFile[],
+    options: EnqueueOptions
+  ): Promise<void> {
+    const threadTs = event.thread_ts || event.ts;
+    const queued = this.messageQueue.enqueue(sessionKey, { event, say, text, processedFiles }, options);
+
+    if (!queued) {
+      await say({
+        text: `⚠️ Queue is full (${MAX_QUEUE_SIZE} pending). Please wait or use \`queue drop <n>\` to make room.`,
+        thread_ts: threadTs,
+      });
+      return;
+    }
+
+    this.logger.info('Message queued behind running request', {
+      sessionKey,
       user: event.user,
-      say: wrappedSay,
+      position: queued.position,
+      priority: queued.item.priority,
     });
+    await this.messageQueue.syncReactions(sessionKey);
+  }
+
+  /**
+   * Start the next queued message for a session (fire-and-forget)
+   */
+  private startNextQueued(sessionKey: string): void {
+    const next = this.messageQueue.dequeue(sessionKey);
+    if (!next) return;
+
+    // Reserve synchronously so a message arriving meanwhile is queued behind it
+    this.requestCoordinator.tryStartRequest(sessionKey);
+    this.runQueued(sessionKey, next).catch((error) => {
+      this.logger.error('Failed to run queued message', { sessionKey, error });
+    });
+  }
+
+  private async runQueued(sessionKey: string, item: QueuedMessage): Promise<void> {
+    let started = false;
+    try {
+      await this.messageQueue.clearReaction(item);
+      await this.messageQueue.syncReactions(sessionKey);
+
+      // Working directory may have changed while the message was waiting
+      const cwdResult = await this.sessionInitializer.validateWorkingDirectory(item.event, item.say);
+      if (!cwdResult.valid) return;
+
+      started = true;
+      await this.runRequest(sessionKey, item.event, item.say, item.text, item.processedFiles, cwdResult.workingDirectory!);
+    } finally {
+      if (!started) {
+        this.requestCoordinator.finishRequest(sessionKey);
+        this.startNextQueued(sessionKey);
+      }
+    }
+  }
+
+  /**
+   * Run a scheduled prompt in a new thread as the job owner
+   * Resolves with the thread ts once the run has finished.
+   */
+  async runScheduledJob(job: ScheduledJob): Promise<string | undefined> {
+    const workflowText = job.workflow ? ` · \`${job.workflow}\`` : '';
+    const { threadTs, completion } = await this.startThread({
+      channelId: job.channelId,
+      ownerId: job.ownerId,
+      ownerName: job.ownerName,
+      header: `⏰ *Scheduled prompt* \`${job.id}\` (\`${job.cron}\`, ${job.timezone}) by <@${job.ownerId}>${workflowText}`,
+      prompt: job.prompt,
+      workflow: job.workflow,
+    });
+    await completion;
+    return threadTs;
+  }
+
+  /**
+   * Start a thread for an event matched by a webhook rule
+   * Resolves once the thread exists; the run continues in the background.
+   */
+  async startWebhookThread({ rule, event, prompt }: WebhookThreadRequest): Promise<{ threadTs: string }> {
+    const eventName = [event.event, event.payload?.action].filter((part) => typeof part === 'string').join('.');
+    const { threadTs, completion } = await this.startThread({
+      channelId: rule.channel,
+      ownerId: rule.user,
+      header: `🪝 *Webhook* \`${rule.name}\` (${event.source}${eventName ? ` ${eventName}` : ''}) for <@${rule.user}>`,
+      prompt,
+      workflow: rule.workflow,
+      workingDirectory: rule.workingDirectory,
+    });
+    completion.catch((error) => this.logger.error('Webhook thread failed', { rule: rule.name, threadTs, error }));
+    return { threadTs };
+  }
+
+  /**
+   * Start a new thread in a channel and run a prompt in it as if the owner had sent it
+   * Goes through the same pipeline as a user message. Resolves once the root message
+   * is posted; `completion` settles when the run has finished.
+   */
+  async startThread(request: ThreadStartRequest): Promise<{ threadTs: string; completion: Promise<void> }> {
+    const { channelId, ownerId, prompt } = request;
+    const root = await this.slackApi.postMessage(channelId, `${request.header}\n> ${prompt.replace(/\n/g, '\n> ')}`);
+    if (!root.ts) {
+      throw new Error(`Could not post to channel ${channelId}`);
+    }
+    const threadTs = root.ts;
+
+    const say: SayFn = async (args) =>
+      this.slackApi.postMessage(channelId, args.text, {
+        threadTs: args.thread_ts || threadTs,
+        blocks: args.blocks,
+        attachments: args.attachments,
+      });
+
+    if (request.workingDirectory) {
+      const result = this.workingDirManager.setWorkingDirectory(channelId, request.workingDirectory, threadTs);
+      if (!result.success) {
+        await say({ text: `❌ ${result.error}`, thread_ts: threadTs });
+        return { threadTs, completion: Promise.resolve() };
+      }
+    }
+
+    // A fixed workflow skips dispatch
+    if (request.workflow) {
+      const userName = request.ownerName || (await this.slackApi.getUserName(ownerId));
+      const links = extractSessionLinks(prompt);
+      this.claudeHandler.createSession(ownerId, userName, channelId, threadTs);
+      this.claudeHandler.transitionToMain(
+        channelId,
+        threadTs,
+        request.workflow,
+        MessageFormatter.generateSessionTitle(prompt),
+        undefined,
+        Object.keys(links).length > 0 ? links : undefined
+      );
+    }
+
+    const completion = this.handleMessage(
+      { user: ownerId, channel: channelId, ts: threadTs, thread_ts: threadTs, text: prompt },
+      say
+    );
+    return { threadTs, completion };
   }
 
   /**
-   * Setup all event handlers via EventRouter
+   * Setup all event handlers via EventRouter, plus slash commands
    */
   setupEventHandlers(): void {
     this.eventRouter.setup();
+    this.slashCommandAdapter.register(this.app);
   }
 
   /**
@@ -71,6 +71,7 @@ describe('ActionHandlers', () => {
       expect(mockApp.action).toHaveBeenCalledWith('approve_tool', expect.any(Function));
       expect(mockApp.action).toHaveBeenCalledWith('deny_tool', expect.any(Function));
       expect(mockApp.action).toHaveBeenCalledWith('terminate_session', expect.any(Function));
+      expect(mockApp.action).toHaveBeenCalledWith('change_workflow', expect.any(Function));
       expect(mockApp.action).toHaveBeenCalledWith(/^user_choice_/, expect.any(Function));
       expect(mockApp.action).toHaveBeenCalledWith(/^multi_choice_/, expect.any(Function));
       expect(mockApp.action).toHaveBeenCalledWith('custom_input_single', expect.any(Function));
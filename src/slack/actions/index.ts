@@ -3,6 +3,11 @@ import { PermissionActionHandler } from './permission-action-handler';
 import { SessionActionHandler } from './session-action-handler';
 import { ChoiceActionHandler } from './choice-action-handler';
 import { FormActionHandler } from './form-action-handler';
+import { WorkflowActionHandler } from './workflow-action-handler';
+import { TurnDiffActionHandler } from './turn-diff-action-handler';
+import { UPLOAD_TURN_DIFF_ACTION_ID, REVERT_TURN_ACTION_ID } from '../formatters';
+import { WorkflowSwitcher, CHANGE_WORKFLOW_ACTION_ID } from '../workflow-switcher';
+import { TurnRollback } from '../turn-rollback';
 import { PendingFormStore } from './pending-form-store';
 import { ActionHandlerContext, PendingChoiceFormData } from './types';
 
@@ -20,11 +25,24 @@ export class ActionHandlers {
   private sessionHandler: SessionActionHandler;
   private choiceHandler: ChoiceActionHandler;
   private formHandler: FormActionHandler;
+  private workflowHandler: WorkflowActionHandler;
+  private turnDiffHandler: TurnDiffActionHandler;
 
   constructor(private ctx: ActionHandlerContext) {
     this.formStore = new PendingFormStore();
 
-    this.permissionHandler = new PermissionActionHandler();
+    this.permissionHandler = new PermissionActionHandler({
+      claudeHandler: ctx.claudeHandler,
+    });
+
+    this.workflowHandler = new WorkflowActionHandler(
+      new WorkflowSwitcher({ claudeHandler: ctx.claudeHandler, slackApi: ctx.slackApi })
+    );
+
+    this.turnDiffHandler = new TurnDiffActionHandler({
+      slackApi: ctx.slackApi,
+      rollback: new TurnRollback({ claudeHandler: ctx.claudeHandler, requestCoordinator: ctx.requestCoordinator }),
+    });
 
     this.sessionHandler = new SessionActionHandler({
       slackApi: ctx.slackApi,
@@ -67,12 +85,45 @@ export class ActionHandlers {
       await this.permissionHandler.handleDeny(body, respond);
     });
 
+    app.action('allow_tool_session', async ({ ack, body, respond }) => {
+      await ack();
+      await this.permissionHandler.handleAllowForSession(body, respond);
+    });
+
+    app.action('allow_tool_always', async ({ ack, body, respond }) => {
+      await ack();
+      await this.permissionHandler.handleAllowAlways(body, respond);
+    });
+
+    app.action('deny_tool_explain', async ({ ack, body, client }) => {
+      await ack();
+      await this.permissionHandler.handleDenyExplain(body, client);
+    });
+
     // 세션 액션
     app.action('terminate_session', async ({ ack, body, respond }) => {
       await ack();
       await this.sessionHandler.handleTerminateSession(body, respond);
     });
 
+    // 워크플로우 변경 액션
+    app.action(CHANGE_WORKFLOW_ACTION_ID, async ({ ack, body, respond }) => {
+      await ack();
+      await this.workflowHandler.handleChangeWorkflow(body, respond);
+    });
+
+    // 턴 요약 카드의 전체 diff 업로드
+    app.action(UPLOAD_TURN_DIFF_ACTION_ID, async ({ ack, body, respond }) => {
+      await ack();
+      await this.turnDiffHandler.handleUploadDiff(body, respond);
+    });
+
+    // 턴 요약 카드의 턴 되돌리기
+    app.action(REVERT_TURN_ACTION_ID, async ({ ack, body, respond }) => {
+      await ack();
+      await this.turnDiffHandler.handleRevertTurn(body, respond);
+    });
+
     // 사용자 선택 액션
     app.action(/^user_choice_/, async ({ ack, body }) => {
       await ack();
@@ -117,6 +168,11 @@ export class ActionHandlers {
       await ack();
       await this.formHandler.handleCustomInputSubmit(body, view);
     });
+
+    app.view('deny_tool_reason_submit', async ({ ack, body, view }) => {
+      await ack();
+      await this.permissionHandler.handleDenyReasonSubmit(body, view);
+    });
   }
 
   // 폼 상태 관리 메서드 (기존 API 호환)
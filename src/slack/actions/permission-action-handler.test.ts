@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PermissionActionHandler } from './permission-action-handler';
+import { ClaudeHandler } from '../../claude-handler';
+import { config } from '../../config';
+import { sharedStore, PendingApproval } from '../../shared-store';
+import { userSettingsStore } from '../../user-settings-store';
+import { RespondFn } from './types';
+
+vi.mock('../../shared-store', () => ({
+  sharedStore: {
+    getPendingApproval: vi.fn(),
+    storePermissionResponse: vi.fn().mockResolvedValue(undefined),
+    storeSessionApproval: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../../user-settings-store', () => ({
+  userSettingsStore: {
+    addUserAllowRule: vi.fn(),
+  },
+}));
+
+const pendingApproval = (overrides: Partial<PendingApproval> = {}): PendingApproval => ({
+  tool_name: 'Bash',
+  input: { command: 'rm -rf build' },
+  channel: 'C123',
+  thread_ts: '111.222',
+  user: 'U_REQUESTER',
+  created_at: Date.now(),
+  expires_at: Date.now() + 60_000,
+  ...overrides,
+});
+
+const clickBody = (user: string) => ({
+  user: { id: user },
+  channel: { id: 'C123' },
+  message: { thread_ts: '111.222' },
+  actions: [{ value: 'approval_1' }],
+});
+
+describe('PermissionActionHandler approver check', () => {
+  const store = vi.mocked(sharedStore);
+  let getSession: ReturnType<typeof vi.fn>;
+  let handler: PermissionActionHandler;
+  let respond: RespondFn & ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getSession = vi.fn().mockReturnValue({ ownerId: 'U_OWNER', currentInitiatorId: 'U_INITIATOR' });
+    handler = new PermissionActionHandler({ claudeHandler: { getSession } as unknown as ClaudeHandler });
+    respond = vi.fn().mockResolvedValue(undefined) as RespondFn & ReturnType<typeof vi.fn>;
+    store.getPendingApproval.mockResolvedValue(pendingApproval());
+  });
+
+  afterEach(() => {
+    config.permission.approvers = [];
+  });
+
+  it.each(['U_REQUESTER', 'U_OWNER', 'U_INITIATOR'])('should accept an answer from %s', async (user) => {
+    await handler.handleApprove(clickBody(user), respond);
+
+    expect(store.storePermissionResponse).toHaveBeenCalledWith('approval_1', expect.objectContaining({ approver: user }));
+    expect(getSession).toHaveBeenCalledTimes(user === 'U_REQUESTER' ? 0 : 1);
+  });
+
+  it('should reject a bystander with an ephemeral message', async () => {
+    await handler.handleApprove(clickBody('U_BYSTANDER'), respond);
+    await handler.handleDeny(clickBody('U_BYSTANDER'), respond);
+
+    expect(store.storePermissionResponse).not.toHaveBeenCalled();
+    expect(respond).toHaveBeenCalledWith(
+      expect.objectContaining({ response_type: 'ephemeral', text: expect.stringContaining('<@U_REQUESTER> or <@U_OWNER>') })
+    );
+  });
+
+  it('should accept the approver group and escalation targets', async () => {
+    config.permission.approvers = ['U_SECURITY'];
+    store.getPendingApproval.mockResolvedValue(pendingApproval({ escalated_to: ['U_ADMIN'] }));
+
+    await handler.handleApprove(clickBody('U_SECURITY'), respond);
+    await handler.handleApprove(clickBody('U_ADMIN'), respond);
+
+    expect(store.storePermissionResponse).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject answers to requests that are no longer pending', async () => {
+    store.getPendingApproval.mockResolvedValue(null);
+
+    await handler.handleApprove(clickBody('U_REQUESTER'), respond);
+
+    expect(store.storePermissionResponse).not.toHaveBeenCalled();
+    expect(respond).toHaveBeenCalledWith(expect.objectContaining({ text: expect.stringContaining('no longer pending') }));
+  });
+
+  it('should save an always-allow rule for the requester, not the approver', async () => {
+    const body = { ...clickBody('U_OWNER'), actions: [{ value: JSON.stringify({ approvalId: 'approval_1', rule: 'Bash(npm test*)' }) }] };
+
+    await handler.handleAllowAlways(body, respond);
+
+    expect(userSettingsStore.addUserAllowRule).toHaveBeenCalledWith('U_REQUESTER', 'Bash(npm test*)');
+    expect(store.storePermissionResponse).toHaveBeenCalledWith('approval_1', expect.objectContaining({ approver: 'U_OWNER' }));
+    expect(respond).toHaveBeenCalledWith(expect.objectContaining({ text: expect.stringContaining('<@U_REQUESTER>') }));
+  });
+
+  it("should remember session approvals for the request's thread, not the button message's", async () => {
+    const body = {
+      user: { id: 'U_REQUESTER' },
+      channel: { id: 'C123' },
+      message: {},
+      actions: [{ value: JSON.stringify({ approvalId: 'approval_1', rule: 'Bash(npm test*)' }) }],
+    };
+
+    await handler.handleAllowForSession(body, respond);
+
+    expect(store.storeSessionApproval).toHaveBeenCalledWith(
+      'C123',
+      '111.222',
+      expect.objectContaining({ rule: 'Bash(npm test*)', granted_by: 'U_REQUESTER' })
+    );
+  });
+});
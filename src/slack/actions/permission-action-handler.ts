@@ -1,23 +1,40 @@
-import { sharedStore, PermissionResponse } from '../../shared-store';
+import { sharedStore, PendingApproval, PermissionResponse } from '../../shared-store';
+import { userSettingsStore } from '../../user-settings-store';
+import { RememberApprovalValue } from '../../permission/slack-messenger';
+import { PermissionCheckResult } from '../../permission/service';
+import { ClaudeHandler } from '../../claude-handler';
+import { config } from '../../config';
 import { Logger } from '../../logger';
 import { RespondFn } from './types';
 
+interface PermissionActionContext {
+  claudeHandler: ClaudeHandler;
+}
+
 /**
  * 권한 승인/거부 액션 핸들러
+ * 세션 소유자, 현재 요청자, 승인자 그룹(PERMISSION_APPROVERS), 에스컬레이션 대상만 응답할 수 있음
  */
 export class PermissionActionHandler {
   private logger = new Logger('PermissionActionHandler');
 
+  constructor(private ctx: PermissionActionContext) {}
+
   async handleApprove(body: any, respond: RespondFn): Promise<void> {
     try {
       const approvalId = body.actions[0].value;
       const user = body.user?.id;
 
+      if (!(await this.ensureApprover(approvalId, user, respond))) {
+        return;
+      }
+
       this.logger.info('Tool approval granted', { approvalId, user });
 
       const response: PermissionResponse = {
         behavior: 'allow',
         message: 'Approved by user',
+        approver: user,
       };
       await sharedStore.storePermissionResponse(approvalId, response);
 
@@ -41,11 +58,16 @@ export class PermissionActionHandler {
       const approvalId = body.actions[0].value;
       const user = body.user?.id;
 
+      if (!(await this.ensureApprover(approvalId, user, respond))) {
+        return;
+      }
+
       this.logger.info('Tool approval denied', { approvalId, user });
 
       const response: PermissionResponse = {
         behavior: 'deny',
         message: 'Denied by user',
+        approver: user,
       };
       await sharedStore.storePermissionResponse(approvalId, response);
 
@@ -63,4 +85,294 @@ export class PermissionActionHandler {
       });
     }
   }
+
+  /**
+   * 이번 세션 동안 같은 패턴의 도구 호출을 자동 승인
+   */
+  async handleAllowForSession(body: any, respond: RespondFn): Promise<void> {
+    try {
+      const { approvalId, rule } = JSON.parse(body.actions[0].value) as RememberApprovalValue;
+      const user = body.user?.id;
+
+      if (!(await this.ensureApprover(approvalId, user, respond))) {
+        return;
+      }
+
+      const pending = await this.getPendingApproval(approvalId, respond);
+      if (!pending) {
+        return;
+      }
+
+      this.logger.info('Tool approval granted for session', { approvalId, rule, user });
+
+      await this.rememberForSession(pending, rule, user);
+      await sharedStore.storePermissionResponse(approvalId, {
+        behavior: 'allow',
+        message: `Approved by user for this session (${rule})`,
+        approver: user,
+      });
+
+      await respond({
+        response_type: 'ephemeral',
+        text: `🔓 Approved. \`${rule}\` will be allowed without asking for the rest of this session.`,
+        replace_original: false,
+      });
+    } catch (error) {
+      this.logger.error('Error processing session approval', error);
+      await respond({
+        response_type: 'ephemeral',
+        text: '❌ Error processing approval. The request may have already been handled.',
+        replace_original: false,
+      });
+    }
+  }
+
+  /**
+   * 패턴을 요청한 사용자의 설정에 저장해 이후 모든 세션에서 자동 승인
+   */
+  async handleAllowAlways(body: any, respond: RespondFn): Promise<void> {
+    try {
+      const { approvalId, rule } = JSON.parse(body.actions[0].value) as RememberApprovalValue;
+      const user = body.user?.id;
+
+      if (!(await this.ensureApprover(approvalId, user, respond))) {
+        return;
+      }
+
+      // 규칙은 승인한 사람이 아니라 요청한 사용자의 설정에 저장
+      const pending = await this.getPendingApproval(approvalId, respond);
+      if (!pending) {
+        return;
+      }
+      const requester = pending.user;
+      if (!requester) {
+        await respond({
+          response_type: 'ephemeral',
+          text: '❌ This request has no requester to remember the rule for. Use "Allow for this session" instead.',
+          replace_original: false,
+        });
+        return;
+      }
+
+      this.logger.info('Tool pattern always allowed', { approvalId, rule, user, requester });
+
+      userSettingsStore.addUserAllowRule(requester, rule);
+      // 실행 중인 권한 서버는 시작 시점의 규칙만 알고 있으므로 세션 승인도 함께 기록
+      await this.rememberForSession(pending, rule, user);
+      await sharedStore.storePermissionResponse(approvalId, {
+        behavior: 'allow',
+        message: `Approved by user and always allowed (${rule})`,
+        approver: user,
+      });
+
+      await respond({
+        response_type: 'ephemeral',
+        text:
+          requester === user
+            ? `📌 Approved. \`${rule}\` will always be allowed for you. Use \`policy forget ${rule}\` to undo.`
+            : `📌 Approved. \`${rule}\` will always be allowed for <@${requester}>. They can use \`policy forget ${rule}\` to undo.`,
+        replace_original: false,
+      });
+    } catch (error) {
+      this.logger.error('Error processing always-allow approval', error);
+      await respond({
+        response_type: 'ephemeral',
+        text: '❌ Error processing approval. The request may have already been handled.',
+        replace_original: false,
+      });
+    }
+  }
+
+  /**
+   * 거부 사유 입력 모달 열기
+   */
+  async handleDenyExplain(body: any, client: any): Promise<void> {
+    try {
+      const approvalId = body.actions[0].value;
+      const user = body.user?.id;
+
+      const check = await this.checkApprover(approvalId, user);
+      if (!check.allowed) {
+        this.logUnauthorized(approvalId, user, check);
+        await client.chat.postEphemeral({
+          channel: body.channel?.id,
+          user,
+          text: this.formatRejection(check),
+        });
+        return;
+      }
+
+      await client.views.open({
+        trigger_id: body.trigger_id,
+        view: this.buildDenyReasonModal(approvalId),
+      });
+    } catch (error) {
+      this.logger.error('Error opening deny reason modal', error);
+    }
+  }
+
+  /**
+   * 거부 사유 제출 - 사유를 Claude에게 전달
+   */
+  async handleDenyReasonSubmit(body: any, view: any): Promise<void> {
+    try {
+      const { approvalId } = JSON.parse(view.private_metadata);
+      const user = body.user?.id;
+      const reason = (view.state.values.deny_reason_block.deny_reason_text.value || '').trim();
+
+      // 모달을 여는 시점에 확인했지만, 그 사이 응답 자격이 바뀌었을 수 있음
+      const check = await this.checkApprover(approvalId, user);
+      if (!check.allowed) {
+        this.logUnauthorized(approvalId, user, check);
+        return;
+      }
+
+      this.logger.info('Tool approval denied with reason', { approvalId, user, reasonLength: reason.length });
+
+      const response: PermissionResponse = {
+        behavior: 'deny',
+        message: reason ? `Denied by user: ${reason}` : 'Denied by user',
+        approver: user,
+      };
+      await sharedStore.storePermissionResponse(approvalId, response);
+    } catch (error) {
+      this.logger.error('Error processing tool denial with reason', error);
+    }
+  }
+
+  /**
+   * 응답 자격 확인 - 자격이 없으면 ephemeral로 거절하고 false 반환
+   */
+  private async ensureApprover(approvalId: string, user: string | undefined, respond: RespondFn): Promise<boolean> {
+    const check = await this.checkApprover(approvalId, user);
+    if (check.allowed) {
+      return true;
+    }
+
+    this.logUnauthorized(approvalId, user, check);
+    await respond({
+      response_type: 'ephemeral',
+      text: this.formatRejection(check),
+      replace_original: false,
+    });
+    return false;
+  }
+
+  private async checkApprover(approvalId: string, user: string | undefined): Promise<PermissionCheckResult> {
+    const pending = await sharedStore.getPendingApproval(approvalId);
+    if (!pending) {
+      return { allowed: false, reason: 'This permission request is no longer pending.' };
+    }
+    if (!user) {
+      return { allowed: false, reason: 'Could not identify who clicked.' };
+    }
+
+    if (pending.user === user) {
+      return { allowed: true, reason: 'User made the request' };
+    }
+    if (config.permission.approvers.includes(user)) {
+      return { allowed: true, reason: 'User is in the approver group' };
+    }
+    if (pending.escalated_to?.includes(user)) {
+      return { allowed: true, reason: 'Request was escalated to user' };
+    }
+
+    // 요청 이후 세션 소유자/요청자가 바뀌었을 수 있으므로 현재 세션 기준으로 확인
+    const session = pending.channel ? this.ctx.claudeHandler.getSession(pending.channel, pending.thread_ts) : undefined;
+    if (session?.ownerId === user) {
+      return { allowed: true, reason: 'User is session owner' };
+    }
+    if (session?.currentInitiatorId === user) {
+      return { allowed: true, reason: 'User is current initiator' };
+    }
+
+    const allowedUsers = [...new Set([pending.user, session?.ownerId].filter(Boolean))];
+    return {
+      allowed: false,
+      reason:
+        allowedUsers.length > 0
+          ? `Only ${allowedUsers.map((id) => `<@${id}>`).join(' or ')} or a designated approver can answer this request.`
+          : 'Only the session owner or a designated approver can answer this request.',
+    };
+  }
+
+  private logUnauthorized(approvalId: string, user: string | undefined, check: PermissionCheckResult): void {
+    this.logger.warn('Rejected permission answer', { approvalId, user, reason: check.reason });
+  }
+
+  private formatRejection(check: PermissionCheckResult): string {
+    return `🚫 ${check.reason}`;
+  }
+
+  /**
+   * 승인 버튼을 누르는 사이 요청이 사라졌으면 안내 후 undefined
+   */
+  private async getPendingApproval(approvalId: string, respond: RespondFn): Promise<PendingApproval | undefined> {
+    const pending = await sharedStore.getPendingApproval(approvalId);
+    if (!pending) {
+      await respond({
+        response_type: 'ephemeral',
+        text: '❌ This permission request is no longer pending.',
+        replace_original: false,
+      });
+      return undefined;
+    }
+    return pending;
+  }
+
+  private async rememberForSession(pending: PendingApproval, rule: string, user?: string): Promise<void> {
+    // 권한 서버가 조회하는 세션(요청의 채널/스레드)에 기록. 버튼 메시지의 thread_ts는 스레드 밖 게시면 비어 있음
+    if (!pending.channel) {
+      this.logger.warn('Pending approval has no channel; session approval not stored', { rule });
+      return;
+    }
+    await sharedStore.storeSessionApproval(pending.channel, pending.thread_ts, {
+      rule,
+      granted_by: user,
+      granted_at: Date.now(),
+    });
+  }
+
+  private buildDenyReasonModal(approvalId: string): any {
+    return {
+      type: 'modal',
+      callback_id: 'deny_tool_reason_submit',
+      private_metadata: JSON.stringify({ approvalId }),
+      title: {
+        type: 'plain_text',
+        text: 'Deny tool use',
+        emoji: true,
+      },
+      submit: {
+        type: 'plain_text',
+        text: 'Deny',
+        emoji: true,
+      },
+      close: {
+        type: 'plain_text',
+        text: 'Cancel',
+        emoji: true,
+      },
+      blocks: [
+        {
+          type: 'input',
+          block_id: 'deny_reason_block',
+          element: {
+            type: 'plain_text_input',
+            action_id: 'deny_reason_text',
+            multiline: true,
+            placeholder: {
+              type: 'plain_text',
+              text: 'e.g. Don\'t touch the production config; edit config/dev.json instead',
+            },
+          },
+          label: {
+            type: 'plain_text',
+            text: 'Tell Claude why, so it can try another way',
+            emoji: true,
+          },
+        },
+      ],
+    };
+  }
 }
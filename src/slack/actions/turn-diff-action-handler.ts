@@ -0,0 +1,80 @@
+import { SlackApiHelper } from '../slack-api-helper';
+import { TurnSummaryFormatter } from '../formatters';
+import { TurnRollback } from '../turn-rollback';
+import { unifiedDiff } from '../../git-changes';
+import { Logger } from '../../logger';
+import { RespondFn } from './types';
+
+interface TurnDiffActionContext {
+  slackApi: SlackApiHelper;
+  rollback: TurnRollback;
+}
+
+/**
+ * 턴 요약 카드의 "Full diff" / "Revert this turn" 버튼 핸들러
+ */
+export class TurnDiffActionHandler {
+  private logger = new Logger('TurnDiffActionHandler');
+
+  constructor(private ctx: TurnDiffActionContext) {}
+
+  async handleUploadDiff(body: any, respond: RespondFn): Promise<void> {
+    const ref = TurnSummaryFormatter.parseDiffRef(body.actions?.[0]?.value);
+    const channel = body.channel?.id;
+    const threadTs = body.message?.thread_ts || body.message?.ts;
+
+    if (!ref || !channel) {
+      this.logger.warn('Invalid turn diff action', { channel, value: body.actions?.[0]?.value });
+      return;
+    }
+
+    try {
+      const diff = await unifiedDiff(ref.cwd, ref.from, ref.to);
+      if (!diff.trim()) {
+        await respond({
+          response_type: 'ephemeral',
+          text: 'ℹ️ The diff is empty.',
+          replace_original: false,
+        });
+        return;
+      }
+
+      await this.ctx.slackApi.uploadFile(channel, `changes-${ref.to.slice(0, 7)}.diff`, diff, {
+        threadTs,
+        title: 'Changes this turn',
+      });
+    } catch (error) {
+      this.logger.error('Failed to upload turn diff', { cwd: ref.cwd, error });
+      await respond({
+        response_type: 'ephemeral',
+        text: '❌ Could not load the diff. The working directory may have been moved or garbage-collected.',
+        replace_original: false,
+      });
+    }
+  }
+
+  async handleRevertTurn(body: any, respond: RespondFn): Promise<void> {
+    const ref = TurnSummaryFormatter.parseDiffRef(body.actions?.[0]?.value);
+    const channel = body.channel?.id;
+    const threadTs = body.message?.thread_ts || body.message?.ts;
+    const userId = body.user?.id;
+
+    if (!ref || !channel || !userId) {
+      this.logger.warn('Invalid revert turn action', { channel, value: body.actions?.[0]?.value });
+      return;
+    }
+
+    const result = await this.ctx.rollback.revertTurn(channel, threadTs, userId, ref);
+    if (!result.ok) {
+      await respond({
+        response_type: 'ephemeral',
+        text: `❌ ${result.error}`,
+        replace_original: false,
+      });
+      return;
+    }
+
+    // 되돌린 결과는 스레드 전체가 볼 수 있도록 게시
+    await this.ctx.slackApi.postMessage(channel, TurnRollback.formatResult(result, userId), { threadTs });
+  }
+}
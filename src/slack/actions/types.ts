@@ -1,6 +1,7 @@
 import { SlackApiHelper } from '../slack-api-helper';
 import { SessionUiManager } from '../session-manager';
 import { ClaudeHandler } from '../../claude-handler';
+import { RequestCoordinator } from '../request-coordinator';
 import { UserChoiceQuestion } from '../../types';
 
 export interface MessageEvent {
@@ -31,4 +32,5 @@ export interface ActionHandlerContext {
   claudeHandler: ClaudeHandler;
   sessionManager: SessionUiManager;
   messageHandler: MessageHandler;
+  requestCoordinator?: RequestCoordinator;
 }
@@ -0,0 +1,44 @@
+import { WorkflowSwitcher } from '../workflow-switcher';
+import { workflowRegistry } from '../../workflow-registry';
+import { Logger } from '../../logger';
+import { RespondFn } from './types';
+
+/**
+ * 워크플로우 변경 액션 핸들러 ("Change workflow" 메뉴)
+ */
+export class WorkflowActionHandler {
+  private logger = new Logger('WorkflowActionHandler');
+
+  constructor(private switcher: WorkflowSwitcher) {}
+
+  async handleChangeWorkflow(body: any, respond: RespondFn): Promise<void> {
+    try {
+      const workflow = body.actions[0].selected_option?.value;
+      const user = body.user?.id;
+      const channel = body.channel?.id;
+      // 디스패치 상태 메시지는 세션 스레드에 게시되므로 thread_ts가 세션을 가리킴
+      const threadTs = body.message?.thread_ts;
+
+      if (!workflow || !workflowRegistry.has(workflow) || !channel || !threadTs) {
+        this.logger.warn('Invalid workflow change action', { workflow, channel, threadTs });
+        return;
+      }
+
+      const result = await this.switcher.switchWorkflow(channel, threadTs, user, workflow, 'button');
+      await respond({
+        response_type: 'ephemeral',
+        text: result.ok
+          ? `🔀 Workflow changed from \`${result.previous}\` to \`${workflow}\`. It applies from the next message.`
+          : `❌ ${result.error}`,
+        replace_original: false,
+      });
+    } catch (error) {
+      this.logger.error('Error changing workflow', error);
+      await respond({
+        response_type: 'ephemeral',
+        text: '❌ Error changing workflow.',
+        replace_original: false,
+      });
+    }
+  }
+}
@@ -235,6 +235,20 @@ describe('CommandParser', () => {
     });
   });
 
+  describe('parseWorkflowCommand', () => {
+    it('should only match "workflow" with at most one argument', () => {
+      expect(CommandParser.isWorkflowCommand('workflow')).toBe(true);
+      expect(CommandParser.isWorkflowCommand('/workflow pr-review')).toBe(true);
+      expect(CommandParser.isWorkflowCommand('workflow for the release please')).toBe(false);
+    });
+
+    it('should return status or set with the lowercased workflow', () => {
+      expect(CommandParser.parseWorkflowCommand('workflow')).toEqual({ action: 'status' });
+      expect(CommandParser.parseWorkflowCommand('workflow list')).toEqual({ action: 'status' });
+      expect(CommandParser.parseWorkflowCommand('workflow PR-Review')).toEqual({ action: 'set', workflow: 'pr-review' });
+    });
+  });
+
   describe('isRestoreCommand', () => {
     it('should match "restore"', () => {
       expect(CommandParser.isRestoreCommand('restore')).toBe(true);
@@ -416,23 +430,326 @@ describe('CommandParser', () => {
     });
   });
 
-  describe('getHelpMessage', () => {
-    it('should return help message containing command sections', () => {
-      const help = CommandParser.getHelpMessage();
-      expect(help).toContain('Working Directory');
-      expect(help).toContain('Sessions');
-      expect(help).toContain('MCP Servers');
-      expect(help).toContain('Permissions');
-      expect(help).toContain('Persona');
-      expect(help).toContain('Model');
-      expect(help).toContain('Credentials');
-      expect(help).toContain('Help');
-    });
-
-    it('should include /new command in help', () => {
-      const help = CommandParser.getHelpMessage();
-      expect(help).toContain('new');
-      expect(help).toContain('Reset session context');
+  describe('isBudgetCommand', () => {
+    it('should match "budget" and "/budget status"', () => {
+      expect(CommandParser.isBudgetCommand('budget')).toBe(true);
+      expect(CommandParser.isBudgetCommand('/budget status')).toBe(true);
+    });
+
+    it('should match set commands', () => {
+      expect(CommandParser.isBudgetCommand('budget user <@U123> daily 10')).toBe(true);
+      expect(CommandParser.isBudgetCommand('budget channel monthly 100')).toBe(true);
+    });
+
+    it('should not match prose starting with "budget"', () => {
+      expect(CommandParser.isBudgetCommand('budget for Q3 looks tight')).toBe(false);
+    });
+  });
+
+  describe('parseBudgetCommand', () => {
+    it('should parse status', () => {
+      expect(CommandParser.parseBudgetCommand('budget')).toEqual({ action: 'status' });
+    });
+
+    it('should parse user limit with mention', () => {
+      expect(CommandParser.parseBudgetCommand('budget user <@U123|alice> daily $12.5')).toEqual({
+        action: 'set',
+        scope: 'user',
+        targetId: 'U123',
+        period: 'daily',
+        amountUsd: 12.5,
+      });
+    });
+
+    it('should default channel scope to the current channel and parse "off"', () => {
+      expect(CommandParser.parseBudgetCommand('/budget channel monthly off')).toEqual({
+        action: 'set',
+        scope: 'channel',
+        targetId: undefined,
+        period: 'monthly',
+        amountUsd: null,
+      });
+    });
+
+    it('should parse channel mention', () => {
+      const result = CommandParser.parseBudgetCommand('budget channel <#C999|general> daily 50');
+      expect(result).toMatchObject({ scope: 'channel', targetId: 'C999', amountUsd: 50 });
+    });
+
+    it('should reject user scope without a user mention', () => {
+      expect(CommandParser.parseBudgetCommand('budget user daily 10')).toEqual({ action: 'invalid' });
+      expect(CommandParser.parseBudgetCommand('budget user <#C1> daily 10')).toEqual({ action: 'invalid' });
+    });
+
+    it('should reject unknown periods', () => {
+      expect(CommandParser.parseBudgetCommand('budget channel weekly 10')).toEqual({ action: 'invalid' });
+    });
+  });
+
+  describe('isVerbosityCommand', () => {
+    it('should match verbosity commands', () => {
+      expect(CommandParser.isVerbosityCommand('verbosity')).toBe(true);
+      expect(CommandParser.isVerbosityCommand('/verbosity quiet')).toBe(true);
+      expect(CommandParser.isVerbosityCommand('verbosity channel verbose')).toBe(true);
+    });
+
+    it('should not match prose starting with "verbosity"', () => {
+      expect(CommandParser.isVerbosityCommand('verbosity is too high in this thread')).toBe(false);
+    });
+  });
+
+  describe('parseVerbosityCommand', () => {
+    it('should parse status', () => {
+      expect(CommandParser.parseVerbosityCommand('verbosity')).toEqual({ action: 'status' });
+      expect(CommandParser.parseVerbosityCommand('/verbosity status')).toEqual({ action: 'status' });
+    });
+
+    it('should parse a user level', () => {
+      expect(CommandParser.parseVerbosityCommand('verbosity Quiet')).toEqual({
+        action: 'set',
+        scope: 'user',
+        level: 'quiet',
+      });
+    });
+
+    it('should parse a channel level and reset', () => {
+      expect(CommandParser.parseVerbosityCommand('verbosity channel debug')).toEqual({
+        action: 'set',
+        scope: 'channel',
+        level: 'debug',
+      });
+      expect(CommandParser.parseVerbosityCommand('verbosity channel reset')).toEqual({
+        action: 'set',
+        scope: 'channel',
+        level: null,
+      });
+      expect(CommandParser.parseVerbosityCommand('verbosity reset')).toEqual({
+        action: 'set',
+        scope: 'user',
+        level: null,
+      });
+    });
+
+    it('should reject unknown levels', () => {
+      expect(CommandParser.parseVerbosityCommand('verbosity loud')).toEqual({ action: 'invalid' });
+      expect(CommandParser.parseVerbosityCommand('verbosity channel')).toEqual({ action: 'invalid' });
+    });
+  });
+
+  describe('parseRollbackCommand', () => {
+    it('should detect rollback commands', () => {
+      expect(CommandParser.isRollbackCommand('rollback')).toBe(true);
+      expect(CommandParser.isRollbackCommand('/rollback 3')).toBe(true);
+      expect(CommandParser.isRollbackCommand('rollback 3 force')).toBe(true);
+      expect(CommandParser.isRollbackCommand('rollback list')).toBe(true);
+      expect(CommandParser.isRollbackCommand('rollback the migration please')).toBe(false);
+    });
+
+    it('should parse turn counts and force', () => {
+      expect(CommandParser.parseRollbackCommand('rollback')).toEqual({ action: 'rollback', turns: 1, force: false });
+      expect(CommandParser.parseRollbackCommand('rollback 3')).toEqual({ action: 'rollback', turns: 3, force: false });
+      expect(CommandParser.parseRollbackCommand('rollback 2 Force')).toEqual({ action: 'rollback', turns: 2, force: true });
+      expect(CommandParser.parseRollbackCommand('rollback force')).toEqual({ action: 'rollback', turns: 1, force: true });
+      expect(CommandParser.parseRollbackCommand('rollback List')).toEqual({ action: 'list' });
+    });
+
+    it('should reject invalid arguments', () => {
+      expect(CommandParser.parseRollbackCommand('rollback 0')).toEqual({ action: 'invalid' });
+      expect(CommandParser.parseRollbackCommand('rollback all')).toEqual({ action: 'invalid' });
+      expect(CommandParser.parseRollbackCommand('rollback 2 3')).toEqual({ action: 'invalid' });
+      expect(CommandParser.parseRollbackCommand('rollback list force')).toEqual({ action: 'invalid' });
+    });
+  });
+
+  describe('isQueueCommand', () => {
+    it('should match queue commands', () => {
+      expect(CommandParser.isQueueCommand('queue')).toBe(true);
+      expect(CommandParser.isQueueCommand('/queue drop #3')).toBe(true);
+      expect(CommandParser.isQueueCommand('queue move 3 to 2')).toBe(true);
+      expect(CommandParser.isQueueCommand('queue clear')).toBe(true);
+    });
+
+    it('should not match prose starting with "queue"', () => {
+      expect(CommandParser.isQueueCommand('queue workers are stuck')).toBe(false);
+    });
+  });
+
+  describe('parseQueueCommand', () => {
+    it('should parse each action', () => {
+      expect(CommandParser.parseQueueCommand('queue')).toEqual({ action: 'show' });
+      expect(CommandParser.parseQueueCommand('queue clear')).toEqual({ action: 'clear' });
+      expect(CommandParser.parseQueueCommand('queue drop 2')).toEqual({ action: 'drop', position: 2 });
+      expect(CommandParser.parseQueueCommand('/queue move #4 #2')).toEqual({ action: 'move', from: 4, to: 2 });
+    });
+  });
+
+  describe('isUsageCommand', () => {
+    it('should match usage with range, grouping and csv options', () => {
+      expect(CommandParser.isUsageCommand('usage')).toBe(true);
+      expect(CommandParser.isUsageCommand('/usage report month by model')).toBe(true);
+      expect(CommandParser.isUsageCommand('usage 2026-01-01..2026-01-31 csv')).toBe(true);
+    });
+
+    it('should not match prose starting with "usage"', () => {
+      expect(CommandParser.isUsageCommand('usage of this API is deprecated')).toBe(false);
+    });
+  });
+
+  describe('parseUsageCommand', () => {
+    const now = new Date('2026-03-15T10:00:00Z');
+
+    it('should default to the last 7 days', () => {
+      const result = CommandParser.parseUsageCommand('usage', now)!;
+      expect(result.range.from.toISOString()).toBe('2026-03-09T00:00:00.000Z');
+      expect(result.range.to.toISOString()).toBe('2026-03-16T00:00:00.000Z');
+      expect(result.groupBy).toBeUndefined();
+      expect(result.csv).toBe(false);
+    });
+
+    it('should parse an explicit inclusive date range', () => {
+      const result = CommandParser.parseUsageCommand('usage 2026-02-01..2026-02-28 by user csv', now)!;
+      expect(result.range.from.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+      expect(result.range.to.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+      expect(result.groupBy).toBe('user');
+      expect(result.csv).toBe(true);
+    });
+
+    it('should parse month and day-count ranges', () => {
+      expect(CommandParser.parseUsageCommand('usage month', now)!.range.from.toISOString()).toBe(
+        '2026-03-01T00:00:00.000Z'
+      );
+      expect(CommandParser.parseUsageCommand('usage 30d', now)!.range.label).toBe('Last 30 days');
+    });
+
+    it('should reject dates that do not exist', () => {
+      expect(CommandParser.parseUsageCommand('usage 2024-02-30', now)).toBeNull();
+      expect(CommandParser.parseUsageCommand('usage 2024-13-01', now)).toBeNull();
+      expect(CommandParser.parseAuditCommand('audit 2024-02-01..2024-02-30', now)).toBeNull();
+    });
+
+    it('should reject a range that ends before it starts', () => {
+      expect(CommandParser.parseUsageCommand('usage 2026-02-28..2026-02-01', now)).toBeNull();
+      expect(CommandParser.parseUsageCommand('usage 2026-02-01..2026-02-01', now)!.range.label).toBe(
+        '2026-02-01 – 2026-02-01'
+      );
+    });
+  });
+
+  describe('policy command', () => {
+    it('should detect policy commands but not prose', () => {
+      expect(CommandParser.isPolicyCommand('policy')).toBe(true);
+      expect(CommandParser.isPolicyCommand('/policy show')).toBe(true);
+      expect(CommandParser.isPolicyCommand('policy check Bash(git push origin)')).toBe(true);
+      expect(CommandParser.isPolicyCommand('policy for retries is unclear')).toBe(false);
+    });
+
+    it('should parse policy check into tool and subject', () => {
+      expect(CommandParser.parsePolicyCommand('policy check Bash(git push (force))')).toEqual({
+        action: 'check',
+        toolName: 'Bash',
+        subject: 'git push (force)',
+      });
+      expect(CommandParser.parsePolicyCommand('policy check mcp__github__create_issue')).toEqual({
+        action: 'check',
+        toolName: 'mcp__github__create_issue',
+        subject: '',
+      });
+      expect(CommandParser.parsePolicyCommand('policy')).toEqual({ action: 'show' });
+    });
+
+    it('should parse policy forget for one rule or all', () => {
+      expect(CommandParser.isPolicyCommand('policy forget Bash(git status*)')).toBe(true);
+      expect(CommandParser.parsePolicyCommand('policy forget Bash(git status*)')).toEqual({
+        action: 'forget',
+        rule: 'Bash(git status*)',
+      });
+      expect(CommandParser.parsePolicyCommand('/policy forget all')).toEqual({ action: 'forget' });
+    });
+  });
+
+  describe('audit command', () => {
+    const now = new Date('2026-03-15T12:00:00Z');
+
+    it('should detect audit commands but not prose', () => {
+      expect(CommandParser.isAuditCommand('audit')).toBe(true);
+      expect(CommandParser.isAuditCommand('/audit today denied tool mcp__github__create_issue')).toBe(true);
+      expect(CommandParser.isAuditCommand('audit the payment module')).toBe(false);
+    });
+
+    it('should parse range, behavior and tool', () => {
+      const result = CommandParser.parseAuditCommand('audit 30d denied tool Bash', now)!;
+      expect(result.range.label).toBe('Last 30 days');
+      expect(result.behavior).toBe('deny');
+      expect(result.toolName).toBe('Bash');
+      expect(CommandParser.parseAuditCommand('audit', now)).toMatchObject({
+        range: { label: 'Last 7 days' },
+        behavior: undefined,
+        toolName: undefined,
+      });
+    });
+  });
+
+  describe('parseHelpTopic', () => {
+    it('should parse help with a command name', () => {
+      expect(CommandParser.parseHelpTopic('help model')).toBe('model');
+      expect(CommandParser.parseHelpTopic('/help /cwd')).toBe('cwd');
+      expect(CommandParser.parseHelpTopic('commands Usage?')).toBe('usage');
+    });
+
+    it('should return null for bare help or longer text', () => {
+      expect(CommandParser.parseHelpTopic('help')).toBeNull();
+      expect(CommandParser.parseHelpTopic('help me fix this bug')).toBeNull();
+    });
+  });
+
+  describe('isScheduleCommand', () => {
+    it('should match list, add and id actions', () => {
+      expect(CommandParser.isScheduleCommand('schedule')).toBe(true);
+      expect(CommandParser.isScheduleCommand('/schedules list')).toBe(true);
+      expect(CommandParser.isScheduleCommand('schedule add @daily standup')).toBe(true);
+      expect(CommandParser.isScheduleCommand('schedule pause 3f9a2c')).toBe(true);
+    });
+
+    it('should not match prose starting with "schedule"', () => {
+      expect(CommandParser.isScheduleCommand('schedule a meeting with the team')).toBe(false);
+    });
+  });
+
+  describe('parseScheduleCommand', () => {
+    it('should parse a quoted cron with options and a channel', () => {
+      expect(
+        CommandParser.parseScheduleCommand(
+          'schedule add “0 9 * * 1-5” tz=Asia/Seoul workflow=jira-executive-summary <#C123|standup> Summarize PROJ'
+        )
+      ).toEqual({
+        action: 'add',
+        cron: '0 9 * * 1-5',
+        timezone: 'Asia/Seoul',
+        workflow: 'jira-executive-summary',
+        channelId: 'C123',
+        prompt: 'Summarize PROJ',
+      });
+    });
+
+    it('should parse macros and bare cron fields', () => {
+      expect(CommandParser.parseScheduleCommand('schedule add @daily check CI')).toEqual({
+        action: 'add',
+        cron: '@daily',
+        prompt: 'check CI',
+      });
+      expect(CommandParser.parseScheduleCommand('schedule add */15 * * * * ping')).toMatchObject({
+        cron: '*/15 * * * *',
+        prompt: 'ping',
+      });
+    });
+
+    it('should map remove/rm to delete', () => {
+      expect(CommandParser.parseScheduleCommand('schedule rm 3F9A2C')).toEqual({ action: 'delete', id: '3f9a2c' });
+      expect(CommandParser.parseScheduleCommand('schedule pause abc123')).toEqual({ action: 'pause', id: 'abc123' });
+    });
+
+    it('should reject add without a prompt', () => {
+      expect(CommandParser.parseScheduleCommand('schedule add "0 9 * * *" tz=UTC')).toEqual({ action: 'invalid' });
     });
   });
 });
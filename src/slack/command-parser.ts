@@ -2,10 +2,66 @@
  * Command parsing utilities for Slack bot commands
  */
 
+import { Verbosity, isVerbosity } from '../user-settings-store';
+
 export type BypassAction = 'on' | 'off' | 'status';
 export type PersonaAction = { action: 'list' | 'status' | 'set'; persona?: string };
 export type ModelAction = { action: 'list' | 'status' | 'set'; model?: string };
+export type WorkflowAction = { action: 'status' } | { action: 'set'; workflow: string };
 export type NewCommandResult = { prompt?: string };
+export type QueueAction =
+  | { action: 'show' }
+  | { action: 'clear' }
+  | { action: 'drop'; position: number }
+  | { action: 'move'; from: number; to: number };
+export type PolicyAction =
+  | { action: 'show' }
+  | { action: 'check'; toolName: string; subject: string }
+  | { action: 'forget'; rule?: string }; // rule undefined = forget all
+export type UsageRange = { from: Date; to: Date; label: string };
+export type UsageCommand = {
+  range: UsageRange;
+  groupBy?: 'user' | 'workflow' | 'model';
+  csv: boolean;
+};
+export type AuditCommand = {
+  range: UsageRange;
+  behavior?: 'allow' | 'deny';
+  toolName?: string;
+};
+export type BudgetAction =
+  | { action: 'status' }
+  | { action: 'invalid' }
+  | {
+      action: 'set';
+      scope: 'user' | 'channel';
+      targetId?: string; // Defaults to the current channel for channel scope
+      period: 'daily' | 'monthly';
+      amountUsd: number | null; // null = unlimited
+    };
+
+export type VerbosityAction =
+  | { action: 'status' }
+  | { action: 'invalid' }
+  | { action: 'set'; scope: 'user' | 'channel'; level: Verbosity | null }; // null = reset to default
+
+export type RollbackAction =
+  | { action: 'list' }
+  | { action: 'invalid' }
+  | { action: 'rollback'; turns: number; force: boolean };
+
+export type ScheduleAction =
+  | { action: 'list' }
+  | { action: 'invalid' }
+  | {
+      action: 'add';
+      cron: string;
+      timezone?: string; // Defaults to SCHEDULER_TIMEZONE
+      workflow?: string;
+      channelId?: string; // Defaults to the current channel
+      prompt: string;
+    }
+  | { action: 'pause' | 'resume' | 'delete'; id: string };
 
 export class CommandParser {
   /**
@@ -98,6 +154,24 @@ export class CommandParser {
     return { action: 'status' };
   }
 
+  /**
+   * Check if text is a workflow command
+   */
+  static isWorkflowCommand(text: string): boolean {
+    return /^\/?workflow(?:\s+\S+)?$/i.test(text.trim());
+  }
+
+  /**
+   * Parse workflow command ("workflow" shows the current one, "workflow <name>" re-routes)
+   */
+  static parseWorkflowCommand(text: string): WorkflowAction {
+    const match = text.trim().match(/^\/?workflow\s+(\S+)$/i);
+    if (match && !['status', 'list'].includes(match[1].toLowerCase())) {
+      return { action: 'set', workflow: match[1].toLowerCase() };
+    }
+    return { action: 'status' };
+  }
+
   /**
    * Check if text is a restore credentials command
    */
@@ -112,6 +186,14 @@ export class CommandParser {
     return /^\/?(?:help|commands?)(?:\?)?$/i.test(text.trim());
   }
 
+  /**
+   * Parse `help <command>`, returns the command name or null
+   */
+  static parseHelpTopic(text: string): string | null {
+    const match = text.trim().match(/^\/?(?:help|commands?)\s+\/?([a-z][\w-]*)\??$/i);
+    return match ? match[1].toLowerCase() : null;
+  }
+
   /**
    * Check if text is a context command (shows token usage)
    */
@@ -126,6 +208,355 @@ export class CommandParser {
     return /^\/?renew$/i.test(text.trim());
   }
 
+  /**
+   * Check if text is a budget command
+   */
+  static isBudgetCommand(text: string): boolean {
+    return /^\/?budgets?(?:\s+status|\s+(?:user|channel)(?:\s+.*)?)?$/i.test(text.trim());
+  }
+
+  /**
+   * Parse budget command
+   * - budget [status]
+   * - budget user <@U123> <daily|monthly> <usd|off>
+   * - budget channel [<#C123>] <daily|monthly> <usd|off>
+   */
+  static parseBudgetCommand(text: string): BudgetAction {
+    const trimmed = text.trim();
+
+    if (/^\/?budgets?(?:\s+status)?$/i.test(trimmed)) {
+      return { action: 'status' };
+    }
+
+    const match = trimmed.match(
+      /^\/?budgets?\s+(user|channel)(?:\s+<([@#])([A-Z0-9]+)(?:\|[^>]*)?>)?\s+(daily|monthly)\s+\$?(\d+(?:\.\d+)?|off|none|unlimited)$/i
+    );
+    if (!match) {
+      return { action: 'invalid' };
+    }
+
+    const [, scopeText, sigil, targetId, periodText, amountText] = match;
+    const scope = scopeText.toLowerCase() as 'user' | 'channel';
+
+    // User budgets need an explicit mention; mention type must match scope
+    if ((scope === 'user' && sigil !== '@') || (scope === 'channel' && sigil && sigil !== '#')) {
+      return { action: 'invalid' };
+    }
+
+    const amountUsd = /^\d/.test(amountText) ? parseFloat(amountText) : null;
+    return {
+      action: 'set',
+      scope,
+      targetId,
+      period: periodText.toLowerCase() as 'daily' | 'monthly',
+      amountUsd,
+    };
+  }
+
+  /**
+   * Check if text is a verbosity command
+   */
+  static isVerbosityCommand(text: string): boolean {
+    return /^\/?verbosity(?:\s+(?:channel\s+)?\S+)?$/i.test(text.trim());
+  }
+
+  /**
+   * Parse verbosity command
+   * - verbosity [status]
+   * - verbosity <quiet|normal|verbose|debug|reset>
+   * - verbosity channel <quiet|normal|verbose|debug|reset>
+   */
+  static parseVerbosityCommand(text: string): VerbosityAction {
+    const trimmed = text.trim();
+
+    if (/^\/?verbosity(?:\s+status)?$/i.test(trimmed)) {
+      return { action: 'status' };
+    }
+
+    const match = trimmed.match(/^\/?verbosity\s+(?:(channel)\s+)?(\S+)$/i);
+    if (!match) {
+      return { action: 'invalid' };
+    }
+
+    const scope = match[1] ? 'channel' : 'user';
+    const levelText = match[2].toLowerCase();
+    if (levelText === 'reset' || levelText === 'default') {
+      return { action: 'set', scope, level: null };
+    }
+    if (!isVerbosity(levelText)) {
+      return { action: 'invalid' };
+    }
+    return { action: 'set', scope, level: levelText };
+  }
+
+  /**
+   * Check if text is a rollback command
+   */
+  static isRollbackCommand(text: string): boolean {
+    return /^\/?rollback(?:\s+\S+){0,2}$/i.test(text.trim());
+  }
+
+  /**
+   * Parse rollback command
+   * - rollback [force]      (undo the last turn)
+   * - rollback <n> [force]  (undo the last n turns)
+   * - rollback list
+   * `force` also discards changes made after this thread's last turn.
+   */
+  static parseRollbackCommand(text: string): RollbackAction {
+    const match = text.trim().match(/^\/?rollback(?:\s+(\S+))?(?:\s+(\S+))?$/i);
+    if (!match) {
+      return { action: 'invalid' };
+    }
+
+    const args = [match[1], match[2]].filter((arg): arg is string => !!arg).map((arg) => arg.toLowerCase());
+    if (args.length === 1 && args[0] === 'list') {
+      return { action: 'list' };
+    }
+
+    const force = args[args.length - 1] === 'force';
+    const countArgs = force ? args.slice(0, -1) : args;
+    if (countArgs.length === 0) {
+      return { action: 'rollback', turns: 1, force };
+    }
+    if (countArgs.length > 1 || !/^\d+$/.test(countArgs[0]) || parseInt(countArgs[0], 10) < 1) {
+      return { action: 'invalid' };
+    }
+    return { action: 'rollback', turns: parseInt(countArgs[0], 10), force };
+  }
+
+  /**
+   * Check if text is a permission policy command
+   */
+  static isPolicyCommand(text: string): boolean {
+    return /^\/?polic(?:y|ies)(?:\s+(?:show|(?:check|forget)\s+[^\s(]+(?:\(.*\))?))?$/is.test(text.trim());
+  }
+
+  /**
+   * Parse policy command
+   * - policy [show]
+   * - policy check <Tool>(<input>)  e.g. policy check Bash(git push origin main)
+   * - policy forget <rule|all>       e.g. policy forget Bash(git status*)
+   */
+  static parsePolicyCommand(text: string): PolicyAction {
+    const match = text.trim().match(/^\/?polic(?:y|ies)\s+check\s+([^\s(]+)(?:\((.*)\))?$/is);
+    if (match) {
+      return { action: 'check', toolName: match[1], subject: match[2] ?? '' };
+    }
+    const forgetMatch = text.trim().match(/^\/?polic(?:y|ies)\s+forget\s+([^\s(]+(?:\(.*\))?)$/is);
+    if (forgetMatch) {
+      return /^all$/i.test(forgetMatch[1]) ? { action: 'forget' } : { action: 'forget', rule: forgetMatch[1] };
+    }
+    return { action: 'show' };
+  }
+
+  /**
+   * Check if text is a queue command
+   */
+  static isQueueCommand(text: string): boolean {
+    return /^\/?queue(?:\s+(?:show|list|clear|drop\s+#?\d+|move\s+#?\d+\s+(?:to\s+)?#?\d+))?$/i.test(text.trim());
+  }
+
+  /**
+   * Parse queue command
+   */
+  static parseQueueCommand(text: string): QueueAction {
+    const trimmed = text.trim();
+
+    if (/^\/?queue\s+clear$/i.test(trimmed)) {
+      return { action: 'clear' };
+    }
+
+    const dropMatch = trimmed.match(/^\/?queue\s+drop\s+#?(\d+)$/i);
+    if (dropMatch) {
+      return { action: 'drop', position: parseInt(dropMatch[1], 10) };
+    }
+
+    const moveMatch = trimmed.match(/^\/?queue\s+move\s+#?(\d+)\s+(?:to\s+)?#?(\d+)$/i);
+    if (moveMatch) {
+      return { action: 'move', from: parseInt(moveMatch[1], 10), to: parseInt(moveMatch[2], 10) };
+    }
+
+    return { action: 'show' };
+  }
+
+  /**
+   * Check if text is a schedule command
+   */
+  static isScheduleCommand(text: string): boolean {
+    return /^\/?schedules?(?:\s+(?:list|add(?:\s[\s\S]*)?|(?:pause|resume|delete|remove|rm)\s+\S+))?$/i.test(text.trim());
+  }
+
+  /**
+   * Parse schedule command
+   * - schedule [list]
+   * - schedule add "<cron>"|@daily|<5 fields> [tz=<zone>] [workflow=<name>] [<#C123>] <prompt>
+   * - schedule pause|resume|delete <id>
+   */
+  static parseScheduleCommand(text: string): ScheduleAction {
+    const trimmed = text.trim();
+
+    if (/^\/?schedules?(?:\s+list)?$/i.test(trimmed)) {
+      return { action: 'list' };
+    }
+
+    const idMatch = trimmed.match(/^\/?schedules?\s+(pause|resume|delete|remove|rm)\s+`?([\w-]+)`?$/i);
+    if (idMatch) {
+      const verb = idMatch[1].toLowerCase();
+      const action = verb === 'pause' || verb === 'resume' ? verb : 'delete';
+      return { action, id: idMatch[2].toLowerCase() };
+    }
+
+    const addMatch = trimmed.match(/^\/?schedules?\s+add\s+([\s\S]+)$/i);
+    if (!addMatch) {
+      return { action: 'invalid' };
+    }
+
+    // Cron: quoted (Slack may send smart quotes), a macro, or five bare fields
+    let rest = addMatch[1].trim();
+    const cronMatch =
+      rest.match(/^["“”']([^"“”']+)["“”']\s*/) || rest.match(/^(@\w+)\s*/) || rest.match(/^((?:\S+\s+){4}\S+)\s*/);
+    if (!cronMatch) {
+      return { action: 'invalid' };
+    }
+    rest = rest.substring(cronMatch[0].length);
+
+    const options: { timezone?: string; workflow?: string; channelId?: string } = {};
+    for (;;) {
+      const option = rest.match(/^(?:(tz|timezone|workflow)=(\S+)|<#([A-Z0-9]+)(?:\|[^>]*)?>)\s*/i);
+      if (!option) break;
+      if (option[3]) {
+        options.channelId = option[3];
+      } else if (option[1].toLowerCase() === 'workflow') {
+        options.workflow = option[2];
+      } else {
+        options.timezone = option[2];
+      }
+      rest = rest.substring(option[0].length);
+    }
+
+    const prompt = rest.trim();
+    if (!prompt) {
+      return { action: 'invalid' };
+    }
+    return { action: 'add', cron: cronMatch[1].trim(), ...options, prompt };
+  }
+
+  /**
+   * Check if text is a usage report command
+   */
+  static isUsageCommand(text: string): boolean {
+    return /^\/?usage(?:\s+(?:report|today|week|month|all|\d+d|\d{4}-\d{2}-\d{2}(?:\.\.\d{4}-\d{2}-\d{2})?|csv|by\s+(?:user|workflow|model)))*$/i.test(
+      text.trim()
+    );
+  }
+
+  /**
+   * Parse usage report command
+   * - usage [report] [today|week|month|all|<n>d|YYYY-MM-DD[..YYYY-MM-DD]] [by user|workflow|model] [csv]
+   * Ranges are in UTC; the default is the last 7 days.
+   * @returns null if the dates don't exist or the range ends before it starts
+   */
+  static parseUsageCommand(text: string, now: Date = new Date()): UsageCommand | null {
+    const args = text.trim().replace(/^\/?usage\s*/i, '').toLowerCase();
+    const groupMatch = args.match(/\bby\s+(user|workflow|model)\b/);
+    const range = CommandParser.parseDateRange(args, now);
+    if (!range) {
+      return null;
+    }
+    return {
+      range,
+      groupBy: groupMatch ? (groupMatch[1] as 'user' | 'workflow' | 'model') : undefined,
+      csv: /\bcsv\b/.test(args),
+    };
+  }
+
+  /**
+   * Check if text is a permission audit command
+   */
+  static isAuditCommand(text: string): boolean {
+    return /^\/?audit(?:\s+(?:log|today|week|month|all|\d+d|\d{4}-\d{2}-\d{2}(?:\.\.\d{4}-\d{2}-\d{2})?|denied|allowed|tool\s+[\w.*-]+))*$/i.test(
+      text.trim()
+    );
+  }
+
+  /**
+   * Parse permission audit command
+   * - audit [log] [today|week|month|all|<n>d|YYYY-MM-DD[..YYYY-MM-DD]] [denied|allowed] [tool <name>]
+   * Ranges work like the usage command (UTC, default last 7 days).
+   * @returns null if the date range is invalid
+   */
+  static parseAuditCommand(text: string, now: Date = new Date()): AuditCommand | null {
+    const args = text.trim().replace(/^\/?audit\s*/i, '');
+    const toolMatch = args.match(/\btool\s+([\w.*-]+)/i);
+    const behaviorMatch = args.match(/\b(denied|allowed)\b/i);
+    const range = CommandParser.parseDateRange(args.replace(/\btool\s+[\w.*-]+/i, '').toLowerCase(), now);
+    if (!range) {
+      return null;
+    }
+    return {
+      range,
+      behavior: behaviorMatch ? (behaviorMatch[1].toLowerCase() === 'denied' ? 'deny' : 'allow') : undefined,
+      toolName: toolMatch?.[1],
+    };
+  }
+
+  /**
+   * Parse a report date range: today|month|all|<n>d|YYYY-MM-DD[..YYYY-MM-DD]
+   * Ranges are in UTC; the default is the last 7 days.
+   * @returns null for dates that don't exist (2024-02-30) or a range that ends before it starts
+   */
+  private static parseDateRange(args: string, now: Date): UsageRange | null {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const startOfToday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const endOfToday = new Date(startOfToday.getTime() + dayMs);
+    const lastDays = (days: number, label: string): UsageRange => ({
+      from: new Date(endOfToday.getTime() - days * dayMs),
+      to: endOfToday,
+      label,
+    });
+
+    let range = lastDays(7, 'Last 7 days');
+    const dateMatch = args.match(/(\d{4}-\d{2}-\d{2})(?:\.\.(\d{4}-\d{2}-\d{2}))?/);
+    const daysMatch = args.match(/\b(\d+)d\b/);
+
+    if (dateMatch) {
+      const from = CommandParser.parseDay(dateMatch[1]);
+      const last = CommandParser.parseDay(dateMatch[2] || dateMatch[1]);
+      if (!from || !last || from > last) {
+        return null;
+      }
+      range = {
+        from,
+        to: new Date(last.getTime() + dayMs),
+        label: dateMatch[2] ? `${dateMatch[1]} – ${dateMatch[2]}` : dateMatch[1],
+      };
+    } else if (/\btoday\b/.test(args)) {
+      range = { from: startOfToday, to: endOfToday, label: 'Today' };
+    } else if (/\bmonth\b/.test(args)) {
+      range = {
+        from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+        to: endOfToday,
+        label: 'This month',
+      };
+    } else if (/\ball\b/.test(args)) {
+      range = { from: new Date(0), to: endOfToday, label: 'All time' };
+    } else if (daysMatch) {
+      const days = Math.max(1, parseInt(daysMatch[1], 10));
+      range = lastDays(days, `Last ${days} days`);
+    }
+    return range;
+  }
+
+  /**
+   * Midnight UTC of a YYYY-MM-DD date, or null if the day doesn't exist
+   * `new Date` rolls 2024-02-30 over to March 1st, so the result must round-trip.
+   */
+  private static parseDay(value: string): Date | null {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? date : null;
+  }
+
   /**
    * Check if text is a /new command
    */
@@ -167,52 +598,4 @@ export class CommandParser {
     const match = text.trim().match(/^\/?(?:terminate|kill|end)(?:_session)?\s+(.+)$/i);
     return match ? match[1].trim() : null;
   }
-
-  /**
-   * Generate help message
-   */
-  static getHelpMessage(): string {
-    const commands = [
-      '*📚 Available Commands*',
-      '',
-      '*Working Directory:*',
-      '• `cwd <path>` or `/cwd <path>` - Set working directory',
-      '• `cwd` or `/cwd` - Show current working directory',
-      '',
-      '*Sessions:*',
-      '• `sessions` or `/sessions` - Show your active sessions',
-      '• `all_sessions` or `/all_sessions` - Show all active sessions',
-      '• `terminate <session-key>` - Terminate a specific session',
-      '• `new` or `/new` - Reset session context (start fresh conversation in same thread)',
-      '• `new <prompt>` or `/new <prompt>` - Reset and start with new prompt',
-      '• `context` or `/context` - Show current session token usage and cost',
-      '• `renew` or `/renew` - Save context, reset session, and reload (for long sessions)',
-      '',
-      '*MCP Servers:*',
-      '• `mcp` or `/mcp` - Show MCP server status',
-      '• `mcp reload` or `/mcp reload` - Reload MCP configuration',
-      '',
-      '*Permissions:*',
-      '• `bypass` or `/bypass` - Show permission bypass status',
-      '• `bypass on` or `/bypass on` - Enable permission bypass',
-      '• `bypass off` or `/bypass off` - Disable permission bypass',
-      '',
-      '*Persona:*',
-      '• `persona` or `/persona` - Show current persona',
-      '• `persona list` or `/persona list` - List available personas',
-      '• `persona set <name>` or `/persona set <name>` - Set persona',
-      '',
-      '*Model:*',
-      '• `model` or `/model` - Show current default model',
-      '• `model list` or `/model list` - List available models',
-      '• `model <name>` or `/model <name>` - Set default model (e.g., `model opus-4.5`)',
-      '',
-      '*Credentials:*',
-      '• `restore` or `/restore` - Restore Claude credentials from backup',
-      '',
-      '*Help:*',
-      '• `help` or `/help` - Show this help message',
-    ];
-    return commands.join('\n');
-  }
 }
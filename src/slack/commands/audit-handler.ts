@@ -0,0 +1,126 @@
+import { CommandHandler, CommandContext, CommandResult, CommandSpec } from './types';
+import { CommandParser } from '../command-parser';
+import { permissionAuditLog, PermissionAuditEntry, PermissionDecider } from '../../permission/audit-log';
+import { isAdminUser } from '../../config';
+
+const MAX_LISTED_ENTRIES = 20;
+
+const DECIDER_LABELS: Record<PermissionDecider, string> = {
+  user: 'by user',
+  policy: 'by policy',
+  remembered: 'remembered',
+  timeout: 'timed out',
+  error: 'error',
+};
+
+/**
+ * Handles audit command - shows recent permission decisions from the audit log
+ * Admins see every decision; other users see requests they made or answered.
+ */
+export class AuditHandler implements CommandHandler {
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'audit',
+      category: 'Permissions',
+      description: 'Show recent permission decisions from the audit log',
+      usage: [
+        { description: 'Show decisions from the last 7 days' },
+        { args: 'today|month|30d|2025-01-01..2025-01-31', description: 'Choose a date range (UTC)' },
+        { args: 'denied|allowed', description: 'Only show denials or approvals' },
+        { args: 'tool <name>', description: 'Only show one tool' },
+      ],
+      args: [{ name: 'options', rest: true }],
+      examples: ['audit today denied', 'audit 30d tool Bash'],
+    },
+  ];
+
+  canHandle(text: string): boolean {
+    return CommandParser.isAuditCommand(text);
+  }
+
+  async execute(ctx: CommandContext): Promise<CommandResult> {
+    const { user, text, threadTs, say } = ctx;
+    const auditCommand = CommandParser.parseAuditCommand(text);
+    if (!auditCommand) {
+      return { handled: true, invalidArgs: true };
+    }
+    const { range, behavior, toolName } = auditCommand;
+
+    const isAdmin = isAdminUser(user);
+    const entries = permissionAuditLog.query({
+      from: range.from,
+      to: range.to,
+      userId: isAdmin ? undefined : user,
+      toolName,
+      behavior,
+    });
+    const filters = [range.label, behavior === 'deny' ? 'denied' : behavior === 'allow' ? 'allowed' : '', toolName]
+      .filter(Boolean)
+      .join(' • ');
+    const scopeText = isAdmin ? 'all users' : 'your requests and approvals only';
+
+    if (entries.length === 0) {
+      await say({
+        text: `🧾 No permission decisions for *${filters}* (${scopeText}).`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    const allowed = entries.filter((e) => e.behavior === 'allow').length;
+    const byDecider = new Map<PermissionDecider, number>();
+    for (const entry of entries) {
+      byDecider.set(entry.decidedBy, (byDecider.get(entry.decidedBy) || 0) + 1);
+    }
+    const breakdown = [...byDecider.entries()].map(([decider, count]) => `${DECIDER_LABELS[decider]} ${count}`);
+
+    const lines = [
+      `🧾 *Permission Audit* — ${filters} (UTC, ${scopeText})`,
+      `${entries.length} decisions: ✅ ${allowed} allowed, ⛔ ${entries.length - allowed} denied (${breakdown.join(', ')})`,
+      '',
+      ...entries
+        .slice(-MAX_LISTED_ENTRIES)
+        .reverse()
+        .map((entry) => this.formatEntry(entry)),
+    ];
+    if (entries.length > MAX_LISTED_ENTRIES) {
+      lines.push(`_… ${entries.length - MAX_LISTED_ENTRIES} older decisions not shown_`);
+    }
+    lines.push('', `_Log file: \`${permissionAuditLog.getFilePath()}\`_`);
+
+    await say({ text: lines.join('\n'), thread_ts: threadTs });
+    return { handled: true };
+  }
+
+  /**
+   * One decision as a single line, newest first
+   */
+  private formatEntry(entry: PermissionAuditEntry): string {
+    const time = entry.timestamp.slice(5, 16).replace('T', ' ');
+    const icon = entry.behavior === 'allow' ? '✅' : '⛔';
+
+    let decidedBy = DECIDER_LABELS[entry.decidedBy];
+    if (entry.decidedBy === 'user' && entry.approver) {
+      decidedBy = `by <@${entry.approver}>`;
+    } else if (entry.rule) {
+      decidedBy = `${decidedBy} \`${entry.rule}\``;
+    }
+
+    const parts = [`${time} ${icon} \`${entry.toolName}\` \`#${entry.inputHash}\` ${decidedBy}`];
+    if (entry.decidedBy === 'user' || entry.decidedBy === 'timeout') {
+      parts.push(`after ${this.formatLatency(entry.latencyMs)}`);
+    }
+    if (entry.requester) {
+      parts.push(`requested by <@${entry.requester}>`);
+    }
+    if (entry.escalatedTo && entry.escalatedTo.length > 0) {
+      parts.push('escalated');
+    }
+    return `• ${parts.join(' · ')}`;
+  }
+
+  private formatLatency(ms: number): string {
+    if (ms < 60_000) return `${Math.round(ms / 1000)}s`;
+    return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+  }
+}
@@ -0,0 +1,93 @@
+import { CommandHandler, CommandContext, CommandResult, CommandSpec } from './types';
+import { CommandParser } from '../command-parser';
+import { budgetStore, BudgetScope, formatUsd } from '../../budget-store';
+import { isAdminUser } from '../../config';
+
+/**
+ * Handles budget commands (status for everyone, limits for admins)
+ */
+export class BudgetHandler implements CommandHandler {
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'budget',
+      aliases: ['budgets'],
+      category: 'Budget',
+      description: 'Show spend against budget limits or set limits',
+      usage: [
+        { description: "Show your and this channel's spend against budget limits" },
+        { args: 'user @user daily|monthly <usd|off>', description: 'Set a user budget (admin only)' },
+        { args: 'channel [#channel] daily|monthly <usd|off>', description: 'Set a channel budget (admin only)' },
+      ],
+      args: [{ name: 'scope', choices: ['status', 'user', 'channel'] }, { name: 'limit', rest: true }],
+      examples: ['budget user @alice daily 20', 'budget channel monthly off'],
+    },
+  ];
+
+  canHandle(text: string): boolean {
+    return CommandParser.isBudgetCommand(text);
+  }
+
+  async execute(ctx: CommandContext): Promise<CommandResult> {
+    const { user, channel, text, threadTs, say } = ctx;
+    const budgetAction = CommandParser.parseBudgetCommand(text);
+
+    if (budgetAction.action === 'status') {
+      const lines = [
+        '💰 *Budget Status*',
+        '',
+        `*You* (<@${user}>)`,
+        ...this.formatScope('user', user),
+        '',
+        `*This channel* (<#${channel}>)`,
+        ...this.formatScope('channel', channel),
+        '',
+        '_Daily limits reset at 00:00 UTC, monthly limits on the 1st._',
+      ];
+      await say({ text: lines.join('\n'), thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    if (budgetAction.action === 'invalid') {
+      return { handled: true, invalidArgs: true };
+    }
+
+    if (!isAdminUser(user)) {
+      await say({
+        text: '🚫 Only admins can change budget limits.',
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    const targetId = budgetAction.targetId || channel;
+    budgetStore.setLimit(budgetAction.scope, targetId, budgetAction.period, budgetAction.amountUsd);
+
+    const target = budgetAction.scope === 'user' ? `<@${targetId}>` : `<#${targetId}>`;
+    const limitText = budgetAction.amountUsd === null ? 'no limit' : formatUsd(budgetAction.amountUsd);
+    await say({
+      text: `✅ *Budget Updated*\n\n${target} ${budgetAction.period} limit: *${limitText}*`,
+      thread_ts: threadTs,
+    });
+
+    return { handled: true };
+  }
+
+  private formatScope(scope: BudgetScope, id: string): string[] {
+    const limits = budgetStore.getLimits(scope, id);
+    const spend = budgetStore.getSpend(scope, id);
+
+    return [
+      this.formatPeriod('Daily', spend.dailyUsd, limits.dailyUsd),
+      this.formatPeriod('Monthly', spend.monthlyUsd, limits.monthlyUsd),
+    ];
+  }
+
+  private formatPeriod(label: string, spentUsd: number, limitUsd?: number): string {
+    if (limitUsd === undefined) {
+      return `• ${label}: ${formatUsd(spentUsd)} _(no limit)_`;
+    }
+    const percent = limitUsd > 0 ? Math.round((spentUsd / limitUsd) * 100) : 100;
+    const icon = spentUsd >= limitUsd ? '🔴' : percent >= 80 ? '🟡' : '🟢';
+    return `• ${label}: ${formatUsd(spentUsd)} / ${formatUsd(limitUsd)} (${percent}%) ${icon}`;
+  }
+}
@@ -1,4 +1,4 @@
-import { CommandHandler, CommandContext, CommandResult } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec } from './types';
 import { CommandParser } from '../command-parser';
 import { userSettingsStore } from '../../user-settings-store';
 
@@ -6,6 +6,20 @@ import { userSettingsStore } from '../../user-settings-store';
  * Handles bypass permission commands
  */
 export class BypassHandler implements CommandHandler {
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'bypass',
+      category: 'Permissions',
+      description: 'Show or toggle permission bypass',
+      usage: [
+        { description: 'Show permission bypass status' },
+        { args: 'on', description: 'Enable permission bypass' },
+        { args: 'off', description: 'Disable permission bypass' },
+      ],
+      args: [{ name: 'state', choices: ['on', 'off', 'status', 'true', 'false', 'enable', 'disable'] }],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return CommandParser.isBypassCommand(text);
   }
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CommandRegistry } from './command-registry';
+import { CommandRouter } from './command-router';
+import { CommandDependencies, CommandSpec } from './types';
+
+const bypassSpec: CommandSpec = {
+  name: 'bypass',
+  category: 'Permissions',
+  description: 'Show or toggle permission bypass',
+  usage: [{ description: 'Show status' }, { args: 'on', description: 'Enable' }],
+  args: [{ name: 'state', choices: ['on', 'off'] }],
+};
+
+const terminateSpec: CommandSpec = {
+  name: 'terminate',
+  aliases: ['kill'],
+  category: 'Sessions',
+  description: 'Terminate a session',
+  usage: [{ args: '<session-key>', description: 'Terminate a specific session' }],
+  args: [{ name: 'session-key', required: true }],
+};
+
+const createRegistry = () => {
+  const registry = new CommandRegistry();
+  registry.register([bypassSpec, terminateSpec]);
+  return registry;
+};
+
+describe('CommandRegistry', () => {
+  it('should find commands by name or alias', () => {
+    const registry = createRegistry();
+    expect(registry.find('/KILL')).toBe(terminateSpec);
+    expect(registry.find('bypass')).toBe(bypassSpec);
+    expect(registry.find('nope')).toBeUndefined();
+  });
+
+  it('should reject duplicate names and aliases', () => {
+    const registry = createRegistry();
+    expect(() => registry.register([{ ...bypassSpec, name: 'other', aliases: ['kill'] }])).toThrow(
+      'Duplicate command name or alias: kill'
+    );
+  });
+
+  it('should explain invalid arguments from the schema', () => {
+    const registry = createRegistry();
+    expect(registry.validate(bypassSpec, ['maybe'])).toContain('Expected one of: `on`, `off`');
+    expect(registry.validate(bypassSpec, ['on', 'now'])).toBe('Unexpected argument `now`.');
+    expect(registry.validate(terminateSpec, [])).toBe('Missing required argument `<session-key>`.');
+    expect(registry.validate(bypassSpec, ['on'])).toBeNull();
+  });
+
+  it('should suggest close command names', () => {
+    const registry = createRegistry();
+    expect(registry.suggest('/bypas')).toEqual(['bypass']);
+    expect(registry.suggest('termniate')).toEqual(['terminate']);
+    expect(registry.suggest('review')).toEqual([]);
+  });
+
+  it('should parse invocations with or without a slash', () => {
+    expect(CommandRegistry.parseInvocation('/Model  set opus')).toEqual({
+      name: 'model',
+      args: ['set', 'opus'],
+      slash: true,
+    });
+    expect(CommandRegistry.parseInvocation('/path/to/file explain')).toBeNull();
+  });
+});
+
+describe('CommandRouter help and validation', () => {
+  const router = new CommandRouter({
+    workingDirManager: { parseSetCommand: () => null, isGetCommand: () => false },
+  } as unknown as CommandDependencies);
+  const registry = router.getRegistry();
+
+  const route = async (text: string) => {
+    const say = vi.fn().mockResolvedValue({});
+    const result = await router.route({ user: 'U1', channel: 'C1', threadTs: '1.1', text, say });
+    return { result, reply: say.mock.calls[0]?.[0]?.text as string | undefined };
+  };
+
+  it('should list every registered command in the generated help', async () => {
+    const { reply } = await route('help');
+
+    for (const spec of registry.list()) {
+      expect(reply).toContain(`\`${spec.name}`);
+    }
+    expect(reply).toContain('*Working Directory:*');
+    expect(reply).toContain('Reset session context');
+  });
+
+  it('should show a per-command help page', async () => {
+    const { result, reply } = await route('help queue');
+
+    expect(result.handled).toBe(true);
+    expect(reply).toContain('*📖 queue*');
+    expect(reply).toContain('`queue drop <n>`');
+  });
+
+  it('should leave "help me ..." prompts to Claude', async () => {
+    expect((await route('help me')).result.handled).toBe(false);
+  });
+
+  it('should report argument errors for slash-prefixed commands', async () => {
+    const { result, reply } = await route('/bypass maybe');
+
+    expect(result.handled).toBe(true);
+    expect(reply).toContain('Invalid value `maybe` for `<state>`');
+    expect(reply).toContain('`bypass on`');
+  });
+
+  it('should reply with the usage from the spec when a handler rejects the arguments', async () => {
+    const { result, reply } = await route('budget channel weekly 10');
+
+    expect(result.handled).toBe(true);
+    expect(reply).toContain('Invalid arguments for `budget`.');
+    expect(reply).toContain('`budget channel [#channel] daily|monthly <usd|off>`');
+
+    expect((await route('schedule add "0 9 * * *" tz=UTC')).reply).toContain(
+      '`schedule add "<cron>" [tz=<zone>] [workflow=<name>] [#channel] <prompt>`'
+    );
+    expect((await route('verbosity channel')).reply).toContain('`verbosity channel <level|reset>`');
+  });
+
+  it('should suggest a command for slash-prefixed typos', async () => {
+    const { result, reply } = await route('/modle opus');
+
+    expect(result.handled).toBe(true);
+    expect(reply).toContain('Did you mean `model`?');
+  });
+
+  it('should pass through plain text and unrelated slash text', async () => {
+    expect((await route('bypass maybe')).result.handled).toBe(false);
+    expect((await route('/review this PR')).result.handled).toBe(false);
+  });
+});
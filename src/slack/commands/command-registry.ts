@@ -0,0 +1,201 @@
+import { CommandSpec, COMMAND_CATEGORIES } from './types';
+
+/**
+ * A word at the start of a message that looks like a command
+ */
+export interface CommandInvocation {
+  name: string;
+  args: string[];
+  /** Typed with a leading slash (explicit command attempt) */
+  slash: boolean;
+}
+
+/**
+ * Registry of declared commands
+ * Generates help pages, argument errors and "did you mean" suggestions
+ * from CommandSpec metadata so help never drifts from the handlers.
+ */
+export class CommandRegistry {
+  private specs: CommandSpec[] = [];
+  private byName: Map<string, CommandSpec> = new Map();
+
+  register(specs: CommandSpec[]): void {
+    for (const spec of specs) {
+      for (const key of [spec.name, ...(spec.aliases || [])]) {
+        const normalized = key.toLowerCase();
+        if (this.byName.has(normalized)) {
+          throw new Error(`Duplicate command name or alias: ${key}`);
+        }
+        this.byName.set(normalized, spec);
+      }
+      this.specs.push(spec);
+    }
+  }
+
+  list(): CommandSpec[] {
+    return [...this.specs];
+  }
+
+  /**
+   * Look up a command by name or alias (leading slash optional)
+   */
+  find(name: string): CommandSpec | undefined {
+    return this.byName.get(name.replace(/^\//, '').toLowerCase());
+  }
+
+  /**
+   * Split text into command name and arguments, or null if it doesn't start with a word
+   */
+  static parseInvocation(text: string): CommandInvocation | null {
+    const match = text.trim().match(/^(\/)?([a-z][\w-]*)(?:\s+([\s\S]*))?$/i);
+    if (!match) {
+      return null;
+    }
+    return {
+      name: match[2].toLowerCase(),
+      args: match[3] ? match[3].trim().split(/\s+/) : [],
+      slash: !!match[1],
+    };
+  }
+
+  /**
+   * Explain why arguments don't fit the schema, or null if the schema can't tell
+   */
+  validate(spec: CommandSpec, args: string[]): string | null {
+    const schema = spec.args || [];
+
+    for (let i = 0; i < schema.length; i++) {
+      const arg = schema[i];
+      const value = args[i];
+
+      if (value === undefined) {
+        return arg.required ? `Missing required argument \`<${arg.name}>\`.` : null;
+      }
+      if (arg.choices && !arg.choices.some((c) => c.toLowerCase() === value.toLowerCase())) {
+        return `Invalid value \`${value}\` for \`<${arg.name}>\`. Expected one of: ${arg.choices
+          .map((c) => `\`${c}\``)
+          .join(', ')}.`;
+      }
+      if (arg.rest) {
+        return null;
+      }
+    }
+
+    if (args.length > schema.length) {
+      const extra = args.slice(schema.length).join(' ');
+      return schema.length === 0
+        ? `\`${spec.name}\` takes no arguments (got \`${extra}\`).`
+        : `Unexpected argument \`${extra}\`.`;
+    }
+    return null;
+  }
+
+  /**
+   * Closest command names for a mistyped word
+   */
+  suggest(word: string, limit = 3): string[] {
+    const input = word.replace(/^\//, '').toLowerCase();
+    // Short words are too easily confused with ordinary prompts (e.g., `/review`)
+    const maxDistance = input.length >= 7 ? 2 : 1;
+
+    const scored: Array<{ name: string; distance: number }> = [];
+    for (const spec of this.specs) {
+      const distance = Math.min(
+        ...[spec.name, ...(spec.aliases || [])].map((key) => editDistance(input, key.toLowerCase()))
+      );
+      if (distance <= maxDistance) {
+        scored.push({ name: spec.name, distance });
+      }
+    }
+
+    return scored
+      .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+      .slice(0, limit)
+      .map((s) => s.name);
+  }
+
+  /**
+   * Full help message grouped by category
+   */
+  formatHelp(): string {
+    const lines = ['*📚 Available Commands*', '_Commands also work with a leading `/` (e.g., `/cwd`)._'];
+
+    for (const category of COMMAND_CATEGORIES) {
+      const specs = this.specs.filter((s) => s.category === category);
+      if (specs.length === 0) continue;
+
+      lines.push('', `*${category}:*`);
+      for (const spec of specs) {
+        lines.push(...CommandRegistry.formatUsageLines(spec));
+      }
+    }
+
+    lines.push('', '_Use `help <command>` for details on a single command._');
+    return lines.join('\n');
+  }
+
+  /**
+   * Detailed help page for one command
+   */
+  formatCommandHelp(spec: CommandSpec): string {
+    const lines = [`*📖 ${spec.name}* - ${spec.description}`, '', '*Usage:*', ...CommandRegistry.formatUsageLines(spec)];
+
+    if (spec.args && spec.args.length > 0) {
+      lines.push('', '*Arguments:*');
+      for (const arg of spec.args) {
+        const flags = [arg.required ? 'required' : 'optional'];
+        if (arg.choices) flags.push(`one of ${arg.choices.map((c) => `\`${c}\``).join(', ')}`);
+        lines.push(`• \`<${arg.name}>\` - ${flags.join(', ')}`);
+      }
+    }
+
+    if (spec.aliases && spec.aliases.length > 0) {
+      lines.push('', `*Aliases:* ${spec.aliases.map((a) => `\`${a}\``).join(', ')}`);
+    }
+    if (spec.examples && spec.examples.length > 0) {
+      lines.push('', '*Examples:*', ...spec.examples.map((e) => `• \`${e}\``));
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * One bullet per usage line of a command, e.g. "• `queue drop <n>` - Drop a queued message"
+   */
+  static formatUsageLines(spec: CommandSpec): string[] {
+    return spec.usage.map((usage) => `• \`${formatUsage(spec, usage.args)}\` - ${usage.description}`);
+  }
+
+  /**
+   * Error reply for a known command with arguments no handler or parser accepted
+   */
+  formatUsageError(spec: CommandSpec, args: string[]): string {
+    const reason = this.validate(spec, args) || `Invalid arguments for \`${spec.name}\`.`;
+    const usage = spec.usage.map((u) => `• \`${formatUsage(spec, u.args)}\``).join('\n');
+    return `❌ ${reason}\n\n*Usage:*\n${usage}\n\n_See \`help ${spec.name}\` for details._`;
+  }
+}
+
+function formatUsage(spec: CommandSpec, args?: string): string {
+  return args ? `${spec.name} ${args}` : spec.name;
+}
+
+/**
+ * Edit distance between two words, counting an adjacent swap as one edit
+ * (optimal string alignment), so `modle` is one edit away from `model`
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
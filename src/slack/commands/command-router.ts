@@ -5,12 +5,22 @@ import { McpHandler } from './mcp-handler';
 import { BypassHandler } from './bypass-handler';
 import { PersonaHandler } from './persona-handler';
 import { ModelHandler } from './model-handler';
+import { VerbosityHandler } from './verbosity-handler';
 import { HelpHandler } from './help-handler';
 import { SessionHandler } from './session-handler';
 import { RestoreHandler } from './restore-handler';
 import { NewHandler } from './new-handler';
+import { RollbackHandler } from './rollback-handler';
 import { ContextHandler } from './context-handler';
 import { RenewHandler } from './renew-handler';
+import { BudgetHandler } from './budget-handler';
+import { UsageHandler } from './usage-handler';
+import { QueueHandler } from './queue-handler';
+import { PolicyHandler } from './policy-handler';
+import { AuditHandler } from './audit-handler';
+import { WorkflowHandler } from './workflow-handler';
+import { ScheduleHandler } from './schedule-handler';
+import { CommandRegistry } from './command-registry';
 
 /**
  * Routes commands to appropriate handlers
@@ -18,6 +28,7 @@ import { RenewHandler } from './renew-handler';
 export class CommandRouter {
   private logger = new Logger('CommandRouter');
   private handlers: CommandHandler[] = [];
+  private registry = new CommandRegistry();
 
   constructor(deps: CommandDependencies) {
     // Register all command handlers in priority order
@@ -26,15 +37,32 @@ export class CommandRouter {
       new CwdHandler(deps),
       new McpHandler(deps),
       new BypassHandler(),
+      new PolicyHandler(deps),
+      new AuditHandler(),
       new PersonaHandler(),
       new ModelHandler(),
+      new VerbosityHandler(),
       new RestoreHandler(),
       new NewHandler(deps),
+      new RollbackHandler(deps),
       new ContextHandler(deps),
       new RenewHandler(deps),
-      new HelpHandler(),
+      new WorkflowHandler(deps),
+      new BudgetHandler(),
+      new UsageHandler(deps),
+      new QueueHandler(deps),
+      new ScheduleHandler(deps),
+      new HelpHandler(this.registry),
       new SessionHandler(deps),
     ];
+
+    for (const handler of this.handlers) {
+      this.registry.register(handler.commands);
+    }
+  }
+
+  getRegistry(): CommandRegistry {
+    return this.registry;
   }
 
   /**
@@ -57,6 +85,9 @@ export class CommandRouter {
 
         try {
           const result = await handler.execute(ctx);
+          if (result.invalidArgs) {
+            return this.replyUsageError(ctx);
+          }
           if (result.handled) {
             return result;
           }
@@ -70,7 +101,52 @@ export class CommandRouter {
       }
     }
 
-    return { handled: false };
+    return this.handleUnmatched(ctx);
+  }
+
+  /**
+   * Explain slash-prefixed input no handler accepted
+   * Plain text falls through to Claude, since it may just be a prompt.
+   */
+  private async handleUnmatched(ctx: CommandContext): Promise<CommandResult> {
+    const invocation = CommandRegistry.parseInvocation(ctx.text);
+    if (!invocation?.slash) {
+      return { handled: false };
+    }
+
+    if (this.registry.find(invocation.name)) {
+      return this.replyUsageError(ctx);
+    }
+
+    const suggestions = this.registry.suggest(invocation.name);
+    if (suggestions.length === 0) {
+      return { handled: false };
+    }
+
+    await ctx.say({
+      text: `❓ Unknown command \`/${invocation.name}\`. Did you mean ${suggestions
+        .map((name) => `\`${name}\``)
+        .join(' or ')}? Type \`help\` for all commands.`,
+      thread_ts: ctx.threadTs,
+    });
+    return { handled: true };
+  }
+
+  /**
+   * Reply with the usage of the command the text invokes
+   */
+  private async replyUsageError(ctx: CommandContext): Promise<CommandResult> {
+    const invocation = CommandRegistry.parseInvocation(ctx.text);
+    const spec = invocation && this.registry.find(invocation.name);
+    if (!spec) {
+      return { handled: false };
+    }
+
+    await ctx.say({
+      text: this.registry.formatUsageError(spec, invocation.args),
+      thread_ts: ctx.threadTs,
+    });
+    return { handled: true };
   }
 
   /**
@@ -1,5 +1,6 @@
-import { CommandHandler, CommandContext, CommandResult, CommandDependencies } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
 import { CommandParser } from '../command-parser';
+import { MessageFormatter } from '../message-formatter';
 
 /**
  * Handles /context command - displays current session context window usage
@@ -7,6 +8,15 @@ import { CommandParser } from '../command-parser';
 export class ContextHandler implements CommandHandler {
   constructor(private deps: CommandDependencies) {}
 
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'context',
+      category: 'Sessions',
+      description: 'Show current session token usage and cost',
+      usage: [{ description: 'Show current session token usage and cost' }],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return CommandParser.isContextCommand(text);
   }
@@ -24,11 +34,12 @@ export class ContextHandler implements CommandHandler {
       return { handled: true };
     }
 
+    const links = MessageFormatter.formatSessionLinks(session.links);
+
     if (!session.usage) {
-      await say({
-        text: '📊 *Session Context*\n\nNo usage data available yet. Send a message to start tracking.',
-        thread_ts: threadTs,
-      });
+      const text = '📊 *Session Context*\n\n' + (links ? `*Links:* ${links}\n` : '') +
+        'No usage data available yet. Send a message to start tracking.';
+      await say({ text, thread_ts: threadTs });
       return { handled: true };
     }
 
@@ -59,6 +70,11 @@ export class ContextHandler implements CommandHandler {
       lines.push(`*Model:* \`${session.model}\``);
     }
 
+    // PR / Jira / Confluence the session is about
+    if (links) {
+      lines.push(`*Links:* ${links}`);
+    }
+
     // Current context window usage (what user wants to see!)
     lines.push(`*Context Window:* ${formatTokens(currentContext)} / ${formatTokens(contextWindow)} (${availablePercent.toFixed(0)}% available)`);
 
@@ -1,4 +1,4 @@
-import { CommandHandler, CommandContext, CommandResult, CommandDependencies } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
 
 /**
  * Handles working directory commands (cwd set/get)
@@ -6,6 +6,21 @@ import { CommandHandler, CommandContext, CommandResult, CommandDependencies } fr
 export class CwdHandler implements CommandHandler {
   constructor(private deps: CommandDependencies) {}
 
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'cwd',
+      aliases: ['dir', 'directory'],
+      category: 'Working Directory',
+      description: 'Show or set the working directory',
+      usage: [
+        { args: '<path>', description: 'Set working directory' },
+        { description: 'Show current working directory' },
+      ],
+      args: [{ name: 'path', rest: true }],
+      examples: ['cwd my-repo', 'cwd /Users/me/work/my-repo'],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return this.deps.workingDirManager.parseSetCommand(text) !== null ||
            this.deps.workingDirManager.isGetCommand(text);
@@ -1,22 +1,57 @@
-import { CommandHandler, CommandContext, CommandResult } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec } from './types';
 import { CommandParser } from '../command-parser';
+import { CommandRegistry } from './command-registry';
 
 /**
- * Handles help command
+ * Handles help command - full list or `help <command>` pages generated from the registry
  */
 export class HelpHandler implements CommandHandler {
+  constructor(private registry: CommandRegistry) {}
+
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'help',
+      aliases: ['commands', 'command'],
+      category: 'Help',
+      description: 'Show available commands',
+      usage: [
+        { description: 'Show this help message' },
+        { args: '<command>', description: 'Show details for a single command' },
+      ],
+      args: [{ name: 'command' }],
+    },
+  ];
+
   canHandle(text: string): boolean {
-    return CommandParser.isHelpCommand(text);
+    if (CommandParser.isHelpCommand(text)) {
+      return true;
+    }
+    // "help me with X" is a prompt; only take topics that are commands, or explicit /help
+    const topic = CommandParser.parseHelpTopic(text);
+    return topic !== null && (!!this.registry.find(topic) || text.trim().startsWith('/'));
   }
 
   async execute(ctx: CommandContext): Promise<CommandResult> {
-    const { threadTs, say } = ctx;
+    const { text, threadTs, say } = ctx;
+    const topic = CommandParser.parseHelpTopic(text);
+
+    if (!topic) {
+      await say({ text: this.registry.formatHelp(), thread_ts: threadTs });
+      return { handled: true };
+    }
 
+    const spec = this.registry.find(topic);
+    if (spec) {
+      await say({ text: this.registry.formatCommandHelp(spec), thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    const suggestions = this.registry.suggest(topic);
+    const hint = suggestions.length > 0 ? ` Did you mean ${suggestions.map((s) => `\`${s}\``).join(' or ')}?` : '';
     await say({
-      text: CommandParser.getHelpMessage(),
+      text: `❓ No command named \`${topic}\`.${hint} Type \`help\` for all commands.`,
       thread_ts: threadTs,
     });
-
     return { handled: true };
   }
 }
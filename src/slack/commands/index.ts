@@ -2,15 +2,36 @@
  * Command handlers module
  */
 export { CommandRouter } from './command-router';
-export { CommandHandler, CommandContext, CommandResult, CommandDependencies, SayFn } from './types';
+export { SlashCommandAdapter, SlashCommandSpec, SLASH_COMMANDS, toTextCommand } from './slash-commands';
+export { CommandRegistry, CommandInvocation } from './command-registry';
+export {
+  CommandHandler,
+  CommandContext,
+  CommandResult,
+  CommandDependencies,
+  CommandSpec,
+  CommandArgSpec,
+  CommandUsage,
+  CommandCategory,
+  SayFn,
+} from './types';
 export { CwdHandler } from './cwd-handler';
 export { McpHandler } from './mcp-handler';
 export { BypassHandler } from './bypass-handler';
 export { PersonaHandler } from './persona-handler';
 export { ModelHandler } from './model-handler';
+export { VerbosityHandler } from './verbosity-handler';
 export { HelpHandler } from './help-handler';
 export { SessionHandler } from './session-handler';
 export { RestoreHandler } from './restore-handler';
 export { NewHandler } from './new-handler';
+export { RollbackHandler } from './rollback-handler';
 export { ContextHandler } from './context-handler';
 export { RenewHandler } from './renew-handler';
+export { WorkflowHandler } from './workflow-handler';
+export { BudgetHandler } from './budget-handler';
+export { UsageHandler } from './usage-handler';
+export { QueueHandler } from './queue-handler';
+export { PolicyHandler } from './policy-handler';
+export { AuditHandler } from './audit-handler';
+export { ScheduleHandler } from './schedule-handler';
@@ -1,4 +1,4 @@
-import { CommandHandler, CommandContext, CommandResult, CommandDependencies } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
 import { CommandParser } from '../command-parser';
 
 /**
@@ -7,6 +7,20 @@ import { CommandParser } from '../command-parser';
 export class McpHandler implements CommandHandler {
   constructor(private deps: CommandDependencies) {}
 
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'mcp',
+      aliases: ['servers', 'server'],
+      category: 'MCP Servers',
+      description: 'Show MCP server status or reload the configuration',
+      usage: [
+        { description: 'Show MCP server status' },
+        { args: 'reload', description: 'Reload MCP configuration' },
+      ],
+      args: [{ name: 'action', choices: ['info', 'list', 'status', 'reload', 'refresh'] }],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return CommandParser.isMcpInfoCommand(text) || CommandParser.isMcpReloadCommand(text);
   }
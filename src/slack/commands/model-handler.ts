@@ -1,4 +1,4 @@
-import { CommandHandler, CommandContext, CommandResult } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec } from './types';
 import { CommandParser } from '../command-parser';
 import { userSettingsStore, AVAILABLE_MODELS, MODEL_ALIASES } from '../../user-settings-store';
 
@@ -6,6 +6,21 @@ import { userSettingsStore, AVAILABLE_MODELS, MODEL_ALIASES } from '../../user-s
  * Handles model commands (status/list/set)
  */
 export class ModelHandler implements CommandHandler {
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'model',
+      category: 'Model',
+      description: 'Show, list or set your default model',
+      usage: [
+        { description: 'Show current default model' },
+        { args: 'list', description: 'List available models' },
+        { args: '<name>', description: 'Set default model (e.g., `model opus-4.5`)' },
+      ],
+      args: [{ name: 'name' }],
+      examples: ['model list', 'model opus-4.5'],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return CommandParser.isModelCommand(text);
   }
@@ -1,4 +1,4 @@
-import { CommandHandler, CommandContext, CommandResult, CommandDependencies } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
 import { CommandParser } from '../command-parser';
 
 /**
@@ -8,6 +8,19 @@ import { CommandParser } from '../command-parser';
 export class NewHandler implements CommandHandler {
   constructor(private deps: CommandDependencies) {}
 
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'new',
+      category: 'Sessions',
+      description: 'Reset session context in this thread',
+      usage: [
+        { description: 'Reset session context (start fresh conversation in same thread)' },
+        { args: '<prompt>', description: 'Reset and start with new prompt' },
+      ],
+      args: [{ name: 'prompt', rest: true }],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return CommandParser.isNewCommand(text);
   }
@@ -1,4 +1,4 @@
-import { CommandHandler, CommandContext, CommandResult } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec } from './types';
 import { CommandParser } from '../command-parser';
 import { userSettingsStore } from '../../user-settings-store';
 import { getAvailablePersonas } from '../../claude-handler';
@@ -7,6 +7,20 @@ import { getAvailablePersonas } from '../../claude-handler';
  * Handles persona commands (status/list/set)
  */
 export class PersonaHandler implements CommandHandler {
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'persona',
+      category: 'Persona',
+      description: 'Show, list or set your persona',
+      usage: [
+        { description: 'Show current persona' },
+        { args: 'list', description: 'List available personas' },
+        { args: 'set <name>', description: 'Set persona' },
+      ],
+      args: [{ name: 'action', choices: ['list', 'status', 'set'] }, { name: 'name' }],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return CommandParser.isPersonaCommand(text);
   }
@@ -0,0 +1,166 @@
+import { CommandHandler, CommandContext, CommandResult, CommandDependencies, CommandSpec } from './types';
+import { CommandParser } from '../command-parser';
+import { permissionPolicyStore, PolicyBehavior, PolicyContext, matchesRule } from '../../permission/policy';
+import { userSettingsStore } from '../../user-settings-store';
+import { sharedStore } from '../../shared-store';
+
+const BEHAVIOR_LABELS: Record<PolicyBehavior, string> = {
+  allow: '✅ allow',
+  deny: '⛔ deny',
+  ask: '❓ ask',
+};
+
+/**
+ * Handles policy command - shows the permission rules in effect here, or checks a tool call
+ */
+export class PolicyHandler implements CommandHandler {
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'policy',
+      aliases: ['policies'],
+      category: 'Permissions',
+      description: 'Show the permission policy rules in effect here',
+      usage: [
+        { description: 'Show effective allow/deny/ask rules for you, this channel and directory' },
+        { args: 'check <Tool>(<input>)', description: 'Show how a tool call would be decided' },
+        { args: 'forget <rule>', description: 'Stop auto-approving a remembered rule' },
+        { args: 'forget all', description: 'Forget all your always-allow and session approvals' },
+      ],
+      args: [{ name: 'action', choices: ['show', 'check', 'forget'] }, { name: 'tool-call', rest: true }],
+      examples: [
+        'policy check Bash(git push origin main)',
+        'policy check mcp__github__create_issue',
+        'policy forget Bash(git status*)',
+      ],
+    },
+  ];
+
+  constructor(private deps: CommandDependencies) {}
+
+  canHandle(text: string): boolean {
+    return CommandParser.isPolicyCommand(text);
+  }
+
+  async execute(ctx: CommandContext): Promise<CommandResult> {
+    const { user, channel, threadTs, text, say } = ctx;
+    const policyAction = CommandParser.parsePolicyCommand(text);
+    const policyContext = this.getPolicyContext(user, channel, threadTs);
+
+    if (policyAction.action === 'check') {
+      const decision = permissionPolicyStore.evaluateSubject(
+        policyAction.toolName,
+        policyAction.subject,
+        policyContext
+      );
+      const call = policyAction.subject
+        ? `${policyAction.toolName}(${policyAction.subject})`
+        : policyAction.toolName;
+
+      let behavior = decision.behavior;
+      let reason = decision.rule
+        ? `matched \`${decision.rule.rule}\` (${decision.rule.source})`
+        : 'no rule matched, so you will be asked';
+      if (!decision.rule) {
+        // Same order as the permission server: always-allow rules, then session approvals
+        const remembered = (await this.getRememberedRules(user, channel, threadTs)).find((r) =>
+          matchesRule(r.rule, policyAction.toolName, policyAction.subject)
+        );
+        if (remembered) {
+          behavior = 'allow';
+          reason = `no policy rule matched; you approved \`${remembered.rule}\` (${remembered.scope})`;
+        }
+      }
+
+      await say({
+        text: `🛡️ \`${call}\` → *${BEHAVIOR_LABELS[behavior]}*\n_${reason}_${this.bypassNote(user)}`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    if (policyAction.action === 'forget') {
+      const removed =
+        userSettingsStore.removeUserAllowRules(user, policyAction.rule) +
+        (threadTs ? await sharedStore.removeSessionApprovals(channel, threadTs, policyAction.rule) : 0);
+      const target = policyAction.rule ? `\`${policyAction.rule}\`` : 'all remembered approvals';
+
+      await say({
+        text:
+          removed > 0
+            ? `🧹 Forgot ${target}. Matching tool calls will ask for approval again.`
+            : `ℹ️ Nothing to forget: ${target} is not remembered for you here.`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    const rules = permissionPolicyStore.getEffectiveRules(policyContext);
+    const lines = ['🛡️ *Permission Policy*', ''];
+
+    if (rules.length === 0) {
+      lines.push('_No rules apply here. Every tool call asks for approval._');
+    } else {
+      for (const behavior of ['deny', 'ask', 'allow'] as PolicyBehavior[]) {
+        const matching = rules.filter((r) => r.behavior === behavior);
+        if (matching.length === 0) continue;
+
+        lines.push(`*${BEHAVIOR_LABELS[behavior]}*`);
+        for (const rule of matching) {
+          lines.push(`• \`${rule.rule}\` _(${rule.source})_`);
+        }
+        lines.push('');
+      }
+      lines.push('_deny beats ask beats allow; calls matching no rule ask for approval._');
+    }
+
+    const remembered = await this.getRememberedRules(user, channel, threadTs);
+    if (remembered.length > 0) {
+      lines.push('', '*🔓 Remembered approvals* _(used when no policy rule matches)_');
+      for (const { rule, scope } of remembered) {
+        lines.push(`• \`${rule}\` _(${scope})_`);
+      }
+      lines.push('_Use `policy forget <rule>` or `policy forget all` to ask again._');
+    }
+
+    if (policyContext.workingDirectory) {
+      lines.push(`_Working directory: \`${policyContext.workingDirectory}\`_`);
+    }
+    lines.push(`_Policy file: \`${permissionPolicyStore.getFilePath()}\`_${this.bypassNote(user)}`);
+
+    await say({ text: lines.join('\n'), thread_ts: threadTs });
+    return { handled: true };
+  }
+
+  private getPolicyContext(user: string, channel: string, threadTs: string): PolicyContext {
+    const session = threadTs ? this.deps.claudeHandler.getSession(channel, threadTs) : undefined;
+    const workingDirectory =
+      session?.workingDirectory || this.deps.workingDirManager.getWorkingDirectory(channel, undefined, user);
+    return { user, channel, workingDirectory };
+  }
+
+  /**
+   * Rules the user chose to always allow, plus rules approved for this thread's session
+   */
+  private async getRememberedRules(
+    user: string,
+    channel: string,
+    threadTs: string
+  ): Promise<Array<{ rule: string; scope: 'always' | 'this session' }>> {
+    const always = userSettingsStore
+      .getUserAllowRules(user)
+      .map((rule) => ({ rule, scope: 'always' as const }));
+    const session = threadTs
+      ? (await sharedStore.getSessionApprovals(channel, threadTs)).map((a) => ({
+          rule: a.rule,
+          scope: 'this session' as const,
+        }))
+      : [];
+    return [...always, ...session];
+  }
+
+  private bypassNote(user: string): string {
+    return userSettingsStore.getUserBypassPermission(user)
+      ? '\n⚠️ _Permission bypass is on for you, so these rules are not applied._'
+      : '';
+  }
+}
@@ -0,0 +1,129 @@
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
+import { CommandParser } from '../command-parser';
+import { MessageFormatter } from '../message-formatter';
+import { QueuedMessage } from '../message-queue';
+
+const PREVIEW_LENGTH = 60;
+
+/**
+ * Handles queue command - show, reorder or drop messages waiting in this thread
+ * Anyone can drop their own messages; the session owner can manage all of them.
+ */
+export class QueueHandler implements CommandHandler {
+  constructor(private deps: CommandDependencies) {}
+
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'queue',
+      category: 'Sessions',
+      description: 'Show, reorder or drop messages waiting in this thread',
+      usage: [
+        { description: 'Show messages waiting for the current response' },
+        { args: 'move <from> <to>', description: 'Reorder queued messages' },
+        { args: 'drop <n>', description: 'Remove a queued message' },
+        { args: 'clear', description: 'Remove all queued messages' },
+      ],
+      args: [{ name: 'action', choices: ['show', 'list', 'move', 'drop', 'clear'] }, { name: 'position', rest: true }],
+    },
+  ];
+
+  canHandle(text: string): boolean {
+    return CommandParser.isQueueCommand(text);
+  }
+
+  async execute(ctx: CommandContext): Promise<CommandResult> {
+    const { user, channel, threadTs, text, say } = ctx;
+    const queueAction = CommandParser.parseQueueCommand(text);
+    const sessionKey = this.deps.claudeHandler.getSessionKey(channel, threadTs);
+    const { messageQueue } = this.deps;
+
+    const session = this.deps.claudeHandler.getSession(channel, threadTs);
+    const isOwner = !session || session.ownerId === user;
+
+    if (queueAction.action === 'show') {
+      await say({ text: this.formatQueue(sessionKey), thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    if (queueAction.action === 'drop') {
+      const item = messageQueue.list(sessionKey)[queueAction.position - 2];
+      if (!item) {
+        await say({ text: `❌ No queued message at #${queueAction.position}.`, thread_ts: threadTs });
+        return { handled: true };
+      }
+      if (!isOwner && item.event.user !== user) {
+        await say({
+          text: '🚫 Only the session owner can drop other people\'s messages.',
+          thread_ts: threadTs,
+        });
+        return { handled: true };
+      }
+
+      messageQueue.drop(sessionKey, queueAction.position);
+      await messageQueue.clearReaction(item);
+      await messageQueue.syncReactions(sessionKey);
+      await say({
+        text: `🗑️ Dropped #${queueAction.position}: _${this.preview(item)}_`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    if (!isOwner) {
+      await say({ text: '🚫 Only the session owner can reorder or clear the queue.', thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    if (queueAction.action === 'clear') {
+      const dropped = messageQueue.clear(sessionKey);
+      for (const item of dropped) {
+        await messageQueue.clearReaction(item);
+      }
+      await say({ text: `🗑️ Cleared ${dropped.length} queued message(s).`, thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    if (!messageQueue.move(sessionKey, queueAction.from, queueAction.to)) {
+      await say({
+        text: `❌ Invalid position. Queued messages are numbered #2–#${messageQueue.size(sessionKey) + 1}.`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    await messageQueue.syncReactions(sessionKey);
+    await say({
+      text: `↕️ Moved #${queueAction.from} to #${queueAction.to}.\n\n${this.formatQueue(sessionKey)}`,
+      thread_ts: threadTs,
+    });
+    return { handled: true };
+  }
+
+  private formatQueue(sessionKey: string): string {
+    const items = this.deps.messageQueue.list(sessionKey);
+    const isRunning = !this.deps.requestCoordinator.canStartRequest(sessionKey);
+
+    if (items.length === 0) {
+      return isRunning ? '📭 No messages waiting. The current response is still running.' : '📭 Queue is empty.';
+    }
+
+    const lines = [`📋 *Message Queue* (${items.length} pending)`, ''];
+    if (isRunning) {
+      lines.push('▶️ *#1* _running_');
+    }
+    items.forEach((item, index) => {
+      const age = MessageFormatter.formatTimeAgo(new Date(item.enqueuedAt));
+      lines.push(`*#${index + 2}* <@${item.event.user}> ${this.preview(item)} _(${age})_`);
+    });
+    lines.push('', '_Use `queue move <from> <to>`, `queue drop <n>` or `queue clear`._');
+    return lines.join('\n');
+  }
+
+  private preview(item: QueuedMessage): string {
+    const text = (item.text || '').replace(/\s+/g, ' ').trim();
+    if (!text) {
+      return item.processedFiles.length > 0 ? `[${item.processedFiles.length} file(s)]` : '[empty]';
+    }
+    return text.length > PREVIEW_LENGTH ? `"${text.substring(0, PREVIEW_LENGTH)}…"` : `"${text}"`;
+  }
+}
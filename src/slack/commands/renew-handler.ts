@@ -1,4 +1,4 @@
-import { CommandHandler, CommandContext, CommandResult, CommandDependencies } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
 import { CommandParser } from '../command-parser';
 
 /**
@@ -8,6 +8,15 @@ import { CommandParser } from '../command-parser';
 export class RenewHandler implements CommandHandler {
   constructor(private deps: CommandDependencies) {}
 
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'renew',
+      category: 'Sessions',
+      description: 'Save context, reset session, and reload (for long sessions)',
+      usage: [{ description: 'Save context, reset session, and reload (for long sessions)' }],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return CommandParser.isRenewCommand(text);
   }
@@ -48,6 +57,7 @@ export class RenewHandler implements CommandHandler {
     // Set renew state and save current workflow
     session.renewState = 'pending_save';
     session.savedWorkflow = session.workflow;
+    this.deps.claudeHandler.saveSession(channel, threadTs);
 
     await say({
       text: '🔄 Starting renew process...\n• Saving current context\n• Will reset and reload automatically',
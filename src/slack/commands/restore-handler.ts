@@ -1,4 +1,4 @@
-import { CommandHandler, CommandContext, CommandResult } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec } from './types';
 import { CommandParser } from '../command-parser';
 import { Logger } from '../../logger';
 import {
@@ -14,6 +14,17 @@ import {
 export class RestoreHandler implements CommandHandler {
   private logger = new Logger('RestoreHandler');
 
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'restore',
+      aliases: ['credentials', 'credential'],
+      category: 'Credentials',
+      description: 'Restore Claude credentials from backup',
+      usage: [{ description: 'Restore Claude credentials from backup' }],
+      args: [{ name: 'action', choices: ['restore', 'status'] }],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return CommandParser.isRestoreCommand(text);
   }
@@ -0,0 +1,86 @@
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
+import { CommandParser } from '../command-parser';
+import { MessageFormatter } from '../message-formatter';
+import { TurnRollback } from '../turn-rollback';
+import { config } from '../../config';
+
+/**
+ * Handles rollback command - restores the working directory to a checkpoint taken before a turn
+ */
+export class RollbackHandler implements CommandHandler {
+  private rollback: TurnRollback;
+
+  constructor(private deps: CommandDependencies) {
+    this.rollback = new TurnRollback({
+      claudeHandler: deps.claudeHandler,
+      requestCoordinator: deps.requestCoordinator,
+    });
+  }
+
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'rollback',
+      category: 'Sessions',
+      description: "Undo file changes from this thread's last turns",
+      usage: [
+        { description: 'Restore files to how they were before the last turn' },
+        { args: '<n>', description: 'Restore files to how they were before the last n turns' },
+        { args: '<n> force', description: 'Same, also discarding changes made after the last turn' },
+        { args: 'list', description: 'Show the checkpoints in this thread' },
+      ],
+      args: [{ name: 'turns' }, { name: 'force', choices: ['force'] }],
+      examples: ['rollback 3', 'rollback list'],
+    },
+  ];
+
+  canHandle(text: string): boolean {
+    return CommandParser.isRollbackCommand(text);
+  }
+
+  async execute(ctx: CommandContext): Promise<CommandResult> {
+    const { user, channel, threadTs, text, say } = ctx;
+    const action = CommandParser.parseRollbackCommand(text);
+
+    if (!config.checkpoints.enabled) {
+      await say({
+        text: '⚠️ Checkpoints are disabled. Set `CHECKPOINTS_ENABLED=true` to record them before each turn.',
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    if (action.action === 'invalid') {
+      return { handled: true, invalidArgs: true };
+    }
+
+    if (action.action === 'list') {
+      const checkpoints = this.deps.claudeHandler.getSession(channel, threadTs)?.checkpoints ?? [];
+      if (checkpoints.length === 0) {
+        await say({ text: '💡 No checkpoints in this thread yet.', thread_ts: threadTs });
+        return { handled: true };
+      }
+
+      const lines = [`🗂️ *Checkpoints* (${checkpoints.length})`];
+      checkpoints
+        .slice()
+        .reverse()
+        .forEach((checkpoint, index) => {
+          const prompt = checkpoint.prompt ? ` · _${checkpoint.prompt}_` : '';
+          lines.push(
+            `${index + 1}. ${MessageFormatter.formatTimeAgo(new Date(checkpoint.createdAt))} · 📁 \`${checkpoint.workingDirectory}\`${prompt}`
+          );
+        });
+      lines.push('', '_`rollback <n>` restores files to how they were before checkpoint n._');
+
+      await say({ text: lines.join('\n'), thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    const result = await this.rollback.rollback(channel, threadTs, user, action.turns, action.force);
+    await say({
+      text: result.ok ? TurnRollback.formatResult(result, user) : `❌ ${result.error}`,
+      thread_ts: threadTs,
+    });
+    return { handled: true };
+  }
+}
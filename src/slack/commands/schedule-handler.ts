@@ -0,0 +1,175 @@
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
+import { CommandParser } from '../command-parser';
+import { CommandRegistry } from './command-registry';
+import { isAdminUser, config } from '../../config';
+import { workflowRegistry } from '../../workflow-registry';
+import { CronParseError, ScheduledJob, computeNextRun, isValidTimeZone, parseCron, scheduleStore } from '../../scheduler';
+
+const CRON_HINT =
+  '_Cron fields: minute hour day month weekday (e.g., `"0 9 * * 1-5"` = weekdays 09:00). ' +
+  'Macros: `@hourly`, `@daily`, `@weekly`, `@monthly`, `@weekdays`._';
+
+// Characters of the prompt shown in the schedule list
+const PROMPT_PREVIEW_LENGTH = 80;
+
+/**
+ * Handles schedule commands - recurring prompts that run in a new thread
+ */
+export class ScheduleHandler implements CommandHandler {
+  constructor(private deps: CommandDependencies) {}
+
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'schedule',
+      aliases: ['schedules'],
+      category: 'Schedules',
+      description: 'Run a prompt on a cron schedule in a new thread',
+      usage: [
+        { description: 'List schedules in this channel and your own' },
+        {
+          args: 'add "<cron>" [tz=<zone>] [workflow=<name>] [#channel] <prompt>',
+          description: 'Run a prompt on a schedule as you',
+        },
+        { args: 'pause|resume|delete <id>', description: 'Manage a schedule (owner or admin)' },
+      ],
+      args: [
+        { name: 'action', choices: ['list', 'add', 'pause', 'resume', 'delete', 'remove', 'rm'] },
+        { name: 'args', rest: true },
+      ],
+      examples: [
+        'schedule add "0 9 * * 1-5" tz=Asia/Seoul workflow=jira-executive-summary #standup Summarize the PROJ board',
+        'schedule add @daily Check open Dependabot PRs',
+        'schedule pause 3f9a2c',
+      ],
+    },
+  ];
+
+  canHandle(text: string): boolean {
+    return CommandParser.isScheduleCommand(text);
+  }
+
+  async execute(ctx: CommandContext): Promise<CommandResult> {
+    const { user, channel, threadTs, text, say } = ctx;
+    const action = CommandParser.parseScheduleCommand(text);
+
+    if (action.action === 'invalid') {
+      return { handled: true, invalidArgs: true };
+    }
+
+    if (action.action === 'list') {
+      const jobs = scheduleStore.list().filter((job) => job.channelId === channel || job.ownerId === user);
+      const lines =
+        jobs.length === 0
+          ? ['⏰ *No schedules yet*', '', '*Usage:*', ...CommandRegistry.formatUsageLines(this.commands[0]), '', CRON_HINT]
+          : [`⏰ *Schedules* (${jobs.length})`, '', ...jobs.map((job) => this.formatJob(job))];
+      const text = lines.join('\n');
+      await say({ text, thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    if (action.action === 'add') {
+      const timezone = action.timezone || config.scheduler.defaultTimezone;
+      const error = this.validateNewJob(action.cron, timezone, action.workflow);
+      if (error) {
+        await say({ text: `❌ ${error}`, thread_ts: threadTs });
+        return { handled: true };
+      }
+
+      const nextRunAt = computeNextRun(action.cron, timezone, new Date());
+      if (!nextRunAt) {
+        await say({ text: `❌ \`${action.cron}\` never fires.`, thread_ts: threadTs });
+        return { handled: true };
+      }
+
+      const job = scheduleStore.add({
+        cron: parseCron(action.cron).expression,
+        timezone,
+        prompt: action.prompt,
+        channelId: action.channelId || channel,
+        ownerId: user,
+        ownerName: await this.deps.slackApi.getUserName(user),
+        workflow: action.workflow,
+        nextRunAt,
+      });
+      await say({
+        text: `✅ *Schedule Added*\n\n${this.formatJob(job)}\n\n_Runs use your working directory and budget. Manage it with \`schedule pause|delete ${job.id}\`._`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    const job = scheduleStore.get(action.id);
+    if (!job) {
+      await say({ text: `❌ No schedule with ID \`${action.id}\`. Use \`schedule\` to list them.`, thread_ts: threadTs });
+      return { handled: true };
+    }
+    if (job.ownerId !== user && !isAdminUser(user)) {
+      await say({ text: `🚫 Only <@${job.ownerId}> or an admin can change schedule \`${job.id}\`.`, thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    if (action.action === 'delete') {
+      scheduleStore.remove(job.id);
+      await say({ text: `🗑️ Deleted schedule \`${job.id}\`.`, thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    // Resuming starts from now; runs missed while paused are not caught up
+    const updated = scheduleStore.update(job.id, {
+      paused: action.action === 'pause',
+      nextRunAt: action.action === 'pause' ? undefined : computeNextRun(job.cron, job.timezone, new Date()),
+    })!;
+    await say({
+      text: `${action.action === 'pause' ? '⏸️ Paused' : '▶️ Resumed'} schedule\n\n${this.formatJob(updated)}`,
+      thread_ts: threadTs,
+    });
+    return { handled: true };
+  }
+
+  private validateNewJob(cron: string, timezone: string, workflow?: string): string | null {
+    try {
+      parseCron(cron);
+    } catch (error) {
+      if (error instanceof CronParseError) {
+        return `Invalid cron \`${cron}\`: ${error.message}`;
+      }
+      throw error;
+    }
+    if (!isValidTimeZone(timezone)) {
+      return `Unknown time zone \`${timezone}\`. Use an IANA name such as \`Asia/Seoul\` or \`UTC\`.`;
+    }
+    if (workflow && !workflowRegistry.has(workflow)) {
+      const available = workflowRegistry.names().map((w) => `\`${w}\``).join(', ');
+      return `Unknown workflow \`${workflow}\`.\n\n*Available workflows:* ${available}`;
+    }
+    return null;
+  }
+
+  private formatJob(job: ScheduledJob): string {
+    const status = job.paused ? '⏸️' : '▶️';
+    const workflow = job.workflow ? ` · \`${job.workflow}\`` : '';
+    const prompt = job.prompt.replace(/\s+/g, ' ');
+    const preview = prompt.length > PROMPT_PREVIEW_LENGTH ? `${prompt.substring(0, PROMPT_PREVIEW_LENGTH)}...` : prompt;
+
+    const lines = [
+      `${status} \`${job.id}\` \`${job.cron}\` (${job.timezone}) in <#${job.channelId}> by <@${job.ownerId}>${workflow}`,
+      `   > ${preview}`,
+    ];
+    if (job.nextRunAt) {
+      lines.push(`   Next: ${formatSlackDate(job.nextRunAt)}`);
+    }
+    if (job.lastRunAt) {
+      const result = job.lastError ? ` ⚠️ ${job.lastError}` : '';
+      lines.push(`   Last: ${formatSlackDate(job.lastRunAt)}${result}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Slack date token rendered in the reader's own time zone
+ */
+function formatSlackDate(iso: string): string {
+  const epoch = Math.floor(Date.parse(iso) / 1000);
+  return `<!date^${epoch}^{date_short_pretty} {time}|${iso}>`;
+}
@@ -1,4 +1,4 @@
-import { CommandHandler, CommandContext, CommandResult, CommandDependencies } from './types';
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
 import { CommandParser } from '../command-parser';
 
 /**
@@ -7,6 +7,31 @@ import { CommandParser } from '../command-parser';
 export class SessionHandler implements CommandHandler {
   constructor(private deps: CommandDependencies) {}
 
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'sessions',
+      aliases: ['session'],
+      category: 'Sessions',
+      description: 'Show your active sessions',
+      usage: [{ description: 'Show your active sessions' }],
+    },
+    {
+      name: 'all_sessions',
+      aliases: ['all_session'],
+      category: 'Sessions',
+      description: 'Show all active sessions',
+      usage: [{ description: 'Show all active sessions' }],
+    },
+    {
+      name: 'terminate',
+      aliases: ['kill', 'end', 'terminate_session', 'kill_session', 'end_session'],
+      category: 'Sessions',
+      description: 'Terminate a specific session',
+      usage: [{ args: '<session-key>', description: 'Terminate a specific session' }],
+      args: [{ name: 'session-key', required: true }],
+    },
+  ];
+
   canHandle(text: string): boolean {
     return CommandParser.isSessionsCommand(text) ||
            CommandParser.isAllSessionsCommand(text) ||
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RespondFn, SlashCommand } from '@slack/bolt';
+import { SlashCommandAdapter, SLASH_COMMANDS, toTextCommand } from './slash-commands';
+import { CommandRouter } from './command-router';
+import { CommandRegistry } from './command-registry';
+import { BypassHandler } from './bypass-handler';
+
+const spec = (name: string) => SLASH_COMMANDS.find((s) => s.command === name)!;
+
+const slashCommand = (command: string, text: string): SlashCommand =>
+  ({
+    command,
+    text,
+    user_id: 'U1',
+    channel_id: 'C1',
+  }) as SlashCommand;
+
+describe('toTextCommand', () => {
+  it('should append arguments to the text command', () => {
+    expect(toTextCommand(spec('/claude-cwd'), '')).toBe('/cwd');
+    expect(toTextCommand(spec('/claude-cwd'), ' /repo ')).toBe('/cwd /repo');
+    expect(toTextCommand(spec('/claude-model'), 'list')).toBe('/model list');
+  });
+
+  it('should map `/claude-sessions all` to all_sessions', () => {
+    expect(toTextCommand(spec('/claude-sessions'), '')).toBe('/sessions');
+    expect(toTextCommand(spec('/claude-sessions'), 'ALL')).toBe('/all_sessions');
+  });
+});
+
+describe('SlashCommandAdapter', () => {
+  let router: { route: ReturnType<typeof vi.fn>; getRegistry: () => CommandRegistry };
+  let respond: ReturnType<typeof vi.fn<RespondFn>>;
+  let adapter: SlashCommandAdapter;
+
+  beforeEach(() => {
+    const registry = new CommandRegistry();
+    registry.register(new BypassHandler().commands);
+    router = { route: vi.fn(), getRegistry: () => registry };
+    respond = vi.fn<RespondFn>().mockResolvedValue(undefined as any);
+    adapter = new SlashCommandAdapter(router as unknown as CommandRouter);
+  });
+
+  it('should route through CommandRouter and reply ephemerally', async () => {
+    router.route.mockImplementation(async (ctx) => {
+      await ctx.say({ text: 'model status', thread_ts: ctx.threadTs });
+      return { handled: true };
+    });
+
+    await adapter.handle(spec('/claude-model'), slashCommand('/claude-model', ''), respond);
+
+    expect(router.route).toHaveBeenCalledWith(
+      expect.objectContaining({ user: 'U1', channel: 'C1', threadTs: '', text: '/model' })
+    );
+    expect(respond).toHaveBeenCalledWith({ response_type: 'ephemeral', text: 'model status', blocks: undefined });
+  });
+
+  it('should announce channel-wide changes in the channel', async () => {
+    router.route.mockImplementation(async (ctx) => {
+      await ctx.say({ text: 'cwd set' });
+      return { handled: true };
+    });
+
+    await adapter.handle(spec('/claude-cwd'), slashCommand('/claude-cwd', '/repo'), respond);
+
+    expect(respond).toHaveBeenCalledWith(expect.objectContaining({ response_type: 'in_channel' }));
+  });
+
+  it('should show usage when no handler accepts the arguments', async () => {
+    router.route.mockResolvedValue({ handled: false });
+
+    await adapter.handle(spec('/claude-bypass'), slashCommand('/claude-bypass', 'maybe'), respond);
+
+    const { text } = respond.mock.calls[0][0] as { text: string };
+    expect(text).toContain('Invalid value `maybe` for `<state>`');
+    expect(text).toContain('• `bypass on`');
+  });
+});
@@ -0,0 +1,204 @@
+import { App, RespondFn, SlashCommand } from '@slack/bolt';
+import { Logger } from '../../logger';
+import { CommandRegistry } from './command-registry';
+import { CommandRouter } from './command-router';
+import { CommandContext, SayFn } from './types';
+
+/**
+ * A Slack slash command mapped onto an existing text command
+ */
+export interface SlashCommandSpec {
+  /** Slash command name as registered in the Slack app manifest */
+  command: string;
+  /** Text command prefix the arguments are appended to (e.g., 'cwd') */
+  textCommand: string;
+  description: string;
+  /** Post the reply to the channel for these arguments (default: ephemeral) */
+  inChannel?: (args: string) => boolean;
+  /** Rewrite arguments before they are appended (e.g., `/claude-sessions all`) */
+  toText?: (args: string) => string;
+}
+
+/**
+ * Slash commands backed by CommandRouter handlers
+ * Thread-scoped commands (new, renew, context, queue) are left out: slash
+ * commands carry no thread, so they only make sense as text in a thread.
+ */
+export const SLASH_COMMANDS: SlashCommandSpec[] = [
+  {
+    command: '/claude-cwd',
+    textCommand: 'cwd',
+    description: 'Show or set the working directory',
+    // Setting a channel directory affects everyone, so announce it
+    inChannel: (args) => args.length > 0,
+  },
+  {
+    command: '/claude-model',
+    textCommand: 'model',
+    description: 'Show, list or set your default model',
+  },
+  {
+    command: '/claude-persona',
+    textCommand: 'persona',
+    description: 'Show, list or set your persona',
+  },
+  {
+    command: '/claude-bypass',
+    textCommand: 'bypass',
+    description: 'Show or toggle permission bypass',
+  },
+  {
+    command: '/claude-policy',
+    textCommand: 'policy',
+    description: 'Show permission policy rules or check a tool call',
+  },
+  {
+    command: '/claude-audit',
+    textCommand: 'audit',
+    description: 'Show recent permission decisions',
+  },
+  {
+    command: '/claude-mcp',
+    textCommand: 'mcp',
+    description: 'Show or reload MCP servers',
+  },
+  {
+    command: '/claude-sessions',
+    textCommand: 'sessions',
+    description: 'Show your sessions (or all sessions)',
+    toText: (args) => (/^all$/i.test(args) ? 'all_sessions' : args ? `sessions ${args}` : 'sessions'),
+  },
+  {
+    command: '/claude-terminate',
+    textCommand: 'terminate',
+    description: 'Terminate one of your sessions',
+  },
+  {
+    command: '/claude-verbosity',
+    textCommand: 'verbosity',
+    description: 'Show or set how much tool output is posted',
+  },
+  {
+    command: '/claude-budget',
+    textCommand: 'budget',
+    description: 'Show budgets or set a limit (admin)',
+  },
+  {
+    command: '/claude-usage',
+    textCommand: 'usage',
+    description: 'Show the usage report',
+  },
+  {
+    command: '/claude-schedule',
+    textCommand: 'schedule',
+    description: 'List, add or manage scheduled prompts',
+  },
+  {
+    command: '/claude-help',
+    textCommand: 'help',
+    description: 'Show available commands',
+  },
+];
+
+/**
+ * Convert slash command arguments into the equivalent text command
+ * The leading slash marks it as an explicit command, so bad arguments get a usage error.
+ */
+export function toTextCommand(spec: SlashCommandSpec, args: string): string {
+  const trimmed = args.trim();
+  if (spec.toText) {
+    return `/${spec.toText(trimmed)}`;
+  }
+  return trimmed ? `/${spec.textCommand} ${trimmed}` : `/${spec.textCommand}`;
+}
+
+/**
+ * Adapts Bolt slash commands to CommandRouter handlers
+ * Replies go through response_url, so they work in channels the bot has not joined.
+ */
+export class SlashCommandAdapter {
+  private logger = new Logger('SlashCommandAdapter');
+
+  constructor(
+    private commandRouter: CommandRouter,
+    private specs: SlashCommandSpec[] = SLASH_COMMANDS
+  ) {}
+
+  /**
+   * Register every slash command with the app
+   */
+  register(app: App): void {
+    for (const spec of this.specs) {
+      app.command(spec.command, async ({ command, ack, respond }) => {
+        await ack();
+        await this.handle(spec, command, respond);
+      });
+    }
+    this.logger.info('Registered slash commands', { count: this.specs.length });
+  }
+
+  /**
+   * Run a slash command through the router and reply via respond()
+   */
+  async handle(spec: SlashCommandSpec, command: SlashCommand, respond: RespondFn): Promise<void> {
+    const text = toTextCommand(spec, command.text || '');
+    const responseType = spec.inChannel?.(command.text.trim()) ? 'in_channel' : 'ephemeral';
+
+    this.logger.info('Slash command received', {
+      command: spec.command,
+      user: command.user_id,
+      channel: command.channel_id,
+      text,
+    });
+
+    const ctx = this.toCommandContext(command, text, responseType, respond);
+    const result = await this.commandRouter.route(ctx);
+
+    if (result.error) {
+      await respond({ response_type: 'ephemeral', text: `❌ ${result.error}` });
+    } else if (!result.handled) {
+      await respond({ response_type: 'ephemeral', text: this.formatUsage(spec, text) });
+    }
+  }
+
+  /**
+   * Usage reply built from the text command's spec, so it can't drift from `help`
+   */
+  private formatUsage(spec: SlashCommandSpec, text: string): string {
+    const registry = this.commandRouter.getRegistry();
+    const invocation = CommandRegistry.parseInvocation(text);
+    const commandSpec = invocation && registry.find(invocation.name);
+    if (!invocation || !commandSpec) {
+      return `❓ \`${spec.command}\` - ${spec.description}`;
+    }
+    return registry.formatUsageError(commandSpec, invocation.args);
+  }
+
+  /**
+   * Build the CommandContext shared with text commands
+   * Slash commands have no thread, so threadTs is empty and say() maps to respond().
+   */
+  toCommandContext(
+    command: SlashCommand,
+    text: string,
+    responseType: 'ephemeral' | 'in_channel',
+    respond: RespondFn
+  ): CommandContext {
+    const say: SayFn = async (message) => {
+      await respond({
+        response_type: responseType,
+        text: message.text,
+        blocks: message.blocks,
+      });
+      return { channel: command.channel_id };
+    };
+
+    return {
+      user: command.user_id,
+      channel: command.channel_id,
+      threadTs: '',
+      text,
+      say,
+    };
+  }
+}
@@ -3,6 +3,8 @@ import { McpManager } from '../../mcp-manager';
 import { ClaudeHandler } from '../../claude-handler';
 import { SessionUiManager } from '../session-manager';
 import { RequestCoordinator } from '../request-coordinator';
+import { SlackApiHelper } from '../slack-api-helper';
+import { MessageQueue } from '../message-queue';
 
 /**
  * Context passed to command handlers
@@ -24,6 +26,8 @@ export interface CommandDependencies {
   claudeHandler: ClaudeHandler;
   sessionUiManager: SessionUiManager;
   requestCoordinator: RequestCoordinator;
+  slackApi: SlackApiHelper;
+  messageQueue: MessageQueue;
 }
 
 /**
@@ -34,6 +38,8 @@ export interface CommandResult {
   error?: string;
   /** If set, continue processing with this prompt after command completes (e.g., /new <prompt>) */
   continueWithPrompt?: string;
+  /** Arguments were not understood; the router replies with the usage from the command's spec */
+  invalidArgs?: boolean;
 }
 
 /**
@@ -45,10 +51,68 @@ export type SayFn = (message: {
   blocks?: any[];
 }) => Promise<{ ts?: string; channel?: string }>;
 
+/**
+ * Help section a command is listed under (in display order)
+ */
+export const COMMAND_CATEGORIES = [
+  'Working Directory',
+  'Sessions',
+  'Schedules',
+  'MCP Servers',
+  'Permissions',
+  'Persona',
+  'Model',
+  'Verbosity',
+  'Budget',
+  'Usage',
+  'Credentials',
+  'Help',
+] as const;
+
+export type CommandCategory = (typeof COMMAND_CATEGORIES)[number];
+
+/**
+ * Positional argument in a command's schema
+ */
+export interface CommandArgSpec {
+  name: string;
+  required?: boolean;
+  /** Accepted values (case-insensitive) */
+  choices?: string[];
+  /** Consumes all remaining words (e.g., a prompt) */
+  rest?: boolean;
+}
+
+/**
+ * One usage form shown in help, e.g. { args: '<path>', description: 'Set working directory' }
+ */
+export interface CommandUsage {
+  args?: string;
+  description: string;
+}
+
+/**
+ * Declarative command metadata used for help, validation and suggestions
+ */
+export interface CommandSpec {
+  name: string;
+  aliases?: string[];
+  category: CommandCategory;
+  description: string;
+  usage: CommandUsage[];
+  args?: CommandArgSpec[];
+  examples?: string[];
+}
+
 /**
  * Command handler interface
  */
 export interface CommandHandler {
+  /**
+   * Commands this handler implements
+   */
+  readonly commands: CommandSpec[];
+
   /**
    * Check if this handler can process the given text
    */
@@ -0,0 +1,154 @@
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
+import { CommandParser } from '../command-parser';
+import { usageLedger, UsageLedger, UsageGroupBy, UsageSummaryRow } from '../../usage-ledger';
+import { formatUsd } from '../../budget-store';
+import { isAdminUser } from '../../config';
+
+const GROUP_LABELS: Record<UsageGroupBy, string> = {
+  user: 'By user',
+  workflow: 'By workflow',
+  model: 'By model',
+};
+
+// Keep each table well under the 3000 char section limit
+const MAX_TABLE_ROWS = 15;
+const MAX_KEY_LENGTH = 28;
+
+/**
+ * Handles usage report command (Block Kit tables and CSV export)
+ * Admins see everyone's usage; other users only see their own.
+ */
+export class UsageHandler implements CommandHandler {
+  constructor(private deps: CommandDependencies) {}
+
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'usage',
+      category: 'Usage',
+      description: 'Show cost and token totals from the usage ledger',
+      usage: [
+        { description: 'Show cost and token totals for the last 7 days' },
+        { args: 'today|month|30d|2025-01-01..2025-01-31', description: 'Choose a date range (UTC)' },
+        { args: 'by user|workflow|model', description: 'Show a single breakdown' },
+        { args: 'csv', description: 'Export the raw ledger for the range as a CSV file' },
+      ],
+      args: [{ name: 'options', rest: true }],
+      examples: ['usage month by model', 'usage 30d csv'],
+    },
+  ];
+
+  canHandle(text: string): boolean {
+    return CommandParser.isUsageCommand(text);
+  }
+
+  async execute(ctx: CommandContext): Promise<CommandResult> {
+    const { user, channel, text, threadTs, say } = ctx;
+    const usageCommand = CommandParser.parseUsageCommand(text);
+    if (!usageCommand) {
+      return { handled: true, invalidArgs: true };
+    }
+    const { range, groupBy, csv } = usageCommand;
+
+    const isAdmin = isAdminUser(user);
+    const entries = usageLedger.query({
+      from: range.from,
+      to: range.to,
+      userId: isAdmin ? undefined : user,
+    });
+    const scopeText = isAdmin ? 'all users' : 'your requests only';
+
+    if (entries.length === 0) {
+      await say({
+        text: `📊 No usage recorded for *${range.label}* (${scopeText}).`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    if (csv) {
+      const filename = `usage-${this.formatDate(range.from)}-${this.formatDate(new Date(range.to.getTime() - 1))}.csv`;
+      await this.deps.slackApi.uploadFile(channel, filename, UsageLedger.toCsv(entries), {
+        threadTs,
+        title: `Usage ledger (${range.label})`,
+        initialComment: `📊 Usage ledger export: ${entries.length} requests (${scopeText})`,
+      });
+      return { handled: true };
+    }
+
+    const totalCost = entries.reduce((sum, e) => sum + e.costUsd, 0);
+    const groups: UsageGroupBy[] = groupBy ? [groupBy] : ['user', 'workflow', 'model'];
+
+    const blocks: any[] = [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: '📊 Usage Report', emoji: true },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `*${range.label}* (UTC) • ${entries.length} requests • *${formatUsd(totalCost)}* • ${scopeText}`,
+          },
+        ],
+      },
+    ];
+
+    for (const group of groups) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${GROUP_LABELS[group]}*\n${this.renderTable(UsageLedger.summarize(entries, group))}`,
+        },
+      });
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: '_Use `usage csv` to export the raw ledger for this range._' }],
+    });
+
+    await say({
+      text: `📊 Usage report for ${range.label}: ${entries.length} requests, ${formatUsd(totalCost)}`,
+      thread_ts: threadTs,
+      blocks,
+    });
+
+    return { handled: true };
+  }
+
+  /**
+   * Render summary rows as a monospace table
+   */
+  private renderTable(rows: UsageSummaryRow[]): string {
+    const header = ['Name', 'Reqs', 'In tok', 'Out tok', 'Cost'];
+    const body = rows.slice(0, MAX_TABLE_ROWS).map((row) => [
+      row.key.length > MAX_KEY_LENGTH ? row.key.substring(0, MAX_KEY_LENGTH - 1) + '…' : row.key,
+      String(row.requests),
+      this.formatTokens(row.inputTokens),
+      this.formatTokens(row.outputTokens),
+      formatUsd(row.costUsd),
+    ]);
+
+    const widths = header.map((h, i) => Math.max(h.length, ...body.map((r) => r[i].length)));
+    const formatRow = (cells: string[]) =>
+      cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ');
+
+    const lines = [formatRow(header), widths.map((w) => '-'.repeat(w)).join('  '), ...body.map(formatRow)];
+    if (rows.length > MAX_TABLE_ROWS) {
+      lines.push(`… ${rows.length - MAX_TABLE_ROWS} more`);
+    }
+    return '```\n' + lines.join('\n') + '\n```';
+  }
+
+  private formatTokens(tokens: number): string {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+    return String(tokens);
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,97 @@
+import { CommandHandler, CommandContext, CommandResult, CommandSpec } from './types';
+import { CommandParser } from '../command-parser';
+import { CommandRegistry } from './command-registry';
+import { userSettingsStore, Verbosity, VERBOSITY_LEVELS, DEFAULT_VERBOSITY } from '../../user-settings-store';
+import { isAdminUser } from '../../config';
+
+const LEVEL_DESCRIPTIONS: Record<Verbosity, string> = {
+  quiet: 'one updating "Working: N tool calls" line',
+  normal: 'tool calls and short results',
+  verbose: 'full tool inputs and results',
+  debug: 'verbose plus raw tool input and IDs',
+};
+
+/**
+ * Handles verbosity commands (how much tool output is posted to threads)
+ */
+export class VerbosityHandler implements CommandHandler {
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'verbosity',
+      category: 'Verbosity',
+      description: 'Show or set how much tool output is posted',
+      usage: [
+        { description: "Show your and this channel's verbosity" },
+        { args: 'quiet|normal|verbose|debug', description: 'Set your verbosity' },
+        { args: 'reset', description: 'Follow the channel default again' },
+        { args: 'channel <level|reset>', description: 'Set the channel default (admin only)' },
+      ],
+      args: [{ name: 'level', choices: ['status', 'channel', 'reset', 'default', ...VERBOSITY_LEVELS] }, { name: 'channelLevel' }],
+      examples: ['verbosity quiet', 'verbosity channel verbose'],
+    },
+  ];
+
+  canHandle(text: string): boolean {
+    return CommandParser.isVerbosityCommand(text);
+  }
+
+  async execute(ctx: CommandContext): Promise<CommandResult> {
+    const { user, channel, text, threadTs, say } = ctx;
+    const verbosityAction = CommandParser.parseVerbosityCommand(text);
+
+    if (verbosityAction.action === 'status') {
+      const userLevel = userSettingsStore.getUserVerbosity(user);
+      const channelLevel = userSettingsStore.getChannelVerbosity(channel);
+      const effective = userSettingsStore.resolveVerbosity(user, channel);
+      const levels = VERBOSITY_LEVELS
+        .map((level) => `• \`${level}\` - ${LEVEL_DESCRIPTIONS[level]}`)
+        .join('\n');
+
+      await say({
+        text:
+          `🔊 *Verbosity*\n\n` +
+          `In effect: *${effective}*\n` +
+          `Yours: ${userLevel ? `*${userLevel}*` : '_not set_'}\n` +
+          `This channel: ${channelLevel ? `*${channelLevel}*` : `_not set (${DEFAULT_VERBOSITY})_`}\n\n` +
+          `*Levels:*\n${levels}\n\n*Usage:*\n${CommandRegistry.formatUsageLines(this.commands[0]).join('\n')}`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    if (verbosityAction.action === 'invalid') {
+      return { handled: true, invalidArgs: true };
+    }
+
+    const level = verbosityAction.level ?? undefined;
+
+    if (verbosityAction.scope === 'channel') {
+      if (!isAdminUser(user)) {
+        await say({
+          text: '🚫 Only admins can change the channel verbosity.',
+          thread_ts: threadTs,
+        });
+        return { handled: true };
+      }
+
+      userSettingsStore.setChannelVerbosity(channel, level);
+      await say({
+        text: level
+          ? `✅ *Verbosity Updated*\n\n<#${channel}> default: *${level}*`
+          : `✅ *Verbosity Updated*\n\n<#${channel}> default reset to *${DEFAULT_VERBOSITY}*`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    userSettingsStore.setUserVerbosity(user, level);
+    const effective = userSettingsStore.resolveVerbosity(user, channel);
+    await say({
+      text: level
+        ? `✅ *Verbosity Updated*\n\nYour verbosity: *${level}*`
+        : `✅ *Verbosity Updated*\n\nYou now follow the channel default: *${effective}*`,
+      thread_ts: threadTs,
+    });
+    return { handled: true };
+  }
+}
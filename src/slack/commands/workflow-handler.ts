@@ -0,0 +1,89 @@
+import { CommandHandler, CommandContext, CommandResult, CommandSpec, CommandDependencies } from './types';
+import { CommandParser } from '../command-parser';
+import { WorkflowSwitcher } from '../workflow-switcher';
+import { workflowRegistry } from '../../workflow-registry';
+
+/**
+ * Handles workflow command - shows how the thread was dispatched or re-routes it
+ */
+export class WorkflowHandler implements CommandHandler {
+  private switcher: WorkflowSwitcher;
+
+  constructor(private deps: CommandDependencies) {
+    this.switcher = new WorkflowSwitcher({ claudeHandler: deps.claudeHandler, slackApi: deps.slackApi });
+  }
+
+  readonly commands: CommandSpec[] = [
+    {
+      name: 'workflow',
+      category: 'Sessions',
+      description: 'Show or change the workflow this thread was routed to',
+      usage: [
+        { description: 'Show the current workflow and dispatch confidence' },
+        { args: '<name>', description: 'Re-route this session to another workflow' },
+      ],
+      args: [{ name: 'name' }],
+      examples: ['workflow pr-review'],
+    },
+  ];
+
+  canHandle(text: string): boolean {
+    return CommandParser.isWorkflowCommand(text);
+  }
+
+  async execute(ctx: CommandContext): Promise<CommandResult> {
+    const { user, channel, threadTs, text, say } = ctx;
+    const action = CommandParser.parseWorkflowCommand(text);
+    const available = workflowRegistry.names().map((w) => `\`${w}\``).join(', ');
+
+    if (action.action === 'status') {
+      const session = this.deps.claudeHandler.getSession(channel, threadTs);
+      if (!session || session.state !== 'MAIN') {
+        await say({
+          text: `💡 No routed session in this thread yet.\n\n*Available workflows:* ${available}`,
+          thread_ts: threadTs,
+        });
+        return { handled: true };
+      }
+
+      const workflow = session.workflow || 'default';
+      const lines = [`🧭 *Workflow:* \`${workflow}\``];
+      const dispatch = session.dispatch;
+      if (dispatch) {
+        const dispatched = [`\`${dispatch.workflow}\``];
+        if (dispatch.rule) {
+          dispatched.push(`rule \`${dispatch.rule}\``);
+        } else if (dispatch.confidence !== undefined) {
+          dispatched.push(`${Math.round(dispatch.confidence * 100)}%`);
+        }
+        if (dispatch.runnerUp) {
+          const runnerUpConfidence =
+            dispatch.runnerUpConfidence !== undefined ? ` ${Math.round(dispatch.runnerUpConfidence * 100)}%` : '';
+          dispatched.push(`runner-up \`${dispatch.runnerUp}\`${runnerUpConfidence}`);
+        }
+        lines.push(`Dispatched as ${dispatched.join(' · ')}${dispatch.workflow !== workflow ? ' _(overridden)_' : ''}`);
+      }
+      lines.push('', `*Available workflows:* ${available}`, '_Use `workflow <name>` to re-route this session._');
+
+      await say({ text: lines.join('\n'), thread_ts: threadTs });
+      return { handled: true };
+    }
+
+    if (!workflowRegistry.has(action.workflow)) {
+      await say({
+        text: `❌ Unknown workflow \`${action.workflow}\`.\n\n*Available workflows:* ${available}`,
+        thread_ts: threadTs,
+      });
+      return { handled: true };
+    }
+
+    const result = await this.switcher.switchWorkflow(channel, threadTs, user, action.workflow, 'command');
+    await say({
+      text: result.ok
+        ? `🔀 Workflow changed from \`${result.previous}\` to \`${action.workflow}\`. It applies from the next message.`
+        : `❌ ${result.error}`,
+      thread_ts: threadTs,
+    });
+    return { handled: true };
+  }
+}
@@ -3,3 +3,4 @@
  */
 
 export { DirectoryFormatter } from './directory-formatter';
+export { TurnSummaryFormatter, TurnDiffRef, UPLOAD_TURN_DIFF_ACTION_ID, REVERT_TURN_ACTION_ID } from './turn-summary-formatter';
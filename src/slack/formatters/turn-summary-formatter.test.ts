@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { TurnSummaryFormatter, UPLOAD_TURN_DIFF_ACTION_ID, REVERT_TURN_ACTION_ID } from './turn-summary-formatter';
+import { ChangeSummary } from '../../git-changes';
+
+const FROM = 'a'.repeat(40);
+const TO = 'b'.repeat(40);
+
+describe('TurnSummaryFormatter', () => {
+  const summary: ChangeSummary = {
+    files: [
+      { path: 'src/a.ts', status: 'modified', additions: 10, deletions: 2 },
+      { path: 'src/c.ts', oldPath: 'src/b.ts', status: 'renamed', additions: 0, deletions: 0 },
+      { path: 'logo.png', status: 'added', additions: null, deletions: null },
+    ],
+    additions: 10,
+    deletions: 2,
+  };
+
+  it('should list changed files with line counts', () => {
+    const blocks = TurnSummaryFormatter.buildBlocks(summary, { cwd: '/repo', from: FROM, to: TO });
+
+    expect(blocks[0].text.text).toBe(
+      '🧾 *3 files changed* · +10 −2\n' +
+        '`M` `src/a.ts`  +10 −2\n' +
+        '`R` `src/b.ts` → `src/c.ts`  +0 −0\n' +
+        '`A` `logo.png`  _binary_'
+    );
+    expect(blocks[1].elements[0]).toMatchObject({ action_id: UPLOAD_TURN_DIFF_ACTION_ID });
+    expect(blocks[1].elements).toHaveLength(1);
+  });
+
+  it('should add a revert button when checkpoints are enabled', () => {
+    const ref = { cwd: '/repo', from: FROM, to: TO };
+    const buttons = TurnSummaryFormatter.buildBlocks(summary, ref, { revertable: true })[1].elements;
+
+    expect(buttons[1]).toMatchObject({ action_id: REVERT_TURN_ACTION_ID, value: JSON.stringify(ref) });
+    expect(buttons[1].confirm).toBeDefined();
+  });
+
+  it('should cut off long file lists', () => {
+    const many: ChangeSummary = {
+      files: Array.from({ length: 20 }, (_, i) => ({
+        path: `file-${i}.ts`,
+        status: 'added' as const,
+        additions: 1,
+        deletions: 0,
+      })),
+      additions: 20,
+      deletions: 0,
+    };
+
+    const text = TurnSummaryFormatter.buildBlocks(many, { cwd: '/repo', from: FROM, to: TO })[0].text.text;
+    expect(text).toContain('`file-14.ts`');
+    expect(text).not.toContain('`file-15.ts`');
+    expect(text).toContain('_…and 5 more_');
+  });
+
+  it('should round-trip the diff reference through the button value', () => {
+    const blocks = TurnSummaryFormatter.buildBlocks(summary, { cwd: '/repo', from: FROM, to: TO });
+    const value = blocks[1].elements[0].value;
+
+    expect(TurnSummaryFormatter.parseDiffRef(value)).toEqual({ cwd: '/repo', from: FROM, to: TO });
+    expect(TurnSummaryFormatter.parseDiffRef('{"cwd":"/repo","from":"--output=/tmp/x","to":"b"}')).toBeUndefined();
+    expect(TurnSummaryFormatter.parseDiffRef('not json')).toBeUndefined();
+  });
+});
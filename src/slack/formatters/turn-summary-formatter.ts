@@ -0,0 +1,111 @@
+import { ChangeSummary, FileChange, FileChangeStatus } from '../../git-changes';
+
+// action_id of the "Full diff" button on the turn summary card
+export const UPLOAD_TURN_DIFF_ACTION_ID = 'upload_turn_diff';
+
+// action_id of the "Revert this turn" button on the turn summary card
+export const REVERT_TURN_ACTION_ID = 'revert_turn';
+
+// Longer lists are cut off; the full diff has everything
+const MAX_LISTED_FILES = 15;
+
+const STATUS_LETTERS: Record<FileChangeStatus, string> = {
+  added: 'A',
+  modified: 'M',
+  deleted: 'D',
+  renamed: 'R',
+};
+
+/**
+ * Snapshots the "Full diff" button compares (carried in the button value)
+ */
+export interface TurnDiffRef {
+  cwd: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Formats the summary card posted after a turn changed files
+ */
+export class TurnSummaryFormatter {
+  /**
+   * One-line summary, e.g. "🧾 *3 files changed* · +42 −7"
+   */
+  static formatHeadline(summary: ChangeSummary): string {
+    const count = summary.files.length;
+    return `🧾 *${count} file${count === 1 ? '' : 's'} changed* · +${summary.additions} −${summary.deletions}`;
+  }
+
+  static formatFileLine(file: FileChange): string {
+    const name = file.oldPath ? `\`${file.oldPath}\` → \`${file.path}\`` : `\`${file.path}\``;
+    const lines = file.additions === null ? '_binary_' : `+${file.additions} −${file.deletions}`;
+    return `\`${STATUS_LETTERS[file.status]}\` ${name}  ${lines}`;
+  }
+
+  /**
+   * Block Kit card with the changed files and a button that uploads the full diff
+   * With `revertable`, a second button restores the files to `ref.from`.
+   */
+  static buildBlocks(summary: ChangeSummary, ref: TurnDiffRef, options: { revertable?: boolean } = {}): any[] {
+    const listed = summary.files.slice(0, MAX_LISTED_FILES).map((file) => this.formatFileLine(file));
+    const hidden = summary.files.length - listed.length;
+    if (hidden > 0) {
+      listed.push(`_…and ${hidden} more_`);
+    }
+
+    const buttons: any[] = [
+      {
+        type: 'button',
+        text: { type: 'plain_text', text: '📄 Full diff', emoji: true },
+        action_id: UPLOAD_TURN_DIFF_ACTION_ID,
+        value: JSON.stringify(ref),
+      },
+    ];
+    if (options.revertable) {
+      buttons.push({
+        type: 'button',
+        text: { type: 'plain_text', text: '↩️ Revert this turn', emoji: true },
+        action_id: REVERT_TURN_ACTION_ID,
+        value: JSON.stringify(ref),
+        confirm: {
+          title: { type: 'plain_text', text: 'Revert this turn?' },
+          text: {
+            type: 'mrkdwn',
+            text: `Files in \`${ref.cwd}\` go back to how they were before this turn. Files created this turn are deleted.`,
+          },
+          confirm: { type: 'plain_text', text: 'Revert' },
+          deny: { type: 'plain_text', text: 'Cancel' },
+        },
+      });
+    }
+
+    return [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `${this.formatHeadline(summary)}\n${listed.join('\n')}` },
+      },
+      {
+        type: 'actions',
+        elements: buttons,
+      },
+    ];
+  }
+
+  /**
+   * Read the button value back; undefined when it is malformed
+   */
+  static parseDiffRef(value: string | undefined): TurnDiffRef | undefined {
+    if (!value) return undefined;
+    try {
+      const ref = JSON.parse(value);
+      const isHash = (hash: unknown) => typeof hash === 'string' && /^[0-9a-f]{40,64}$/.test(hash);
+      if (typeof ref?.cwd === 'string' && isHash(ref.from) && isHash(ref.to)) {
+        return { cwd: ref.cwd, from: ref.from, to: ref.to };
+      }
+    } catch {
+      // Fall through
+    }
+    return undefined;
+  }
+}
@@ -18,16 +18,25 @@ export { EventRouter, EventRouterDeps } from './event-router';
 
 // Phase 2: Session state and concurrency
 export { RequestCoordinator } from './request-coordinator';
+export { MessageQueue, QueuedMessage } from './message-queue';
 export { ToolTracker } from './tool-tracker';
 
 // Phase 3: Command routing
-export { CommandRouter, CommandContext, CommandResult, CommandDependencies } from './commands';
+export {
+  CommandRouter,
+  CommandContext,
+  CommandResult,
+  CommandDependencies,
+  SlashCommandAdapter,
+  SLASH_COMMANDS,
+} from './commands';
 
 // Phase 4: Stream and tool processing
 export {
   StreamProcessor,
   StreamContext,
   StreamCallbacks,
+  StreamProcessorOptions,
   StreamResult,
   SayFunction,
   ToolUseEvent as StreamToolUseEvent,
@@ -35,6 +44,19 @@ export {
   PendingForm,
   UsageData,
 } from './stream-processor';
+export {
+  LiveMessage,
+  LiveMessageTransport,
+  LiveMessageOptions,
+  LIVE_MESSAGE_MAX_CHARS,
+} from './live-message';
+export {
+  markdownToMrkdwn,
+  markdownToBlocks,
+  extractCodeSnippets,
+  splitMessageText,
+  CodeSnippet,
+} from './markdown';
 export {
   ToolEventProcessor,
   ToolEventContext,
@@ -48,4 +70,4 @@ export { StatusReporter, StatusType, StatusMessage } from './status-reporter';
 export { TodoDisplayManager, TodoUpdateInput, SayFunction as TodoSayFunction } from './todo-display-manager';
 
 // Phase 9: Message formatters
-export { DirectoryFormatter } from './formatters';
+export { DirectoryFormatter, TurnSummaryFormatter, TurnDiffRef, UPLOAD_TURN_DIFF_ACTION_ID, REVERT_TURN_ACTION_ID } from './formatters';
@@ -0,0 +1,124 @@
+/**
+ * LiveMessage tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LiveMessage, LiveMessageTransport } from './live-message';
+
+describe('LiveMessage', () => {
+  let transport: LiveMessageTransport;
+  let post: ReturnType<typeof vi.fn>;
+  let update: ReturnType<typeof vi.fn>;
+  let remove: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    let count = 0;
+    post = vi.fn(async () => `ts_${++count}`);
+    update = vi.fn(async () => undefined);
+    remove = vi.fn(async () => undefined);
+    transport = { post, update, remove } as LiveMessageTransport;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should post once and throttle edits while streaming', async () => {
+    const live = new LiveMessage(transport, { intervalMs: 1000 });
+
+    live.append('Hello');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(post).toHaveBeenCalledWith('Hello ▍', undefined);
+
+    live.append(',');
+    live.append(' world');
+    await vi.advanceTimersByTimeAsync(500);
+    expect(update).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith('ts_1', 'Hello, world ▍', undefined);
+
+    await live.finalize();
+    expect(update).toHaveBeenLastCalledWith('ts_1', 'Hello, world', [
+      { type: 'section', text: { type: 'mrkdwn', text: 'Hello, world' } },
+    ]);
+    expect(post).toHaveBeenCalledTimes(1);
+
+    live.append('ignored');
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(update).toHaveBeenCalledTimes(2);
+  });
+
+  it('should roll over into a new message near the size limit', async () => {
+    const live = new LiveMessage(transport, { intervalMs: 0, maxChars: 100 });
+
+    live.append('a'.repeat(60));
+    await vi.advanceTimersByTimeAsync(0);
+    live.append('\n\n' + 'b'.repeat(60));
+    await live.finalize();
+
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(update).toHaveBeenLastCalledWith('ts_1', 'a'.repeat(60), expect.any(Array));
+    expect(post).toHaveBeenLastCalledWith('b'.repeat(60), expect.any(Array));
+    expect(live.getMessageCount()).toBe(2);
+  });
+
+  it('should replace the current block and remove messages left over', async () => {
+    const live = new LiveMessage(transport, { intervalMs: 0, maxChars: 100 });
+
+    live.append('Pick one\n\n' + 'x'.repeat(120));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(post).toHaveBeenCalledTimes(2);
+
+    live.setCurrent('Pick one');
+    await live.finalize();
+
+    expect(update).toHaveBeenLastCalledWith('ts_1', 'Pick one', expect.any(Array));
+    expect(remove).toHaveBeenCalledWith('ts_2');
+  });
+
+  it('should post a chunk again after its first post failed', async () => {
+    const live = new LiveMessage(transport, { intervalMs: 0, maxChars: 100 });
+    post.mockRejectedValueOnce(new Error('rate_limited'));
+
+    live.append('a'.repeat(60) + '\n\n' + 'b'.repeat(60));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(live.getMessageCount()).toBe(0);
+
+    await live.finalize();
+
+    expect(post).toHaveBeenCalledTimes(3);
+    expect(post).toHaveBeenNthCalledWith(2, 'a'.repeat(60), expect.any(Array));
+    expect(post).toHaveBeenLastCalledWith('b'.repeat(60), expect.any(Array));
+    expect(live.getMessageCount()).toBe(2);
+  });
+
+  it('should separate text blocks with a blank line', async () => {
+    const live = new LiveMessage(transport, { intervalMs: 0 });
+
+    live.append('First');
+    live.nextBlock();
+    live.append('Second');
+    await live.finalize();
+
+    expect(post).toHaveBeenCalledWith('First\n\nSecond', expect.any(Array));
+  });
+
+  it('should upload long code blocks as snippets on the final edit', async () => {
+    const upload = vi.fn(async () => undefined);
+    const live = new LiveMessage({ ...transport, upload }, { intervalMs: 0 });
+
+    live.append('Here is the file:\n\n```ts\n' + 'const x = 1;\n'.repeat(300) + '```');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(post).toHaveBeenCalledTimes(2);
+
+    await live.finalize();
+
+    expect(update).toHaveBeenLastCalledWith('ts_1', expect.stringContaining('`snippet-1.ts` (300 lines)'), expect.any(Array));
+    expect(remove).toHaveBeenCalledWith('ts_2');
+    expect(upload).toHaveBeenCalledWith(expect.objectContaining({ filename: 'snippet-1.ts', language: 'ts' }));
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * LiveMessage - Renders a streamed response into a single Slack message
+ * Edits are throttled and roll over into follow-up messages near Slack's size limit.
+ */
+
+import { Logger } from '../logger';
+import { MessageFormatter } from './message-formatter';
+import { CodeSnippet, countFences, extractCodeSnippets, markdownToBlocks, splitMessageText } from './markdown';
+
+// Slack truncates long message text; stay below it with room for fence repairs
+export const LIVE_MESSAGE_MAX_CHARS = 3900;
+export const DEFAULT_LIVE_UPDATE_INTERVAL_MS = 1000;
+
+// Shown at the end of the message while tokens are still arriving
+const STREAMING_CURSOR = ' ▍';
+
+/**
+ * How a live message reaches Slack
+ */
+export interface LiveMessageTransport {
+  /** Post a new message in the thread, returning its ts */
+  post: (text: string, blocks?: any[]) => Promise<string | undefined>;
+  update: (ts: string, text: string, blocks?: any[]) => Promise<void>;
+  /** Optional: remove messages left over after the text shrinks */
+  remove?: (ts: string) => Promise<void>;
+  /** Optional: long code blocks are uploaded as snippets on the final edit */
+  upload?: (snippet: CodeSnippet) => Promise<void>;
+}
+
+export interface LiveMessageOptions {
+  intervalMs?: number;
+  maxChars?: number;
+}
+
+interface PostedChunk {
+  ts?: string;
+  text: string;
+  blocks?: any[];
+}
+
+/**
+ * One "live" response segment: text is appended as it streams, and the posted
+ * message(s) are edited at most once per interval until finalize().
+ */
+export class LiveMessage {
+  private logger = new Logger('LiveMessage');
+  private intervalMs: number;
+  private maxChars: number;
+
+  private parts: string[] = []; // Completed text blocks in this segment
+  private current = ''; // Text block being streamed
+  private posted: PostedChunk[] = [];
+
+  private timer?: NodeJS.Timeout;
+  private lastRenderAt = 0;
+  private rendering: Promise<void> = Promise.resolve();
+  private finalized = false;
+
+  constructor(private transport: LiveMessageTransport, options: LiveMessageOptions = {}) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_LIVE_UPDATE_INTERVAL_MS;
+    this.maxChars = options.maxChars ?? LIVE_MESSAGE_MAX_CHARS;
+  }
+
+  /**
+   * Full text of the segment
+   */
+  getText(): string {
+    return [...this.parts, this.current].filter((part) => part.trim()).join('\n\n');
+  }
+
+  hasContent(): boolean {
+    return this.getText().length > 0;
+  }
+
+  /**
+   * Number of Slack messages posted so far
+   */
+  getMessageCount(): number {
+    return this.posted.length;
+  }
+
+  /**
+   * Append streamed tokens to the current text block
+   */
+  append(delta: string): void {
+    if (this.finalized || !delta) return;
+    this.current += delta;
+    this.schedule();
+  }
+
+  /**
+   * Replace the current text block (e.g., with the complete assistant message)
+   */
+  setCurrent(text: string): void {
+    if (this.finalized) return;
+    this.current = text;
+    this.schedule();
+  }
+
+  /**
+   * Start a new text block; the previous one is kept above it
+   */
+  nextBlock(): void {
+    if (this.current) {
+      this.parts.push(this.current);
+      this.current = '';
+    }
+  }
+
+  /**
+   * Final consolidated edit without the streaming cursor
+   * Further appends are ignored.
+   */
+  async finalize(): Promise<void> {
+    if (this.finalized) return this.rendering;
+    this.finalized = true;
+    this.clearTimer();
+    await this.enqueue(true);
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    const wait = Math.max(0, this.lastRenderAt + this.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.enqueue(false);
+    }, wait);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Renders run one at a time so the first post's ts is known before any edit
+  private enqueue(isFinal: boolean): Promise<void> {
+    this.rendering = this.rendering.then(() => this.render(isFinal));
+    return this.rendering;
+  }
+
+  private async render(isFinal: boolean): Promise<void> {
+    this.lastRenderAt = Date.now();
+
+    let markdown = this.getText();
+    let snippets: CodeSnippet[] = [];
+    if (isFinal && this.transport.upload) {
+      ({ markdown, snippets } = extractCodeSnippets(markdown));
+    }
+    const chunks = splitMessageText(markdown, this.maxChars);
+
+    for (let i = 0; i < chunks.length; i++) {
+      const isLast = i === chunks.length - 1;
+      let text = MessageFormatter.formatMessage(chunks[i], isFinal);
+      // Block Kit only for the final edit; while streaming the text changes too often
+      const blocks = isFinal ? markdownToBlocks(chunks[i]) : undefined;
+      if (!isFinal && isLast) {
+        // Close a code block that is still streaming so it renders as one
+        if (countFences(text) % 2 === 1) text += '\n```';
+        text += STREAMING_CURSOR;
+      }
+
+      const existing = this.posted[i];
+      try {
+        if (!existing) {
+          const ts = await this.transport.post(text, blocks);
+          this.posted.push({ ts, text, blocks });
+        } else if (existing.ts && (existing.text !== text || existing.blocks !== blocks)) {
+          await this.transport.update(existing.ts, text, blocks);
+          existing.text = text;
+          existing.blocks = blocks;
+        }
+      } catch (error) {
+        // A failed edit only leaves the message stale; the next render retries
+        this.logger.warn('Failed to render live message', { chunk: i, error });
+        // A chunk that was never posted is posted by the next render, and later ones after it
+        if (!existing) break;
+      }
+    }
+
+    // The text shrank (e.g., choice JSON was stripped): drop messages past the end
+    const leftovers = this.posted.splice(chunks.length);
+    for (const chunk of leftovers) {
+      if (!chunk.ts || !this.transport.remove) continue;
+      try {
+        await this.transport.remove(chunk.ts);
+      } catch (error) {
+        this.logger.warn('Failed to remove live message', { ts: chunk.ts, error });
+      }
+    }
+
+    for (const snippet of snippets) {
+      try {
+        await this.transport.upload!(snippet);
+      } catch (error) {
+        this.logger.warn('Failed to upload code snippet', { filename: snippet.filename, error });
+      }
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Markdown AST (a small subset of mdast)
+ */
+
+/**
+ * Source offsets of a top-level block ([start, end) in the parsed text)
+ */
+export interface MdPosition {
+  start: number;
+  end: number;
+}
+
+export type MdInline =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: MdInline[] }
+  | { type: 'emphasis'; children: MdInline[] }
+  | { type: 'delete'; children: MdInline[] }
+  | { type: 'inlineCode'; value: string }
+  | { type: 'link'; url: string; children: MdInline[] }
+  | { type: 'image'; url: string; alt: string }
+  | { type: 'break' }
+  // Slack markup written by the model (<@U123>, <#C123>, <url|label>), passed through as-is
+  | { type: 'slack'; value: string };
+
+export type TableAlign = 'left' | 'right' | 'center' | null;
+
+export interface MdHeading {
+  type: 'heading';
+  depth: number;
+  children: MdInline[];
+  position?: MdPosition;
+}
+
+export interface MdParagraph {
+  type: 'paragraph';
+  children: MdInline[];
+  position?: MdPosition;
+}
+
+export interface MdCode {
+  type: 'code';
+  lang?: string;
+  value: string;
+  position?: MdPosition;
+}
+
+export interface MdListItem {
+  type: 'listItem';
+  checked?: boolean; // Task list item ([ ] / [x])
+  children: MdBlock[];
+}
+
+export interface MdList {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  items: MdListItem[];
+  position?: MdPosition;
+}
+
+export interface MdBlockquote {
+  type: 'blockquote';
+  children: MdBlock[];
+  position?: MdPosition;
+}
+
+export interface MdTable {
+  type: 'table';
+  align: TableAlign[];
+  header: MdInline[][];
+  rows: MdInline[][][];
+  position?: MdPosition;
+}
+
+export interface MdThematicBreak {
+  type: 'thematicBreak';
+  position?: MdPosition;
+}
+
+export type MdBlock = MdHeading | MdParagraph | MdCode | MdList | MdBlockquote | MdTable | MdThematicBreak;
+
+export interface MdRoot {
+  type: 'root';
+  children: MdBlock[];
+}
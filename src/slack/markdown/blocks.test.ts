@@ -0,0 +1,42 @@
+/**
+ * Block Kit conversion and snippet extraction tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { markdownToBlocks, MAX_BLOCKS, MAX_SECTION_CHARS } from './blocks';
+import { extractCodeSnippets } from './snippets';
+
+describe('markdownToBlocks', () => {
+  it('should split long content into sections within the limit', () => {
+    const code = Array.from({ length: 400 }, (_, i) => `line ${i}`).join('\n');
+    const blocks = markdownToBlocks('```\n' + code + '\n```')!;
+
+    expect(blocks.length).toBeGreaterThan(1);
+    for (const block of blocks) {
+      expect(block.type).toBe('section');
+      expect(block.text.text.length).toBeLessThanOrEqual(MAX_SECTION_CHARS);
+      expect(block.text.text.split('```').length % 2).toBe(1);
+    }
+  });
+
+  it('should give up on Block Kit past the block limit', () => {
+    const markdown = Array.from({ length: MAX_BLOCKS }, (_, i) => `# Heading ${i}\n\ntext`).join('\n\n');
+    expect(markdownToBlocks(markdown)).toBeUndefined();
+  });
+});
+
+describe('extractCodeSnippets', () => {
+  it('should move long top-level code blocks out of the text', () => {
+    const long = 'x = 1\n'.repeat(10).trimEnd();
+    const markdown = `Before\n\n\`\`\`python\n${long}\n\`\`\`\n\n\`\`\`\nshort\n\`\`\`\n\nAfter`;
+
+    const result = extractCodeSnippets(markdown, 20);
+
+    expect(result.snippets).toEqual([{ filename: 'snippet-1.py', language: 'python', content: long }]);
+    expect(result.markdown).toBe('Before\n\n📎 `snippet-1.py` (10 lines) is attached below.\n\n```\nshort\n```\n\nAfter');
+  });
+
+  it('should leave text without long code untouched', () => {
+    expect(extractCodeSnippets('plain *text*')).toEqual({ markdown: 'plain *text*', snippets: [] });
+  });
+});
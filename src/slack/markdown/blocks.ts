@@ -0,0 +1,62 @@
+/**
+ * Markdown AST → Block Kit
+ */
+
+import { parseMarkdown } from './parser';
+import { renderBlock, renderPlainText } from './mrkdwn';
+import { splitMessageText } from './split';
+
+// Block Kit limits
+export const MAX_SECTION_CHARS = 3000;
+export const MAX_HEADER_CHARS = 150;
+export const MAX_BLOCKS = 50;
+
+function section(text: string): any {
+  return { type: 'section', text: { type: 'mrkdwn', text } };
+}
+
+/**
+ * Convert Markdown to Block Kit blocks
+ * H1/H2 become header blocks and thematic breaks dividers; everything else is packed
+ * into mrkdwn sections of at most MAX_SECTION_CHARS.
+ * Returns undefined when the result would exceed MAX_BLOCKS (send plain text instead).
+ */
+export function markdownToBlocks(markdown: string): any[] | undefined {
+  const blocks: any[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) blocks.push(section(buffer));
+    buffer = '';
+  };
+
+  for (const block of parseMarkdown(markdown).children) {
+    if (block.type === 'heading' && block.depth <= 2) {
+      flush();
+      let text = renderPlainText(block.children).replace(/\s+/g, ' ').trim() || ' ';
+      if (text.length > MAX_HEADER_CHARS) text = text.slice(0, MAX_HEADER_CHARS - 1) + '…';
+      blocks.push({ type: 'header', text: { type: 'plain_text', text, emoji: true } });
+      continue;
+    }
+    if (block.type === 'thematicBreak') {
+      flush();
+      blocks.push({ type: 'divider' });
+      continue;
+    }
+
+    const text = renderBlock(block);
+    if (buffer && buffer.length + 2 + text.length <= MAX_SECTION_CHARS) {
+      buffer += '\n\n' + text;
+      continue;
+    }
+    flush();
+    if (text.length <= MAX_SECTION_CHARS) {
+      buffer = text;
+    } else {
+      blocks.push(...splitMessageText(text, MAX_SECTION_CHARS).map(section));
+    }
+  }
+  flush();
+
+  return blocks.length <= MAX_BLOCKS ? blocks : undefined;
+}
@@ -0,0 +1,33 @@
+/**
+ * Markdown → Slack conversion (mrkdwn text, Block Kit, snippets)
+ */
+
+export {
+  MdRoot,
+  MdBlock,
+  MdInline,
+  MdHeading,
+  MdParagraph,
+  MdCode,
+  MdList,
+  MdListItem,
+  MdBlockquote,
+  MdTable,
+  MdThematicBreak,
+  MdPosition,
+  TableAlign,
+} from './ast';
+export { parseMarkdown, parseInline } from './parser';
+export {
+  markdownToMrkdwn,
+  renderMrkdwn,
+  renderBlock,
+  renderInline,
+  renderPlainText,
+  renderTable,
+  escapeMrkdwn,
+  displayWidth,
+} from './mrkdwn';
+export { markdownToBlocks, MAX_SECTION_CHARS, MAX_HEADER_CHARS, MAX_BLOCKS } from './blocks';
+export { extractCodeSnippets, CodeSnippet, MAX_INLINE_CODE_CHARS } from './snippets';
+export { splitMessageText, countFences } from './split';
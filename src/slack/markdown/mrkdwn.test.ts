@@ -0,0 +1,37 @@
+/**
+ * Markdown → mrkdwn golden-file tests
+ * Each __golden__/<name>.md is rendered to <name>.mrkdwn and <name>.blocks.json.
+ * After an intended change, regenerate with `npx vitest run -u src/slack/markdown` and review the diff.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { markdownToMrkdwn, displayWidth } from './mrkdwn';
+import { markdownToBlocks } from './blocks';
+
+const GOLDEN_DIR = path.join(__dirname, '__golden__');
+const cases = fs.readdirSync(GOLDEN_DIR).filter((file) => file.endsWith('.md'));
+
+describe('markdownToMrkdwn', () => {
+  it.each(cases)('should render %s', async (file) => {
+    const markdown = fs.readFileSync(path.join(GOLDEN_DIR, file), 'utf8');
+    const name = file.replace(/\.md$/, '');
+
+    await expect(markdownToMrkdwn(markdown) + '\n').toMatchFileSnapshot(path.join(GOLDEN_DIR, `${name}.mrkdwn`));
+    await expect(JSON.stringify(markdownToBlocks(markdown), null, 2) + '\n').toMatchFileSnapshot(
+      path.join(GOLDEN_DIR, `${name}.blocks.json`)
+    );
+  });
+
+  it('should keep plain text unchanged', () => {
+    expect(markdownToMrkdwn('Hello, world!')).toBe('Hello, world!');
+    expect(markdownToMrkdwn('line one\nline two')).toBe('line one\nline two');
+  });
+
+  it('should count wide characters as two columns', () => {
+    expect(displayWidth('abc')).toBe(3);
+    expect(displayWidth('한글')).toBe(4);
+    expect(displayWidth('✅')).toBe(1);
+  });
+});
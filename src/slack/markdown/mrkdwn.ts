@@ -0,0 +1,215 @@
+/**
+ * Markdown AST → Slack mrkdwn
+ */
+
+import { MdBlock, MdInline, MdList, MdRoot, MdTable, TableAlign } from './ast';
+import { parseMarkdown } from './parser';
+
+const BULLETS = ['•', '◦', '▪'];
+const LIST_INDENT = '    ';
+const THEMATIC_BREAK = '───────────────';
+const MIN_COLUMN_WIDTH = 3;
+
+/**
+ * Escape the characters Slack reserves for markup
+ */
+export function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Column width of text in a monospace font (CJK, Hangul and emoji take two columns)
+ */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 0;
+    const wide =
+      (code >= 0x1100 && code <= 0x115f) ||
+      (code >= 0x2e80 && code <= 0xa4cf) ||
+      (code >= 0xac00 && code <= 0xd7a3) ||
+      (code >= 0xf900 && code <= 0xfaff) ||
+      (code >= 0xfe30 && code <= 0xfe4f) ||
+      (code >= 0xff00 && code <= 0xff60) ||
+      (code >= 0xffe0 && code <= 0xffe6) ||
+      (code >= 0x1f300 && code <= 0x1faff);
+    width += wide ? 2 : 1;
+  }
+  return width;
+}
+
+/**
+ * Inline content without markup (header blocks, table cells)
+ */
+export function renderPlainText(nodes: MdInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'inlineCode':
+        case 'slack':
+          return node.value;
+        case 'strong':
+        case 'emphasis':
+        case 'delete':
+          return renderPlainText(node.children);
+        case 'link': {
+          const label = renderPlainText(node.children);
+          return label === node.url ? label : `${label} (${node.url})`;
+        }
+        case 'image':
+          return node.alt || node.url;
+        case 'break':
+          return '\n';
+      }
+    })
+    .join('');
+}
+
+/**
+ * @param inStrong Already inside *...*; Slack cannot nest bold markers
+ */
+export function renderInline(nodes: MdInline[], inStrong = false): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeMrkdwn(node.value);
+        case 'strong': {
+          const inner = renderInline(node.children, true);
+          return inStrong ? inner : `*${inner}*`;
+        }
+        case 'emphasis':
+          return `_${renderInline(node.children, inStrong)}_`;
+        case 'delete':
+          return `~${renderInline(node.children, inStrong)}~`;
+        case 'inlineCode':
+          return `\`${escapeMrkdwn(node.value)}\``;
+        case 'link': {
+          const label = renderPlainText(node.children);
+          return label === node.url ? `<${node.url}>` : `<${node.url}|${escapeMrkdwn(label)}>`;
+        }
+        case 'image':
+          return `<${node.url}|${escapeMrkdwn(node.alt || node.url)}>`;
+        case 'break':
+          return '\n';
+        case 'slack':
+          return node.value;
+      }
+    })
+    .join('');
+}
+
+function renderCode(value: string): string {
+  return '```\n' + escapeMrkdwn(value) + '\n```';
+}
+
+function pad(text: string, width: number, align: TableAlign): string {
+  const space = Math.max(0, width - displayWidth(text));
+  if (align === 'right') return ' '.repeat(space) + text;
+  if (align === 'center') {
+    const left = Math.floor(space / 2);
+    return ' '.repeat(left) + text + ' '.repeat(space - left);
+  }
+  return text + ' '.repeat(space);
+}
+
+/**
+ * Tables become aligned, monospaced text in a code block
+ */
+export function renderTable(table: MdTable): string {
+  const toCells = (row: MdInline[][]) => row.map((cell) => renderPlainText(cell).replace(/\s*\n\s*/g, ' '));
+  const header = toCells(table.header);
+  const rows = table.rows.map(toCells);
+
+  const widths = header.map((cell, col) =>
+    Math.max(MIN_COLUMN_WIDTH, displayWidth(cell), ...rows.map((row) => displayWidth(row[col] ?? '')))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, col) => pad(cell, widths[col], table.align[col] ?? null)).join(' | ').replace(/\s+$/, '');
+
+  const lines = [line(header), widths.map((width) => '-'.repeat(width)).join('-+-'), ...rows.map(line)];
+  return renderCode(lines.join('\n'));
+}
+
+function indentLines(text: string, indent: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? indent + line : line))
+    .join('\n');
+}
+
+function renderList(list: MdList, level: number): string {
+  const indent = LIST_INDENT.repeat(level);
+
+  return list.items
+    .map((item, index) => {
+      let marker: string;
+      if (item.checked !== undefined) {
+        marker = item.checked ? '☑' : '☐';
+      } else if (list.ordered) {
+        marker = `${list.start + index}.`;
+      } else {
+        marker = BULLETS[level % BULLETS.length];
+      }
+
+      const [first, ...rest] = item.children;
+      const lines: string[] = [];
+      if (first?.type === 'paragraph') {
+        lines.push(`${indent}${marker} ${indentLines(renderInline(first.children), indent + '  ').trimStart()}`);
+      } else {
+        lines.push(`${indent}${marker}`);
+        if (first) rest.unshift(first);
+      }
+
+      for (const child of rest) {
+        if (child.type === 'list') {
+          lines.push(renderList(child, level + 1));
+        } else if (child.type === 'code' || child.type === 'table') {
+          lines.push(renderBlock(child)); // Fences stay at column 0
+        } else {
+          lines.push(indentLines(renderBlock(child), indent + '  '));
+        }
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Render one block to mrkdwn
+ */
+export function renderBlock(block: MdBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `*${renderInline(block.children, true)}*`;
+    case 'paragraph':
+      return renderInline(block.children);
+    case 'code':
+      return renderCode(block.value);
+    case 'list':
+      return renderList(block, 0);
+    case 'blockquote':
+      return block.children
+        .map(renderBlock)
+        .join('\n\n')
+        .split('\n')
+        .map((line) => `> ${line}`)
+        .join('\n');
+    case 'table':
+      return renderTable(block);
+    case 'thematicBreak':
+      return THEMATIC_BREAK;
+  }
+}
+
+export function renderMrkdwn(root: MdRoot): string {
+  return root.children.map(renderBlock).join('\n\n');
+}
+
+/**
+ * Convert Markdown to Slack mrkdwn text
+ */
+export function markdownToMrkdwn(markdown: string): string {
+  return renderMrkdwn(parseMarkdown(markdown));
+}
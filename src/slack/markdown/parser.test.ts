@@ -0,0 +1,62 @@
+/**
+ * Markdown parser tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown } from './parser';
+
+describe('parseMarkdown', () => {
+  it('should nest lists by indentation and keep task state', () => {
+    const root = parseMarkdown('1. one\n   - a\n   - [x] b\n2. two');
+
+    expect(root.children).toHaveLength(1);
+    const list = root.children[0];
+    expect(list).toMatchObject({ type: 'list', ordered: true, start: 1 });
+    if (list.type !== 'list') return;
+    expect(list.items).toHaveLength(2);
+    expect(list.items[0].children[1]).toMatchObject({
+      type: 'list',
+      ordered: false,
+      items: [{ checked: undefined }, { checked: true }],
+    });
+  });
+
+  it('should parse tables with alignment and pad missing cells', () => {
+    const [table] = parseMarkdown('| a | b |\n|:--|--:|\n| 1 |').children;
+
+    expect(table).toMatchObject({ type: 'table', align: ['left', 'right'] });
+    if (table.type !== 'table') return;
+    expect(table.rows[0]).toEqual([[{ type: 'text', value: '1' }], []]);
+  });
+
+  it('should record source positions of top-level blocks', () => {
+    const source = 'Intro\n\n```ts\ncode\n```\n\nOutro';
+    const [, code] = parseMarkdown(source).children;
+
+    expect(code).toMatchObject({ type: 'code', lang: 'ts', value: 'code' });
+    expect(source.slice(code.position!.start, code.position!.end)).toBe('```ts\ncode\n```');
+  });
+});
+
+describe('parseInline', () => {
+  it('should not treat intraword underscores or spaced asterisks as emphasis', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', value: 'snake_case_name' }]);
+    expect(parseInline('2 * 3 * 4')).toEqual([{ type: 'text', value: '2 * 3 * 4' }]);
+  });
+
+  it('should keep code span contents literal', () => {
+    expect(parseInline('`**a**` **b**')).toEqual([
+      { type: 'inlineCode', value: '**a**' },
+      { type: 'text', value: ' ' },
+      { type: 'strong', children: [{ type: 'text', value: 'b' }] },
+    ]);
+  });
+
+  it('should separate Slack markup from autolinks', () => {
+    expect(parseInline('<@U1> <https://a.dev>')).toEqual([
+      { type: 'slack', value: '<@U1>' },
+      { type: 'text', value: ' ' },
+      { type: 'link', url: 'https://a.dev', children: [{ type: 'text', value: 'https://a.dev' }] },
+    ]);
+  });
+});
@@ -0,0 +1,506 @@
+/**
+ * Markdown parser - CommonMark/GFM subset used by Claude responses
+ * Blocks: headings (ATX/setext), fenced code, lists (nested, task items), blockquotes,
+ * tables, thematic breaks, paragraphs. Inlines: code spans, strong/emphasis/strikethrough,
+ * links, images, autolinks and Slack markup.
+ */
+
+import { MdBlock, MdInline, MdListItem, MdRoot, TableAlign } from './ast';
+
+interface Line {
+  text: string;
+  offset: number; // Source offset of text[0]
+}
+
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const SETEXT_H1 = /^ {0,3}=+[ \t]*$/;
+const SETEXT_H2 = /^ {0,3}-+[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_MARKER = /^( *)([-*+]|\d{1,9}[.)])([ \t]+|$)/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const TASK = /^\[([ xX])\][ \t]+/;
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+
+function isBlank(line: Line): boolean {
+  return line.text.trim() === '';
+}
+
+function indentOf(text: string): number {
+  const match = text.match(/^ */);
+  return match ? match[0].length : 0;
+}
+
+function stripIndent(line: Line, count: number): Line {
+  const strip = Math.min(count, indentOf(line.text));
+  return { text: line.text.slice(strip), offset: line.offset + strip };
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let offset = 0;
+  for (const raw of text.split('\n')) {
+    lines.push({ text: raw.replace(/\r$/, '').replace(/\t/g, '    '), offset });
+    offset += raw.length + 1;
+  }
+  return lines;
+}
+
+function matchFence(text: string): RegExpMatchArray | null {
+  const match = text.match(FENCE_OPEN);
+  // A backtick info string cannot contain backticks (```inline``` is a code span)
+  if (!match || (match[2][0] === '`' && match[3].includes('`'))) return null;
+  return match;
+}
+
+function matchListMarker(text: string): RegExpMatchArray | null {
+  const match = text.match(LIST_MARKER);
+  return match && match[1].length <= 3 ? match : null;
+}
+
+function isTableStart(lines: Line[], i: number): boolean {
+  const next = lines[i + 1];
+  if (!next || !lines[i].text.includes('|') || !TABLE_DELIMITER.test(next.text)) return false;
+  return splitRow(lines[i].text).length === splitRow(next.text).length;
+}
+
+/**
+ * Whether a line starts a block that interrupts a paragraph
+ */
+function startsBlock(text: string): boolean {
+  if (matchFence(text) || HEADING.test(text) || THEMATIC_BREAK.test(text) || QUOTE.test(text)) {
+    return true;
+  }
+  const marker = matchListMarker(text);
+  if (!marker || !marker[3]) return false;
+  return !/^\d/.test(marker[2]) || parseInt(marker[2], 10) === 1;
+}
+
+function splitRow(text: string): string[] {
+  let row = text.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+}
+
+/**
+ * Parse block-level structure
+ * @param topLevel Record source positions (only meaningful for unindented blocks)
+ */
+function parseBlocks(lines: Line[], topLevel: boolean): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  const push = (block: MdBlock, first: number, last: number) => {
+    if (topLevel) {
+      block.position = { start: lines[first].offset, end: lines[last].offset + lines[last].text.length };
+    }
+    blocks.push(block);
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+    const start = i;
+
+    // Fenced code
+    const fence = matchFence(line.text);
+    if (fence) {
+      const indent = fence[1].length;
+      const marker = fence[2];
+      const lang = fence[3].trim().split(/\s+/)[0] || undefined;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const close = lines[i].text.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+        if (close && close[1][0] === marker[0] && close[1].length >= marker.length) break;
+        body.push(stripIndent(lines[i], indent).text);
+        i++;
+      }
+      const last = Math.min(i, lines.length - 1);
+      if (i >= lines.length) {
+        // Unclosed fence (e.g., still streaming) runs to the end of the text
+        while (body.length > 0 && !body[body.length - 1].trim()) body.pop();
+      }
+      i++;
+      push({ type: 'code', lang, value: body.join('\n') }, start, last);
+      continue;
+    }
+
+    // ATX heading
+    const heading = line.text.match(HEADING);
+    if (heading) {
+      push({ type: 'heading', depth: heading[1].length, children: parseInline(heading[2] || '') }, start, i);
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line.text)) {
+      push({ type: 'thematicBreak' }, start, i);
+      i++;
+      continue;
+    }
+
+    // Blockquote (with lazy continuation lines)
+    if (QUOTE.test(line.text)) {
+      const inner: Line[] = [];
+      while (i < lines.length) {
+        const quoted = lines[i].text.match(QUOTE);
+        if (quoted) {
+          inner.push({ text: lines[i].text.slice(quoted[0].length), offset: lines[i].offset + quoted[0].length });
+        } else if (!isBlank(lines[i]) && inner.length > 0 && !isBlank(inner[inner.length - 1]) && !startsBlock(lines[i].text)) {
+          inner.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      push({ type: 'blockquote', children: parseBlocks(inner, false) }, start, i - 1);
+      continue;
+    }
+
+    // List
+    const marker = matchListMarker(line.text);
+    if (marker) {
+      const ordered = /^\d/.test(marker[2]);
+      // A different bullet character (or . vs ) delimiter) starts a new list
+      const sameList = (other: RegExpMatchArray | null): other is RegExpMatchArray =>
+        !!other && other[2].slice(-1) === marker[2].slice(-1) && /^\d/.test(other[2]) === ordered;
+      const items: MdListItem[] = [];
+      let last = i;
+
+      while (i < lines.length) {
+        const item = matchListMarker(lines[i].text);
+        if (!sameList(item)) break;
+
+        const markerIndent = item[1].length;
+        const spaces = item[3].length;
+        const contentIndent = markerIndent + item[2].length + (spaces >= 1 && spaces <= 4 ? spaces : 1);
+        const firstText = lines[i].text.slice(Math.min(contentIndent, lines[i].text.length));
+        const task = firstText.match(TASK);
+        const itemLines: Line[] = [
+          { text: task ? firstText.slice(task[0].length) : firstText, offset: lines[i].offset + contentIndent },
+        ];
+        last = i;
+        i++;
+
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            // Blank lines stay in the item only if indented content follows
+            let j = i;
+            while (j < lines.length && isBlank(lines[j])) j++;
+            if (j < lines.length && indentOf(lines[j].text) > markerIndent) {
+              for (; i < j; i++) itemLines.push({ text: '', offset: lines[i].offset });
+              continue;
+            }
+            break;
+          }
+          if (indentOf(next.text) > markerIndent) {
+            itemLines.push(stripIndent(next, contentIndent));
+          } else if (!isBlank(itemLines[itemLines.length - 1]) && !startsBlock(next.text) && !matchListMarker(next.text)) {
+            itemLines.push(stripIndent(next, contentIndent)); // Lazy continuation
+          } else {
+            break;
+          }
+          last = i;
+          i++;
+        }
+
+        items.push({
+          type: 'listItem',
+          checked: task ? task[1] !== ' ' : undefined,
+          children: parseBlocks(itemLines, false),
+        });
+
+        // Blank lines between sibling items
+        let j = i;
+        while (j < lines.length && isBlank(lines[j])) j++;
+        if (j >= lines.length || !sameList(matchListMarker(lines[j].text))) break;
+        i = j;
+      }
+
+      push({ type: 'list', ordered, start: ordered ? parseInt(marker[2], 10) : 1, items }, start, last);
+      continue;
+    }
+
+    // Table
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line.text);
+      const align = splitRow(lines[i + 1].text).map(parseAlign);
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].text.includes('|')) {
+        const cells = splitRow(lines[i].text);
+        rows.push(header.map((_, col) => parseInline(cells[col] ?? '')));
+        i++;
+      }
+      push({ type: 'table', align, header: header.map((cell) => parseInline(cell)), rows }, start, i - 1);
+      continue;
+    }
+
+    // Paragraph (or setext heading)
+    const text: string[] = [line.text.trim()];
+    i++;
+    let setextDepth = 0;
+    while (i < lines.length && !isBlank(lines[i])) {
+      if (SETEXT_H1.test(lines[i].text) || SETEXT_H2.test(lines[i].text)) {
+        setextDepth = SETEXT_H1.test(lines[i].text) ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsBlock(lines[i].text) || isTableStart(lines, i)) break;
+      text.push(lines[i].text.trim());
+      i++;
+    }
+    const children = parseInline(text.join('\n'));
+    push(setextDepth ? { type: 'heading', depth: setextDepth, children } : { type: 'paragraph', children }, start, i - 1);
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse a Markdown document
+ */
+export function parseMarkdown(markdown: string): MdRoot {
+  return { type: 'root', children: parseBlocks(splitLines(markdown), true) };
+}
+
+// ---------------------------------------------------------------------------
+// Inline parsing
+// ---------------------------------------------------------------------------
+
+function isWhitespace(ch: string | undefined): boolean {
+  return ch === undefined || /\s/.test(ch);
+}
+
+function isWordChar(ch: string | undefined): boolean {
+  return ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+}
+
+function runLength(text: string, i: number): number {
+  let j = i;
+  while (text[j] === text[i]) j++;
+  return j - i;
+}
+
+/**
+ * End of a code span opened at i, or -1 if the backtick run is never closed
+ */
+function findCodeSpanEnd(text: string, i: number): number {
+  const open = runLength(text, i);
+  let j = i + open;
+  while (j < text.length) {
+    if (text[j] === '`') {
+      const run = runLength(text, j);
+      if (run === open) return j;
+      j += run;
+    } else {
+      j++;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse `[label](url "title")` starting at the `[`
+ */
+function parseLinkAt(text: string, i: number): { label: string; url: string; end: number } | null {
+  let depth = 0;
+  let j = i;
+  for (; j < text.length; j++) {
+    const ch = text[j];
+    if (ch === '\\') {
+      j++;
+    } else if (ch === '`') {
+      const close = findCodeSpanEnd(text, j);
+      if (close >= 0) j = close + runLength(text, close) - 1;
+    } else if (ch === '[') {
+      depth++;
+    } else if (ch === ']' && --depth === 0) {
+      break;
+    }
+  }
+  if (j >= text.length || text[j + 1] !== '(') return null;
+
+  const destination = text.slice(j + 2).match(/^[ \t]*(?:<([^<>\n]*)>|((?:[^\s()]|\([^\s()]*\))*))(?:[ \t]+(?:"[^"]*"|'[^']*'))?[ \t]*\)/);
+  if (!destination) return null;
+
+  return {
+    label: text.slice(i + 1, j),
+    url: destination[1] ?? destination[2],
+    end: j + 2 + destination[0].length,
+  };
+}
+
+/**
+ * Closing delimiter run for emphasis opened at i, or -1
+ */
+function findEmphasisClose(text: string, i: number, run: number): number {
+  const ch = text[i];
+  let j = i + run;
+  while (j < text.length) {
+    if (text[j] === '\\') {
+      j += 2;
+    } else if (text[j] === '`') {
+      const close = findCodeSpanEnd(text, j);
+      j = close >= 0 ? close + runLength(text, close) : j + runLength(text, j);
+    } else if (text[j] === ch) {
+      const length = runLength(text, j);
+      const rightFlanking = !isWhitespace(text[j - 1]);
+      if (length === run && rightFlanking && (ch !== '_' || !isWordChar(text[j + length]))) return j;
+      j += length;
+    } else {
+      j++;
+    }
+  }
+  return -1;
+}
+
+function pushText(nodes: MdInline[], value: string): void {
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.value += value;
+  } else if (value) {
+    nodes.push({ type: 'text', value });
+  }
+}
+
+/**
+ * Parse inline content
+ * `__text__` parses as emphasis: Slack has no underline, and it has always rendered as italics here.
+ */
+export function parseInline(text: string): MdInline[] {
+  const nodes: MdInline[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length) {
+      if (text[i + 1] === '\n') {
+        nodes.push({ type: 'break' });
+        i += 2;
+        continue;
+      }
+      if (ASCII_PUNCTUATION.test(text[i + 1])) {
+        pushText(nodes, text[i + 1]);
+        i += 2;
+        continue;
+      }
+    }
+
+    if (ch === '`') {
+      const open = runLength(text, i);
+      const close = findCodeSpanEnd(text, i);
+      if (close < 0) {
+        pushText(nodes, text.slice(i, i + open));
+        i += open;
+        continue;
+      }
+      let value = text.slice(i + open, close).replace(/\n/g, ' ');
+      if (/^ .*[^ ].* $/.test(value)) value = value.slice(1, -1);
+      nodes.push({ type: 'inlineCode', value });
+      i = close + open;
+      continue;
+    }
+
+    if (ch === '<') {
+      const br = text.slice(i).match(/^<br\s*\/?>/i);
+      if (br) {
+        nodes.push({ type: 'break' });
+        i += br[0].length;
+        continue;
+      }
+      const angle = text.slice(i).match(/^<((?:[@#!]|https?:\/\/|mailto:)[^<>\n]*)>/);
+      if (angle) {
+        const inner = angle[1];
+        if (/^[@#!]/.test(inner) || inner.includes('|')) {
+          nodes.push({ type: 'slack', value: angle[0] });
+        } else {
+          nodes.push({ type: 'link', url: inner, children: [{ type: 'text', value: inner }] });
+        }
+        i += angle[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '!' && text[i + 1] === '[') {
+      const link = parseLinkAt(text, i + 1);
+      if (link) {
+        nodes.push({ type: 'image', url: link.url, alt: link.label });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const link = parseLinkAt(text, i);
+      if (link) {
+        nodes.push({ type: 'link', url: link.url, children: parseInline(link.label) });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      const run = runLength(text, i);
+      const opens =
+        !isWhitespace(text[i + run]) &&
+        (ch !== '_' || !isWordChar(text[i - 1])) &&
+        (ch === '~' ? run === 2 : run <= 3);
+      const close = opens ? findEmphasisClose(text, i, run) : -1;
+      if (close > i + run) {
+        const children = parseInline(text.slice(i + run, close));
+        if (ch === '~') {
+          nodes.push({ type: 'delete', children });
+        } else if (run === 3) {
+          nodes.push({ type: 'strong', children: [{ type: 'emphasis', children }] });
+        } else if (run === 2 && ch === '*') {
+          nodes.push({ type: 'strong', children });
+        } else {
+          nodes.push({ type: 'emphasis', children });
+        }
+        i = close + run;
+        continue;
+      }
+      pushText(nodes, text.slice(i, i + run));
+      i += run;
+      continue;
+    }
+
+    pushText(nodes, ch);
+    i++;
+  }
+
+  return nodes;
+}
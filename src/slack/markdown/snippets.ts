@@ -0,0 +1,77 @@
+/**
+ * Long code blocks are moved out of the message and uploaded as snippets
+ */
+
+import { parseMarkdown } from './parser';
+
+// Above this a code block no longer fits a section block
+export const MAX_INLINE_CODE_CHARS = 2800;
+
+export interface CodeSnippet {
+  filename: string;
+  language?: string;
+  content: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  bash: 'sh',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  cs: 'cs',
+  css: 'css',
+  diff: 'diff',
+  go: 'go',
+  html: 'html',
+  java: 'java',
+  javascript: 'js',
+  js: 'js',
+  json: 'json',
+  jsx: 'jsx',
+  kotlin: 'kt',
+  markdown: 'md',
+  md: 'md',
+  python: 'py',
+  py: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  sh: 'sh',
+  shell: 'sh',
+  sql: 'sql',
+  swift: 'swift',
+  ts: 'ts',
+  tsx: 'tsx',
+  typescript: 'ts',
+  xml: 'xml',
+  yaml: 'yaml',
+  yml: 'yaml',
+};
+
+/**
+ * Replace top-level code blocks longer than maxChars with a reference line
+ * @returns The remaining Markdown and the extracted snippets, in order
+ */
+export function extractCodeSnippets(
+  markdown: string,
+  maxChars: number = MAX_INLINE_CODE_CHARS
+): { markdown: string; snippets: CodeSnippet[] } {
+  const snippets: CodeSnippet[] = [];
+  let output = '';
+  let cursor = 0;
+
+  for (const block of parseMarkdown(markdown).children) {
+    if (block.type !== 'code' || block.value.length <= maxChars || !block.position) continue;
+
+    const language = block.lang?.toLowerCase();
+    const extension = (language && EXTENSIONS[language]) || 'txt';
+    const filename = `snippet-${snippets.length + 1}.${extension}`;
+    const lines = block.value.split('\n').length;
+    snippets.push({ filename, language, content: block.value });
+
+    output += markdown.slice(cursor, block.position.start);
+    output += `📎 \`${filename}\` (${lines} lines) is attached below.`;
+    cursor = block.position.end;
+  }
+
+  return { markdown: output + markdown.slice(cursor), snippets };
+}
@@ -0,0 +1,32 @@
+/**
+ * Message splitting tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitMessageText } from './split';
+
+describe('splitMessageText', () => {
+  it('should keep short text in one chunk and drop blank text', () => {
+    expect(splitMessageText('hello', 100)).toEqual(['hello']);
+    expect(splitMessageText('  \n', 100)).toEqual([]);
+  });
+
+  it('should split at paragraph boundaries', () => {
+    const first = 'a'.repeat(60);
+    const second = 'b'.repeat(60);
+
+    expect(splitMessageText(`${first}\n\n${second}`, 100)).toEqual([first, second]);
+  });
+
+  it('should close and reopen a code block cut in half', () => {
+    const code = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+    const chunks = splitMessageText(`Intro\n\`\`\`\n${code}\n\`\`\``, 80);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(80);
+      expect(chunk.split('```').length % 2).toBe(1);
+    }
+  });
+});
+
@@ -0,0 +1,44 @@
+/**
+ * Size-limited splitting of Markdown/mrkdwn text
+ */
+
+const FENCE = '```';
+
+/**
+ * Number of ``` fences in the text (odd means a code block is still open)
+ */
+export function countFences(text: string): number {
+  return text.split(FENCE).length - 1;
+}
+
+/**
+ * Split text into chunks of at most maxChars, preferring paragraph and line boundaries
+ * A code block cut in half is closed at the end of one chunk and reopened in the next.
+ * Earlier chunks only depend on their own prefix, so they stay stable while text is appended.
+ */
+export function splitMessageText(text: string, maxChars: number): string[] {
+  if (!text.trim()) return [];
+
+  const limit = maxChars - 2 * (FENCE.length + 1);
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, limit);
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < limit / 2) cut = window.lastIndexOf('\n');
+    if (cut < limit / 2) cut = limit;
+
+    let head = rest.slice(0, cut).replace(/\s+$/, '');
+    rest = rest.slice(cut).replace(/^\n+/, '');
+
+    if (countFences(head) % 2 === 1) {
+      head += `\n${FENCE}`;
+      rest = `${FENCE}\n${rest}`;
+    }
+    chunks.push(head);
+  }
+
+  if (rest.trim()) chunks.push(rest);
+  return chunks;
+}
@@ -158,4 +158,27 @@ describe('MessageFormatter', () => {
       expect(MessageFormatter.generateSessionTitle('....')).toBe('새 대화');
     });
   });
+
+  describe('formatSessionLinks', () => {
+    it('should link the PR, Jira issue and Confluence page', () => {
+      const links = MessageFormatter.formatSessionLinks({
+        repo: 'org/repo',
+        prNumber: 456,
+        prUrl: 'https://github.com/org/repo/pull/456',
+        issueKey: 'ABC-789',
+        confluenceUrl: 'https://xxx.atlassian.net/wiki/spaces/TEAM/pages/123/Spec',
+        confluencePageId: '123',
+      });
+
+      expect(links).toBe(
+        '🔗 <https://github.com/org/repo/pull/456|org/repo#456> · ABC-789 · ' +
+          '<https://xxx.atlassian.net/wiki/spaces/TEAM/pages/123/Spec|Confluence 123>'
+      );
+    });
+
+    it('should return undefined without links', () => {
+      expect(MessageFormatter.formatSessionLinks(undefined)).toBeUndefined();
+      expect(MessageFormatter.formatSessionLinks({})).toBeUndefined();
+    });
+  });
 });
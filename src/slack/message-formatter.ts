@@ -2,22 +2,16 @@
  * Message formatting utilities for Slack bot
  */
 
+import { SessionLinks } from '../types';
+import { markdownToMrkdwn } from './markdown';
+
 export class MessageFormatter {
   /**
    * Format a message for Slack display
-   * Converts markdown to Slack format
+   * Converts markdown to Slack mrkdwn (see ./markdown)
    */
   static formatMessage(text: string, _isFinal: boolean): string {
-    // Convert markdown code blocks to Slack format
-    let formatted = text
-      .replace(/```(\w+)?\n([\s\S]*?)```/g, (_, _lang, code) => {
-        return '```' + code + '```';
-      })
-      .replace(/`([^`]+)`/g, '`$1`')
-      .replace(/\*\*([^*]+)\*\*/g, '*$1*')
-      .replace(/__([^_]+)__/g, '_$1_');
-
-    return formatted;
+    return markdownToMrkdwn(text);
   }
 
   /**
@@ -75,6 +69,31 @@ export class MessageFormatter {
     return `${minutes}분`;
   }
 
+  /**
+   * Format session links as Slack links (PR, Jira issue/board, Confluence page)
+   * Returns undefined when the session has no links.
+   */
+  static formatSessionLinks(links: SessionLinks | undefined): string | undefined {
+    if (!links) return undefined;
+
+    const parts: string[] = [];
+    if (links.repo && links.prNumber !== undefined) {
+      const label = `${links.repo}#${links.prNumber}`;
+      parts.push(links.prUrl ? `<${links.prUrl}|${label}>` : label);
+    }
+    if (links.issueKey) {
+      parts.push(links.issueUrl ? `<${links.issueUrl}|${links.issueKey}>` : links.issueKey);
+    }
+    if (links.boardUrl) {
+      parts.push(`<${links.boardUrl}|Jira board>`);
+    }
+    if (links.confluenceUrl) {
+      const label = links.confluencePageId ? `Confluence ${links.confluencePageId}` : 'Confluence';
+      parts.push(`<${links.confluenceUrl}|${label}>`);
+    }
+    return parts.length > 0 ? `🔗 ${parts.join(' · ')}` : undefined;
+  }
+
   /**
    * Generate a session title from the first message
    * - Clean up mentions, URLs, code blocks
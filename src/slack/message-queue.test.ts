@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MessageQueue, MAX_QUEUE_SIZE } from './message-queue';
+import { SlackApiHelper } from './slack-api-helper';
+
+describe('MessageQueue', () => {
+  const sessionKey = 'C123-111.222';
+  let slackApi: { addReaction: ReturnType<typeof vi.fn>; removeReaction: ReturnType<typeof vi.fn> };
+  let queue: MessageQueue;
+
+  const message = (ts: string, text = `message ${ts}`) => ({
+    event: { user: 'U1', channel: 'C123', thread_ts: '111.222', ts, text },
+    say: vi.fn(),
+    text,
+    processedFiles: [],
+  });
+
+  beforeEach(() => {
+    slackApi = {
+      addReaction: vi.fn().mockResolvedValue(true),
+      removeReaction: vi.fn().mockResolvedValue(undefined),
+    };
+    queue = new MessageQueue(slackApi as unknown as SlackApiHelper);
+  });
+
+  it('should number queued messages after the running request', () => {
+    expect(queue.enqueue(sessionKey, message('1'))?.position).toBe(2);
+    expect(queue.enqueue(sessionKey, message('2'))?.position).toBe(3);
+    expect(queue.dequeue(sessionKey)?.event.ts).toBe('1');
+    expect(queue.dequeue(sessionKey)?.event.ts).toBe('2');
+    expect(queue.dequeue(sessionKey)).toBeUndefined();
+  });
+
+  it('should keep sessions independent', () => {
+    queue.enqueue(sessionKey, message('1'));
+    queue.enqueue('other', message('2'));
+
+    expect(queue.size(sessionKey)).toBe(1);
+    expect(queue.dequeue('other')?.event.ts).toBe('2');
+  });
+
+  it('should put priority messages ahead of user messages', () => {
+    queue.enqueue(sessionKey, message('1'));
+    queue.enqueue(sessionKey, message('load', '/load'), { priority: true });
+
+    expect(queue.list(sessionKey).map((m) => m.event.ts)).toEqual(['load', '1']);
+  });
+
+  it('should reject user messages once the queue is full', () => {
+    for (let i = 0; i < MAX_QUEUE_SIZE; i++) {
+      expect(queue.enqueue(sessionKey, message(String(i)))).not.toBeNull();
+    }
+    expect(queue.enqueue(sessionKey, message('overflow'))).toBeNull();
+  });
+
+  it('should move and drop by displayed position', () => {
+    queue.enqueue(sessionKey, message('a'));
+    queue.enqueue(sessionKey, message('b'));
+    queue.enqueue(sessionKey, message('c'));
+
+    expect(queue.move(sessionKey, 4, 2)).toBe(true);
+    expect(queue.list(sessionKey).map((m) => m.event.ts)).toEqual(['c', 'a', 'b']);
+
+    expect(queue.drop(sessionKey, 3)?.event.ts).toBe('a');
+    expect(queue.list(sessionKey).map((m) => m.event.ts)).toEqual(['c', 'b']);
+
+    expect(queue.move(sessionKey, 1, 2)).toBe(false);
+    expect(queue.drop(sessionKey, 9)).toBeUndefined();
+  });
+
+  it('should sync position reactions after reordering', async () => {
+    queue.enqueue(sessionKey, message('a'));
+    queue.enqueue(sessionKey, message('b'));
+    await queue.syncReactions(sessionKey);
+
+    expect(slackApi.addReaction).toHaveBeenCalledWith('C123', 'a', 'two');
+    expect(slackApi.addReaction).toHaveBeenCalledWith('C123', 'b', 'three');
+
+    queue.move(sessionKey, 3, 2);
+    await queue.syncReactions(sessionKey);
+
+    expect(slackApi.removeReaction).toHaveBeenCalledWith('C123', 'b', 'three');
+    expect(slackApi.addReaction).toHaveBeenLastCalledWith('C123', 'a', 'three');
+  });
+});
@@ -0,0 +1,185 @@
+import { Logger } from '../logger';
+import { SlackApiHelper } from './slack-api-helper';
+import { ProcessedFile } from '../file-handler';
+import { MessageEvent, SayFn } from './pipeline/types';
+
+// Maximum pending messages per session
+export const MAX_QUEUE_SIZE = 10;
+
+// Number emojis used for the "queued (#n)" reaction
+const POSITION_EMOJIS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'keycap_ten'];
+const OVERFLOW_EMOJI = 'inbox_tray';
+
+/**
+ * A message waiting for the running request in its session to finish
+ */
+export interface QueuedMessage {
+  id: number;
+  event: MessageEvent;
+  say: SayFn;
+  text: string | undefined;
+  processedFiles: ProcessedFile[];
+  enqueuedAt: number;
+  /** Internal follow-ups (e.g., renew /load) skip reactions and run first */
+  priority: boolean;
+  /** Position emoji currently shown on the user's message */
+  reaction?: string;
+}
+
+export interface EnqueueOptions {
+  priority?: boolean;
+}
+
+/**
+ * Per-session FIFO queue of follow-up messages
+ * Positions are 1-based and count the running request, so the first
+ * queued message is #2.
+ */
+export class MessageQueue {
+  private logger = new Logger('MessageQueue');
+  private queues: Map<string, QueuedMessage[]> = new Map();
+  private nextId = 1;
+
+  constructor(private slackApi: SlackApiHelper) {}
+
+  /**
+   * Add a message to the session queue
+   * @returns The queued message and its position, or null if the queue is full
+   */
+  enqueue(
+    sessionKey: string,
+    message: Omit<QueuedMessage, 'id' | 'enqueuedAt' | 'priority'>,
+    options: EnqueueOptions = {}
+  ): { item: QueuedMessage; position: number } | null {
+    const queue = this.queues.get(sessionKey) || [];
+    if (!options.priority && queue.length >= MAX_QUEUE_SIZE) {
+      return null;
+    }
+
+    const item: QueuedMessage = {
+      ...message,
+      id: this.nextId++,
+      enqueuedAt: Date.now(),
+      priority: !!options.priority,
+    };
+
+    if (item.priority) {
+      // Keep priority items in FIFO order among themselves, ahead of user messages
+      const insertAt = queue.findIndex((q) => !q.priority);
+      queue.splice(insertAt === -1 ? queue.length : insertAt, 0, item);
+    } else {
+      queue.push(item);
+    }
+    this.queues.set(sessionKey, queue);
+
+    const position = queue.indexOf(item) + 2;
+    this.logger.debug('Queued message', { sessionKey, id: item.id, position, priority: item.priority });
+    return { item, position };
+  }
+
+  /**
+   * Take the next message for a session
+   */
+  dequeue(sessionKey: string): QueuedMessage | undefined {
+    const queue = this.queues.get(sessionKey);
+    if (!queue || queue.length === 0) {
+      return undefined;
+    }
+
+    const item = queue.shift();
+    if (queue.length === 0) {
+      this.queues.delete(sessionKey);
+    }
+    return item;
+  }
+
+  /**
+   * Get pending messages in execution order
+   */
+  list(sessionKey: string): QueuedMessage[] {
+    return [...(this.queues.get(sessionKey) || [])];
+  }
+
+  size(sessionKey: string): number {
+    return this.queues.get(sessionKey)?.length || 0;
+  }
+
+  /**
+   * Move a message from one position to another (positions as displayed, starting at #2)
+   * @returns false if either position is out of range
+   */
+  move(sessionKey: string, fromPosition: number, toPosition: number): boolean {
+    const queue = this.queues.get(sessionKey);
+    const from = fromPosition - 2;
+    const to = toPosition - 2;
+    if (!queue || from < 0 || from >= queue.length || to < 0 || to >= queue.length) {
+      return false;
+    }
+
+    const [item] = queue.splice(from, 1);
+    queue.splice(to, 0, item);
+    return true;
+  }
+
+  /**
+   * Remove a message by displayed position
+   */
+  drop(sessionKey: string, position: number): QueuedMessage | undefined {
+    const queue = this.queues.get(sessionKey);
+    const index = position - 2;
+    if (!queue || index < 0 || index >= queue.length) {
+      return undefined;
+    }
+
+    const [item] = queue.splice(index, 1);
+    if (queue.length === 0) {
+      this.queues.delete(sessionKey);
+    }
+    return item;
+  }
+
+  /**
+   * Remove all pending messages for a session
+   */
+  clear(sessionKey: string): QueuedMessage[] {
+    const queue = this.queues.get(sessionKey) || [];
+    this.queues.delete(sessionKey);
+    return queue;
+  }
+
+  /**
+   * Update "queued (#n)" reactions so they match current positions
+   */
+  async syncReactions(sessionKey: string): Promise<void> {
+    const queue = this.list(sessionKey);
+    for (let i = 0; i < queue.length; i++) {
+      const item = queue[i];
+      if (item.priority) continue;
+
+      const emoji = MessageQueue.getPositionEmoji(i + 2);
+      if (item.reaction === emoji) continue;
+
+      await this.clearReaction(item);
+      if (await this.slackApi.addReaction(item.event.channel, item.event.ts, emoji)) {
+        item.reaction = emoji;
+      }
+    }
+  }
+
+  /**
+   * Remove the position reaction (message started running or was dropped)
+   */
+  async clearReaction(item: QueuedMessage): Promise<void> {
+    if (item.reaction) {
+      await this.slackApi.removeReaction(item.event.channel, item.event.ts, item.reaction);
+      item.reaction = undefined;
+    }
+  }
+
+  /**
+   * Reaction emoji for a displayed position
+   */
+  static getPositionEmoji(position: number): string {
+    return POSITION_EMOJIS[position - 1] || OVERFLOW_EMOJI;
+  }
+}
@@ -7,11 +7,15 @@ import { MessageFormatter } from '../message-formatter';
 import { Logger } from '../../logger';
 import { MessageEvent, SayFn, SessionInitResult } from './types';
 import { getDispatchService } from '../../dispatch-service';
-import { ConversationSession } from '../../types';
+import { WorkflowSwitcher } from '../workflow-switcher';
+import { DispatchInfo } from '../../types';
 
 // Timeout for dispatch API call (30 seconds - Agent SDK needs time to start)
 const DISPATCH_TIMEOUT_MS = 30000;
 
+// Characters of the first message kept with the dispatch result (for override records)
+const DISPATCH_INPUT_MAX_LENGTH = 500;
+
 // Track in-flight dispatch calls to prevent race conditions
 // Maps sessionKey -> Promise that resolves when dispatch completes
 const dispatchInFlight: Map<string, Promise<void>> = new Map();
@@ -133,14 +137,7 @@ export class SessionInitializer {
     }
 
     // Handle concurrency control
-    const abortController = this.handleConcurrency(
-      sessionKey,
-      channel,
-      threadTs,
-      user,
-      userName,
-      session
-    );
+    const abortController = this.handleConcurrency(sessionKey, channel, threadTs, user, userName);
 
     return {
       session,
@@ -218,17 +215,26 @@ export class SessionInitializer {
       // Remove dispatching reaction
       await this.deps.slackApi.removeReaction(channel, threadTs, 'mag');
 
-      // Update dispatch message with workflow result
+      const dispatch: DispatchInfo = {
+        workflow: result.workflow,
+        confidence: result.confidence,
+        runnerUp: result.runnerUp,
+        runnerUpConfidence: result.runnerUpConfidence,
+        rule: result.rule,
+        input: text.substring(0, DISPATCH_INPUT_MAX_LENGTH),
+        messageTs: dispatchMessageTs,
+      };
+
+      // Update dispatch message with workflow result and the "Change workflow" menu
       if (dispatchMessageTs) {
-        await this.deps.slackApi.updateMessage(
-          channel,
-          dispatchMessageTs,
-          `✅ *Workflow:* \`${result.workflow}\` → "${result.title}" _(${elapsed}ms)_`
-        );
+        const status = WorkflowSwitcher.buildStatusBlocks(result.workflow, result.title, dispatch, {
+          elapsedMs: elapsed,
+        });
+        await this.deps.slackApi.updateMessage(channel, dispatchMessageTs, status.text, status.blocks);
       }
 
       // Transition session to MAIN state with determined workflow
-      this.deps.claudeHandler.transitionToMain(channel, threadTs, result.workflow, result.title);
+      this.deps.claudeHandler.transitionToMain(channel, threadTs, result.workflow, result.title, dispatch, result.links);
     } catch (error) {
       const elapsed = Date.now() - startTime;
       this.logger.error(`❌ Dispatch failed after ${elapsed}ms, using default workflow`, { error });
@@ -236,18 +242,24 @@ export class SessionInitializer {
       // Remove dispatching reaction
       await this.deps.slackApi.removeReaction(channel, threadTs, 'mag');
 
-      // Update dispatch message with error
+      const dispatch: DispatchInfo = {
+        workflow: 'default',
+        input: text.substring(0, DISPATCH_INPUT_MAX_LENGTH),
+        messageTs: dispatchMessageTs,
+      };
+
+      // Update dispatch message with error (the menu still allows picking the right workflow)
       if (dispatchMessageTs) {
-        await this.deps.slackApi.updateMessage(
-          channel,
-          dispatchMessageTs,
-          `⚠️ *Workflow:* \`default\` _(dispatch failed after ${elapsed}ms)_`
-        );
+        const status = WorkflowSwitcher.buildStatusBlocks('default', undefined, dispatch, {
+          elapsedMs: elapsed,
+          failed: true,
+        });
+        await this.deps.slackApi.updateMessage(channel, dispatchMessageTs, status.text, status.blocks);
       }
 
       // Fallback to default workflow on error
       const fallbackTitle = MessageFormatter.generateSessionTitle(text);
-      this.deps.claudeHandler.transitionToMain(channel, threadTs, 'default', fallbackTitle);
+      this.deps.claudeHandler.transitionToMain(channel, threadTs, 'default', fallbackTitle, dispatch);
     } finally {
       clearTimeout(timeoutId);
       // Clean up the in-flight tracking and resolve waiting promises
@@ -261,23 +273,13 @@ export class SessionInitializer {
     channel: string,
     threadTs: string,
     user: string,
-    userName: string,
-    session: ConversationSession
+    userName: string
   ): AbortController {
-    // Check if this user can interrupt the current response
-    const canInterrupt = this.deps.claudeHandler.canInterrupt(channel, threadTs, user);
-
-    // Cancel existing request only if user can interrupt
-    if (this.deps.requestCoordinator.isRequestActive(sessionKey) && canInterrupt) {
-      this.logger.debug('Cancelling existing request for session', { sessionKey, interruptedBy: userName });
+    // Requests are serialized per session by the message queue, so an active
+    // controller here is stale (e.g., left over from a crashed stream)
+    if (this.deps.requestCoordinator.isRequestActive(sessionKey)) {
+      this.logger.warn('Aborting stale request controller for session', { sessionKey, startedBy: userName });
       this.deps.requestCoordinator.abortSession(sessionKey);
-    } else if (this.deps.requestCoordinator.isRequestActive(sessionKey) && !canInterrupt) {
-      this.logger.debug('User cannot interrupt, message will be processed after current response', {
-        sessionKey,
-        user: userName,
-        owner: session.ownerName,
-        currentInitiator: session.currentInitiatorName,
-      });
     }
 
     const abortController = new AbortController();
@@ -1,27 +1,37 @@
-import { ClaudeHandler } from '../../claude-handler';
+import { ClaudeHandler, QuerySlotCallbacks } from '../../claude-handler';
 import { FileHandler, ProcessedFile } from '../../file-handler';
 import { userSettingsStore } from '../../user-settings-store';
+import { budgetStore, BudgetStatus, formatUsd } from '../../budget-store';
+import { usageLedger } from '../../usage-ledger';
+import { workflowRegistry } from '../../workflow-registry';
 import { ConversationSession, SessionUsage } from '../../types';
 import { Logger } from '../../logger';
+import { config } from '../../config';
+import { snapshotWorkingTree, summarizeChanges } from '../../git-changes';
 import {
   StreamProcessor,
   StreamContext,
   StreamCallbacks,
   UsageData,
   ToolEventProcessor,
+  ToolEventContext,
   StatusReporter,
   ReactionManager,
   ToolTracker,
   TodoDisplayManager,
+  SlackApiHelper,
+  TurnSummaryFormatter,
 } from '../index';
 import { ActionHandlers } from '../actions';
 import { RequestCoordinator } from '../request-coordinator';
+import { TurnRollback } from '../turn-rollback';
 import { SayFn, MessageEvent } from './types';
 
 /**
  * Function type for handleMessage callback (used in renew flow)
+ * priority: run ahead of queued user messages once the current request finishes
  */
-export type HandleMessageFn = (event: MessageEvent, say: any) => Promise<void>;
+export type HandleMessageFn = (event: MessageEvent, say: any, options?: { priority?: boolean }) => Promise<void>;
 
 // Default context window size (200k for Claude models)
 const DEFAULT_CONTEXT_WINDOW = 200000;
@@ -36,6 +46,8 @@ interface StreamExecutorDeps {
   todoDisplayManager: TodoDisplayManager;
   actionHandlers: ActionHandlers;
   requestCoordinator: RequestCoordinator;
+  /** Optional: edits the streamed response in place (live message) */
+  slackApi?: SlackApiHelper;
   /** Optional: handleMessage function for renew flow recursion */
   handleMessage?: HandleMessageFn;
 }
@@ -59,8 +71,14 @@ interface StreamExecuteParams {
  */
 export class StreamExecutor {
   private logger = new Logger('StreamExecutor');
+  private turnRollback: TurnRollback;
 
-  constructor(private deps: StreamExecutorDeps) {}
+  constructor(private deps: StreamExecutorDeps) {
+    this.turnRollback = new TurnRollback({
+      claudeHandler: deps.claudeHandler,
+      requestCoordinator: deps.requestCoordinator,
+    });
+  }
 
   /**
    * 프롬프트 준비
@@ -107,8 +125,15 @@ export class StreamExecutor {
     } = params;
 
     let statusMessageTs: string | undefined;
+    let baselineTree: string | undefined;
+    const startedAt = Date.now();
 
     try {
+      // Block before spending anything once a budget is exhausted
+      if (!(await this.checkBudget(user, channel, threadTs, say))) {
+        return { success: false, messageCount: 0 };
+      }
+
       const finalPrompt = await this.preparePrompt(text, processedFiles, userName, user);
 
       this.logger.info('Sending query to Claude Code SDK', {
@@ -135,7 +160,7 @@ export class StreamExecutor {
       );
 
       // Create Slack context for permission prompts
-      const slackContext = { channel, threadTs, user };
+      const slackContext = { channel, threadTs, user, ownerId: session.ownerId };
 
       // Create stream context
       const streamContext: StreamContext = {
@@ -152,7 +177,14 @@ export class StreamExecutor {
           });
           return { ts: result?.ts };
         },
+        verbosity: userSettingsStore.resolveVerbosity(user, channel),
       };
+      const slackApi = this.deps.slackApi;
+      if (slackApi && config.streaming.liveUpdates) {
+        streamContext.updateMessage = (ts, text, blocks) => slackApi.updateMessage(channel, ts, text, blocks);
+        streamContext.deleteMessage = (ts) => slackApi.deleteMessage(channel, ts);
+        streamContext.uploadFile = (filename, content) => slackApi.uploadFile(channel, filename, content, { threadTs });
+      }
 
       // Create stream callbacks
       const streamCallbacks: StreamCallbacks = {
@@ -164,20 +196,10 @@ export class StreamExecutor {
             sessionKey,
             this.deps.statusReporter.getStatusEmoji('working')
           );
-          await this.deps.toolEventProcessor.handleToolUse(toolUses, {
-            channel: ctx.channel,
-            threadTs: ctx.threadTs,
-            sessionKey: ctx.sessionKey,
-            say: ctx.say,
-          });
+          await this.deps.toolEventProcessor.handleToolUse(toolUses, this.toToolEventContext(ctx));
         },
         onToolResult: async (toolResults, ctx) => {
-          await this.deps.toolEventProcessor.handleToolResult(toolResults, {
-            channel: ctx.channel,
-            threadTs: ctx.threadTs,
-            sessionKey: ctx.sessionKey,
-            say: ctx.say,
-          });
+          await this.deps.toolEventProcessor.handleToolResult(toolResults, this.toToolEventContext(ctx));
         },
         onTodoUpdate: async (input, ctx) => {
           await this.deps.todoDisplayManager.handleTodoUpdate(
@@ -197,16 +219,59 @@ export class StreamExecutor {
         },
         onUsageUpdate: (usage: UsageData) => {
           this.updateSessionUsage(session, usage);
+          budgetStore.recordSpend(user, channel, usage.totalCostUsd);
+          this.recordUsageLedger(session, usage, { user, userName, channel, threadTs, startedAt });
         },
       };
 
+      // Show "waiting for a slot" while the query scheduler holds this request
+      // Updates are chained so the waiting/thinking reactions never interleave
+      let slotStatusUpdate: Promise<void> = Promise.resolve();
+      const showSlotStatus = (status: 'waiting' | 'thinking', detail?: string) => {
+        slotStatusUpdate = slotStatusUpdate
+          .then(async () => {
+            if (statusMessageTs) {
+              await this.deps.statusReporter.updateStatusDirect(channel, statusMessageTs, status, detail);
+            }
+            await this.deps.reactionManager.updateReaction(
+              sessionKey,
+              this.deps.statusReporter.getStatusEmoji(status)
+            );
+          })
+          .catch((error) => this.logger.warn('Failed to update slot status', error));
+      };
+      const slotCallbacks: QuerySlotCallbacks = {
+        onWaiting: (position) => showSlotStatus('waiting', `(#${position} in line)`),
+        onAcquired: () => showSlotStatus('thinking'),
+      };
+
+      // Snapshot the working tree so the turn's changes can be summarized and rolled back afterwards
+      if (config.turnSummary.enabled || config.checkpoints.enabled) {
+        baselineTree = await snapshotWorkingTree(workingDirectory);
+      }
+      if (baselineTree && config.checkpoints.enabled) {
+        await this.turnRollback
+          .recordCheckpoint(channel, threadTs, baselineTree, workingDirectory, text)
+          .catch((error) => this.logger.warn('Failed to record checkpoint', { sessionKey, error }));
+      }
+
       // Create and run stream processor
-      const processor = new StreamProcessor(streamCallbacks);
+      const processor = new StreamProcessor(streamCallbacks, {
+        liveUpdateIntervalMs: config.streaming.updateIntervalMs,
+      });
       const streamResult = await processor.process(
-        this.deps.claudeHandler.streamQuery(finalPrompt, session, abortController, workingDirectory, slackContext),
+        this.deps.claudeHandler.streamQuery(
+          finalPrompt,
+          session,
+          abortController,
+          workingDirectory,
+          slackContext,
+          slotCallbacks
+        ),
         streamContext,
         abortController.signal
       );
+      await this.deps.toolEventProcessor.finishToolActivity(sessionKey);
 
       if (streamResult.aborted) {
         const abortError = new Error('Request was aborted');
@@ -233,6 +298,8 @@ export class StreamExecutor {
         await this.deps.fileHandler.cleanupTempFiles(processedFiles);
       }
 
+      await this.sendBudgetWarnings(user, channel, threadTs, say);
+
       // Handle renew flow if in pending_save state
       if (session.renewState === 'pending_save') {
         await this.handleRenewSaveComplete(
@@ -266,10 +333,65 @@ export class StreamExecutor {
       );
       return { success: false, messageCount: 0 };
     } finally {
+      await this.deps.toolEventProcessor.finishToolActivity(sessionKey);
+      if (baselineTree) {
+        const endTree = await snapshotWorkingTree(workingDirectory);
+        if (endTree && config.checkpoints.enabled) {
+          this.turnRollback.completeCheckpoint(channel, threadTs, baselineTree, endTree);
+        }
+        if (endTree && config.turnSummary.enabled) {
+          await this.postTurnSummary(workingDirectory, baselineTree, endTree, threadTs, say);
+        }
+      }
       this.cleanup(session, sessionKey);
     }
   }
 
+  /**
+   * Post a card listing the files changed between two snapshots (nothing when unchanged)
+   */
+  private async postTurnSummary(
+    workingDirectory: string,
+    baselineTree: string,
+    currentTree: string,
+    threadTs: string,
+    say: SayFn
+  ): Promise<void> {
+    try {
+      if (currentTree === baselineTree) return;
+
+      const summary = await summarizeChanges(workingDirectory, baselineTree, currentTree);
+      if (summary.files.length === 0) return;
+
+      await say({
+        text: TurnSummaryFormatter.formatHeadline(summary),
+        blocks: TurnSummaryFormatter.buildBlocks(summary, {
+          cwd: workingDirectory,
+          from: baselineTree,
+          to: currentTree,
+        }, { revertable: config.checkpoints.enabled }),
+        thread_ts: threadTs,
+      });
+    } catch (error) {
+      this.logger.warn('Failed to post turn summary', { workingDirectory, error });
+    }
+  }
+
+  /**
+   * Tool event context for a stream context
+   */
+  private toToolEventContext(ctx: StreamContext): ToolEventContext {
+    return {
+      channel: ctx.channel,
+      threadTs: ctx.threadTs,
+      sessionKey: ctx.sessionKey,
+      say: ctx.say,
+      verbosity: ctx.verbosity,
+      updateMessage: ctx.updateMessage,
+      uploadFile: ctx.uploadFile,
+    };
+  }
+
   private async handleError(
     error: any,
     session: ConversationSession,
@@ -319,6 +441,11 @@ export class StreamExecutor {
   private cleanup(session: ConversationSession, sessionKey: string): void {
     this.deps.requestCoordinator.removeController(sessionKey);
 
+    // Persist usage totals and renew state accumulated during this turn
+    if (session) {
+      this.deps.claudeHandler.saveSession(session.channelId, session.threadTs);
+    }
+
     // Schedule cleanup for todo tracking
     if (session?.sessionId) {
       this.deps.toolTracker.scheduleCleanup(5 * 60 * 1000, () => {
@@ -330,6 +457,57 @@ export class StreamExecutor {
     }
   }
 
+  /**
+   * Check user/channel budgets before starting a query
+   * @returns false if a budget is exhausted (user has been notified)
+   */
+  private async checkBudget(user: string, channel: string, threadTs: string, say: SayFn): Promise<boolean> {
+    const check = budgetStore.checkBudget(user, channel);
+    if (check.allowed) {
+      return true;
+    }
+
+    const exceeded = check.exceeded!;
+    this.logger.warn('Budget exceeded, blocking request', {
+      scope: exceeded.scope,
+      id: exceeded.id,
+      period: exceeded.period,
+      spentUsd: exceeded.spentUsd,
+      limitUsd: exceeded.limitUsd,
+    });
+
+    const resetText = exceeded.period === 'daily' ? 'at 00:00 UTC' : 'on the 1st of next month (UTC)';
+    await say({
+      text:
+        `🚫 *Budget exceeded*\n\n` +
+        `${this.describeBudget(exceeded)} of ${formatUsd(exceeded.limitUsd)} has been used ` +
+        `(${formatUsd(exceeded.spentUsd)} spent). It resets ${resetText}.\n` +
+        `_Use \`budget\` to see current limits or ask an admin to raise them._`,
+      thread_ts: threadTs,
+    });
+    return false;
+  }
+
+  /**
+   * Post in-thread warnings for budget thresholds crossed by this request
+   */
+  private async sendBudgetWarnings(user: string, channel: string, threadTs: string, say: SayFn): Promise<void> {
+    for (const warning of budgetStore.collectWarnings(user, channel)) {
+      const percent = Math.round(warning.ratio * 100);
+      await say({
+        text:
+          `⚠️ *Budget warning*: ${this.describeBudget(warning)} is at ${percent}% ` +
+          `(${formatUsd(warning.spentUsd)} / ${formatUsd(warning.limitUsd)}).`,
+        thread_ts: threadTs,
+      });
+    }
+  }
+
+  private describeBudget(status: BudgetStatus): string {
+    const owner = status.scope === 'user' ? `<@${status.id}>'s` : `This channel's`;
+    return `${owner} ${status.period} budget`;
+  }
+
   private getUserInfoContext(userId: string): string | null {
     const jiraName = userSettingsStore.getUserJiraName(userId);
     const jiraAccountId = userSettingsStore.getUserJiraAccountId(userId);
@@ -396,6 +574,34 @@ export class StreamExecutor {
     });
   }
 
+  /**
+   * Append the completed request to the usage ledger
+   */
+  private recordUsageLedger(
+    session: ConversationSession,
+    usage: UsageData,
+    request: { user: string; userName: string; channel: string; threadTs: string; startedAt: number }
+  ): void {
+    usageLedger.append({
+      timestamp: new Date().toISOString(),
+      userId: request.user,
+      userName: request.userName,
+      channelId: request.channel,
+      threadTs: request.threadTs,
+      workflow: session.workflow || 'default',
+      model:
+        session.model ||
+        workflowRegistry.getDefaultModel(session.workflow) ||
+        userSettingsStore.getUserDefaultModel(request.user),
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheReadTokens: usage.cacheReadInputTokens,
+      cacheCreateTokens: usage.cacheCreationInputTokens,
+      costUsd: usage.totalCostUsd,
+      durationMs: Date.now() - request.startedAt,
+    });
+  }
+
   /**
    * Handle renew flow after save completes
    */
@@ -481,7 +687,7 @@ export class StreamExecutor {
       return { ts: result?.ts };
     };
 
-    // Recursively call handleMessage with /load
-    await this.deps.handleMessage(loadEvent, wrappedSay);
+    // Queue /load ahead of other pending messages; it runs as soon as this request completes
+    await this.deps.handleMessage(loadEvent, wrappedSay, { priority: true });
   }
 }
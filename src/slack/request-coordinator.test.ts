@@ -83,12 +83,19 @@ describe('RequestCoordinator', () => {
       expect(coordinator.isRequestActive(sessionKey)).toBe(false);
     });
 
-    it('should always allow new requests', () => {
+    it('should allow only one running request per session', () => {
       const sessionKey = 'C123:T456';
-      coordinator.setController(sessionKey, new AbortController());
 
-      // Even with active request, can start new one (queuing behavior)
       expect(coordinator.canStartRequest(sessionKey)).toBe(true);
+      expect(coordinator.tryStartRequest(sessionKey)).toBe(true);
+
+      // Second request must be queued until the first finishes
+      expect(coordinator.canStartRequest(sessionKey)).toBe(false);
+      expect(coordinator.tryStartRequest(sessionKey)).toBe(false);
+      expect(coordinator.canStartRequest('other-session')).toBe(true);
+
+      coordinator.finishRequest(sessionKey);
+      expect(coordinator.tryStartRequest(sessionKey)).toBe(true);
     });
   });
 
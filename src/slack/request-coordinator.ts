@@ -5,12 +5,14 @@ import { Logger } from '../logger';
  *
  * Responsibilities:
  * - Track active AbortControllers per session
- * - Enforce one active request per session
+ * - Enforce one active request per session (later messages are queued)
  * - Handle request cancellation on owner interrupt
  */
 export class RequestCoordinator {
   private logger = new Logger('RequestCoordinator');
   private activeControllers: Map<string, AbortController> = new Map();
+  // Sessions with a request in flight, reserved before any async work starts
+  private runningSessions: Set<string> = new Set();
 
   /**
    * Get the active AbortController for a session
@@ -57,14 +59,32 @@ export class RequestCoordinator {
   }
 
   /**
-   * Check if a new request can start for a session.
-   * Currently always returns true (requests queue naturally).
-   * This method exists for future expansion of concurrency policies.
+   * Check if a new request can start for a session
+   * Returns false while another request for the session is running.
    */
-  canStartRequest(_sessionKey: string): boolean {
+  canStartRequest(sessionKey: string): boolean {
+    return !this.runningSessions.has(sessionKey);
+  }
+
+  /**
+   * Reserve the session for a new request (synchronous check-and-set)
+   * @returns false if another request is already running (caller should queue)
+   */
+  tryStartRequest(sessionKey: string): boolean {
+    if (this.runningSessions.has(sessionKey)) {
+      return false;
+    }
+    this.runningSessions.add(sessionKey);
     return true;
   }
 
+  /**
+   * Release the session reservation after a request finishes
+   */
+  finishRequest(sessionKey: string): void {
+    this.runningSessions.delete(sessionKey);
+  }
+
   /**
    * Get the count of active requests
    */
@@ -81,5 +101,6 @@ export class RequestCoordinator {
       this.logger.debug('Cleared controller on shutdown', { sessionKey });
     }
     this.activeControllers.clear();
+    this.runningSessions.clear();
   }
 }
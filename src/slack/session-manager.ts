@@ -95,6 +95,10 @@ export class SessionUiManager {
         sessionText += ` (thread)`;
       }
       sessionText += `\n🤖 ${modelDisplay} | 📁 ${workDir} | 🕐 ${timeAgo}${initiator} | ⏳ ${expiresIn}`;
+      const links = MessageFormatter.formatSessionLinks(session.links);
+      if (links) {
+        sessionText += `\n${links}`;
+      }
 
       blocks.push({
         type: 'section',
@@ -204,6 +208,10 @@ export class SessionUiManager {
           : '';
 
         lines.push(`   • ${channelName}${session.threadTs ? ' (thread)' : ''} | 📁 \`${workDir}\` | 🕐 ${timeAgo}${initiator} | ⏳ ${expiresIn}`);
+        const links = MessageFormatter.formatSessionLinks(session.links);
+        if (links) {
+          lines.push(`     ${links}`);
+        }
       }
       lines.push('');
     }
@@ -126,6 +126,18 @@ export class SlackApiHelper {
     }
   }
 
+  /**
+   * 메시지 삭제
+   */
+  async deleteMessage(channel: string, ts: string): Promise<void> {
+    try {
+      await this.app.client.chat.delete({ channel, ts });
+    } catch (error) {
+      this.logger.warn('Failed to delete message', { channel, ts, error });
+      throw error;
+    }
+  }
+
   /**
    * 임시 메시지 전송 (특정 사용자에게만 보임)
    */
@@ -201,6 +213,34 @@ export class SlackApiHelper {
     }
   }
 
+  /**
+   * 텍스트 파일 업로드 (CSV 내보내기 등)
+   */
+  async uploadFile(
+    channel: string,
+    filename: string,
+    content: string,
+    options?: { threadTs?: string; title?: string; initialComment?: string }
+  ): Promise<void> {
+    try {
+      const file = {
+        channel_id: channel,
+        filename,
+        title: options?.title || filename,
+        content,
+        initial_comment: options?.initialComment,
+      };
+      if (options?.threadTs) {
+        await this.app.client.filesUploadV2({ ...file, thread_ts: options.threadTs });
+      } else {
+        await this.app.client.filesUploadV2(file);
+      }
+    } catch (error) {
+      this.logger.error('Failed to upload file', { channel, filename, error });
+      throw error;
+    }
+  }
+
   /**
    * 모달 열기
    */
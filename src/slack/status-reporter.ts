@@ -1,7 +1,7 @@
 import { WebClient } from '@slack/web-api';
 import { Logger } from '../logger';
 
-export type StatusType = 'thinking' | 'working' | 'completed' | 'error' | 'cancelled';
+export type StatusType = 'waiting' | 'thinking' | 'working' | 'completed' | 'error' | 'cancelled';
 
 interface StatusConfig {
   text: string;
@@ -9,6 +9,7 @@ interface StatusConfig {
 }
 
 const STATUS_CONFIG: Record<StatusType, StatusConfig> = {
+  waiting: { text: '⏳ *Waiting for a slot...*', emoji: 'hourglass' },
   thinking: { text: '🤔 *Thinking...*', emoji: 'thinking_face' },
   working: { text: '⚙️ *Working...*', emoji: 'gear' },
   completed: { text: '✅ *Task completed*', emoji: 'white_check_mark' },
@@ -88,18 +89,20 @@ export class StatusReporter {
 
   /**
    * Update status message using explicit channel and ts (for callback contexts)
+   * Optional detail is appended in italics (e.g., queue position)
    */
   async updateStatusDirect(
     channel: string,
     ts: string,
-    status: StatusType
+    status: StatusType,
+    detail?: string
   ): Promise<void> {
     try {
       const config = STATUS_CONFIG[status];
       await this.client.chat.update({
         channel,
         ts,
-        text: config.text,
+        text: detail ? `${config.text} _${detail}_` : config.text,
       });
       this.logger.debug('Updated status message directly', { channel, ts, status });
     } catch (error) {
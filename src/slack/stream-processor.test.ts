@@ -278,6 +278,66 @@ describe('StreamProcessor', () => {
     });
   });
 
+  describe('live message', () => {
+    const textBlock = (text: string) => [
+      { type: 'stream_event', parent_tool_use_id: null, event: { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } } },
+      ...text.split(' ').map((word, i) => ({
+        type: 'stream_event',
+        parent_tool_use_id: null,
+        event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: (i ? ' ' : '') + word } },
+      })),
+      { type: 'assistant', message: { content: [{ type: 'text', text }] } },
+    ];
+
+    let updateMessage: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      updateMessage = vi.fn().mockResolvedValue(undefined);
+      mockContext.updateMessage = updateMessage as any;
+    });
+
+    it('should render each segment between tool calls as one message', async () => {
+      const messages = [
+        ...textBlock('Let me **check** the file.'),
+        { type: 'assistant', message: { content: [{ type: 'tool_use', id: 'tool_1', name: 'Read', input: { file_path: '/a.ts' } }] } },
+        ...textBlock('All good.'),
+        { type: 'result', subtype: 'success', result: 'All good.' },
+      ];
+
+      const processor = new StreamProcessor({}, { liveUpdateIntervalMs: 0 });
+      const result = await processor.process(createMockStream(messages) as any, mockContext, abortController.signal);
+
+      const posted = (mockSay as any).mock.calls.map(([msg]: any[]) => msg.text);
+      expect(posted).toHaveLength(3);
+      expect(posted[0]).toBe('Let me *check* the file.');
+      expect(posted[1]).toContain('/a.ts');
+      expect(posted[2]).toBe('All good.');
+      expect(result.messageCount).toBe(2);
+    });
+
+    it('should ignore deltas from subagents', async () => {
+      const messages = [
+        { type: 'stream_event', parent_tool_use_id: 'task_1', event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'subagent' } } },
+      ];
+
+      const processor = new StreamProcessor({}, { liveUpdateIntervalMs: 0 });
+      await processor.process(createMockStream(messages) as any, mockContext, abortController.signal);
+
+      expect(mockSay).not.toHaveBeenCalled();
+    });
+
+    it('should replace streamed choice JSON with the choice buttons', async () => {
+      const choiceJson = JSON.stringify({ type: 'user_choice', question: 'Which?', choices: [{ id: '1', label: 'A' }, { id: '2', label: 'B' }] });
+      const messages = [{ type: 'assistant', message: { content: [{ type: 'text', text: `Pick one\n\`\`\`json\n${choiceJson}\n\`\`\`` }] } }];
+
+      const processor = new StreamProcessor({}, { liveUpdateIntervalMs: 0 });
+      await processor.process(createMockStream(messages) as any, mockContext, abortController.signal);
+
+      expect(mockSay).toHaveBeenNthCalledWith(1, expect.objectContaining({ text: 'Pick one' }));
+      expect(mockSay).toHaveBeenNthCalledWith(2, expect.objectContaining({ text: 'Which?', attachments: expect.any(Array) }));
+    });
+  });
+
   describe('error handling', () => {
     it('should return aborted=true on AbortError', async () => {
       const abortError = new Error('Aborted');
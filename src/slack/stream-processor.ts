@@ -10,6 +10,8 @@ import {
   UserChoiceHandler,
   MessageFormatter,
 } from './index';
+import { LiveMessage } from './live-message';
+import { Verbosity } from '../user-settings-store';
 
 /**
  * Context for stream processing
@@ -20,6 +22,13 @@ export interface StreamContext {
   sessionKey: string;
   sessionId?: string;
   say: SayFunction;
+  /** Edit a message posted with say; enables the live-updating response message */
+  updateMessage?: (ts: string, text: string, blocks?: any[]) => Promise<void>;
+  deleteMessage?: (ts: string) => Promise<void>;
+  /** Upload a text file to the thread (long code blocks of the live message) */
+  uploadFile?: (filename: string, content: string) => Promise<void>;
+  /** How much tool activity to post (defaults to normal) */
+  verbosity?: Verbosity;
 }
 
 /**
@@ -133,15 +142,30 @@ export interface StreamResult {
   usage?: UsageData;
 }
 
+/**
+ * Stream processor options
+ */
+export interface StreamProcessorOptions {
+  /** Minimum time between edits of the live response message */
+  liveUpdateIntervalMs?: number;
+}
+
 /**
  * StreamProcessor handles the for-await loop over Claude SDK messages
  */
 export class StreamProcessor {
   private logger = new Logger('StreamProcessor');
   private callbacks: StreamCallbacks;
+  private options: StreamProcessorOptions;
 
-  constructor(callbacks: StreamCallbacks = {}) {
+  // Live message for the current response segment (text between tool calls)
+  private liveMessage?: LiveMessage;
+  // Whether the current text block already arrived as stream deltas
+  private streamingTextBlock = false;
+
+  constructor(callbacks: StreamCallbacks = {}, options: StreamProcessorOptions = {}) {
     this.callbacks = callbacks;
+    this.options = options;
   }
 
   /**
@@ -166,7 +190,9 @@ export class StreamProcessor {
           subtype: (message as any).subtype,
         });
 
-        if (message.type === 'assistant') {
+        if (message.type === 'stream_event') {
+          this.handleStreamEvent(message, context);
+        } else if (message.type === 'assistant') {
           await this.handleAssistantMessage(message, context, currentMessages);
         } else if (message.type === 'user') {
           await this.handleUserMessage(message, context);
@@ -192,7 +218,73 @@ export class StreamProcessor {
         return { success: true, messageCount: currentMessages.length, aborted: true };
       }
       throw error;
+    } finally {
+      // Drop the streaming cursor even when the stream ends early
+      await this.endLiveSegment();
+    }
+  }
+
+  /**
+   * Live message for the current segment; undefined when the context cannot edit messages
+   */
+  private getLiveMessage(context: StreamContext): LiveMessage | undefined {
+    if (!context.updateMessage) return undefined;
+
+    if (!this.liveMessage) {
+      const { updateMessage, deleteMessage, uploadFile } = context;
+      this.liveMessage = new LiveMessage(
+        {
+          post: async (text, blocks) => (await context.say({ text, blocks, thread_ts: context.threadTs }))?.ts,
+          update: updateMessage,
+          remove: deleteMessage,
+          upload: uploadFile && ((snippet) => uploadFile(snippet.filename, snippet.content)),
+        },
+        { intervalMs: this.options.liveUpdateIntervalMs }
+      );
+    }
+    return this.liveMessage;
+  }
+
+  /**
+   * Final edit of the live message; the next text starts a new one
+   */
+  private async endLiveSegment(): Promise<void> {
+    const liveMessage = this.liveMessage;
+    this.liveMessage = undefined;
+    this.streamingTextBlock = false;
+    if (liveMessage) {
+      await liveMessage.finalize();
+    }
+  }
+
+  /**
+   * Handle partial message events (text deltas of the main agent)
+   */
+  private handleStreamEvent(message: SDKMessage, context: StreamContext): void {
+    if (message.type !== 'stream_event' || message.parent_tool_use_id) return;
+
+    const liveMessage = this.getLiveMessage(context);
+    if (!liveMessage) return;
+
+    const event = message.event;
+    if (event.type === 'content_block_start' && event.content_block.type === 'text') {
+      liveMessage.nextBlock();
+      this.streamingTextBlock = true;
+    } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+      liveMessage.append(event.delta.text);
+    }
+  }
+
+  /**
+   * Put a complete text block into the live message
+   * Replaces the streamed version, which may have missed deltas.
+   */
+  private setLiveText(liveMessage: LiveMessage, text: string): void {
+    if (!this.streamingTextBlock) {
+      liveMessage.nextBlock();
     }
+    liveMessage.setCurrent(text);
+    this.streamingTextBlock = false;
   }
 
   /**
@@ -224,6 +316,17 @@ export class StreamProcessor {
       await this.callbacks.onStatusUpdate('working');
     }
 
+    // Text next to the tool call belongs to the live message, which ends here
+    const liveMessage = this.getLiveMessage(context);
+    if (liveMessage) {
+      const textContent = this.extractTextContent(content);
+      if (textContent) {
+        this.setLiveText(liveMessage, textContent);
+      }
+      await this.endLiveSegment();
+      content = content.filter((part: any) => part.type !== 'text');
+    }
+
     // Check for TodoWrite tool
     const todoTool = content.find((part: any) =>
       part.type === 'tool_use' && part.name === 'TodoWrite'
@@ -234,7 +337,7 @@ export class StreamProcessor {
     }
 
     // Format and send tool use messages
-    const toolContent = ToolFormatter.formatToolUse(content);
+    const toolContent = ToolFormatter.formatToolUse(content, context.verbosity);
     if (toolContent) {
       await context.say({
         text: toolContent,
@@ -276,6 +379,20 @@ export class StreamProcessor {
     // Check for user choice JSON
     const { choice, choices, textWithoutChoice } = UserChoiceHandler.extractUserChoice(textContent);
 
+    const liveMessage = this.getLiveMessage(context);
+    if (liveMessage) {
+      // The streamed JSON is replaced by the choice buttons below the message
+      this.setLiveText(liveMessage, choices || choice ? textWithoutChoice : textContent);
+      if (choices) {
+        await this.endLiveSegment();
+        await this.handleMultiChoiceMessage(choices, '', context);
+      } else if (choice) {
+        await this.endLiveSegment();
+        await this.handleSingleChoiceMessage(choice, '', context);
+      }
+      return;
+    }
+
     if (choices) {
       await this.handleMultiChoiceMessage(choices, textWithoutChoice, context);
     } else if (choice) {
@@ -404,10 +521,14 @@ export class StreamProcessor {
       const finalResult = message.result;
       if (finalResult && !currentMessages.includes(finalResult)) {
         currentMessages.push(finalResult);
+        await this.endLiveSegment();
         await this.handleFinalResult(finalResult, context);
       }
     }
 
+    // Consolidated final edit of the streamed response
+    await this.endLiveSegment();
+
     // Extract usage data from result message
     // SDK uses camelCase: modelUsage (object with model names as keys)
     // Each model's usage has camelCase fields: inputTokens, outputTokens, etc.
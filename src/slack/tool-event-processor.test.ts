@@ -2,7 +2,7 @@
  * ToolEventProcessor tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { ToolEventProcessor, ToolUseEvent, ToolResultEvent, ToolEventContext, SayFunction } from './tool-event-processor';
 import { ToolTracker } from './tool-tracker';
 import { McpStatusDisplay } from './mcp-status-tracker';
@@ -193,6 +193,86 @@ describe('ToolEventProcessor', () => {
     });
   });
 
+  describe('quiet verbosity', () => {
+    let updateMessage: ReturnType<typeof vi.fn<(ts: string, text: string) => Promise<void>>>;
+    let quietContext: ToolEventContext;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      updateMessage = vi.fn<(ts: string, text: string) => Promise<void>>().mockResolvedValue(undefined);
+      quietContext = { ...mockContext, verbosity: 'quiet', updateMessage };
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep one updating activity line instead of per-tool messages', async () => {
+      await processor.handleToolUse([{ id: 'tool_1', name: 'Read', input: {} }], quietContext);
+      await vi.advanceTimersByTimeAsync(1000);
+      await processor.handleToolResult([{ toolUseId: 'tool_1', result: 'contents' }], quietContext);
+      await processor.handleToolUse(
+        [
+          { id: 'tool_2', name: 'Bash', input: {} },
+          { id: 'tool_3', name: 'TodoWrite', input: {} },
+        ],
+        quietContext
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockSay).toHaveBeenCalledTimes(1);
+      expect(mockSay).toHaveBeenCalledWith(
+        expect.objectContaining({ text: expect.stringContaining('*Working:* 1 tool call · last: `Read`') })
+      );
+      expect(updateMessage).toHaveBeenLastCalledWith(
+        'msg_ts',
+        expect.stringContaining('*Working:* 2 tool calls · last: `Bash`')
+      );
+
+      await processor.handleToolResult([{ toolUseId: 'tool_2', result: 'boom', isError: true }], quietContext);
+      await processor.finishToolActivity(quietContext.sessionKey);
+
+      expect(mockSay).toHaveBeenCalledTimes(1);
+      expect(updateMessage).toHaveBeenLastCalledWith('msg_ts', '🧰 2 tool calls · 1 failed');
+    });
+
+    it('should not show MCP status messages', async () => {
+      await processor.handleToolUse([{ id: 'tool_1', name: 'mcp__jira__search_issues', input: {} }], quietContext);
+
+      expect(mcpCallTracker.startCall).toHaveBeenCalled();
+      expect(mcpStatusDisplay.startStatusUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should post the summary once at the end without message edits', async () => {
+      const context: ToolEventContext = { ...mockContext, verbosity: 'quiet' };
+      await processor.handleToolUse([{ id: 'tool_1', name: 'Read', input: {} }], context);
+      await processor.handleToolResult([{ toolUseId: 'tool_1', result: 'contents' }], context);
+
+      expect(mockSay).not.toHaveBeenCalled();
+
+      await processor.finishToolActivity(context.sessionKey);
+      await processor.finishToolActivity(context.sessionKey);
+
+      expect(mockSay).toHaveBeenCalledTimes(1);
+      expect(mockSay).toHaveBeenCalledWith({ text: '🧰 1 tool call', thread_ts: 'thread_ts' });
+    });
+  });
+
+  describe('verbose verbosity', () => {
+    it('should upload results that do not fit in the message', async () => {
+      const uploadFile = vi.fn().mockResolvedValue(undefined);
+      const context: ToolEventContext = { ...mockContext, verbosity: 'verbose', uploadFile };
+      const output = 'x'.repeat(5000);
+
+      await processor.handleToolResult([{ toolUseId: 'tool_1', toolName: 'Bash', result: output }], context);
+      await processor.handleToolResult([{ toolUseId: 'tool_2', toolName: 'Bash', result: 'short' }], context);
+
+      expect(mockSay).toHaveBeenCalledTimes(2);
+      expect(uploadFile).toHaveBeenCalledTimes(1);
+      expect(uploadFile).toHaveBeenCalledWith('Bash-result.txt', output);
+    });
+  });
+
   describe('cleanup', () => {
     it('should call cleanup without error', () => {
       expect(() => processor.cleanup()).not.toThrow();
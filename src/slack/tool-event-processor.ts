@@ -9,6 +9,8 @@ import { ToolTracker } from './tool-tracker';
 import { McpStatusDisplay } from './mcp-status-tracker';
 import { ToolFormatter, ToolResult } from './tool-formatter';
 import { ReactionManager } from './reaction-manager';
+import { LiveMessage } from './live-message';
+import { Verbosity } from '../user-settings-store';
 
 /**
  * Context for tool event processing
@@ -18,8 +20,28 @@ export interface ToolEventContext {
   threadTs: string;
   sessionKey: string;
   say: SayFunction;
+  /** How much tool activity to post (defaults to normal) */
+  verbosity?: Verbosity;
+  /** Edit a posted message; lets quiet mode keep a single updating activity line */
+  updateMessage?: (ts: string, text: string) => Promise<void>;
+  /** Upload a text file to the thread (full results in verbose mode) */
+  uploadFile?: (filename: string, content: string) => Promise<void>;
 }
 
+/**
+ * Tool calls of one request, summarized in quiet mode
+ */
+interface ToolActivity {
+  calls: number;
+  errors: number;
+  lastTool?: string;
+  context: ToolEventContext;
+  line?: LiveMessage;
+}
+
+// Tools that never show up as activity
+const SILENT_TOOLS = ['TodoWrite', 'mcp__permission-prompt__permission_prompt'];
+
 /**
  * Slack say function type
  */
@@ -56,6 +78,7 @@ export class ToolEventProcessor {
   private mcpStatusDisplay: McpStatusDisplay;
   private mcpCallTracker: McpCallTracker;
   private reactionManager: ReactionManager | null = null;
+  private activities: Map<string, ToolActivity> = new Map();
 
   constructor(
     toolTracker: ToolTracker,
@@ -78,6 +101,7 @@ export class ToolEventProcessor {
    * Handle tool use events from assistant message
    * - Track tool use IDs
    * - Start MCP call tracking for MCP tools
+   * - Update the activity line in quiet mode
    */
   async handleToolUse(toolUses: ToolUseEvent[], context: ToolEventContext): Promise<void> {
     for (const toolUse of toolUses) {
@@ -89,6 +113,16 @@ export class ToolEventProcessor {
         await this.startMcpTracking(toolUse, context);
       }
     }
+
+    if (context.verbosity === 'quiet') {
+      const counted = toolUses.filter((toolUse) => !SILENT_TOOLS.includes(toolUse.name));
+      if (counted.length > 0) {
+        const activity = this.getActivity(context);
+        activity.calls += counted.length;
+        activity.lastTool = counted[counted.length - 1].name;
+        this.showActivity(activity);
+      }
+    }
   }
 
   /**
@@ -108,7 +142,8 @@ export class ToolEventProcessor {
       await this.reactionManager.setMcpPending(context.sessionKey, callId);
     }
 
-    // Start periodic status update display
+    // Start periodic status update display (quiet mode only keeps the activity line)
+    if (context.verbosity === 'quiet') return;
     this.mcpStatusDisplay.startStatusUpdate(
       callId,
       serverName,
@@ -141,11 +176,72 @@ export class ToolEventProcessor {
         duration,
       });
 
+      if (context.verbosity === 'quiet') {
+        if (toolResult.isError && this.activities.has(context.sessionKey)) {
+          const activity = this.getActivity(context);
+          activity.errors++;
+          this.showActivity(activity);
+        }
+        continue;
+      }
+
       // Format and send result
       await this.sendToolResult(toolResult, duration, context);
     }
   }
 
+  /**
+   * Finish the quiet-mode activity line for a request
+   * With message edits the line is finalized in place; otherwise the summary is posted once.
+   */
+  async finishToolActivity(sessionKey: string): Promise<void> {
+    const activity = this.activities.get(sessionKey);
+    if (!activity) return;
+    this.activities.delete(sessionKey);
+
+    const text = this.formatActivity(activity, true);
+    try {
+      if (activity.line) {
+        activity.line.setCurrent(text);
+        await activity.line.finalize();
+      } else {
+        await activity.context.say({ text, thread_ts: activity.context.threadTs });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to finish tool activity', { sessionKey, error });
+    }
+  }
+
+  private getActivity(context: ToolEventContext): ToolActivity {
+    let activity = this.activities.get(context.sessionKey);
+    if (!activity) {
+      activity = { calls: 0, errors: 0, context };
+      if (context.updateMessage) {
+        const { say, threadTs, updateMessage } = context;
+        activity.line = new LiveMessage({
+          post: async (text) => (await say({ text, thread_ts: threadTs }))?.ts,
+          update: (ts, text) => updateMessage(ts, text),
+        });
+      }
+      this.activities.set(context.sessionKey, activity);
+    }
+    return activity;
+  }
+
+  // Without message edits nothing is posted until finishToolActivity
+  private showActivity(activity: ToolActivity): void {
+    activity.line?.setCurrent(this.formatActivity(activity, false));
+  }
+
+  private formatActivity(activity: ToolActivity, done: boolean): string {
+    const calls = `${activity.calls} tool call${activity.calls === 1 ? '' : 's'}`;
+    const errors = activity.errors > 0 ? ` · ${activity.errors} failed` : '';
+    if (done) {
+      return `🧰 ${calls}${errors}`;
+    }
+    return `⚙️ **Working:** ${calls}${errors} · last: \`${activity.lastTool}\``;
+  }
+
   /**
    * End MCP tracking for a tool and return duration
    */
@@ -182,13 +278,35 @@ export class ToolEventProcessor {
       isError: toolResult.isError,
     };
 
-    const formatted = ToolFormatter.formatToolResult(result, duration, this.mcpCallTracker);
+    const formatted = ToolFormatter.formatToolResult(result, duration, this.mcpCallTracker, context.verbosity);
 
     if (formatted) {
       await context.say({
         text: formatted,
         thread_ts: context.threadTs,
       });
+      await this.uploadFullResult(result, context);
+    }
+  }
+
+  /**
+   * Verbose modes attach results that did not fit in the message as a file
+   */
+  private async uploadFullResult(result: ToolResult, context: ToolEventContext): Promise<void> {
+    if ((context.verbosity !== 'verbose' && context.verbosity !== 'debug') || !context.uploadFile) {
+      return;
+    }
+
+    const text = ToolFormatter.extractResultText(result.result);
+    if (text.length <= ToolFormatter.getLimits(context.verbosity).resultChars) {
+      return;
+    }
+
+    const name = (result.toolName || 'tool').replace(/[^A-Za-z0-9_-]+/g, '-');
+    try {
+      await context.uploadFile(`${name}-result.txt`, text);
+    } catch (error) {
+      this.logger.warn('Failed to upload full tool result', { toolUseId: result.toolUseId, error });
     }
   }
 
@@ -198,5 +316,6 @@ export class ToolEventProcessor {
   cleanup(): void {
     // Tool tracker handles its own cleanup via scheduleCleanup
     // MCP status display handles its own cleanup when calls end
+    // Activity lines are finished by finishToolActivity at the end of each request
   }
 }
@@ -197,6 +197,36 @@ describe('ToolFormatter', () => {
       const result = ToolFormatter.formatToolUse(content);
       expect(result).toBe('');
     });
+
+    it('should post nothing in quiet mode', () => {
+      const content = [{ type: 'tool_use', id: 'tu_1', name: 'Bash', input: { command: 'ls' } }];
+      expect(ToolFormatter.formatToolUse(content, 'quiet')).toBe('');
+    });
+
+    it('should show longer edits and generic tool inputs in verbose mode', () => {
+      const longString = 'x'.repeat(500);
+      const content = [
+        { type: 'tool_use', id: 'tu_1', name: 'Edit', input: { file_path: '/a.ts', old_string: longString, new_string: 'y' } },
+        { type: 'tool_use', id: 'tu_2', name: 'Glob', input: { pattern: '**/*.ts' } },
+      ];
+
+      const normal = ToolFormatter.formatToolUse(content);
+      expect(normal).not.toContain(longString);
+      expect(normal).not.toContain('**/*.ts');
+
+      const verbose = ToolFormatter.formatToolUse(content, 'verbose');
+      expect(verbose).toContain(longString);
+      expect(verbose).toContain('*pattern:* `**/*.ts`');
+      expect(verbose).not.toContain('tu_1');
+    });
+
+    it('should add raw input and tool_use IDs in debug mode', () => {
+      const content = [{ type: 'tool_use', id: 'tu_1', name: 'Read', input: { file_path: '/a.ts' } }];
+      const result = ToolFormatter.formatToolUse(content, 'debug');
+      expect(result).toContain('Reading `/a.ts`');
+      expect(result).toContain('`tu_1`');
+      expect(result).toContain('"file_path": "/a.ts"');
+    });
   });
 
   describe('extractToolResults', () => {
@@ -348,5 +378,35 @@ describe('ToolFormatter', () => {
       expect(result).toContain('Bash');
       expect(result).not.toContain('MCP Result');
     });
+
+    it('should return null in quiet mode', () => {
+      expect(ToolFormatter.formatToolResult({ toolName: 'Bash', toolUseId: 'id', result: 'output' }, null, undefined, 'quiet')).toBe(null);
+      expect(ToolFormatter.formatToolResult({ toolName: 'mcp__server__tool', toolUseId: 'id', result: 'output' }, null, undefined, 'quiet')).toBe(null);
+    });
+
+    it('should show full results and search tools in verbose mode', () => {
+      const output = 'line\n'.repeat(400);
+      const normal = ToolFormatter.formatToolResult({ toolName: 'Bash', toolUseId: 'id', result: output });
+      expect(normal).toContain('more chars');
+
+      const verbose = ToolFormatter.formatToolResult({ toolName: 'Bash', toolUseId: 'id', result: output }, null, undefined, 'verbose');
+      expect(verbose).not.toContain('more chars');
+
+      expect(ToolFormatter.formatToolResult({ toolName: 'Grep', toolUseId: 'id', result: 'a.ts:1' })).toBe(null);
+      expect(ToolFormatter.formatToolResult({ toolName: 'Grep', toolUseId: 'id', result: 'a.ts:1' }, null, undefined, 'verbose')).toContain('a.ts:1');
+    });
+
+    it('should include the tool_use ID in debug mode', () => {
+      const result = ToolFormatter.formatToolResult({ toolName: 'Bash', toolUseId: 'tu_9', result: 'ok' }, null, undefined, 'debug');
+      expect(result).toContain('*Bash 결과* `tu_9`');
+    });
+  });
+
+  describe('extractResultText', () => {
+    it('should join text items and ignore other content', () => {
+      expect(ToolFormatter.extractResultText('plain')).toBe('plain');
+      expect(ToolFormatter.extractResultText([{ type: 'text', text: 'a' }, { type: 'image' }, { type: 'text', text: 'b' }])).toBe('a\nb');
+      expect(ToolFormatter.extractResultText({ foo: 1 })).toBe('');
+    });
   });
 });
@@ -2,6 +2,7 @@
  * Tool formatting utilities for Slack bot
  */
 import { McpCallTracker } from '../mcp-call-tracker';
+import { Verbosity } from '../user-settings-store';
 
 export interface ToolResult {
   toolName?: string;
@@ -10,7 +11,49 @@ export interface ToolResult {
   isError?: boolean;
 }
 
+/**
+ * How much of tool inputs and results is shown
+ */
+export interface OutputLimits {
+  editChars: number;
+  writeChars: number;
+  inputChars: number;
+  inputJsonChars: number;
+  resultChars: number;
+  readResultChars: number;
+  resultJsonChars: number;
+}
+
+const NORMAL_LIMITS: OutputLimits = {
+  editChars: 200,
+  writeChars: 300,
+  inputChars: 500,
+  inputJsonChars: 300,
+  resultChars: 1000,
+  readResultChars: 500,
+  resultJsonChars: 500,
+};
+
+// Verbose output still has to fit in a Slack message
+const VERBOSE_LIMITS: OutputLimits = {
+  editChars: 2000,
+  writeChars: 3000,
+  inputChars: 3000,
+  inputJsonChars: 3000,
+  resultChars: 3000,
+  readResultChars: 3000,
+  resultJsonChars: 3000,
+};
+
 export class ToolFormatter {
+  /**
+   * Output limits for a verbosity level
+   */
+  static getLimits(verbosity: Verbosity = 'normal'): OutputLimits {
+    return verbosity === 'verbose' || verbosity === 'debug' ? VERBOSE_LIMITS : NORMAL_LIMITS;
+  }
+
+
   /**
    * Truncate a string to max length, adding ellipsis if truncated
    */
@@ -23,7 +66,7 @@ export class ToolFormatter {
   /**
    * Format Edit or MultiEdit tool usage
    */
-  static formatEditTool(toolName: string, input: any): string {
+  static formatEditTool(toolName: string, input: any, limits: OutputLimits = NORMAL_LIMITS): string {
     const filePath = input.file_path;
     const edits = toolName === 'MultiEdit' ? input.edits : [{ old_string: input.old_string, new_string: input.new_string }];
 
@@ -31,8 +74,8 @@ export class ToolFormatter {
 
     for (const edit of edits) {
       result += '\n```diff\n';
-      result += `- ${this.truncateString(edit.old_string, 200)}\n`;
-      result += `+ ${this.truncateString(edit.new_string, 200)}\n`;
+      result += `- ${this.truncateString(edit.old_string, limits.editChars)}\n`;
+      result += `+ ${this.truncateString(edit.new_string, limits.editChars)}\n`;
       result += '```';
     }
 
@@ -42,9 +85,9 @@ export class ToolFormatter {
   /**
    * Format Write tool usage
    */
-  static formatWriteTool(input: any): string {
+  static formatWriteTool(input: any, limits: OutputLimits = NORMAL_LIMITS): string {
     const filePath = input.file_path;
-    const preview = this.truncateString(input.content, 300);
+    const preview = this.truncateString(input.content, limits.writeChars);
 
     return `📄 *Creating \`${filePath}\`*\n\`\`\`\n${preview}\n\`\`\``;
   }
@@ -66,7 +109,7 @@ export class ToolFormatter {
   /**
    * Format MCP input parameters
    */
-  static formatMcpInput(input: any): string {
+  static formatMcpInput(input: any, limits: OutputLimits = NORMAL_LIMITS): string {
     if (!input || typeof input !== 'object') {
       return '';
     }
@@ -77,8 +120,8 @@ export class ToolFormatter {
       if (value === undefined || value === null) continue;
 
       if (typeof value === 'string') {
-        const displayValue = value.length > 500
-          ? value.substring(0, 500) + '...'
+        const displayValue = value.length > limits.inputChars
+          ? value.substring(0, limits.inputChars) + '...'
           : value;
 
         if (displayValue.includes('\n')) {
@@ -89,8 +132,8 @@ export class ToolFormatter {
       } else if (typeof value === 'object') {
         try {
           const jsonStr = JSON.stringify(value, null, 2);
-          const truncated = jsonStr.length > 300
-            ? jsonStr.substring(0, 300) + '...'
+          const truncated = jsonStr.length > limits.inputJsonChars
+            ? jsonStr.substring(0, limits.inputJsonChars) + '...'
             : jsonStr;
           lines.push(`*${key}:*\n\`\`\`json\n${truncated}\n\`\`\``);
         } catch {
@@ -107,7 +150,7 @@ export class ToolFormatter {
   /**
    * Format MCP tool usage
    */
-  static formatMcpTool(toolName: string, input: any): string {
+  static formatMcpTool(toolName: string, input: any, limits: OutputLimits = NORMAL_LIMITS): string {
     // Parse MCP tool name: mcp__serverName__toolName
     const parts = toolName.split('__');
     const serverName = parts[1] || 'unknown';
@@ -116,7 +159,7 @@ export class ToolFormatter {
     let result = `🔌 *MCP: ${serverName} → ${actualToolName}*\n`;
 
     if (input && typeof input === 'object') {
-      const inputStr = this.formatMcpInput(input);
+      const inputStr = this.formatMcpInput(input, limits);
       if (inputStr) {
         result += inputStr;
       }
@@ -127,18 +170,45 @@ export class ToolFormatter {
 
   /**
    * Format generic tool usage
+   * @param showInput Also list the input parameters (verbose)
    */
-  static formatGenericTool(toolName: string, input: any): string {
+  static formatGenericTool(
+    toolName: string,
+    input: any,
+    limits: OutputLimits = NORMAL_LIMITS,
+    showInput = false
+  ): string {
     if (toolName.startsWith('mcp__')) {
-      return this.formatMcpTool(toolName, input);
+      return this.formatMcpTool(toolName, input, limits);
+    }
+    const inputStr = showInput ? this.formatMcpInput(input, limits) : '';
+    return inputStr ? `🔧 *Using ${toolName}*\n${inputStr}` : `🔧 *Using ${toolName}*`;
+  }
+
+  /**
+   * Raw tool_use input and ID (debug)
+   */
+  static formatDebugToolUse(part: any): string {
+    let jsonStr: string;
+    try {
+      jsonStr = JSON.stringify(part.input ?? {}, null, 2);
+    } catch {
+      jsonStr = '[complex object]';
     }
-    return `🔧 *Using ${toolName}*`;
+    const truncated = this.truncateString(jsonStr, VERBOSE_LIMITS.inputJsonChars);
+    return `🐞 \`${part.id}\`\n\`\`\`json\n${truncated}\n\`\`\``;
   }
 
   /**
    * Format tool_use content from assistant message
+   * Quiet verbosity posts nothing; tool activity is summarized elsewhere.
    */
-  static formatToolUse(content: any[]): string {
+  static formatToolUse(content: any[], verbosity: Verbosity = 'normal'): string {
+    if (verbosity === 'quiet') {
+      return '';
+    }
+
+    const limits = this.getLimits(verbosity);
     const parts: string[] = [];
 
     for (const part of content) {
@@ -151,10 +221,10 @@ export class ToolFormatter {
         switch (toolName) {
           case 'Edit':
           case 'MultiEdit':
-            parts.push(this.formatEditTool(toolName, input));
+            parts.push(this.formatEditTool(toolName, input, limits));
             break;
           case 'Write':
-            parts.push(this.formatWriteTool(input));
+            parts.push(this.formatWriteTool(input, limits));
             break;
           case 'Read':
             parts.push(this.formatReadTool(input));
@@ -169,7 +239,11 @@ export class ToolFormatter {
             // Permission prompt is handled internally
             return '';
           default:
-            parts.push(this.formatGenericTool(toolName, input));
+            parts.push(this.formatGenericTool(toolName, input, limits, verbosity !== 'normal'));
+        }
+
+        if (verbosity === 'debug') {
+          parts.push(this.formatDebugToolUse(part));
         }
       }
     }
@@ -201,28 +275,49 @@ export class ToolFormatter {
     return results;
   }
 
+  /**
+   * Plain text of a tool result (string content or text items)
+   */
+  static extractResultText(result: any): string {
+    if (typeof result === 'string') {
+      return result;
+    }
+    if (Array.isArray(result)) {
+      return result
+        .filter((item) => item?.type === 'text' && item.text)
+        .map((item) => item.text)
+        .join('\n');
+    }
+    return '';
+  }
+
   /**
    * Format built-in tool results (Read, Bash, Edit, etc.)
    */
-  static formatBuiltInToolResult(toolResult: ToolResult): string | null {
+  static formatBuiltInToolResult(toolResult: ToolResult, verbosity: Verbosity = 'normal'): string | null {
     const { toolName, result, isError } = toolResult;
 
     if (!toolName) {
       return null;
     }
 
-    // Skip certain tools that don't need result output
-    const skipTools = ['TodoWrite', 'Glob', 'Grep'];
+    // Skip certain tools that don't need result output (verbose shows search results too)
+    const skipTools = verbosity === 'normal' ? ['TodoWrite', 'Glob', 'Grep'] : ['TodoWrite'];
     if (skipTools.includes(toolName)) {
       return null;
     }
 
+    const limits = this.getLimits(verbosity);
     const statusIcon = isError ? '❌' : '✅';
-    let formatted = `${statusIcon} *${toolName} 결과*\n`;
+    let formatted = `${statusIcon} *${toolName} 결과*`;
+    if (verbosity === 'debug') {
+      formatted += ` \`${toolResult.toolUseId}\``;
+    }
+    formatted += '\n';
 
     if (result) {
       if (typeof result === 'string') {
-        const maxLen = toolName === 'Read' ? 500 : 1000;
+        const maxLen = toolName === 'Read' ? limits.readResultChars : limits.resultChars;
         const truncated = result.length > maxLen
           ? result.substring(0, maxLen) + `\n... (${result.length - maxLen} more chars)`
           : result;
@@ -235,7 +330,7 @@ export class ToolFormatter {
       } else if (Array.isArray(result)) {
         for (const item of result) {
           if (item.type === 'text' && item.text) {
-            const maxLen = toolName === 'Read' ? 500 : 1000;
+            const maxLen = toolName === 'Read' ? limits.readResultChars : limits.resultChars;
             const truncated = item.text.length > maxLen
               ? item.text.substring(0, maxLen) + `\n... (${item.text.length - maxLen} more chars)`
               : item.text;
@@ -245,8 +340,8 @@ export class ToolFormatter {
       } else if (typeof result === 'object') {
         try {
           const jsonStr = JSON.stringify(result, null, 2);
-          const truncated = jsonStr.length > 500
-            ? jsonStr.substring(0, 500) + '...'
+          const truncated = jsonStr.length > limits.resultJsonChars
+            ? jsonStr.substring(0, limits.resultJsonChars) + '...'
             : jsonStr;
           formatted += `\`\`\`json\n${truncated}\n\`\`\``;
         } catch {
@@ -266,9 +361,11 @@ export class ToolFormatter {
   static formatMcpToolResult(
     toolResult: ToolResult,
     duration?: number | null,
-    mcpCallTracker?: McpCallTracker
+    mcpCallTracker?: McpCallTracker,
+    verbosity: Verbosity = 'normal'
   ): string | null {
     const { toolName, result, isError } = toolResult;
+    const limits = this.getLimits(verbosity);
 
     let serverName = 'unknown';
     let actualToolName = 'unknown';
@@ -292,12 +389,15 @@ export class ToolFormatter {
         }
       }
     }
+    if (verbosity === 'debug') {
+      formatted += ` \`${toolResult.toolUseId}\``;
+    }
     formatted += '\n';
 
     if (result) {
       if (typeof result === 'string') {
-        const truncated = result.length > 1000
-          ? result.substring(0, 1000) + '...'
+        const truncated = result.length > limits.resultChars
+          ? result.substring(0, limits.resultChars) + '...'
           : result;
 
         if (truncated.includes('\n')) {
@@ -308,8 +408,8 @@ export class ToolFormatter {
       } else if (Array.isArray(result)) {
         for (const item of result) {
           if (item.type === 'text' && item.text) {
-            const truncated = item.text.length > 1000
-              ? item.text.substring(0, 1000) + '...'
+            const truncated = item.text.length > limits.resultChars
+              ? item.text.substring(0, limits.resultChars) + '...'
               : item.text;
             formatted += `\`\`\`\n${truncated}\n\`\`\``;
           } else if (item.type === 'image') {
@@ -317,8 +417,8 @@ export class ToolFormatter {
           } else if (typeof item === 'object') {
             try {
               const jsonStr = JSON.stringify(item, null, 2);
-              const truncated = jsonStr.length > 500
-                ? jsonStr.substring(0, 500) + '...'
+              const truncated = jsonStr.length > limits.resultJsonChars
+                ? jsonStr.substring(0, limits.resultJsonChars) + '...'
                 : jsonStr;
               formatted += `\`\`\`json\n${truncated}\n\`\`\``;
             } catch {
@@ -329,8 +429,8 @@ export class ToolFormatter {
       } else if (typeof result === 'object') {
         try {
           const jsonStr = JSON.stringify(result, null, 2);
-          const truncated = jsonStr.length > 500
-            ? jsonStr.substring(0, 500) + '...'
+          const truncated = jsonStr.length > limits.resultJsonChars
+            ? jsonStr.substring(0, limits.resultJsonChars) + '...'
             : jsonStr;
           formatted += `\`\`\`json\n${truncated}\n\`\`\``;
         } catch {
@@ -346,25 +446,27 @@ export class ToolFormatter {
 
   /**
    * Format any tool result (MCP or built-in)
+   * Quiet verbosity posts no results.
    */
   static formatToolResult(
     toolResult: ToolResult,
     duration?: number | null,
-    mcpCallTracker?: McpCallTracker
+    mcpCallTracker?: McpCallTracker,
+    verbosity: Verbosity = 'normal'
   ): string | null {
     const { toolName } = toolResult;
 
     // Skip permission prompt results
-    if (toolName === 'mcp__permission-prompt__permission_prompt') {
+    if (toolName === 'mcp__permission-prompt__permission_prompt' || verbosity === 'quiet') {
       return null;
     }
 
     // MCP tools get detailed formatting
     if (toolName?.startsWith('mcp__')) {
-      return this.formatMcpToolResult(toolResult, duration, mcpCallTracker);
+      return this.formatMcpToolResult(toolResult, duration, mcpCallTracker, verbosity);
     }
 
     // Built-in tools get simpler formatting
-    return this.formatBuiltInToolResult(toolResult);
+    return this.formatBuiltInToolResult(toolResult, verbosity);
   }
 }
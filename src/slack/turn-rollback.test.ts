@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TurnRollback } from './turn-rollback';
+import { RequestCoordinator } from './request-coordinator';
+import { ClaudeHandler } from '../claude-handler';
+import { SessionRegistry } from '../session-registry';
+import { FileSessionStore } from '../session-store';
+import { checkpointRefPrefix, snapshotWorkingTree } from '../git-changes';
+
+describe('TurnRollback', () => {
+  let tmpDir: string;
+  let repoDir: string;
+  let registry: SessionRegistry;
+  let coordinator: RequestCoordinator;
+  let rollback: TurnRollback;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      encoding: 'utf8',
+    });
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(repoDir, file), content);
+  const read = (file: string) => fs.readFileSync(path.join(repoDir, file), 'utf8');
+  const checkpointRefs = () =>
+    git('for-each-ref', '--format=%(refname)', `${checkpointRefPrefix('C1-1.1')}/`).split('\n').filter(Boolean);
+
+  // Runs a turn the way StreamExecutor does: checkpoint before, end snapshot after
+  const runTurn = async (edit: () => void) => {
+    const tree = (await snapshotWorkingTree(repoDir))!;
+    await rollback.recordCheckpoint('C1', '1.1', tree, repoDir, 'do something');
+    edit();
+    rollback.completeCheckpoint('C1', '1.1', tree, (await snapshotWorkingTree(repoDir))!);
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'turn-rollback-test-'));
+    repoDir = path.join(tmpDir, 'repo');
+    fs.mkdirSync(repoDir);
+    git('init', '-q');
+    write('a.txt', 'original\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'initial');
+
+    registry = new SessionRegistry(new FileSessionStore(path.join(tmpDir, 'data')));
+    registry.createSession('U_OWNER', 'Owner', 'C1', '1.1').workingDirectory = repoDir;
+    coordinator = new RequestCoordinator();
+    rollback = new TurnRollback({
+      claudeHandler: registry as unknown as ClaudeHandler,
+      requestCoordinator: coordinator,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should roll back the last turns and release their refs', async () => {
+    await runTurn(() => write('a.txt', 'turn 1\n'));
+    await runTurn(() => write('b.txt', 'turn 2\n'));
+    expect(checkpointRefs()).toHaveLength(2);
+
+    const result = await rollback.rollback('C1', '1.1', 'U_OWNER', 2);
+
+    expect(result.ok).toBe(true);
+    expect(read('a.txt')).toBe('original\n');
+    expect(fs.existsSync(path.join(repoDir, 'b.txt'))).toBe(false);
+    expect(registry.getSession('C1', '1.1')!.checkpoints).toEqual([]);
+    // Only the "before rollback" backup stays pinned
+    expect(checkpointRefs()).toHaveLength(1);
+  });
+
+  it('should refuse to wipe changes made after the last turn unless forced', async () => {
+    await runTurn(() => write('a.txt', 'turn 1\n'));
+    write('manual.txt', 'edited by hand\n');
+
+    const refused = await rollback.rollback('C1', '1.1', 'U_OWNER', 1);
+    expect(refused).toMatchObject({ ok: false, error: expect.stringContaining('rollback 1 force') });
+    expect(read('manual.txt')).toBe('edited by hand\n');
+
+    const forced = await rollback.rollback('C1', '1.1', 'U_OWNER', 1, true);
+    expect(forced.ok).toBe(true);
+    expect(read('a.txt')).toBe('original\n');
+    expect(fs.existsSync(path.join(repoDir, 'manual.txt'))).toBe(false);
+  });
+
+  it('should refuse while another thread is working in the same directory', async () => {
+    await runTurn(() => write('a.txt', 'turn 1\n'));
+    registry.createSession('U_OTHER', 'Other', 'C2', '2.2').workingDirectory = path.join(repoDir, '.');
+    coordinator.setController('C2-2.2', new AbortController());
+
+    const result = await rollback.rollback('C1', '1.1', 'U_OWNER', 1, true);
+
+    expect(result).toMatchObject({ ok: false, error: expect.stringContaining('Another thread') });
+    expect(read('a.txt')).toBe('turn 1\n');
+  });
+
+  it('should only let the owner or an admin roll back', async () => {
+    await runTurn(() => write('a.txt', 'turn 1\n'));
+
+    expect(await rollback.rollback('C1', '1.1', 'U_STRANGER', 1)).toMatchObject({ ok: false });
+    expect(read('a.txt')).toBe('turn 1\n');
+  });
+
+  it('should drop refs of checkpoints trimmed past the limit and of ended sessions', async () => {
+    for (let i = 0; i < 22; i++) {
+      await runTurn(() => write('a.txt', `turn ${i}\n`));
+    }
+    expect(registry.getSession('C1', '1.1')!.checkpoints).toHaveLength(20);
+    expect(checkpointRefs()).toHaveLength(20);
+
+    await rollback.discardCheckpoints('C1-1.1', registry.getSession('C1', '1.1')!);
+    expect(checkpointRefs()).toEqual([]);
+  });
+});
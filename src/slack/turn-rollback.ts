@@ -0,0 +1,281 @@
+import * as path from 'path';
+import { ClaudeHandler } from '../claude-handler';
+import { RequestCoordinator } from './request-coordinator';
+import { TurnSummaryFormatter, TurnDiffRef } from './formatters';
+import { ConversationSession, TurnCheckpoint } from '../types';
+import { config, isAdminUser } from '../config';
+import {
+  ChangeSummary,
+  checkpointRefPrefix,
+  pinCheckpoint,
+  restoreWorkingTree,
+  snapshotWorkingTree,
+  unpinCheckpoints,
+} from '../git-changes';
+import { Logger } from '../logger';
+
+// Characters of the user's message kept on a checkpoint
+const CHECKPOINT_PROMPT_CHARS = 80;
+
+export interface TurnRollbackDeps {
+  claudeHandler: ClaudeHandler;
+  /** Optional: refuses rollbacks while a request is running in the thread */
+  requestCoordinator?: RequestCoordinator;
+}
+
+/**
+ * State before a rollback, kept as a checkpoint commit so it can be recovered
+ */
+export interface RollbackBackup {
+  workingDirectory: string;
+  commit?: string;
+}
+
+export type TurnRollbackResult =
+  | { ok: true; turns: number; reverted: ChangeSummary; backups: RollbackBackup[] }
+  | { ok: false; error: string };
+
+/**
+ * Records per-turn checkpoints and restores working directories to them
+ * Shared by the `rollback` command and the "Revert this turn" button.
+ */
+export class TurnRollback {
+  private logger = new Logger('TurnRollback');
+
+  constructor(private deps: TurnRollbackDeps) {}
+
+  /**
+   * Save the snapshot taken before a turn as the session's newest checkpoint
+   */
+  async recordCheckpoint(
+    channel: string,
+    threadTs: string,
+    tree: string,
+    workingDirectory: string,
+    prompt?: string
+  ): Promise<void> {
+    const sessionKey = this.deps.claudeHandler.getSessionKey(channel, threadTs);
+    const summary = prompt?.split('\n')[0].trim().slice(0, CHECKPOINT_PROMPT_CHARS) || undefined;
+    const commit = await pinCheckpoint(
+      workingDirectory,
+      tree,
+      checkpointRefPrefix(sessionKey),
+      `Checkpoint before turn in ${sessionKey}${summary ? `\n\n${summary}` : ''}`
+    );
+
+    const checkpoint: TurnCheckpoint = { tree, commit, workingDirectory, createdAt: Date.now(), prompt: summary };
+    const dropped = this.deps.claudeHandler.addCheckpoint(channel, threadTs, checkpoint, config.checkpoints.maxPerSession);
+    await this.unpin(sessionKey, dropped);
+  }
+
+  /**
+   * Remember the working tree a turn ended with, so a later rollback can tell
+   * whether anything else changed the directory since
+   */
+  completeCheckpoint(channel: string, threadTs: string, tree: string, endTree: string): void {
+    this.deps.claudeHandler.completeCheckpoint(channel, threadTs, tree, endTree);
+  }
+
+  /**
+   * Release every checkpoint ref of a session that ended
+   */
+  async discardCheckpoints(sessionKey: string, session: ConversationSession): Promise<void> {
+    const directories = new Set((session.checkpoints ?? []).map((checkpoint) => checkpoint.workingDirectory));
+    if (session.workingDirectory) {
+      directories.add(session.workingDirectory);
+    }
+    for (const directory of directories) {
+      await unpinCheckpoints(directory, checkpointRefPrefix(sessionKey));
+    }
+  }
+
+  /**
+   * Undo the last `turns` turns of a thread
+   * Each working directory goes back to its checkpoint from the earliest of those turns.
+   * Unless `force` is set, a directory must still be exactly as this thread's last
+   * turn in it left it, so edits from other threads or by hand are not wiped.
+   */
+  async rollback(
+    channel: string,
+    threadTs: string,
+    userId: string,
+    turns: number,
+    force = false
+  ): Promise<TurnRollbackResult> {
+    const checkpoints = this.deps.claudeHandler.getSession(channel, threadTs)?.checkpoints ?? [];
+    if (checkpoints.length === 0) {
+      return { ok: false, error: 'No checkpoints in this thread yet.' };
+    }
+    if (turns < 1 || turns > checkpoints.length) {
+      return {
+        ok: false,
+        error: `Only ${checkpoints.length} checkpoint${checkpoints.length === 1 ? '' : 's'} available. Use \`rollback list\` to see them.`,
+      };
+    }
+
+    const keep = checkpoints.length - turns;
+    const targets = new Map<string, TurnCheckpoint>();
+    for (const checkpoint of checkpoints.slice(keep)) {
+      if (!targets.has(checkpoint.workingDirectory)) {
+        targets.set(checkpoint.workingDirectory, checkpoint);
+      }
+    }
+
+    const denied = this.checkAccess(channel, threadTs, userId, [...targets.keys()]);
+    if (denied) return { ok: false, error: denied };
+
+    if (!force) {
+      for (const directory of targets.keys()) {
+        let latest: TurnCheckpoint | undefined;
+        for (const checkpoint of checkpoints) {
+          if (checkpoint.workingDirectory === directory) latest = checkpoint;
+        }
+        const current = await snapshotWorkingTree(directory);
+        if (!latest?.endTree || current !== latest.endTree) {
+          return {
+            ok: false,
+            error:
+              `Files in \`${directory}\` changed after this thread's last turn (another thread, a user or a failed turn). ` +
+              `Use \`rollback ${turns} force\` to discard those changes too.`,
+          };
+        }
+      }
+    }
+
+    const result = await this.restore(channel, threadTs, [...targets.values()]);
+    if (!result.ok) return result;
+
+    const removed = this.deps.claudeHandler.truncateCheckpoints(channel, threadTs, keep);
+    await this.unpin(this.deps.claudeHandler.getSessionKey(channel, threadTs), removed);
+    this.logger.info('Rolled back turns', { channel, threadTs, userId, turns, force });
+    return { ...result, turns };
+  }
+
+  /**
+   * Undo one turn from its summary card, if nothing changed in the directory since
+   */
+  async revertTurn(channel: string, threadTs: string, userId: string, ref: TurnDiffRef): Promise<TurnRollbackResult> {
+    const denied = this.checkAccess(channel, threadTs, userId, [ref.cwd]);
+    if (denied) return { ok: false, error: denied };
+
+    const current = await snapshotWorkingTree(ref.cwd);
+    if (current !== ref.to) {
+      return {
+        ok: false,
+        error: 'Files changed after this turn, so it cannot be reverted on its own. Use `rollback <n>` instead.',
+      };
+    }
+
+    const result = await this.restore(channel, threadTs, [
+      { tree: ref.from, workingDirectory: ref.cwd, createdAt: Date.now() },
+    ]);
+    if (!result.ok) return result;
+
+    // Later checkpoints (turns that changed nothing) go with it
+    const checkpoints = this.deps.claudeHandler.getSession(channel, threadTs)?.checkpoints ?? [];
+    let index = checkpoints.length - 1;
+    while (index >= 0 && !(checkpoints[index].tree === ref.from && checkpoints[index].workingDirectory === ref.cwd)) {
+      index--;
+    }
+    if (index >= 0) {
+      const removed = this.deps.claudeHandler.truncateCheckpoints(channel, threadTs, index);
+      await this.unpin(this.deps.claudeHandler.getSessionKey(channel, threadTs), removed);
+    }
+    this.logger.info('Reverted turn', { channel, threadTs, userId, cwd: ref.cwd });
+    return { ...result, turns: 1 };
+  }
+
+  /**
+   * Message describing a successful rollback
+   */
+  static formatResult(result: Extract<TurnRollbackResult, { ok: true }>, userId: string): string {
+    const what = result.turns === 1 ? 'the last turn' : `the last ${result.turns} turns`;
+    const count = result.reverted.files.length;
+    const lines = [
+      `↩️ <@${userId}> rolled back ${what} · ${count} file${count === 1 ? '' : 's'} restored`,
+      ...result.reverted.files.slice(0, 15).map((file) => TurnSummaryFormatter.formatFileLine(file)),
+    ];
+    if (count > 15) {
+      lines.push(`_…and ${count - 15} more_`);
+    }
+
+    for (const backup of result.backups) {
+      if (backup.commit && count > 0) {
+        lines.push(`_State before the rollback: \`${backup.commit.slice(0, 10)}\` (\`git checkout ${backup.commit.slice(0, 10)} -- .\` in \`${backup.workingDirectory}\` brings it back)_`);
+      }
+    }
+    lines.push("_Claude isn't told about the rollback; mention it in your next message if it matters._");
+    return lines.join('\n');
+  }
+
+  private checkAccess(channel: string, threadTs: string, userId: string, directories: string[]): string | undefined {
+    const session = this.deps.claudeHandler.getSession(channel, threadTs);
+    if (session?.ownerId !== userId && !isAdminUser(userId)) {
+      return 'Only the session owner or an admin can roll back changes.';
+    }
+
+    const coordinator = this.deps.requestCoordinator;
+    const sessionKey = this.deps.claudeHandler.getSessionKey(channel, threadTs);
+    if (coordinator?.isRequestActive(sessionKey)) {
+      return 'Cannot roll back while a request is in progress. Wait for it to finish or cancel it first.';
+    }
+
+    // Working directories are shared, so a turn running in another thread would lose its edits
+    const resolved = directories.map((directory) => path.resolve(directory));
+    for (const [key, other] of this.deps.claudeHandler.getAllSessions()) {
+      if (key === sessionKey || !other.workingDirectory || !coordinator?.isRequestActive(key)) continue;
+      const otherDirectory = path.resolve(other.workingDirectory);
+      const overlaps = resolved.some(
+        (directory) =>
+          directory === otherDirectory ||
+          directory.startsWith(otherDirectory + path.sep) ||
+          otherDirectory.startsWith(directory + path.sep)
+      );
+      if (overlaps) {
+        return `Another thread is working in \`${other.workingDirectory}\` right now. Try again when it finishes.`;
+      }
+    }
+    return undefined;
+  }
+
+  private async unpin(sessionKey: string, checkpoints: TurnCheckpoint[]): Promise<void> {
+    for (const checkpoint of checkpoints) {
+      if (checkpoint.commit) {
+        await unpinCheckpoints(checkpoint.workingDirectory, checkpointRefPrefix(sessionKey), [checkpoint.commit]);
+      }
+    }
+  }
+
+  private async restore(
+    channel: string,
+    threadTs: string,
+    targets: TurnCheckpoint[]
+  ): Promise<{ ok: true; reverted: ChangeSummary; backups: RollbackBackup[] } | { ok: false; error: string }> {
+    const sessionKey = this.deps.claudeHandler.getSessionKey(channel, threadTs);
+    const reverted: ChangeSummary = { files: [], additions: 0, deletions: 0 };
+    const backups: RollbackBackup[] = [];
+
+    for (const target of targets) {
+      try {
+        const result = await restoreWorkingTree(target.workingDirectory, target.tree);
+        const commit = result.reverted.files.length > 0
+          ? await pinCheckpoint(
+              target.workingDirectory,
+              result.backupTree,
+              checkpointRefPrefix(sessionKey),
+              `Before rollback in ${sessionKey}`
+            )
+          : undefined;
+        backups.push({ workingDirectory: target.workingDirectory, commit });
+        reverted.files.push(...result.reverted.files);
+        reverted.additions += result.reverted.additions;
+        reverted.deletions += result.reverted.deletions;
+      } catch (error) {
+        this.logger.error('Failed to restore working tree', { cwd: target.workingDirectory, error });
+        return { ok: false, error: `Could not restore \`${target.workingDirectory}\`: ${(error as Error).message}` };
+      }
+    }
+
+    return { ok: true, reverted, backups };
+  }
+}
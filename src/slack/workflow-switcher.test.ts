@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WorkflowSwitcher, CHANGE_WORKFLOW_ACTION_ID } from './workflow-switcher';
+import { ClaudeHandler } from '../claude-handler';
+import { SlackApiHelper } from './slack-api-helper';
+import { dispatchOverrideLog } from '../dispatch-override-log';
+import { ConversationSession } from '../types';
+
+vi.mock('../dispatch-override-log', () => ({
+  dispatchOverrideLog: { append: vi.fn() },
+}));
+
+const createSession = (overrides: Partial<ConversationSession> = {}): ConversationSession => ({
+  ownerId: 'U_OWNER',
+  channelId: 'C123',
+  threadTs: '111.222',
+  userId: 'U_OWNER',
+  isActive: true,
+  lastActivity: new Date(),
+  state: 'MAIN',
+  workflow: 'default',
+  title: 'PR 456',
+  dispatch: {
+    workflow: 'default',
+    confidence: 0.55,
+    runnerUp: 'pr-review',
+    runnerUpConfidence: 0.4,
+    input: 'look at https://github.com/org/repo/pull/456',
+    messageTs: '111.333',
+  },
+  ...overrides,
+});
+
+describe('WorkflowSwitcher', () => {
+  let session: ConversationSession;
+  let claudeHandler: {
+    getSession: ReturnType<typeof vi.fn>;
+    canInterrupt: ReturnType<typeof vi.fn>;
+    changeWorkflow: ReturnType<typeof vi.fn>;
+  };
+  let slackApi: { updateMessage: ReturnType<typeof vi.fn> };
+  let switcher: WorkflowSwitcher;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    session = createSession();
+    claudeHandler = {
+      getSession: vi.fn(() => session),
+      canInterrupt: vi.fn((_channel: string, _threadTs: string, userId: string) => userId === 'U_OWNER'),
+      changeWorkflow: vi.fn((_channel: string, _threadTs: string, workflow) => {
+        const previous = session.workflow;
+        session.workflow = workflow;
+        return previous;
+      }),
+    };
+    slackApi = { updateMessage: vi.fn().mockResolvedValue(undefined) };
+    switcher = new WorkflowSwitcher({
+      claudeHandler: claudeHandler as unknown as ClaudeHandler,
+      slackApi: slackApi as unknown as SlackApiHelper,
+    });
+  });
+
+  it('should show confidence, runner-up and a change menu on the status message', () => {
+    const { text, blocks } = WorkflowSwitcher.buildStatusBlocks('default', 'PR 456', session.dispatch, {
+      elapsedMs: 812,
+    });
+
+    expect(text).toBe('✅ *Workflow:* `default` → "PR 456" _(812ms)_');
+    expect(blocks[0].accessory.action_id).toBe(CHANGE_WORKFLOW_ACTION_ID);
+    expect(blocks[0].accessory.initial_option.value).toBe('default');
+    expect(blocks[1].elements[0].text).toBe('Confidence 55% · Runner-up `pr-review` 40%');
+  });
+
+  it('should show the matched rule instead of confidence for fast-path dispatch', () => {
+    const { blocks } = WorkflowSwitcher.buildStatusBlocks('pr-review', 'org/repo#456', {
+      workflow: 'pr-review',
+      confidence: 1,
+      rule: 'github-pr',
+      input: 'https://github.com/org/repo/pull/456',
+    });
+
+    expect(blocks[1].elements[0].text).toBe('⚡ Matched rule `github-pr`');
+  });
+
+  it('should re-route, record the override and refresh the status message', async () => {
+    const result = await switcher.switchWorkflow('C123', '111.222', 'U_OWNER', 'pr-review', 'button');
+
+    expect(result).toEqual({ ok: true, previous: 'default' });
+    expect(dispatchOverrideLog.append).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'U_OWNER',
+        source: 'button',
+        from: 'default',
+        to: 'pr-review',
+        dispatched: 'default',
+        confidence: 0.55,
+        input: 'look at https://github.com/org/repo/pull/456',
+      })
+    );
+    const [, ts, , blocks] = slackApi.updateMessage.mock.calls[0];
+    expect(ts).toBe('111.333');
+    expect(blocks[1].elements[0].text).toContain('🔀 Changed from `default` by <@U_OWNER>');
+  });
+
+  it('should refuse users who cannot interrupt the session', async () => {
+    const result = await switcher.switchWorkflow('C123', '111.222', 'U_BYSTANDER', 'pr-review', 'command');
+
+    expect(result.ok).toBe(false);
+    expect(claudeHandler.changeWorkflow).not.toHaveBeenCalled();
+    expect(dispatchOverrideLog.append).not.toHaveBeenCalled();
+  });
+
+  it('should refuse sessions that are still being dispatched', async () => {
+    session = createSession({ state: 'INITIALIZING' });
+
+    const result = await switcher.switchWorkflow('C123', '111.222', 'U_OWNER', 'pr-review', 'command');
+
+    expect(result).toEqual({ ok: false, error: 'No routed session in this thread yet.' });
+  });
+});
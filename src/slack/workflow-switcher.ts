@@ -0,0 +1,152 @@
+import { ClaudeHandler } from '../claude-handler';
+import { SlackApiHelper } from './slack-api-helper';
+import { DispatchInfo, WorkflowType } from '../types';
+import { workflowRegistry } from '../workflow-registry';
+import { dispatchOverrideLog, DispatchOverrideEntry } from '../dispatch-override-log';
+import { Logger } from '../logger';
+
+// action_id of the "Change workflow" menu on the dispatch status message
+export const CHANGE_WORKFLOW_ACTION_ID = 'change_workflow';
+
+// Slack allows at most 100 options in a static select
+const MAX_MENU_OPTIONS = 100;
+
+export interface WorkflowSwitcherDeps {
+  claudeHandler: ClaudeHandler;
+  slackApi: SlackApiHelper;
+}
+
+export type WorkflowSwitchResult =
+  | { ok: true; previous: WorkflowType }
+  | { ok: false; error: string };
+
+/**
+ * Format a 0-1 confidence as a percentage
+ */
+function formatConfidence(confidence: number | undefined): string {
+  return confidence === undefined ? '?' : `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * Builds the dispatch status message and re-routes sessions to another workflow
+ * Shared by the "Change workflow" menu and the `workflow <name>` command.
+ */
+export class WorkflowSwitcher {
+  private logger = new Logger('WorkflowSwitcher');
+
+  constructor(private deps: WorkflowSwitcherDeps) {}
+
+  /**
+   * Dispatch status message: chosen workflow, confidence, runner-up and a "Change workflow" menu
+   */
+  static buildStatusBlocks(
+    workflow: WorkflowType,
+    title: string | undefined,
+    dispatch: DispatchInfo | undefined,
+    options: { elapsedMs?: number; changedBy?: string; failed?: boolean } = {}
+  ): { text: string; blocks: any[] } {
+    const icon = options.failed ? '⚠️' : '✅';
+    let text = `${icon} *Workflow:* \`${workflow}\``;
+    if (title) text += ` → "${title}"`;
+    if (options.failed) {
+      text += ` _(dispatch failed${options.elapsedMs !== undefined ? ` after ${options.elapsedMs}ms` : ''})_`;
+    } else if (options.elapsedMs !== undefined) {
+      text += ` _(${options.elapsedMs}ms)_`;
+    }
+
+    const option = (value: WorkflowType) => ({
+      text: { type: 'plain_text', text: value },
+      value,
+    });
+
+    const names = workflowRegistry.names().slice(0, MAX_MENU_OPTIONS);
+    const blocks: any[] = [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text },
+        accessory: {
+          type: 'static_select',
+          action_id: CHANGE_WORKFLOW_ACTION_ID,
+          placeholder: { type: 'plain_text', text: 'Change workflow' },
+          options: names.map(option),
+          // Slack rejects an initial option that is not in the list (e.g., a removed workflow)
+          ...(names.includes(workflow) ? { initial_option: option(workflow) } : {}),
+        },
+      },
+    ];
+
+    const details: string[] = [];
+    if (dispatch?.rule) {
+      details.push(`⚡ Matched rule \`${dispatch.rule}\``);
+    } else if (dispatch?.confidence !== undefined) {
+      details.push(`Confidence ${formatConfidence(dispatch.confidence)}`);
+    }
+    if (dispatch?.runnerUp) {
+      details.push(`Runner-up \`${dispatch.runnerUp}\` ${formatConfidence(dispatch.runnerUpConfidence)}`);
+    }
+    if (options.changedBy && dispatch && dispatch.workflow !== workflow) {
+      details.push(`🔀 Changed from \`${dispatch.workflow}\` by <@${options.changedBy}>`);
+    }
+    if (details.length > 0) {
+      blocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: details.join(' · ') }],
+      });
+    }
+
+    return { text, blocks };
+  }
+
+  /**
+   * Re-route a MAIN session, record the override and refresh the status message
+   */
+  async switchWorkflow(
+    channel: string,
+    threadTs: string,
+    userId: string,
+    workflow: WorkflowType,
+    source: DispatchOverrideEntry['source']
+  ): Promise<WorkflowSwitchResult> {
+    const session = this.deps.claudeHandler.getSession(channel, threadTs);
+    if (!session || session.state !== 'MAIN') {
+      return { ok: false, error: 'No routed session in this thread yet.' };
+    }
+    if (!this.deps.claudeHandler.canInterrupt(channel, threadTs, userId)) {
+      return { ok: false, error: 'Only the session owner or the current initiator can change the workflow.' };
+    }
+    if (session.workflow === workflow) {
+      return { ok: false, error: `This session already uses \`${workflow}\`.` };
+    }
+
+    const previous = this.deps.claudeHandler.changeWorkflow(channel, threadTs, workflow);
+    if (!previous) {
+      return { ok: false, error: 'No routed session in this thread yet.' };
+    }
+
+    const dispatch = session.dispatch;
+    dispatchOverrideLog.append({
+      timestamp: new Date().toISOString(),
+      channelId: channel,
+      threadTs,
+      userId,
+      source,
+      from: previous,
+      to: workflow,
+      dispatched: dispatch?.workflow,
+      confidence: dispatch?.confidence,
+      runnerUp: dispatch?.runnerUp,
+      rule: dispatch?.rule,
+      input: dispatch?.input,
+    });
+    this.logger.info('Workflow overridden', { channel, threadTs, userId, source, from: previous, to: workflow });
+
+    if (dispatch?.messageTs) {
+      const { text, blocks } = WorkflowSwitcher.buildStatusBlocks(workflow, session.title, dispatch, {
+        changedBy: userId,
+      });
+      await this.deps.slackApi.updateMessage(channel, dispatch.messageTs, text, blocks);
+    }
+
+    return { ok: true, previous };
+  }
+}
@@ -4,17 +4,38 @@
 export type SessionState = 'INITIALIZING' | 'MAIN';
 
 /**
- * Workflow types for session routing
+ * Name of a workflow for session routing
+ * Workflows are discovered from prompt directories (see WorkflowRegistry); 'default' always exists.
  */
-export type WorkflowType =
-  | 'jira-executive-summary'
-  | 'jira-brainstorming'
-  | 'jira-planning'
-  | 'jira-create-pr'
-  | 'pr-review'
-  | 'pr-fix-and-update'
-  | 'pr-docs-confluence'
-  | 'default';
+export type WorkflowType = string;
+
+/**
+ * How the dispatcher routed a session's first message
+ */
+export interface DispatchInfo {
+  workflow: WorkflowType;      // Classifier's pick (kept when the workflow is overridden)
+  confidence?: number;         // 0-1
+  runnerUp?: WorkflowType;
+  runnerUpConfidence?: number;
+  rule?: string;               // Fast-path rule that picked the workflow (no LLM call)
+  input: string;               // First message (truncated), recorded with overrides
+  messageTs?: string;          // "Workflow:" status message in the thread
+}
+
+/**
+ * Links the session is about, extracted from the first message at dispatch
+ * Injected into the system prompt so workflows need not re-parse the message.
+ */
+export interface SessionLinks {
+  repo?: string;               // owner/name
+  prNumber?: number;
+  prUrl?: string;
+  issueKey?: string;           // Jira issue key (e.g., ABC-123)
+  issueUrl?: string;
+  boardUrl?: string;           // Jira board without a selected issue
+  confluencePageId?: string;
+  confluenceUrl?: string;
+}
 
 /**
  * Token usage tracking for a session
@@ -40,6 +61,18 @@ export interface SessionUsage {
  */
 export type RenewState = 'pending_save' | 'pending_load' | null;
 
+/**
+ * Working tree snapshot taken before a turn (for `rollback`)
+ */
+export interface TurnCheckpoint {
+  tree: string;              // git tree hash of the working directory before the turn
+  commit?: string;           // Checkpoint commit under a hidden ref that keeps the tree from being pruned
+  workingDirectory: string;
+  createdAt: number;         // Timestamp (ms)
+  prompt?: string;           // Start of the message that began the turn
+  endTree?: string;          // git tree hash after the turn finished
+}
+
 export interface ConversationSession {
   ownerId: string;           // User who started the session
   ownerName?: string;        // Display name of owner
@@ -55,6 +88,7 @@ export interface ConversationSession {
   title?: string;
   // Model used for this session
   model?: string;
+  explicitModel?: boolean;   // Model was picked for this session, so workflow defaults don't replace it
   // Session expiry warning tracking
   warningMessageTs?: string;
   lastWarningSentAt?: number; // Which warning interval was last sent (in ms)
@@ -63,6 +97,9 @@ export interface ConversationSession {
   // Session state machine
   state?: SessionState;      // Current state (INITIALIZING -> MAIN)
   workflow?: WorkflowType;   // Determined workflow type
+  dispatch?: DispatchInfo;   // Dispatch classification behind the workflow
+  links?: SessionLinks;      // PR / Jira / Confluence the session is about
+  checkpoints?: TurnCheckpoint[]; // Oldest first
   // Token usage tracking
   usage?: SessionUsage;
   // Renew command state
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UsageLedger, UsageLedgerEntry } from './usage-ledger';
+
+const createEntry = (overrides: Partial<UsageLedgerEntry> = {}): UsageLedgerEntry => ({
+  timestamp: '2026-03-15T12:00:00.000Z',
+  userId: 'U1',
+  userName: 'Alice',
+  channelId: 'C1',
+  threadTs: '111.222',
+  workflow: 'default',
+  model: 'claude-sonnet-4-5-20250929',
+  inputTokens: 1000,
+  outputTokens: 200,
+  cacheReadTokens: 0,
+  cacheCreateTokens: 0,
+  costUsd: 0.5,
+  durationMs: 3000,
+  ...overrides,
+});
+
+describe('UsageLedger', () => {
+  let dataDir: string;
+  let ledger: UsageLedger;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-ledger-test-'));
+    ledger = new UsageLedger(dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should append entries and query them by time range', () => {
+    ledger.append(createEntry({ timestamp: '2026-03-14T23:59:59.000Z' }));
+    ledger.append(createEntry({ timestamp: '2026-03-15T00:00:00.000Z' }));
+    ledger.append(createEntry({ timestamp: '2026-03-16T00:00:00.000Z' }));
+
+    const entries = ledger.query({
+      from: new Date('2026-03-15T00:00:00Z'),
+      to: new Date('2026-03-16T00:00:00Z'),
+    });
+    expect(entries.map((e) => e.timestamp)).toEqual(['2026-03-15T00:00:00.000Z']);
+  });
+
+  it('should filter by user and skip corrupt lines', () => {
+    ledger.append(createEntry({ userId: 'U1' }));
+    fs.appendFileSync(path.join(dataDir, 'usage-ledger.jsonl'), '{"timestamp":\n');
+    ledger.append(createEntry({ userId: 'U2' }));
+
+    const entries = new UsageLedger(dataDir).query({
+      from: new Date(0),
+      to: new Date('2030-01-01T00:00:00Z'),
+      userId: 'U2',
+    });
+    expect(entries).toHaveLength(1);
+    expect(entries[0].userId).toBe('U2');
+  });
+
+  it('should summarize by group sorted by cost', () => {
+    const rows = UsageLedger.summarize(
+      [
+        createEntry({ workflow: 'pr-review', costUsd: 1 }),
+        createEntry({ workflow: 'default', costUsd: 0.25 }),
+        createEntry({ workflow: 'pr-review', costUsd: 2, inputTokens: 500 }),
+      ],
+      'workflow'
+    );
+
+    expect(rows).toEqual([
+      { key: 'pr-review', requests: 2, inputTokens: 1500, outputTokens: 400, costUsd: 3, durationMs: 6000 },
+      { key: 'default', requests: 1, inputTokens: 1000, outputTokens: 200, costUsd: 0.25, durationMs: 3000 },
+    ]);
+  });
+
+  it('should export CSV with a header and quoted fields', () => {
+    const csv = UsageLedger.toCsv([createEntry({ userName: 'Kim, "KJ"' })]);
+    const [header, row] = csv.trim().split('\n');
+
+    expect(header.split(',')[0]).toBe('timestamp');
+    expect(row).toContain('"Kim, ""KJ"""');
+    expect(row.endsWith(',0.5,3000')).toBe(true);
+  });
+});
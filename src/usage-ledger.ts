@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger.js';
+
+const logger = new Logger('UsageLedger');
+
+/**
+ * One completed request as recorded in the ledger
+ */
+export interface UsageLedgerEntry {
+  timestamp: string; // ISO date string (request completion)
+  userId: string;
+  userName?: string;
+  channelId: string;
+  threadTs?: string;
+  workflow: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreateTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+export type UsageGroupBy = 'user' | 'workflow' | 'model';
+
+/**
+ * Aggregated totals for one group
+ */
+export interface UsageSummaryRow {
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+export interface UsageQuery {
+  from: Date; // inclusive
+  to: Date; // exclusive
+  userId?: string;
+}
+
+const CSV_COLUMNS: (keyof UsageLedgerEntry)[] = [
+  'timestamp',
+  'userId',
+  'userName',
+  'channelId',
+  'threadTs',
+  'workflow',
+  'model',
+  'inputTokens',
+  'outputTokens',
+  'cacheReadTokens',
+  'cacheCreateTokens',
+  'costUsd',
+  'durationMs',
+];
+
+/**
+ * Append-only JSONL ledger of per-request usage
+ * Entries are never rewritten, so the file doubles as an audit trail for cost reports.
+ */
+export class UsageLedger {
+  private ledgerFile: string;
+
+  constructor(dataDir?: string) {
+    const dir = dataDir || path.join(process.cwd(), 'data');
+
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.ledgerFile = path.join(dir, 'usage-ledger.jsonl');
+  }
+
+  /**
+   * Append a single entry
+   */
+  append(entry: UsageLedgerEntry): void {
+    try {
+      fs.appendFileSync(this.ledgerFile, JSON.stringify(entry) + '\n', 'utf8');
+    } catch (error) {
+      logger.error('Failed to append usage ledger entry', error);
+    }
+  }
+
+  /**
+   * Read entries within a time range, skipping corrupt lines
+   */
+  query(query: UsageQuery): UsageLedgerEntry[] {
+    if (!fs.existsSync(this.ledgerFile)) {
+      return [];
+    }
+
+    const fromMs = query.from.getTime();
+    const toMs = query.to.getTime();
+    const entries: UsageLedgerEntry[] = [];
+
+    for (const line of fs.readFileSync(this.ledgerFile, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: UsageLedgerEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        logger.warn('Skipping corrupt usage ledger line', { preview: line.substring(0, 100) });
+        continue;
+      }
+
+      const time = new Date(entry.timestamp).getTime();
+      if (time < fromMs || time >= toMs) continue;
+      if (query.userId && entry.userId !== query.userId) continue;
+      entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Aggregate entries by user, workflow or model, sorted by cost (highest first)
+   */
+  static summarize(entries: UsageLedgerEntry[], groupBy: UsageGroupBy): UsageSummaryRow[] {
+    const rows = new Map<string, UsageSummaryRow>();
+
+    for (const entry of entries) {
+      const key =
+        groupBy === 'user' ? entry.userName || entry.userId : groupBy === 'workflow' ? entry.workflow : entry.model;
+
+      let row = rows.get(key);
+      if (!row) {
+        row = { key, requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, durationMs: 0 };
+        rows.set(key, row);
+      }
+      row.requests++;
+      row.inputTokens += entry.inputTokens;
+      row.outputTokens += entry.outputTokens;
+      row.costUsd += entry.costUsd;
+      row.durationMs += entry.durationMs;
+    }
+
+    return Array.from(rows.values()).sort((a, b) => b.costUsd - a.costUsd);
+  }
+
+  /**
+   * Render entries as CSV (RFC 4180 quoting)
+   */
+  static toCsv(entries: UsageLedgerEntry[]): string {
+    const escape = (value: unknown): string => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const entry of entries) {
+      lines.push(CSV_COLUMNS.map((column) => escape(entry[column])).join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+}
+
+// Singleton instance
+export const usageLedger = new UsageLedger();
@@ -25,6 +25,22 @@ export const MODEL_ALIASES: Record<string, ModelId> = {
 
 export const DEFAULT_MODEL: ModelId = 'claude-sonnet-4-5-20250929';
 
+// How much tool activity is posted to threads
+// quiet: one updating "Working: N tool calls" line, normal: tool calls and short results,
+// verbose: full inputs and results, debug: verbose plus raw tool input JSON and IDs
+export const VERBOSITY_LEVELS = ['quiet', 'normal', 'verbose', 'debug'] as const;
+
+export type Verbosity = typeof VERBOSITY_LEVELS[number];
+
+export const DEFAULT_VERBOSITY: Verbosity = 'normal';
+
+/**
+ * Check whether a string is a verbosity level
+ */
+export function isVerbosity(value: string): value is Verbosity {
+  return (VERBOSITY_LEVELS as readonly string[]).includes(value);
+}
+
 export interface UserSettings {
   userId: string;
   defaultDirectory: string;
@@ -32,6 +48,10 @@ export interface UserSettings {
   persona: string;  // persona file name (without .md extension)
   defaultModel: ModelId;  // default model for new sessions
   lastUpdated: string;
+  /** Permission rules the user chose to always allow (e.g., 'Bash(git status*)') */
+  permissionAllowRules?: string[];
+  /** Tool output level; unset falls back to the channel default */
+  verbosity?: Verbosity;
   // Jira integration
   jiraAccountId?: string;
   jiraName?: string;
@@ -51,6 +71,18 @@ interface SettingsData {
   [userId: string]: UserSettings;
 }
 
+/**
+ * Per-channel defaults for everyone in the channel
+ */
+export interface ChannelSettings {
+  verbosity?: Verbosity;
+  lastUpdated: string;
+}
+
+interface ChannelSettingsData {
+  [channelId: string]: ChannelSettings;
+}
+
 /**
  * File-based store for user settings persistence
  * Stores user preferences like default working directory
@@ -58,7 +90,9 @@ interface SettingsData {
 export class UserSettingsStore {
   private settingsFile: string;
   private mappingFile: string;
+  private channelSettingsFile: string;
   private settings: SettingsData = {};
+  private channelSettings: ChannelSettingsData = {};
   private slackJiraMapping: SlackJiraMapping = {};
 
   constructor(dataDir?: string) {
@@ -73,8 +107,10 @@ export class UserSettingsStore {
 
     this.settingsFile = path.join(dir, 'user-settings.json');
     this.mappingFile = path.join(dir, 'slack_jira_mapping.json');
+    this.channelSettingsFile = path.join(dir, 'channel-settings.json');
     this.loadSettings();
     this.loadSlackJiraMapping();
+    this.loadChannelSettings();
   }
 
   /**
@@ -119,6 +155,41 @@ export class UserSettingsStore {
     }
   }
 
+  /**
+   * Load channel settings from file
+   */
+  private loadChannelSettings(): void {
+    try {
+      if (fs.existsSync(this.channelSettingsFile)) {
+        this.channelSettings = JSON.parse(fs.readFileSync(this.channelSettingsFile, 'utf8'));
+        logger.info('Loaded channel settings', {
+          channelCount: Object.keys(this.channelSettings).length
+        });
+      } else {
+        this.channelSettings = {};
+      }
+    } catch (error) {
+      logger.error('Failed to load channel settings', error);
+      this.channelSettings = {};
+    }
+  }
+
+  /**
+   * Save channel settings to file
+   */
+  private saveChannelSettings(): void {
+    try {
+      fs.writeFileSync(
+        this.channelSettingsFile,
+        JSON.stringify(this.channelSettings, null, 2),
+        'utf8'
+      );
+      logger.debug('Saved channel settings to file');
+    } catch (error) {
+      logger.error('Failed to save channel settings', error);
+    }
+  }
+
   /**
    * Reload Slack-Jira mapping (for runtime updates)
    */
@@ -317,6 +388,117 @@ export class UserSettingsStore {
     logger.info('Set user default model', { userId, model });
   }
 
+  /**
+   * Get the permission rules a user always allows
+   */
+  getUserAllowRules(userId: string): string[] {
+    return this.settings[userId]?.permissionAllowRules ?? [];
+  }
+
+  /**
+   * Remember a permission rule the user always allows
+   */
+  addUserAllowRule(userId: string, rule: string): void {
+    if (!this.settings[userId]) {
+      this.settings[userId] = {
+        userId,
+        defaultDirectory: '',
+        bypassPermission: false,
+        persona: 'default',
+        defaultModel: DEFAULT_MODEL,
+        lastUpdated: new Date().toISOString(),
+      };
+    }
+    const rules = this.getUserAllowRules(userId);
+    if (!rules.includes(rule)) {
+      this.settings[userId].permissionAllowRules = [...rules, rule];
+    }
+    this.settings[userId].lastUpdated = new Date().toISOString();
+    this.saveSettings();
+    logger.info('Added user allow rule', { userId, rule });
+  }
+
+  /**
+   * Forget one always-allow rule, or all of them when no rule is given
+   * Returns the number of rules removed.
+   */
+  removeUserAllowRules(userId: string, rule?: string): number {
+    const rules = this.getUserAllowRules(userId);
+    const remaining = rule === undefined ? [] : rules.filter((r) => r !== rule);
+    const removed = rules.length - remaining.length;
+    if (removed > 0) {
+      this.settings[userId].permissionAllowRules = remaining;
+      this.settings[userId].lastUpdated = new Date().toISOString();
+      this.saveSettings();
+      logger.info('Removed user allow rules', { userId, rule, removed });
+    }
+    return removed;
+  }
+
+  /**
+   * Get user's own verbosity (undefined when not set)
+   */
+  getUserVerbosity(userId: string): Verbosity | undefined {
+    return this.settings[userId]?.verbosity;
+  }
+
+  /**
+   * Set user's verbosity, or clear it to follow the channel default
+   */
+  setUserVerbosity(userId: string, verbosity: Verbosity | undefined): void {
+    if (!this.settings[userId]) {
+      if (!verbosity) return;
+      this.settings[userId] = {
+        userId,
+        defaultDirectory: '',
+        bypassPermission: false,
+        persona: 'default',
+        defaultModel: DEFAULT_MODEL,
+        lastUpdated: new Date().toISOString(),
+      };
+    }
+    if (verbosity) {
+      this.settings[userId].verbosity = verbosity;
+    } else {
+      delete this.settings[userId].verbosity;
+    }
+    this.settings[userId].lastUpdated = new Date().toISOString();
+    this.saveSettings();
+    logger.info('Set user verbosity', { userId, verbosity });
+  }
+
+  /**
+   * Get a channel's default verbosity (undefined when not set)
+   */
+  getChannelVerbosity(channelId: string): Verbosity | undefined {
+    return this.channelSettings[channelId]?.verbosity;
+  }
+
+  /**
+   * Set a channel's default verbosity, or clear it
+   */
+  setChannelVerbosity(channelId: string, verbosity: Verbosity | undefined): void {
+    if (verbosity) {
+      this.channelSettings[channelId] = {
+        ...this.channelSettings[channelId],
+        verbosity,
+        lastUpdated: new Date().toISOString(),
+      };
+    } else if (this.channelSettings[channelId]) {
+      delete this.channelSettings[channelId].verbosity;
+      this.channelSettings[channelId].lastUpdated = new Date().toISOString();
+    }
+    this.saveChannelSettings();
+    logger.info('Set channel verbosity', { channelId, verbosity });
+  }
+
+  /**
+   * Verbosity for a request: the user's own setting, then the channel default
+   */
+  resolveVerbosity(userId: string, channelId: string): Verbosity {
+    return this.getUserVerbosity(userId) ?? this.getChannelVerbosity(channelId) ?? DEFAULT_VERBOSITY;
+  }
+
   /**
    * Parse and resolve model input (handle aliases)
    */
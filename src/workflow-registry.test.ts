@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WorkflowRegistry, WorkflowManifest, getWorkflowDirs } from './workflow-registry';
+
+const writeWorkflow = (
+  dir: string,
+  manifest: Partial<WorkflowManifest> & { name: string },
+  prompt: string | null = '# Prompt'
+) => {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${manifest.name}.json`), JSON.stringify(manifest));
+  if (prompt !== null) {
+    fs.writeFileSync(path.join(dir, `${manifest.name}.prompt`), prompt);
+  }
+};
+
+describe('WorkflowRegistry', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-registry-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should load every built-in workflow from its manifest', () => {
+    const registry = new WorkflowRegistry(getWorkflowDirs().slice(0, 1));
+
+    expect(registry.names()).toEqual([
+      'default',
+      'jira-brainstorming',
+      'jira-create-pr',
+      'jira-executive-summary',
+      'jira-planning',
+      'pr-docs-confluence',
+      'pr-fix-and-update',
+      'pr-review',
+    ]);
+    expect(registry.get('pr-review')?.promptPath).toMatch(/pr-review\.prompt$/);
+    expect(registry.get('default')?.promptPath).toBeUndefined();
+  });
+
+  it('should let a later directory add and override workflows', () => {
+    const builtin = path.join(tmpDir, 'builtin');
+    const team = path.join(tmpDir, 'team');
+    writeWorkflow(builtin, { name: 'pr-review', description: 'Review' });
+    writeWorkflow(team, { name: 'pr-review', description: 'Team review', model: 'opus' });
+    writeWorkflow(team, {
+      name: 'incident',
+      description: 'Triage an incident',
+      dispatchHints: ['PagerDuty 링크'],
+      allowedTools: ['Read', 'Grep'],
+    });
+
+    const registry = new WorkflowRegistry([builtin, team]);
+
+    expect(registry.names()).toEqual(['default', 'pr-review', 'incident']);
+    expect(registry.get('pr-review')?.description).toBe('Team review');
+    expect(registry.getDefaultModel('pr-review')).toBe('claude-opus-4-5-20251101');
+    expect(registry.get('incident')?.allowedTools).toEqual(['Read', 'Grep']);
+  });
+
+  it('should skip invalid manifests', () => {
+    writeWorkflow(tmpDir, { name: 'no-prompt', description: 'x' }, null);
+    writeWorkflow(tmpDir, { name: 'Bad Name', description: 'x' });
+    writeWorkflow(tmpDir, { name: 'default', description: 'x' });
+    fs.writeFileSync(path.join(tmpDir, 'broken.json'), '{');
+    writeWorkflow(tmpDir, { name: 'ok', description: 'Fine', model: 'gpt-4' });
+
+    const registry = new WorkflowRegistry([tmpDir]);
+
+    expect(registry.names()).toEqual(['default', 'ok']);
+    expect(registry.getDefaultModel('ok')).toBeUndefined();
+  });
+
+  it('should build the dispatch table with default as the catch-all', () => {
+    writeWorkflow(tmpDir, { name: 'incident', description: 'Triage an incident', dispatchHints: ['PagerDuty | Opsgenie 링크'] });
+    writeWorkflow(tmpDir, { name: 'release', description: 'Prepare release notes' });
+
+    const table = new WorkflowRegistry([tmpDir]).buildDispatchTable().split('\n');
+
+    expect(table.slice(2)).toEqual([
+      '| PagerDuty \\| Opsgenie 링크 | `incident` |',
+      '| Prepare release notes | `release` |',
+      '| 그 외 모든 경우 | `default` |',
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * WorkflowRegistry - Discovers workflows from prompt directories
+ * Each workflow is a `<name>.prompt` file plus a `<name>.json` manifest.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+import { WorkflowType } from './types';
+import { userSettingsStore } from './user-settings-store';
+
+export const DEFAULT_WORKFLOW: WorkflowType = 'default';
+
+// Built-in workflows shipped with the bot
+const BUILTIN_WORKFLOWS_DIR = path.join(__dirname, 'prompt', 'workflows');
+
+// Workflow names double as file names and Slack option values
+const WORKFLOW_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+/**
+ * Manifest file describing a workflow (`<name>.json` next to the prompt file)
+ */
+export interface WorkflowManifest {
+  name: string;
+  description: string;
+  /** Patterns the dispatcher should route here, one table row each */
+  dispatchHints?: string[];
+  /** Regexes (case-insensitive) that route here without asking the dispatch model */
+  dispatchRules?: string[];
+  /** Default model for sessions in this workflow (model ID or alias) */
+  model?: string;
+  /**
+   * Built-in tools available in this workflow (e.g., Read, Grep); others are removed
+   * Not a pre-approval: every call still goes through the permission prompt and policy.
+   * MCP tools (`mcp__*`) are not limited here.
+   */
+  allowedTools?: string[];
+}
+
+/**
+ * A registered workflow
+ */
+export interface WorkflowDefinition extends WorkflowManifest {
+  promptPath?: string; // Absent for the default workflow (uses the system prompt)
+}
+
+const DEFAULT_DEFINITION: WorkflowDefinition = {
+  name: DEFAULT_WORKFLOW,
+  description: 'General conversation with the default system prompt',
+  dispatchHints: ['그 외 모든 경우'],
+};
+
+/**
+ * Directories scanned for workflows, later ones overriding earlier ones
+ * WORKFLOWS_DIR adds a directory outside the source tree (e.g., team workflows).
+ */
+export function getWorkflowDirs(): string[] {
+  const dirs = [BUILTIN_WORKFLOWS_DIR];
+  if (process.env.WORKFLOWS_DIR) {
+    dirs.push(path.resolve(process.env.WORKFLOWS_DIR));
+  }
+  return dirs;
+}
+
+/**
+ * Registry of available workflows
+ * Loaded lazily on first use; the default workflow is always present.
+ */
+export class WorkflowRegistry {
+  private logger = new Logger('WorkflowRegistry');
+  private workflows: Map<WorkflowType, WorkflowDefinition> | undefined;
+
+  constructor(private dirs: string[] = getWorkflowDirs()) {}
+
+  /**
+   * Re-scan the workflow directories
+   */
+  reload(): number {
+    const workflows = new Map<WorkflowType, WorkflowDefinition>([[DEFAULT_WORKFLOW, DEFAULT_DEFINITION]]);
+
+    for (const dir of this.dirs) {
+      if (!fs.existsSync(dir)) {
+        this.logger.warn('Workflow directory not found', { dir });
+        continue;
+      }
+
+      for (const file of fs.readdirSync(dir).sort()) {
+        if (!file.endsWith('.json')) continue;
+
+        const definition = this.loadManifest(path.join(dir, file));
+        if (definition) {
+          if (workflows.has(definition.name)) {
+            this.logger.info('Workflow overridden', { name: definition.name, dir });
+          }
+          workflows.set(definition.name, definition);
+        }
+      }
+    }
+
+    this.workflows = workflows;
+    this.logger.info('Loaded workflows', { count: workflows.size, names: [...workflows.keys()] });
+    return workflows.size;
+  }
+
+  /**
+   * All workflows, default first
+   */
+  list(): WorkflowDefinition[] {
+    return [...this.load().values()];
+  }
+
+  names(): WorkflowType[] {
+    return [...this.load().keys()];
+  }
+
+  get(name: WorkflowType): WorkflowDefinition | undefined {
+    return this.load().get(name);
+  }
+
+  has(name: string): boolean {
+    return this.load().has(name);
+  }
+
+  /**
+   * Model ID a workflow defaults to, if its manifest sets one
+   */
+  getDefaultModel(name: WorkflowType | undefined): string | undefined {
+    return name ? this.get(name)?.model : undefined;
+  }
+
+  /**
+   * Routing table for the dispatch prompt, built from the manifests' dispatch hints
+   * The default workflow comes last as the catch-all.
+   */
+  buildDispatchTable(): string {
+    const rows = ['| 패턴 | 워크플로우 |', '|------|------------|'];
+    const ordered = [...this.list().filter((w) => w.name !== DEFAULT_WORKFLOW), this.get(DEFAULT_WORKFLOW)!];
+
+    for (const workflow of ordered) {
+      const hints = workflow.dispatchHints?.length ? workflow.dispatchHints : [workflow.description];
+      for (const hint of hints) {
+        rows.push(`| ${hint.replace(/\|/g, '\\|')} | \`${workflow.name}\` |`);
+      }
+    }
+    return rows.join('\n');
+  }
+
+  private load(): Map<WorkflowType, WorkflowDefinition> {
+    if (!this.workflows) {
+      this.reload();
+    }
+    return this.workflows!;
+  }
+
+  /**
+   * Read and validate one manifest; invalid manifests are skipped with a warning
+   */
+  private loadManifest(manifestPath: string): WorkflowDefinition | undefined {
+    let manifest: Partial<WorkflowManifest>;
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch (error) {
+      this.logger.warn('Skipping unreadable workflow manifest', { manifestPath, error: (error as Error).message });
+      return undefined;
+    }
+
+    const name = manifest.name ?? path.basename(manifestPath, '.json');
+    if (typeof name !== 'string' || !WORKFLOW_NAME_PATTERN.test(name) || name === DEFAULT_WORKFLOW) {
+      this.logger.warn('Skipping workflow with invalid name', { manifestPath, name });
+      return undefined;
+    }
+
+    const promptPath = path.join(path.dirname(manifestPath), `${name}.prompt`);
+    if (!fs.existsSync(promptPath)) {
+      this.logger.warn('Skipping workflow without prompt file', { name, promptPath });
+      return undefined;
+    }
+
+    let model: string | undefined;
+    if (manifest.model) {
+      model = userSettingsStore.resolveModelInput(String(manifest.model)) ?? undefined;
+      if (!model) {
+        this.logger.warn('Ignoring unknown workflow model', { name, model: manifest.model });
+      }
+    }
+
+    const dispatchRules = Array.isArray(manifest.dispatchRules)
+      ? manifest.dispatchRules.filter((pattern): pattern is string => {
+          if (typeof pattern !== 'string' || pattern === '') return false;
+          try {
+            new RegExp(pattern, 'i');
+            return true;
+          } catch {
+            this.logger.warn('Ignoring invalid workflow dispatch rule', { name, pattern });
+            return false;
+          }
+        })
+      : undefined;
+
+    return {
+      name,
+      description: typeof manifest.description === 'string' ? manifest.description : '',
+      dispatchHints: Array.isArray(manifest.dispatchHints)
+        ? manifest.dispatchHints.filter((hint): hint is string => typeof hint === 'string' && hint.trim() !== '')
+        : undefined,
+      dispatchRules,
+      model,
+      allowedTools: Array.isArray(manifest.allowedTools)
+        ? manifest.allowedTools.filter((tool): tool is string => typeof tool === 'string')
+        : undefined,
+      promptPath,
+    };
+  }
+}
+
+// Singleton instance
+export const workflowRegistry = new WorkflowRegistry();